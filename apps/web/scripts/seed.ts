@@ -15,7 +15,7 @@ const seedData = {
   campaigns: [
     { id: 'c1', title: 'Fall Footwear Launch', status: 'draft', owner_id: 'planner1' },
     { id: 'c2', title: 'Holiday Promo', status: 'approved', owner_id: 'planner1' },
-    { id: 'c3', title: 'AI-Generated Suggestion', status: 'in_review', owner_id: 'planner1' },
+    { id: 'c3', title: 'AI-Generated Suggestion', status: 'in-review', owner_id: 'planner1' },
   ],
   governance: [
     { id: 'g1', campaign_ref: 'campaigns/c2', rule_id: 'budget.check', severity: 'amber' },
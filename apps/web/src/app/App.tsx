@@ -17,6 +17,7 @@ const GovernancePage = React.lazy(() => import('@/routes/GovernancePage'));
 const CalendarPage = React.lazy(() => import('@/routes/CalendarPage'));
 const AssignmentPage = React.lazy(() => import('@/routes/AssignmentPage'));
 const AdminWrikeSchemaPage = React.lazy(() => import('@/routes/admin/WrikeSchemaPage'));
+const AdminWrikeConflictsPage = React.lazy(() => import('@/routes/admin/WrikeConflictsPage'));
 const DataPage = React.lazy(() => import('@/routes/DataPage'));
 const LoginPage = React.lazy(() => import('@/routes/LoginPage'));
 
@@ -122,6 +123,8 @@ function getRouteComponent(path: string) {
       return AssignmentPage;
     case '/data':
       return DataPage;
+    case '/admin/wrike-conflicts':
+      return AdminWrikeConflictsPage;
     default:
       return () => <div>Route not implemented: {path}</div>;
   }
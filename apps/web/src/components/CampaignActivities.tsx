@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Plus, Link2 } from 'lucide-react';
+import { campaignActivitiesApi, CampaignActivity } from '@/lib/api';
+import { trackUserAction } from '@/lib/telemetry';
+import { formatShort } from '@/lib/dateSafe';
+
+const CHANNELS = ['Email', 'Social', 'Banner', 'Push'] as const;
+
+interface CampaignActivitiesProps {
+  campaignId: string;
+  assignedTo?: string | undefined; // new activities start with the campaign's assignee
+}
+
+/**
+ * Activities of one campaign, stored under campaigns/{id}/activities. The
+ * wrikeSync job creates a Wrike task for each new activity and keeps its
+ * status, due date and assignee in sync.
+ */
+export default function CampaignActivities({ campaignId, assignedTo }: CampaignActivitiesProps) {
+  const queryClient = useQueryClient();
+  const [title, setTitle] = useState('');
+  const [channel, setChannel] = useState<string>(CHANNELS[0]);
+  const [dueDate, setDueDate] = useState('');
+
+  const queryKey = ['campaignActivities', campaignId];
+  const { data: activities = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: () => campaignActivitiesApi(campaignId).getAll(),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (data: Omit<CampaignActivity, 'id'>) =>
+      campaignActivitiesApi(campaignId).create(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      trackUserAction('campaign_activity_created');
+      setTitle('');
+      setDueDate('');
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent): void => {
+    e.preventDefault();
+    if (!title.trim()) return;
+    createMutation.mutate({
+      title: title.trim(),
+      channel,
+      status: 'active',
+      dueDate: dueDate ? new Date(`${dueDate}T00:00:00.000Z`) : null,
+      ...(assignedTo ? { assignedTo } : {}),
+    });
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-secondary-200 space-y-3">
+      <h4 className="text-sm font-semibold text-secondary-900">Activities</h4>
+
+      {isLoading ? (
+        <p className="text-xs text-secondary-500">Loading activities...</p>
+      ) : activities.length === 0 ? (
+        <p className="text-xs text-secondary-500">No activities yet</p>
+      ) : (
+        <ul className="space-y-2">
+          {activities.map(activity => (
+            <li key={activity.id} className="flex items-center justify-between text-sm">
+              <span className="text-secondary-800">
+                {activity.title}
+                {activity.channel && (
+                  <span className="text-secondary-500"> · {activity.channel}</span>
+                )}
+              </span>
+              <span className="flex items-center space-x-2 text-xs text-secondary-500">
+                <span>{activity.status ?? 'active'}</span>
+                {activity.dueDate && <span>Due {formatShort(activity.dueDate)}</span>}
+                {activity.wrikeTaskId && (
+                  <span title="Linked to a Wrike task">
+                    <Link2 className="h-3 w-3" />
+                  </span>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex items-center space-x-2">
+        <input
+          type="text"
+          aria-label="Activity title"
+          placeholder="New activity"
+          value={title}
+          onChange={e => setTitle(e.target.value)}
+          className="input flex-1"
+        />
+        <select
+          aria-label="Activity channel"
+          value={channel}
+          onChange={e => setChannel(e.target.value)}
+          className="input w-auto"
+        >
+          {CHANNELS.map(option => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+        <input
+          type="date"
+          aria-label="Activity due date"
+          value={dueDate}
+          onChange={e => setDueDate(e.target.value)}
+          className="input w-auto"
+        />
+        <button
+          type="submit"
+          disabled={!title.trim() || createMutation.isPending}
+          className="btn-secondary flex items-center space-x-1"
+        >
+          <Plus className="h-4 w-4" />
+          <span>Add</span>
+        </button>
+      </form>
+      {createMutation.isError && (
+        <p className="text-xs text-danger-600">Failed to add the activity</p>
+      )}
+    </div>
+  );
+}
@@ -10,7 +10,7 @@ export const FLAGS = {
   TBAC_ENABLED: true,
   AUTO_APPROVAL: false,
   AUDIT_LOGGING: true,
-  IMMUTABLE_LOGS: true,
+  IMMUTABLE_LOGS: true, // Audit entries are hash-chained by functions (lib/auditLedger)
   
   // Integration Features
   WRIKE_EXPORT: true,
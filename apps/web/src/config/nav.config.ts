@@ -9,7 +9,8 @@ import {
   FileText,
   BarChart3,
   Users,
-  Zap
+  Zap,
+  GitMerge
 } from 'lucide-react';
 
 export interface NavItem {
@@ -106,6 +107,15 @@ export const NAV = {
           requiresAuth: true,
           roles: ['admin'],
         },
+        {
+          id: 'wrike-conflicts',
+          label: 'Wrike Conflicts',
+          path: '/admin/wrike-conflicts',
+          icon: GitMerge,
+          description: 'Resolve fields changed in both Vizzy and Wrike',
+          requiresAuth: true,
+          roles: ['admin'],
+        },
         {
           id: 'analytics',
           label: 'Analytics',
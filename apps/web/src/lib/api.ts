@@ -16,6 +16,16 @@ import { httpsCallable } from 'firebase/functions';
 import { isUsingMocks, createFirebase } from '@/lib/firebase';
 import { trackApiCall, trackError } from '@/lib/telemetry';
 import { mockApi } from '@/lib/mockData';
+import type { ValidateCampaignRequest, ValidateCampaignResult, ValidationFinding } from '@/schemas/validation';
+import type {
+  ApproveCampaignRequest,
+  ApproveCampaignResult,
+  BulkReviewDecisionRequest,
+  BulkReviewDecisionResult,
+  ReassignReviewRequest,
+  ReassignReviewResult,
+} from '@/schemas/review';
+import type { AuditLog, AuditLogInput, AuditLogPage, AuditLogQuery } from '@shared/auditLog';
 
 // Check if we're in development mode and should use mock data
 const useMockData = isUsingMocks();
@@ -41,11 +51,111 @@ export interface PaginatedResponse<T> extends ApiResponse<T[]> {
 
 // Callable functions
 export const callables = {
-  validateCampaign: httpsCallable(functions, 'validateCampaign'),
-  submitForReview: httpsCallable(functions, 'submitForReview'),
-  approveCampaign: httpsCallable(functions, 'approveCampaign'),
+  validateCampaign: httpsCallable<ValidateCampaignRequest, ValidateCampaignResult>(
+    functions,
+    'validateCampaign'
+  ),
+  submitForReview: httpsCallable<
+    {
+      campaignId: string;
+      reviewType?: string;
+      priority?: string;
+      notes?: string;
+      reviewId?: string;
+      idempotencyKey?: string;
+    },
+    {
+      success: boolean;
+      reviewId: string;
+      chainId: string;
+      round: number;
+      findings: ValidationFinding[];
+    }
+  >(functions, 'submitForReview'),
+  approveCampaign: httpsCallable<ApproveCampaignRequest, ApproveCampaignResult>(
+    functions,
+    'approveCampaign'
+  ),
+  bulkReviewDecision: httpsCallable<BulkReviewDecisionRequest, BulkReviewDecisionResult>(
+    functions,
+    'bulkReviewDecision'
+  ),
   exportToWrike: httpsCallable(functions, 'exportToWrike'),
   aiSuggest: httpsCallable(functions, 'aiSuggest'),
+  getComplianceReport: httpsCallable(functions, 'getComplianceReport'),
+  overrideGovernanceRule: httpsCallable(functions, 'overrideGovernanceRule'),
+  revokeGovernanceOverride: httpsCallable(functions, 'revokeGovernanceOverride'),
+  validateSchedule: httpsCallable(functions, 'validateSchedule'),
+  reassignReview: httpsCallable<ReassignReviewRequest, ReassignReviewResult>(
+    functions,
+    'reassignReview'
+  ),
+  transitionCampaign: httpsCallable<
+    {
+      campaignId: string;
+      event: 'activate' | 'complete' | 'reopen';
+      reason?: string;
+      idempotencyKey?: string;
+    },
+    { success: boolean; previousStatus: string; newStatus: string }
+  >(functions, 'transitionCampaign'),
+  migrateCampaignStatuses: httpsCallable<
+    { dryRun?: boolean; pageSize?: number; startAfter?: string },
+    {
+      dryRun: boolean;
+      scanned: number;
+      changes: Array<{ campaignId: string; from: string | null; to: string }>;
+      unknown: Array<{ campaignId: string; status: unknown }>;
+      nextCursor: string | null;
+    }
+  >(functions, 'migrateCampaignStatuses'),
+  verifyAuditLedger: httpsCallable<
+    { maxEntries?: number },
+    | { valid: true; verified: number; head: { sequence: number; hash: string } }
+    | {
+        valid: false;
+        verified: number;
+        brokenAt: { id?: string; sequence: number; reason: string };
+      }
+  >(functions, 'verifyAuditLedger'),
+  writeAuditLog: httpsCallable<Omit<AuditLogInput, 'userId'>, AuditLog>(functions, 'writeAuditLog'),
+  listAuditLogs: httpsCallable<AuditLogQuery, AuditLogPage>(functions, 'listAuditLogs'),
+  exportAuditBundle: httpsCallable<
+    { from: string; to: string },
+    {
+      bundleId: string;
+      manifest: { fromSequence: number; toSequence: number; entryCount: number; checkpointCount: number };
+      files: Array<{ name: string; path: string; url: string }>;
+    }
+  >(functions, 'exportAuditBundle'),
+  setLegalHold: httpsCallable<
+    { subject: 'campaign' | 'user'; subjectId: string; hold: boolean; reason: string },
+    {
+      subject: 'campaign' | 'user';
+      subjectId: string;
+      legalHold: { active: true; reason: string; placedBy: string; placedAt: string } | null;
+    }
+  >(functions, 'setLegalHold'),
+  resolveWrikeConflict: httpsCallable<
+    { conflictId: string; keep: 'vizzy' | 'wrike' },
+    {
+      conflictId: string;
+      field: 'status' | 'dueDate' | 'assignedTo';
+      keep: 'vizzy' | 'wrike';
+      value: string | null;
+    }
+  >(functions, 'resolveWrikeConflict'),
+  manageWrikeWebhook: httpsCallable<
+    { action: 'check' | 'register' },
+    {
+      connected: boolean;
+      hookUrl: string | null;
+      webhook: { id: string; status: 'Active' | 'Suspended'; folderId?: string } | null;
+      lastEventAt: string | null;
+      lastEventType: string | null;
+      pendingEvents: number;
+    }
+  >(functions, 'manageWrikeWebhook'),
 };
 
 // Generic API error class
@@ -399,3 +509,19 @@ export const campaignsApi = new ApiService('campaigns');
 export const aiSuggestionsApi = new ApiService('aiSuggestions');
 export const governanceApi = new ApiService('governance');
 export const usersApi = new ApiService('users');
+export const wrikeConflictsApi = new ApiService('wrikeConflicts');
+
+// A campaign's activities; the wrikeSync job links each one to a Wrike task
+export interface CampaignActivity {
+  id: string;
+  title: string;
+  channel?: string;
+  description?: string;
+  status?: 'active' | 'completed' | 'deferred' | 'cancelled';
+  dueDate?: Date | null;
+  assignedTo?: string;
+  wrikeTaskId?: string; // set by wrikeSync only
+}
+
+export const campaignActivitiesApi = (campaignId: string) =>
+  new ApiService<CampaignActivity>(`campaigns/${campaignId}/activities`);
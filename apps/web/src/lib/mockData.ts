@@ -93,7 +93,7 @@ export const mockCampaigns = [
     owner_id: 'planner1',
     team_id: 'team-west',
     store_id: 's001',
-    status: 'in_review',
+    status: 'in-review',
     governance: { hits: 0, overrides: [] },
     wrike_task_id: null,
     schema_version: 'v4',
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { ValidationFindingSchema, type ValidationFinding } from '@/schemas/validation';
+
+// Findings that are not anchored to a field (permissions, workflow state) are
+// grouped under this key so forms can render them in a summary banner.
+export const GENERAL_FINDINGS_KEY = '_general';
+
+const FindingsDetailsSchema = z.object({
+  findings: z.array(ValidationFindingSchema),
+});
+
+/**
+ * Group findings by field path so form inputs can highlight their own issues
+ * @param findings - Findings returned by validateCampaign/submitForReview
+ * @returns Map of field path to findings, blocking findings first
+ */
+export function groupFindingsByField(
+  findings: ValidationFinding[]
+): Record<string, ValidationFinding[]> {
+  const severityOrder = { block: 0, warn: 1, info: 2 } as const;
+  const grouped: Record<string, ValidationFinding[]> = {};
+
+  for (const finding of findings) {
+    const key = finding.field ?? GENERAL_FINDINGS_KEY;
+    (grouped[key] ??= []).push(finding);
+  }
+
+  for (const list of Object.values(grouped)) {
+    list.sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
+  }
+
+  return grouped;
+}
+
+/**
+ * Extract structured findings from a failed submitForReview call
+ * @param error - Error thrown by the callable (FunctionsError carries `details`)
+ * @returns Findings, or an empty array when the error carries none
+ */
+export function getFindingsFromError(error: unknown): ValidationFinding[] {
+  const details = (error as { details?: unknown } | null)?.details;
+  const parsed = FindingsDetailsSchema.safeParse(details);
+  return parsed.success ? parsed.data.findings : [];
+}
+
+export function hasBlockingFindings(findings: ValidationFinding[]): boolean {
+  return findings.some(finding => finding.severity === 'block');
+}
@@ -1,39 +1,96 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Shield, CheckCircle, XCircle, Clock, FileText, User, Calendar } from 'lucide-react';
+import {
+  Shield,
+  CheckCircle,
+  XCircle,
+  Clock,
+  FileText,
+  User,
+  Calendar,
+  MessageSquare,
+  UserCheck,
+  AlertTriangle,
+} from 'lucide-react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { governanceApi, callables } from '@/lib/api';
 import { trackUserAction, trackFeatureUsage } from '@/lib/telemetry';
+import type {
+  BulkReviewDecisionResult,
+  ReviewComment,
+  ReviewSla,
+  ReviewStage,
+  ReviewSubmission,
+} from '@/schemas/review';
+
+// Matches the default policy's at-risk threshold (75% of the target elapsed)
+const SLA_AT_RISK_RATIO = 0.75;
+
+// Matches the bulkReviewDecision callable's per-call limit
+const MAX_BULK_REVIEWS = 50;
+
+type BulkDecision = 'approve' | 'reject' | 'request_changes';
 
 interface GovernanceItem {
   id: string;
   type: 'campaign_approval' | 'content_review' | 'policy_change';
   title: string;
   description: string;
-  status: 'pending' | 'approved' | 'rejected';
+  status: 'pending' | 'approved' | 'rejected' | 'changes_requested';
   submittedBy: string;
   submittedAt: Date;
   reviewedBy?: string;
   reviewedAt?: Date;
   priority: 'low' | 'medium' | 'high';
+  campaignId?: string;
+  chainName?: string;
+  stages?: ReviewStage[];
+  currentStage?: number;
+  submissions?: ReviewSubmission[];
+  comments?: ReviewComment[];
+  sla?: ReviewSla;
   metadata?: Record<string, unknown>;
 }
 
 export default function GovernancePage(): JSX.Element {
-  const [filter, setFilter] = useState<'all' | 'pending' | 'approved' | 'rejected'>('pending');
+  const [filter, setFilter] = useState<
+    'all' | 'pending' | 'approved' | 'rejected' | 'changes_requested'
+  >('pending');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkReason, setBulkReason] = useState('');
+  const [bulkResult, setBulkResult] = useState<BulkReviewDecisionResult | null>(null);
+  const [exportRange, setExportRange] = useState({ from: '', to: '' });
   const queryClient = useQueryClient();
 
   // Fetch governance items
   const { data: items = [], isLoading } = useQuery({
     queryKey: ['governance', filter],
-    queryFn: () => governanceApi.getAll({ status: filter === 'all' ? undefined : filter }),
+    queryFn: async () =>
+      (await governanceApi.getAll({
+        status: filter === 'all' ? undefined : filter,
+      })) as GovernanceItem[],
     staleTime: 1 * 60 * 1000, // 1 minute
   });
 
-  // Approve item mutation
+  // Approve item mutation. Each decision carries an idempotency key generated per
+  // click, so a retried request cannot decide a stage twice
   const approveMutation = useMutation({
-    mutationFn: async (id: string) => {
-      const result = await callables.approveCampaign({ itemId: id });
+    mutationFn: async ({
+      item,
+      reason,
+      idempotencyKey,
+    }: {
+      item: GovernanceItem;
+      reason: string;
+      idempotencyKey: string;
+    }) => {
+      const result = await callables.approveCampaign({
+        campaignId: item.campaignId ?? '',
+        reviewId: item.id,
+        approvalType: 'approve',
+        reason,
+        idempotencyKey,
+      });
       return result.data;
     },
     onSuccess: () => {
@@ -44,9 +101,23 @@ export default function GovernancePage(): JSX.Element {
 
   // Reject item mutation
   const rejectMutation = useMutation({
-    mutationFn: async ({ id, reason }: { id: string; reason: string }) => {
-      // TODO: Implement reject callable
-      console.log('Rejecting item:', id, reason);
+    mutationFn: async ({
+      item,
+      reason,
+      idempotencyKey,
+    }: {
+      item: GovernanceItem;
+      reason: string;
+      idempotencyKey: string;
+    }) => {
+      const result = await callables.approveCampaign({
+        campaignId: item.campaignId ?? '',
+        reviewId: item.id,
+        approvalType: 'reject',
+        reason,
+        idempotencyKey,
+      });
+      return result.data;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['governance'] });
@@ -54,17 +125,229 @@ export default function GovernancePage(): JSX.Element {
     },
   });
 
-  const handleApprove = (id: string): void => {
-    approveMutation.mutate(id);
+  // Request changes mutation; the campaign goes back to draft for the editor
+  const requestChangesMutation = useMutation({
+    mutationFn: async ({
+      item,
+      field,
+      message,
+      idempotencyKey,
+    }: {
+      item: GovernanceItem;
+      field: string;
+      message: string;
+      idempotencyKey: string;
+    }) => {
+      const result = await callables.approveCampaign({
+        campaignId: item.campaignId ?? '',
+        reviewId: item.id,
+        approvalType: 'request_changes',
+        reason: message,
+        comments: [{ ...(field ? { field } : {}), message }],
+        idempotencyKey,
+      });
+      return result.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['governance'] });
+      trackUserAction('governance_changes_requested');
+    },
+  });
+
+  // Reassign mutation; delegates the current stage to a named reviewer
+  const reassignMutation = useMutation({
+    mutationFn: async ({
+      item,
+      toUid,
+      reason,
+    }: {
+      item: GovernanceItem;
+      toUid: string;
+      reason: string;
+    }) => {
+      const result = await callables.reassignReview({ reviewId: item.id, toUid, reason });
+      return result.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['governance'] });
+      trackUserAction('governance_reassigned');
+    },
+  });
+
+  // Bulk decision mutation; one shared reason, per-item results
+  const bulkMutation = useMutation({
+    mutationFn: async ({
+      selected,
+      approvalType,
+      reason,
+      idempotencyKey,
+    }: {
+      selected: GovernanceItem[];
+      approvalType: BulkDecision;
+      reason: string;
+      idempotencyKey: string;
+    }) => {
+      const result = await callables.bulkReviewDecision({
+        reviews: selected.map((item) => ({
+          reviewId: item.id,
+          campaignId: item.campaignId ?? '',
+        })),
+        approvalType,
+        reason,
+        ...(approvalType === 'request_changes' ? { comments: [{ message: reason }] } : {}),
+        idempotencyKey,
+      });
+      return result.data;
+    },
+    onSuccess: (data, { approvalType }) => {
+      queryClient.invalidateQueries({ queryKey: ['governance'] });
+      trackUserAction(`governance_bulk_${approvalType}`);
+      setBulkResult(data);
+      // Failed items stay selected so they can be retried or handled one by one
+      setSelectedIds(
+        new Set(data.results.filter((result) => !result.success).map((result) => result.reviewId))
+      );
+      if (data.failed === 0) setBulkReason('');
+    },
+  });
+
+  // Signed audit bundle for external auditors; the server checks the caller is an admin or auditor
+  const exportMutation = useMutation({
+    mutationFn: async (range: { from: string; to: string }) =>
+      (await callables.exportAuditBundle(range)).data,
+    onSuccess: (data) =>
+      trackFeatureUsage('audit_bundle', 'export', { entryCount: data.manifest.entryCount }),
+  });
+
+  // Only pending reviews tied to a campaign can be decided in bulk
+  const selectableItems = items.filter(
+    (item: GovernanceItem) => item.status === 'pending' && Boolean(item.campaignId)
+  );
+  const selectedItems = selectableItems.filter((item: GovernanceItem) => selectedIds.has(item.id));
+
+  const toggleSelected = (item: GovernanceItem): void => {
+    setSelectedIds((previous) => {
+      const next = new Set(previous);
+      if (next.has(item.id)) {
+        next.delete(item.id);
+      } else {
+        next.add(item.id);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelectAll = (): void => {
+    setSelectedIds(
+      selectedItems.length === selectableItems.length
+        ? new Set()
+        : new Set(
+            selectableItems.slice(0, MAX_BULK_REVIEWS).map((item: GovernanceItem) => item.id)
+          )
+    );
+  };
+
+  const handleBulkDecision = (approvalType: BulkDecision): void => {
+    const reason = bulkReason.trim();
+    if (!reason || selectedItems.length === 0) return;
+    bulkMutation.mutate({
+      selected: selectedItems,
+      approvalType,
+      reason,
+      idempotencyKey: crypto.randomUUID(),
+    });
+  };
+
+  const handleApprove = (item: GovernanceItem): void => {
+    const reason = prompt('Approval note:');
+    if (reason) {
+      approveMutation.mutate({ item, reason, idempotencyKey: crypto.randomUUID() });
+    }
   };
 
-  const handleReject = (id: string): void => {
+  const handleReject = (item: GovernanceItem): void => {
     const reason = prompt('Reason for rejection:');
     if (reason) {
-      rejectMutation.mutate({ id, reason });
+      rejectMutation.mutate({ item, reason, idempotencyKey: crypto.randomUUID() });
     }
   };
 
+  const handleRequestChanges = (item: GovernanceItem): void => {
+    const field = prompt('Field to comment on (e.g. contentPacket.subjectLine), blank for general:');
+    if (field === null) return;
+    const message = prompt('What needs to change?');
+    if (message) {
+      requestChangesMutation.mutate({
+        item,
+        field: field.trim(),
+        message,
+        idempotencyKey: crypto.randomUUID(),
+      });
+    }
+  };
+
+  const handleReassign = (item: GovernanceItem): void => {
+    const toUid = prompt('Reassign the current stage to (user ID):');
+    if (!toUid?.trim()) return;
+    const reason = prompt('Reason for reassignment:');
+    if (reason) {
+      reassignMutation.mutate({ item, toUid: toUid.trim(), reason });
+    }
+  };
+
+  const formatDuration = (ms: number): string => {
+    const minutes = Math.round(Math.abs(ms) / (1000 * 60));
+    if (minutes < 60) return `${minutes}m`;
+    const hours = Math.floor(minutes / 60);
+    return hours < 48 ? `${hours}h ${minutes % 60}m` : `${Math.floor(hours / 24)}d`;
+  };
+
+  // Time left on the current stage's SLA, or how long it has been breached
+  const getSlaBadge = (
+    item: GovernanceItem
+  ): { label: string; className: string; breached: boolean } | null => {
+    if (item.status !== 'pending' || !item.sla) return null;
+
+    const started = new Date(item.sla.startedAt).getTime();
+    const due = new Date(item.sla.dueAt).getTime();
+    const remaining = due - Date.now();
+    const escalated = item.sla.escalationLevel > 0 ? ' · escalated' : '';
+
+    if (remaining <= 0) {
+      return {
+        label: `SLA breached ${formatDuration(remaining)} ago${escalated}`,
+        className: 'bg-danger-100 text-danger-800',
+        breached: true,
+      };
+    }
+
+    const atRisk = (Date.now() - started) / Math.max(due - started, 1) >= SLA_AT_RISK_RATIO;
+    return {
+      label: `${formatDuration(remaining)} left${escalated}`,
+      className: atRisk ? 'bg-warning-100 text-warning-800' : 'bg-secondary-100 text-secondary-800',
+      breached: false,
+    };
+  };
+
+  // Fields changed in the latest resubmission, for reviewers comparing rounds
+  const getLatestChanges = (item: GovernanceItem): ReviewSubmission | null => {
+    const latest = item.submissions?.[item.submissions.length - 1];
+    return latest && latest.round > 1 ? latest : null;
+  };
+
+  // A conflicted admin approved the current stage; someone else has to confirm it
+  const isAwaitingSecondSignOff = (item: GovernanceItem): boolean => {
+    const exception = item.stages?.[item.currentStage ?? 0]?.dutyException;
+    return Boolean(exception && !exception.confirmedBy);
+  };
+
+  // Reviews created before approval chains have no stages
+  const getStageLabel = (item: GovernanceItem): string | null => {
+    const stage = item.stages?.[item.currentStage ?? 0];
+    if (!item.stages || item.stages.length < 2 || !stage) return null;
+    return `Stage ${(item.currentStage ?? 0) + 1} of ${item.stages.length}: ${stage.name}`;
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'pending':
@@ -73,6 +356,8 @@ export default function GovernancePage(): JSX.Element {
         return CheckCircle;
       case 'rejected':
         return XCircle;
+      case 'changes_requested':
+        return MessageSquare;
       default:
         return Clock;
     }
@@ -86,6 +371,8 @@ export default function GovernancePage(): JSX.Element {
         return 'bg-success-100 text-success-800';
       case 'rejected':
         return 'bg-danger-100 text-danger-800';
+      case 'changes_requested':
+        return 'bg-primary-100 text-primary-800';
       default:
         return 'bg-secondary-100 text-secondary-800';
     }
@@ -138,11 +425,157 @@ export default function GovernancePage(): JSX.Element {
             Review and approve campaign changes and policy updates
           </p>
         </div>
+        <div className="flex items-center space-x-2">
+          <input
+            type="date"
+            aria-label="Audit export from"
+            value={exportRange.from}
+            onChange={(e) => setExportRange((range) => ({ ...range, from: e.target.value }))}
+            className="input text-sm"
+          />
+          <input
+            type="date"
+            aria-label="Audit export to"
+            value={exportRange.to}
+            onChange={(e) => setExportRange((range) => ({ ...range, to: e.target.value }))}
+            className="input text-sm"
+          />
+          <button
+            onClick={() => exportMutation.mutate(exportRange)}
+            disabled={!exportRange.from || !exportRange.to || exportMutation.isPending}
+            className="btn-secondary text-sm px-3 py-1 flex items-center"
+          >
+            <FileText className="w-4 h-4 mr-1" />
+            {exportMutation.isPending ? 'Exporting...' : 'Export audit bundle'}
+          </button>
+        </div>
       </div>
 
+      {exportMutation.error && (
+        <div className="p-3 rounded-lg bg-danger-50 text-danger-800 text-sm">
+          {exportMutation.error.message}
+        </div>
+      )}
+      {exportMutation.data && (
+        <div className="p-3 rounded-lg bg-success-50 text-success-800 text-sm space-y-1">
+          <p>
+            Bundle {exportMutation.data.bundleId}: {exportMutation.data.manifest.entryCount} entries
+            and {exportMutation.data.manifest.checkpointCount} checkpoints. Links expire in an hour.
+          </p>
+          <div className="flex flex-wrap gap-3">
+            {exportMutation.data.files.map((file) => (
+              <a key={file.name} href={file.url} download={file.name} className="underline">
+                {file.name}
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Separation-of-duties refusals and other decision errors */}
+      {approveMutation.error && (
+        <div className="p-3 rounded-lg bg-danger-50 text-danger-800 text-sm">
+          {approveMutation.error.message}
+        </div>
+      )}
+
+      {/* Bulk actions */}
+      {selectableItems.length > 0 && (
+        <div className="card flex flex-wrap items-center gap-3">
+          <label className="flex items-center space-x-2 text-sm text-secondary-700">
+            <input
+              type="checkbox"
+              checked={selectedItems.length > 0 && selectedItems.length === selectableItems.length}
+              onChange={toggleSelectAll}
+            />
+            <span>
+              {selectedItems.length > 0 ? `${selectedItems.length} selected` : 'Select all pending'}
+            </span>
+          </label>
+          <input
+            type="text"
+            value={bulkReason}
+            onChange={(e) => setBulkReason(e.target.value)}
+            placeholder="Reason for all selected reviews"
+            className="input flex-1 min-w-48"
+          />
+          <button
+            onClick={() => handleBulkDecision('approve')}
+            disabled={
+              !bulkReason.trim() ||
+              selectedItems.length === 0 ||
+              selectedItems.length > MAX_BULK_REVIEWS ||
+              bulkMutation.isPending
+            }
+            className="btn-primary text-sm px-3 py-1"
+          >
+            Approve selected
+          </button>
+          <button
+            onClick={() => handleBulkDecision('reject')}
+            disabled={
+              !bulkReason.trim() ||
+              selectedItems.length === 0 ||
+              selectedItems.length > MAX_BULK_REVIEWS ||
+              bulkMutation.isPending
+            }
+            className="btn-secondary text-sm px-3 py-1"
+          >
+            Reject selected
+          </button>
+          <button
+            onClick={() => handleBulkDecision('request_changes')}
+            disabled={
+              !bulkReason.trim() ||
+              selectedItems.length === 0 ||
+              selectedItems.length > MAX_BULK_REVIEWS ||
+              bulkMutation.isPending
+            }
+            className="btn-secondary text-sm px-3 py-1"
+          >
+            Request changes
+          </button>
+          {selectedItems.length > MAX_BULK_REVIEWS && (
+            <span className="text-xs text-danger-700">
+              Select at most {MAX_BULK_REVIEWS} reviews at a time
+            </span>
+          )}
+        </div>
+      )}
+
+      {bulkResult && (
+        <div
+          className={`p-3 rounded-lg text-sm ${
+            bulkResult.failed > 0 ? 'bg-warning-50 text-warning-800' : 'bg-success-50 text-success-800'
+          }`}
+        >
+          <p>
+            {bulkResult.succeeded} decided, {bulkResult.failed} failed
+          </p>
+          {bulkResult.failed > 0 && (
+            <ul className="mt-1 space-y-1 text-xs">
+              {bulkResult.results.map((result) =>
+                result.success ? null : (
+                  <li key={result.reviewId}>
+                    {items.find((item: GovernanceItem) => item.id === result.reviewId)?.title ??
+                      result.reviewId}
+                    : {result.message}
+                  </li>
+                )
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+      {bulkMutation.error && (
+        <div className="p-3 rounded-lg bg-danger-50 text-danger-800 text-sm">
+          {bulkMutation.error.message}
+        </div>
+      )}
+
       {/* Filters */}
       <div className="flex items-center space-x-4">
-        {(['all', 'pending', 'approved', 'rejected'] as const).map((status) => (
+        {(['all', 'pending', 'approved', 'rejected', 'changes_requested'] as const).map((status) => (
           <button
             key={status}
             onClick={() => setFilter(status)}
@@ -167,7 +600,7 @@ export default function GovernancePage(): JSX.Element {
         <div className="text-center py-12">
           <Shield className="h-12 w-12 text-secondary-300 mx-auto mb-4" />
           <h3 className="text-lg font-medium text-secondary-900 mb-2">
-            No {filter === 'all' ? '' : filter} items found
+            No {filter === 'all' ? '' : filter.replace('_', ' ')} items found
           </h3>
           <p className="text-secondary-600">
             {filter === 'pending' 
@@ -191,6 +624,15 @@ export default function GovernancePage(): JSX.Element {
               >
                 <div className="flex items-start justify-between mb-4">
                   <div className="flex items-start space-x-3">
+                    {item.status === 'pending' && item.campaignId && (
+                      <input
+                        type="checkbox"
+                        aria-label={`Select ${item.title}`}
+                        checked={selectedIds.has(item.id)}
+                        onChange={() => toggleSelected(item)}
+                        className="mt-3"
+                      />
+                    )}
                     <div className="flex-shrink-0">
                       <div className="h-10 w-10 rounded-lg bg-primary-100 flex items-center justify-center">
                         <StatusIcon className="h-5 w-5 text-primary-600" />
@@ -203,16 +645,72 @@ export default function GovernancePage(): JSX.Element {
                           {item.title}
                         </h3>
                         <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(item.status)}`}>
-                          {item.status}
+                          {item.status.replace('_', ' ')}
                         </span>
                         <span className={`px-2 py-1 text-xs font-medium rounded-full ${getPriorityColor(item.priority)}`}>
                           {item.priority}
                         </span>
+                        {item.status === 'pending' && getStageLabel(item) && (
+                          <span className="px-2 py-1 text-xs font-medium rounded-full bg-primary-100 text-primary-800">
+                            {getStageLabel(item)}
+                          </span>
+                        )}
+                        {item.status === 'pending' && isAwaitingSecondSignOff(item) && (
+                          <span className="px-2 py-1 text-xs font-medium rounded-full bg-warning-100 text-warning-800">
+                            Awaiting second sign-off
+                          </span>
+                        )}
+                        {getSlaBadge(item) && (
+                          <span
+                            className={`px-2 py-1 text-xs font-medium rounded-full flex items-center space-x-1 ${getSlaBadge(item)?.className}`}
+                          >
+                            {getSlaBadge(item)?.breached ? (
+                              <AlertTriangle className="h-3 w-3" />
+                            ) : (
+                              <Clock className="h-3 w-3" />
+                            )}
+                            <span>{getSlaBadge(item)?.label}</span>
+                          </span>
+                        )}
                       </div>
                       
                       <p className="text-secondary-600 text-sm mb-3">
                         {item.description}
                       </p>
+
+                      {getLatestChanges(item) && (
+                        <div className="mb-3 text-xs text-secondary-600">
+                          <p className="font-medium text-secondary-700">
+                            Round {getLatestChanges(item)?.round}: changed since last submission
+                          </p>
+                          <ul className="mt-1 space-y-1">
+                            {getLatestChanges(item)?.changes.map((change) => (
+                              <li key={change.field}>
+                                <span className="font-mono">{change.field}</span>:{' '}
+                                <span className="line-through">{JSON.stringify(change.before)}</span>{' '}
+                                → {JSON.stringify(change.after)}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+
+                      {item.comments && item.comments.length > 0 && (
+                        <ul className="mb-3 space-y-1 text-xs text-secondary-600">
+                          {item.comments.map((comment) => (
+                            <li key={comment.id} className="flex items-start space-x-1">
+                              <MessageSquare className="h-3 w-3 mt-0.5" />
+                              <span>
+                                Round {comment.round}
+                                {comment.field && (
+                                  <span className="font-mono"> · {comment.field}</span>
+                                )}
+                                : {comment.message}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
                       
                       <div className="flex items-center space-x-4 text-xs text-secondary-500">
                         <div className="flex items-center space-x-1">
@@ -238,7 +736,7 @@ export default function GovernancePage(): JSX.Element {
                   {item.status === 'pending' && (
                     <div className="flex items-center space-x-2">
                       <button
-                        onClick={() => handleApprove(item.id)}
+                        onClick={() => handleApprove(item)}
                         disabled={approveMutation.isPending}
                         className="btn-secondary text-success-600 hover:text-success-700 hover:bg-success-50 flex items-center space-x-1"
                       >
@@ -247,13 +745,31 @@ export default function GovernancePage(): JSX.Element {
                       </button>
                       
                       <button
-                        onClick={() => handleReject(item.id)}
+                        onClick={() => handleReject(item)}
                         disabled={rejectMutation.isPending}
                         className="btn-secondary text-danger-600 hover:text-danger-700 hover:bg-danger-50 flex items-center space-x-1"
                       >
                         <XCircle className="h-4 w-4" />
                         <span>Reject</span>
                       </button>
+
+                      <button
+                        onClick={() => handleRequestChanges(item)}
+                        disabled={requestChangesMutation.isPending}
+                        className="btn-secondary text-primary-600 hover:text-primary-700 hover:bg-primary-50 flex items-center space-x-1"
+                      >
+                        <MessageSquare className="h-4 w-4" />
+                        <span>Request changes</span>
+                      </button>
+
+                      <button
+                        onClick={() => handleReassign(item)}
+                        disabled={reassignMutation.isPending}
+                        className="btn-secondary flex items-center space-x-1"
+                      >
+                        <UserCheck className="h-4 w-4" />
+                        <span>Reassign</span>
+                      </button>
                     </div>
                   )}
                 </div>
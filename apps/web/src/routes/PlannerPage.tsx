@@ -2,15 +2,25 @@ import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { Plus, Filter, Search, Calendar, User, Clock } from 'lucide-react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { campaignsApi } from '@/lib/api';
+import { campaignsApi, callables } from '@/lib/api';
+import { useAuth } from '@/lib/auth';
 import { trackUserAction, trackFeatureUsage } from '@/lib/telemetry';
 import { formatShort, coalesceDate, AnyDate } from '@/lib/dateSafe';
+import CampaignActivities from '@/components/CampaignActivities';
+import {
+  CAMPAIGN_STATUSES,
+  CAMPAIGN_STATUS_LABELS,
+  CAMPAIGN_TRANSITIONS,
+  CampaignStatus,
+  LifecycleEvent,
+  getAvailableEvents,
+} from '@shared/campaignLifecycle';
 
 interface Campaign {
   id: string;
   title: string;
   description?: string;
-  status: 'draft' | 'in_review' | 'approved' | 'active' | 'completed';
+  status: CampaignStatus;
   owner_id?: string;
   assignedTo?: string;
   dueDate?: AnyDate;
@@ -18,10 +28,19 @@ interface Campaign {
   updatedAt?: AnyDate;
 }
 
+// Lifecycle steps taken from the planner; review outcomes happen on the governance page
+const LIFECYCLE_ACTION_LABELS: Partial<Record<LifecycleEvent, string>> = {
+  activate: 'Activate',
+  complete: 'Mark complete',
+  reopen: 'Reopen',
+};
+
 export default function PlannerPage(): JSX.Element {
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
   const queryClient = useQueryClient();
+  const { user } = useAuth();
 
   // Fetch campaigns
   const { data: campaigns = [], isLoading, error } = useQuery({
@@ -39,6 +58,36 @@ export default function PlannerPage(): JSX.Element {
     },
   });
 
+  // Move a campaign along its lifecycle (activate, complete, reopen)
+  const transitionMutation = useMutation({
+    mutationFn: async ({
+      campaign,
+      event,
+      idempotencyKey,
+    }: {
+      campaign: Campaign;
+      event: 'activate' | 'complete' | 'reopen';
+      idempotencyKey: string;
+    }) => {
+      const result = await callables.transitionCampaign({
+        campaignId: campaign.id,
+        event,
+        idempotencyKey,
+      });
+      return result.data;
+    },
+    onSuccess: (_data, { event }) => {
+      queryClient.invalidateQueries({ queryKey: ['campaigns'] });
+      trackUserAction(`campaign_${event}`);
+    },
+  });
+
+  const getLifecycleActions = (campaign: Campaign): Array<'activate' | 'complete' | 'reopen'> =>
+    getAvailableEvents(campaign.status, user?.roles ?? {}).filter(
+      (event): event is 'activate' | 'complete' | 'reopen' =>
+        CAMPAIGN_TRANSITIONS[event].via === 'transitionCampaign'
+    );
+
   // Filter campaigns
   const filteredCampaigns = campaigns.filter((campaign: Campaign) => {
     const matchesSearch = campaign.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -61,6 +110,8 @@ export default function PlannerPage(): JSX.Element {
         return 'bg-warning-100 text-warning-800';
       case 'approved':
         return 'bg-success-100 text-success-800';
+      case 'rejected':
+        return 'bg-danger-100 text-danger-800';
       case 'active':
         return 'bg-primary-100 text-primary-800';
       case 'completed':
@@ -141,11 +192,11 @@ export default function PlannerPage(): JSX.Element {
             className="input"
           >
             <option value="all">All Status</option>
-            <option value="draft">Draft</option>
-            <option value="in_review">In Review</option>
-            <option value="approved">Approved</option>
-            <option value="active">Active</option>
-            <option value="completed">Completed</option>
+            {CAMPAIGN_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {CAMPAIGN_STATUS_LABELS[status]}
+              </option>
+            ))}
           </select>
         </div>
       </div>
@@ -185,7 +236,7 @@ export default function PlannerPage(): JSX.Element {
                   {campaign.title}
                 </h3>
                 <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(campaign.status)}`}>
-                  {campaign.status.replace('-', ' ')}
+                  {CAMPAIGN_STATUS_LABELS[campaign.status] ?? campaign.status}
                 </span>
               </div>
               
@@ -221,11 +272,37 @@ export default function PlannerPage(): JSX.Element {
                   <span className="text-xs text-secondary-500">
                     Created {formatShort(campaign.createdAt)}
                   </span>
-                  <button className="text-primary-600 hover:text-primary-700 text-sm font-medium">
-                    View Details
-                  </button>
+                  <div className="flex items-center space-x-3">
+                    {getLifecycleActions(campaign).map((event) => (
+                      <button
+                        key={event}
+                        onClick={() =>
+                          transitionMutation.mutate({
+                            campaign,
+                            event,
+                            idempotencyKey: crypto.randomUUID(),
+                          })
+                        }
+                        disabled={transitionMutation.isPending}
+                        className="text-secondary-600 hover:text-secondary-800 text-sm font-medium"
+                      >
+                        {LIFECYCLE_ACTION_LABELS[event]}
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => setExpandedId(expandedId === campaign.id ? null : campaign.id)}
+                      aria-expanded={expandedId === campaign.id}
+                      className="text-primary-600 hover:text-primary-700 text-sm font-medium"
+                    >
+                      {expandedId === campaign.id ? 'Hide Details' : 'View Details'}
+                    </button>
+                  </div>
                 </div>
               </div>
+
+              {expandedId === campaign.id && (
+                <CampaignActivities campaignId={campaign.id} assignedTo={campaign.assignedTo} />
+              )}
             </motion.div>
           ))}
         </div>
@@ -248,7 +325,7 @@ export default function PlannerPage(): JSX.Element {
             <div>
               <p className="text-sm text-secondary-600">In Review</p>
               <p className="text-2xl font-bold text-warning-600">
-                {campaigns.filter((c: Campaign) => c.status === 'in_review').length}
+                {campaigns.filter((c: Campaign) => c.status === 'in-review').length}
               </p>
             </div>
             <Clock className="h-8 w-8 text-warning-600" />
@@ -0,0 +1,148 @@
+import { motion } from 'framer-motion';
+import { GitMerge, AlertCircle, CheckCircle, ArrowLeft, ArrowRight } from 'lucide-react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { callables, wrikeConflictsApi } from '@/lib/api';
+import { trackUserAction, trackFeatureUsage } from '@/lib/telemetry';
+
+// Mirrors a wrikeConflicts doc written by the wrikeSync job
+interface WrikeConflict {
+  id: string;
+  campaignId: string;
+  activityId: string | null;
+  wrikeId: string;
+  field: 'status' | 'dueDate' | 'assignedTo';
+  baseline: string | null;
+  vizzyValue: string | null;
+  wrikeValue: string | null;
+  status: 'open' | 'resolved';
+  detectedAt: string;
+}
+
+const FIELD_LABELS: Record<WrikeConflict['field'], string> = {
+  status: 'Status',
+  dueDate: 'Due date',
+  assignedTo: 'Assignee',
+};
+
+export default function WrikeConflictsPage(): JSX.Element {
+  const queryClient = useQueryClient();
+
+  const { data: conflicts = [], isLoading } = useQuery({
+    queryKey: ['wrikeConflicts', 'open'],
+    queryFn: async () =>
+      ((await wrikeConflictsApi.getAll({ status: 'open' })) as WrikeConflict[]).sort((a, b) =>
+        b.detectedAt.localeCompare(a.detectedAt)
+      ),
+    staleTime: 1 * 60 * 1000, // 1 minute
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ conflict, keep }: { conflict: WrikeConflict; keep: 'vizzy' | 'wrike' }) =>
+      (await callables.resolveWrikeConflict({ conflictId: conflict.id, keep })).data,
+    onSuccess: data => {
+      queryClient.invalidateQueries({ queryKey: ['wrikeConflicts'] });
+      trackFeatureUsage('wrike_conflicts', 'resolve', { field: data.field, keep: data.keep });
+    },
+  });
+
+  const handleResolve = (conflict: WrikeConflict, keep: 'vizzy' | 'wrike'): void => {
+    resolveMutation.mutate({ conflict, keep });
+    trackUserAction('resolve_wrike_conflict', 'wrike_conflicts', { field: conflict.field, keep });
+  };
+
+  const formatValue = (value: string | null): string => value ?? '(empty)';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900">Wrike Conflicts</h1>
+          <p className="text-secondary-600 mt-1">
+            Fields changed in both Vizzy and Wrike since the last sync
+          </p>
+        </div>
+        <div className="flex items-center space-x-2 text-sm text-secondary-600">
+          <GitMerge className="h-4 w-4" />
+          <span>{conflicts.length} open</span>
+        </div>
+      </div>
+
+      {resolveMutation.isError && (
+        <div className="card flex items-center space-x-2 text-danger-700">
+          <AlertCircle className="h-4 w-4" />
+          <span className="text-sm">
+            {resolveMutation.error instanceof Error
+              ? resolveMutation.error.message
+              : 'Failed to resolve conflict'}
+          </span>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="card text-secondary-500">Loading conflicts…</div>
+      ) : conflicts.length === 0 ? (
+        <div className="card flex items-center space-x-3">
+          <CheckCircle className="h-5 w-5 text-success-500" />
+          <span className="text-secondary-700">Vizzy and Wrike are in sync</span>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {conflicts.map((conflict, index) => (
+            <motion.div
+              key={conflict.id}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.05 }}
+              className="card"
+            >
+              <div className="flex items-start justify-between">
+                <div>
+                  <h3 className="text-lg font-semibold text-secondary-900">
+                    {FIELD_LABELS[conflict.field]}
+                  </h3>
+                  <p className="text-sm text-secondary-600">
+                    Campaign {conflict.campaignId}
+                    {conflict.activityId ? ` · activity ${conflict.activityId}` : ''}
+                    {' · '}Wrike {conflict.wrikeId}
+                  </p>
+                  <p className="text-xs text-secondary-500 mt-1">
+                    Detected {new Date(conflict.detectedAt).toLocaleString()} · last agreed value:{' '}
+                    {formatValue(conflict.baseline)}
+                  </p>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                <div className="rounded-lg border border-secondary-200 p-3">
+                  <div className="text-xs font-medium text-secondary-500 uppercase">Vizzy</div>
+                  <div className="text-secondary-900 mt-1">{formatValue(conflict.vizzyValue)}</div>
+                  <button
+                    onClick={() => handleResolve(conflict, 'vizzy')}
+                    disabled={resolveMutation.isPending}
+                    className="btn-secondary flex items-center space-x-2 mt-3"
+                  >
+                    <ArrowRight className="h-4 w-4" />
+                    <span>Keep Vizzy's</span>
+                  </button>
+                </div>
+                <div className="rounded-lg border border-secondary-200 p-3">
+                  <div className="text-xs font-medium text-secondary-500 uppercase">Wrike</div>
+                  <div className="text-secondary-900 mt-1">{formatValue(conflict.wrikeValue)}</div>
+                  <button
+                    onClick={() => handleResolve(conflict, 'wrike')}
+                    disabled={resolveMutation.isPending}
+                    className="btn-secondary flex items-center space-x-2 mt-3"
+                  >
+                    <ArrowLeft className="h-4 w-4" />
+                    <span>Keep Wrike's</span>
+                  </button>
+                </div>
+              </div>
+            </motion.div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
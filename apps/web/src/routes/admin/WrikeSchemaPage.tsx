@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { FileText, Save, RefreshCw, AlertCircle, CheckCircle, Settings } from 'lucide-react';
+import { FileText, Save, RefreshCw, AlertCircle, CheckCircle, Settings, Webhook } from 'lucide-react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { callables } from '@/lib/api';
 import { trackUserAction, trackFeatureUsage } from '@/lib/telemetry';
@@ -25,10 +25,13 @@ interface WrikeField {
   description?: string;
 }
 
+type WebhookHealth = Awaited<ReturnType<typeof callables.manageWrikeWebhook>>['data'];
+
 export default function WrikeSchemaPage(): JSX.Element {
   const [selectedSchema, setSelectedSchema] = useState<WrikeSchema | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [schemaForm, setSchemaForm] = useState<Partial<WrikeSchema>>({});
+  const [webhookHealth, setWebhookHealth] = useState<WebhookHealth | null>(null);
   const queryClient = useQueryClient();
 
   // Mock schema data
@@ -127,16 +130,21 @@ export default function WrikeSchemaPage(): JSX.Element {
     },
   ];
 
-  // Test connection mutation
+  // Test connection mutation; also reports on the webhook
   const testConnectionMutation = useMutation({
-    mutationFn: async () => {
-      // TODO: Implement actual Wrike connection test
-      return new Promise((resolve) => {
-        setTimeout(() => resolve({ success: true }), 2000);
-      });
+    mutationFn: async () => (await callables.manageWrikeWebhook({ action: 'check' })).data,
+    onSuccess: (data) => {
+      setWebhookHealth(data);
+      trackUserAction('wrike_connection_tested', 'wrike_schema', { connected: data.connected });
     },
-    onSuccess: () => {
-      trackUserAction('wrike_connection_tested');
+  });
+
+  // Register the webhook, or resume it after Wrike suspended it
+  const registerWebhookMutation = useMutation({
+    mutationFn: async () => (await callables.manageWrikeWebhook({ action: 'register' })).data,
+    onSuccess: (data) => {
+      setWebhookHealth(data);
+      trackUserAction('wrike_webhook_registered', 'wrike_schema');
     },
   });
 
@@ -213,9 +221,9 @@ export default function WrikeSchemaPage(): JSX.Element {
       <div className="card">
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-3">
-            <div className={`h-3 w-3 rounded-full ${testConnectionMutation.isSuccess ? 'bg-success-500' : 'bg-danger-500'}`} />
+            <div className={`h-3 w-3 rounded-full ${webhookHealth?.connected ? 'bg-success-500' : 'bg-danger-500'}`} />
             <span className="text-sm font-medium text-secondary-900">
-              Wrike Connection: {testConnectionMutation.isSuccess ? 'Connected' : 'Disconnected'}
+              Wrike Connection: {webhookHealth?.connected ? 'Connected' : 'Disconnected'}
             </span>
           </div>
           <div className="text-sm text-secondary-500">
@@ -224,6 +232,54 @@ export default function WrikeSchemaPage(): JSX.Element {
         </div>
       </div>
 
+      {/* Webhook Status */}
+      <div className="card">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Webhook className="h-5 w-5 text-secondary-500" />
+            <div>
+              <div className="text-sm font-medium text-secondary-900">
+                Webhook:{' '}
+                {webhookHealth?.webhook
+                  ? webhookHealth.webhook.status
+                  : webhookHealth
+                    ? 'Not registered'
+                    : 'Unknown'}
+              </div>
+              <div className="text-xs text-secondary-500">
+                {webhookHealth
+                  ? `${webhookHealth.hookUrl ?? 'WRIKE_WEBHOOK_URL is not set'} · last event: ${
+                      webhookHealth.lastEventAt
+                        ? `${webhookHealth.lastEventType} at ${formatDate(new Date(webhookHealth.lastEventAt))}`
+                        : 'none'
+                    } · ${webhookHealth.pendingEvents} queued`
+                  : 'Test the connection to check the webhook'}
+              </div>
+            </div>
+          </div>
+          <button
+            onClick={() => registerWebhookMutation.mutate()}
+            disabled={
+              registerWebhookMutation.isPending ||
+              !webhookHealth?.connected ||
+              webhookHealth.webhook?.status === 'Active'
+            }
+            className="btn-secondary flex items-center space-x-2"
+          >
+            <RefreshCw className={`h-4 w-4 ${registerWebhookMutation.isPending ? 'animate-spin' : ''}`} />
+            <span>{webhookHealth?.webhook ? 'Resume Webhook' : 'Register Webhook'}</span>
+          </button>
+        </div>
+        {(registerWebhookMutation.isError || testConnectionMutation.isError) && (
+          <div className="flex items-center space-x-2 mt-3 text-sm text-danger-700">
+            <AlertCircle className="h-4 w-4" />
+            <span>
+              {((registerWebhookMutation.error ?? testConnectionMutation.error) as Error).message}
+            </span>
+          </div>
+        )}
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Schema List */}
         <div className="space-y-4">
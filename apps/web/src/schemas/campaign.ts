@@ -1,13 +1,29 @@
 import { z } from 'zod';
+import { CAMPAIGN_STATUSES } from '@shared/campaignLifecycle';
+
+export const GovernanceOverrideSchema = z.object({
+  id: z.string(),
+  ruleId: z.string(),
+  justification: z.string().min(20),
+  expiresAt: z.string(),
+  grantedBy: z.string(),
+  grantedAt: z.string(),
+  revokedAt: z.string().optional(),
+  revokedBy: z.string().optional(),
+});
 
 export const CampaignSchema = z.object({
   id: z.string(),
   title: z.string().min(1, 'Title is required'),
   description: z.string().optional(),
-  status: z.enum(['draft', 'in_review', 'approved', 'active', 'completed']),
+  status: z.enum(CAMPAIGN_STATUSES),
   owner_id: z.string().optional(),
   assignedTo: z.string().optional(),
   assignedBy: z.string().optional(),
+  startDate: z.union([z.string(), z.number(), z.date(), z.object({
+    seconds: z.number(),
+    nanoseconds: z.number().optional(),
+  })]).optional(),
   dueDate: z.union([z.string(), z.number(), z.date(), z.object({
     seconds: z.number(),
     nanoseconds: z.number().optional(),
@@ -25,9 +41,12 @@ export const CampaignSchema = z.object({
   metadata: z.record(z.unknown()).optional(),
   team_id: z.string().optional(),
   store_id: z.string().optional(),
+  programId: z.string().optional(),
+  channel: z.enum(['Email', 'Social', 'Banner', 'Push']).optional(),
+  region: z.string().optional(),
   governance: z.object({
     hits: z.number(),
-    overrides: z.array(z.unknown()),
+    overrides: z.array(GovernanceOverrideSchema),
   }).optional(),
   wrike_task_id: z.string().nullable().optional(),
   schema_version: z.string().optional(),
@@ -45,6 +64,7 @@ export const UpdateCampaignSchema = CampaignSchema.partial().omit({
   createdAt: true,
 });
 
+export type GovernanceOverride = z.infer<typeof GovernanceOverrideSchema>;
 export type Campaign = z.infer<typeof CampaignSchema>;
 export type CreateCampaign = z.infer<typeof CreateCampaignSchema>;
 export type UpdateCampaign = z.infer<typeof UpdateCampaignSchema>;
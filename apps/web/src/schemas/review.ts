@@ -0,0 +1,145 @@
+import { z } from 'zod';
+
+export const ReviewStageSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  approverRoles: z.array(z.string()),
+  approverUids: z.array(z.string()).optional(),
+  status: z.enum(['waiting', 'pending', 'approved', 'rejected', 'changes_requested']),
+  assignee: z.string().optional(),
+  dutyException: z
+    .object({
+      requestedBy: z.string(),
+      conflicts: z.array(z.enum(['submitter', 'creator', 'consecutiveStage'])),
+      reason: z.string(),
+      requestedAt: z.string(),
+      confirmedBy: z.string().optional(),
+      confirmedAt: z.string().optional(),
+    })
+    .optional(),
+  decidedBy: z.string().optional(),
+  decidedAt: z.string().optional(),
+  reason: z.string().optional(),
+});
+
+export const ReviewCommentSchema = z.object({
+  id: z.string(),
+  round: z.number(),
+  stageId: z.string(),
+  field: z.string().optional(),
+  message: z.string(),
+  authorId: z.string(),
+  createdAt: z.string(),
+});
+
+export const FieldChangeSchema = z.object({
+  field: z.string(),
+  before: z.unknown(),
+  after: z.unknown(),
+});
+
+export const ReviewSubmissionSchema = z.object({
+  round: z.number(),
+  submittedBy: z.string(),
+  submittedAt: z.string(),
+  snapshot: z.record(z.unknown()),
+  changes: z.array(FieldChangeSchema),
+});
+
+export const ReviewSlaSchema = z.object({
+  priority: z.enum(['low', 'medium', 'high']),
+  targetHours: z.number(),
+  startedAt: z.string(),
+  dueAt: z.string(),
+  nextCheckAt: z.string().nullable(),
+  escalationLevel: z.number(),
+  breachedAt: z.string().optional(),
+  escalatedAt: z.string().optional(),
+});
+
+export const ReassignReviewRequestSchema = z.object({
+  reviewId: z.string().min(1),
+  toUid: z.string().min(1),
+  reason: z.string().min(1, 'Reason is required for reassignment'),
+});
+
+export const ReassignReviewResultSchema = z.object({
+  success: z.boolean(),
+  stage: z.object({ id: z.string(), name: z.string() }),
+  assignee: z.string(),
+});
+
+export const ApproveCampaignRequestSchema = z.object({
+  campaignId: z.string().min(1),
+  reviewId: z.string().min(1),
+  approvalType: z.enum(['approve', 'reject', 'request_changes']),
+  reason: z.string().min(1, 'Reason is required for approval/rejection'),
+  comments: z
+    .array(z.object({ field: z.string().min(1).optional(), message: z.string().min(1) }))
+    .optional(),
+  idempotencyKey: z.string().min(1).max(128).optional(),
+});
+
+export const ApproveCampaignResultSchema = z.object({
+  success: z.boolean(),
+  newStatus: z.string(),
+  commentIds: z.array(z.string()),
+  // Set when a conflicted admin approved and an independent approver must confirm
+  awaitingSecondSignOff: z.boolean().optional(),
+  stage: z.object({
+    id: z.string(),
+    name: z.string(),
+    index: z.number(),
+    total: z.number(),
+  }),
+  nextStage: z.object({ id: z.string(), name: z.string() }).optional(),
+});
+
+export const BulkReviewDecisionRequestSchema = z.object({
+  reviews: z
+    .array(z.object({ reviewId: z.string().min(1), campaignId: z.string().min(1) }))
+    .min(1)
+    .max(50),
+  approvalType: z.enum(['approve', 'reject', 'request_changes']),
+  reason: z.string().min(1, 'Reason is required for bulk decisions'),
+  comments: z
+    .array(z.object({ field: z.string().min(1).optional(), message: z.string().min(1) }))
+    .optional(),
+  idempotencyKey: z.string().min(1).max(128).optional(),
+});
+
+// Each item either carries the approveCampaign result or the error it failed with
+export const BulkReviewItemResultSchema = z.union([
+  ApproveCampaignResultSchema.extend({
+    reviewId: z.string(),
+    campaignId: z.string(),
+    success: z.literal(true),
+  }),
+  z.object({
+    reviewId: z.string(),
+    campaignId: z.string(),
+    success: z.literal(false),
+    code: z.string(),
+    message: z.string(),
+  }),
+]);
+
+export const BulkReviewDecisionResultSchema = z.object({
+  bulkId: z.string(),
+  succeeded: z.number(),
+  failed: z.number(),
+  results: z.array(BulkReviewItemResultSchema),
+});
+
+export type ReviewStage = z.infer<typeof ReviewStageSchema>;
+export type ReviewComment = z.infer<typeof ReviewCommentSchema>;
+export type ReviewSla = z.infer<typeof ReviewSlaSchema>;
+export type ReassignReviewRequest = z.infer<typeof ReassignReviewRequestSchema>;
+export type ReassignReviewResult = z.infer<typeof ReassignReviewResultSchema>;
+export type FieldChange = z.infer<typeof FieldChangeSchema>;
+export type ReviewSubmission = z.infer<typeof ReviewSubmissionSchema>;
+export type ApproveCampaignRequest = z.infer<typeof ApproveCampaignRequestSchema>;
+export type ApproveCampaignResult = z.infer<typeof ApproveCampaignResultSchema>;
+export type BulkReviewDecisionRequest = z.infer<typeof BulkReviewDecisionRequestSchema>;
+export type BulkReviewItemResult = z.infer<typeof BulkReviewItemResultSchema>;
+export type BulkReviewDecisionResult = z.infer<typeof BulkReviewDecisionResultSchema>;
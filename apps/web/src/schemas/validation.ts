@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+export const ValidationFindingSchema = z.object({
+  ruleId: z.string(),
+  field: z.string().optional(),
+  severity: z.enum(['block', 'warn', 'info']),
+  message: z.string(),
+  remediation: z.string().optional(),
+});
+
+export const ValidateCampaignRequestSchema = z.object({
+  campaignId: z.string().min(1),
+  campaignData: z.record(z.unknown()),
+  validationType: z.enum(['draft', 'preview', 'publish']).optional(),
+});
+
+export const ValidateCampaignResultSchema = z.object({
+  success: z.boolean(),
+  findings: z.array(ValidationFindingSchema),
+  rulePackVersion: z.number(),
+});
+
+export type ValidationFinding = z.infer<typeof ValidationFindingSchema>;
+export type FindingSeverity = ValidationFinding['severity'];
+export type ValidateCampaignRequest = z.infer<typeof ValidateCampaignRequestSchema>;
+export type ValidateCampaignResult = z.infer<typeof ValidateCampaignResultSchema>;
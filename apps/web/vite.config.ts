@@ -8,6 +8,8 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': resolve(__dirname, './src'),
+      // Dependency-free modules shared with functions, e.g. the campaign lifecycle
+      '@shared': resolve(__dirname, '../../functions/src/shared'),
     },
   },
   server: {
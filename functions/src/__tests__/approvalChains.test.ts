@@ -0,0 +1,108 @@
+import {
+  ApprovalChain,
+  DEFAULT_APPROVAL_CHAIN,
+  applyStageDecision,
+  createReviewStages,
+  getReviewStages,
+  isStageApprover,
+  resetReviewStages,
+  selectApprovalChain,
+} from '../lib/approvalChains';
+
+describe('approvalChains', () => {
+  const legalChain: ApprovalChain = {
+    id: 'chain.compliance',
+    name: 'Compliance',
+    match: { reviewTypes: ['compliance'] },
+    stages: [
+      { id: 'content', name: 'Content review', approverRoles: ['reviewer'] },
+      { id: 'legal', name: 'Legal review', approverRoles: [], approverUids: ['legal1'] },
+      { id: 'manager', name: 'Regional manager', approverRoles: ['manager'] },
+    ],
+  };
+  const bigEmailChain: ApprovalChain = {
+    id: 'chain.bigEmail',
+    name: 'Large Email',
+    match: { minBudget: 100000, channels: ['Email'] },
+    stages: [{ id: 'finance', name: 'Finance', approverRoles: ['admin'] }],
+  };
+  const chains = [legalChain, bigEmailChain];
+
+  it('selects the first chain whose criteria all match', () => {
+    expect(selectApprovalChain(chains, { reviewType: 'compliance' }).id).toBe('chain.compliance');
+    expect(
+      selectApprovalChain(chains, { reviewType: 'content', budget: 150000, channel: 'Email' }).id
+    ).toBe('chain.bigEmail');
+    expect(
+      selectApprovalChain(chains, { reviewType: 'content', budget: 150000, channel: 'Push' })
+    ).toBe(DEFAULT_APPROVAL_CHAIN);
+  });
+
+  it('treats reviews without stages as the default single stage', () => {
+    expect(getReviewStages({ status: 'pending' })).toEqual([
+      { id: 'review', name: 'Review', approverRoles: ['reviewer', 'admin'], status: 'pending' },
+    ]);
+  });
+
+  it('checks approver pools by role or named approver', () => {
+    const [content, legal] = legalChain.stages;
+    expect(isStageApprover(content!, 'u1', { reviewer: true })).toBe(true);
+    expect(isStageApprover(content!, 'u1', { editor: true })).toBe(false);
+    expect(isStageApprover(legal!, 'legal1', {})).toBe(true);
+  });
+
+  it('advances stage by stage and approves after the final stage', () => {
+    const now = new Date('2025-06-01T00:00:00Z');
+    let stages = createReviewStages(legalChain);
+
+    const first = applyStageDecision(stages, 0, 'approve', 'rev1', 'Copy is fine', now);
+    expect(first.outcome).toBe('advanced');
+    expect(first.currentStage).toBe(1);
+    expect(first.stages.map(stage => stage.status)).toEqual(['approved', 'pending', 'waiting']);
+    expect(first.stages[0]).toMatchObject({ decidedBy: 'rev1', decidedAt: now.toISOString() });
+
+    stages = applyStageDecision(first.stages, 1, 'approve', 'legal1', 'Claims OK', now).stages;
+    const last = applyStageDecision(stages, 2, 'approve', 'mgr1', 'Go', now);
+    expect(last.outcome).toBe('approved');
+    expect(last.stages.every(stage => stage.status === 'approved')).toBe(true);
+  });
+
+  it('rejects the review from any stage', () => {
+    const stages = createReviewStages(legalChain);
+    const advanced = applyStageDecision(stages, 0, 'approve', 'rev1', 'ok');
+    const rejected = applyStageDecision(
+      advanced.stages,
+      1,
+      'reject',
+      'legal1',
+      'Unsupported claim'
+    );
+
+    expect(rejected.outcome).toBe('rejected');
+    expect(rejected.stages.map(stage => stage.status)).toEqual(['approved', 'rejected', 'waiting']);
+    expect(() => applyStageDecision(stages, 1, 'approve', 'legal1', 'too early')).toThrow();
+  });
+
+  it('returns a review for changes and restarts the chain on resubmission', () => {
+    const stages = createReviewStages(legalChain);
+    const advanced = applyStageDecision(stages, 0, 'approve', 'rev1', 'ok');
+    const changes = applyStageDecision(
+      advanced.stages,
+      1,
+      'request_changes',
+      'legal1',
+      'Add the disclaimer'
+    );
+
+    expect(changes.outcome).toBe('changes_requested');
+    expect(changes.stages.map(stage => stage.status)).toEqual([
+      'approved',
+      'changes_requested',
+      'waiting',
+    ]);
+
+    const restarted = resetReviewStages(changes.stages);
+    expect(restarted.map(stage => stage.status)).toEqual(['pending', 'waiting', 'waiting']);
+    expect(restarted[1]).toEqual({ ...legalChain.stages[1], status: 'waiting' });
+  });
+});
@@ -0,0 +1,84 @@
+import {
+  archiveId,
+  packAuditArchive,
+  splitAuditArchive,
+  unpackAuditArchive,
+} from '../lib/auditArchive';
+import {
+  EMPTY_CHAIN,
+  StoredAuditEntry,
+  linkAuditEntry,
+  verifyAuditChain,
+} from '../lib/auditLedger';
+
+function buildChain(count: number, note = ''): StoredAuditEntry[] {
+  const entries: StoredAuditEntry[] = [];
+  let head = EMPTY_CHAIN;
+  for (let index = 0; index < count; index++) {
+    const entry = linkAuditEntry(
+      head,
+      {
+        action: 'campaign_approve',
+        resourceId: `c${index}`,
+        userId: 'u1',
+        metadata: { note: `${note}${index}` },
+      },
+      `2026-03-01T10:00:${String(index % 60).padStart(2, '0')}.000Z`
+    );
+    entries.push({ ...entry, id: `g${index}` });
+    head = { sequence: entry.sequence, hash: entry.hash };
+  }
+  return entries;
+}
+
+describe('auditArchive', () => {
+  it('round-trips entries through a gzipped archive', () => {
+    const chain = buildChain(5);
+    const archive = packAuditArchive(chain.slice(2), '2026-03-01_5');
+
+    expect(archive).toMatchObject({
+      checkpointId: '2026-03-01_5',
+      fromSequence: 3,
+      toSequence: 5,
+      entryCount: 3,
+      anchor: { sequence: 2, hash: chain[1]?.hash },
+      headHash: chain[4]?.hash,
+    });
+
+    const entries = unpackAuditArchive(archive);
+    expect(entries).toEqual(chain.slice(2));
+    expect(verifyAuditChain(entries, archive.anchor).valid).toBe(true);
+  });
+
+  it('splits a run that does not fit into contiguous archives', () => {
+    // Random notes keep gzip from shrinking the run below the limit
+    const chain = buildChain(40, Math.random().toString(36).repeat(20));
+    const archives = splitAuditArchive(chain, 'day', 2048);
+
+    expect(archives.length).toBeGreaterThan(1);
+    archives.forEach((archive, index) => {
+      expect(archive.data.length).toBeLessThanOrEqual(2048);
+      const previous = archives[index - 1];
+      if (previous) {
+        expect(archive.fromSequence).toBe(previous.toSequence + 1);
+        expect(archive.anchor.hash).toBe(previous.headHash);
+      }
+    });
+    expect(archives.flatMap(unpackAuditArchive)).toEqual(chain);
+  });
+
+  it('refuses an entry too large for any archive', () => {
+    expect(() => splitAuditArchive(buildChain(1, 'x'.repeat(10000)), 'day', 64)).toThrow(
+      'too large to archive'
+    );
+  });
+
+  it('gives archives ids that sort in chain order', () => {
+    const ids = [
+      { fromSequence: 1000, toSequence: 1999 },
+      { fromSequence: 9, toSequence: 999 },
+      { fromSequence: 1, toSequence: 8 },
+    ].map(archiveId);
+    expect([...ids].sort()).toEqual([...ids].reverse());
+  });
+});
@@ -0,0 +1,153 @@
+import { execFileSync } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AUDIT_BUNDLE_FILES, buildAuditBundle, signAuditManifest } from '../lib/auditBundle';
+import { buildCheckpointPayload, signCheckpoint } from '../lib/auditCheckpoints';
+import { EMPTY_CHAIN, StoredAuditEntry, linkAuditEntry } from '../lib/auditLedger';
+
+const VERIFIER = path.resolve(__dirname, '../../../scripts/verify-audit-bundle.mjs');
+
+function buildChain(count: number): StoredAuditEntry[] {
+  const entries: StoredAuditEntry[] = [];
+  let head = EMPTY_CHAIN;
+  for (let index = 0; index < count; index++) {
+    const day = index < 3 ? '01' : '02';
+    const entry = linkAuditEntry(
+      head,
+      {
+        action: 'campaign_approve',
+        resourceId: `c${index}`,
+        userId: 'u1',
+        // Mixed case and non-ASCII keys sort differently by locale than by code point
+        metadata: { z: 1, a: [index], Zone: 'eu', ärende: true },
+      },
+      `2026-03-${day}T10:00:0${index}.000Z`
+    );
+    entries.push({ ...entry, id: `doc${entry.sequence}` });
+    head = { sequence: entry.sequence, hash: entry.hash };
+  }
+  return entries;
+}
+
+function writeBundle(dir: string, files: Record<string, string>) {
+  for (const [name, content] of Object.entries(files)) {
+    fs.writeFileSync(path.join(dir, name), content);
+  }
+}
+
+function runVerifier(
+  args: string[],
+  env: NodeJS.ProcessEnv = process.env
+): { status: number; output: string } {
+  try {
+    const output = execFileSync(process.execPath, [VERIFIER, ...args], {
+      encoding: 'utf8',
+      stdio: 'pipe',
+      env,
+    });
+    return { status: 0, output };
+  } catch (error) {
+    const failure = error as { status: number; stdout: string; stderr: string };
+    return { status: failure.status, output: failure.stdout + failure.stderr };
+  }
+}
+
+describe('auditBundle', () => {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+  const privatePem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+  let dir: string;
+  let keyPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-bundle-'));
+    keyPath = path.join(dir, 'public.pem');
+
+    const entries = buildChain(5);
+    const day1 = {
+      id: '2026-03-01_3',
+      ...signCheckpoint(buildCheckpointPayload('2026-03-01', entries.slice(0, 3), null), 'k'),
+    };
+    const day2 = {
+      id: '2026-03-02_5',
+      ...signCheckpoint(buildCheckpointPayload('2026-03-02', entries.slice(3), day1.id), 'k'),
+    };
+    const bundle = buildAuditBundle({
+      bundleId: 'b1',
+      generatedAt: '2026-03-03T00:00:00.000Z',
+      generatedBy: 'auditor',
+      range: { from: '2026-03-01', to: '2026-03-02' },
+      anchor: EMPTY_CHAIN,
+      entries,
+      checkpoints: [day1, day2],
+    });
+    const manifestJson = bundle.files[AUDIT_BUNDLE_FILES.manifest] ?? '';
+    writeBundle(dir, {
+      ...bundle.files,
+      [AUDIT_BUNDLE_FILES.signature]: signAuditManifest(manifestJson, privatePem) + '\n',
+    });
+    fs.writeFileSync(keyPath, publicKey.export({ type: 'spki', format: 'pem' }).toString());
+  });
+
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('lists every file with its digest in the manifest', () => {
+    const manifest = JSON.parse(
+      fs.readFileSync(path.join(dir, AUDIT_BUNDLE_FILES.manifest), 'utf8')
+    );
+    expect(manifest).toMatchObject({
+      fromSequence: 1,
+      toSequence: 5,
+      entryCount: 5,
+      checkpointCount: 2,
+    });
+    expect(manifest.files.map((file: { name: string }) => file.name)).toEqual([
+      AUDIT_BUNDLE_FILES.entries,
+      AUDIT_BUNDLE_FILES.checkpoints,
+    ]);
+  });
+
+  it('passes the offline verifier', () => {
+    const result = runVerifier([dir, '--public-key', keyPath]);
+    expect(result.output).toContain('OK bundle is intact');
+    expect(result.status).toBe(0);
+  });
+
+  it('hashes entries the same way under a non-English locale', () => {
+    const env = { ...process.env, LANG: 'sv_SE.UTF-8', LC_ALL: 'sv_SE.UTF-8' };
+    const result = runVerifier([dir, '--public-key', keyPath], env);
+    expect(result.output).toContain('OK bundle is intact');
+    expect(result.status).toBe(0);
+  });
+
+  it('does not report a bundle as intact without checking its signature', () => {
+    const result = runVerifier([dir]);
+    expect(result.status).toBe(1);
+    expect(result.output).toContain('manifest signature not checked');
+    expect(result.output).not.toContain('OK bundle is intact');
+  });
+
+  it('fails when an entry is edited and its digest updated', () => {
+    const entriesPath = path.join(dir, AUDIT_BUNDLE_FILES.entries);
+    const edited = fs
+      .readFileSync(entriesPath, 'utf8')
+      .replace('"resourceId":"c1"', '"resourceId":"cX"');
+    fs.writeFileSync(entriesPath, edited);
+
+    // Digest mismatch first
+    expect(runVerifier([dir, '--public-key', keyPath]).output).toContain('SHA-256 does not match');
+
+    // Updating the manifest breaks its signature
+    const manifestPath = path.join(dir, AUDIT_BUNDLE_FILES.manifest);
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+    manifest.files[0].sha256 = crypto.createHash('sha256').update(edited).digest('hex');
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n');
+    const result = runVerifier([dir, '--public-key', keyPath]);
+    expect(result.status).toBe(1);
+    expect(result.output).toContain('signature does not match');
+
+    // Without the signature check, the hash chain still catches it
+    expect(runVerifier([dir]).output).toContain('entry 2 (doc2): content does not match its hash');
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  buildCheckpointPayload,
+  groupEntriesByDay,
+  merkleRoot,
+  signCheckpoint,
+  verifyCheckpointSignature,
+} from '../lib/auditCheckpoints';
+import { ChainedAuditEntry, EMPTY_CHAIN, linkAuditEntry } from '../lib/auditLedger';
+
+function buildChain(recordedAt: string[]): ChainedAuditEntry[] {
+  const entries: ChainedAuditEntry[] = [];
+  let head = EMPTY_CHAIN;
+  recordedAt.forEach((timestamp, index) => {
+    const entry = linkAuditEntry(
+      head,
+      { action: 'campaign_approve', resourceId: `c${index}`, userId: 'u1' },
+      timestamp
+    );
+    entries.push(entry);
+    head = { sequence: entry.sequence, hash: entry.hash };
+  });
+  return entries;
+}
+
+describe('auditCheckpoints', () => {
+  it('computes a merkle root that depends on every hash and its order', () => {
+    const root = merkleRoot(['a', 'b', 'c']);
+    expect(merkleRoot(['a', 'b', 'c'])).toBe(root);
+    expect(merkleRoot(['a', 'c', 'b'])).not.toBe(root);
+    expect(merkleRoot(['a', 'b', 'd'])).not.toBe(root);
+    expect(merkleRoot(['a'])).toBe('a');
+  });
+
+  it('groups entries by UTC day and stops at the cutoff', () => {
+    const chain = buildChain([
+      '2026-03-01T10:00:00.000Z',
+      '2026-03-01T23:59:59.000Z',
+      '2026-03-02T08:00:00.000Z',
+      '2026-03-03T00:00:01.000Z',
+    ]);
+    const days = groupEntriesByDay(chain, new Date('2026-03-03T00:30:00.000Z'));
+    expect(days.map(day => [day.date, day.entries.map(entry => entry.sequence)])).toEqual([
+      ['2026-03-01', [1, 2]],
+      ['2026-03-02', [3]],
+    ]);
+  });
+
+  it('keeps a skewed entry in the later day', () => {
+    const chain = buildChain([
+      '2026-03-02T00:00:01.000Z',
+      '2026-03-01T23:59:59.000Z',
+      '2026-03-02T00:00:02.000Z',
+    ]);
+    const days = groupEntriesByDay(chain, new Date('2026-03-03T00:00:00.000Z'));
+    expect(days).toHaveLength(1);
+    expect(days[0]?.entries).toHaveLength(3);
+  });
+
+  it('signs checkpoints and rejects edited ones', () => {
+    const chain = buildChain(['2026-03-01T10:00:00.000Z', '2026-03-01T11:00:00.000Z']);
+    const payload = buildCheckpointPayload('2026-03-01', chain, null);
+    expect(payload).toMatchObject({
+      fromSequence: 1,
+      toSequence: 2,
+      entryCount: 2,
+      headHash: chain[1]?.hash,
+    });
+
+    const checkpoint = signCheckpoint(payload, 'secret');
+    expect(verifyCheckpointSignature(checkpoint, 'secret')).toBe(true);
+    expect(verifyCheckpointSignature(checkpoint, 'other-secret')).toBe(false);
+    expect(verifyCheckpointSignature({ ...checkpoint, toSequence: 3 }, 'secret')).toBe(false);
+  });
+});
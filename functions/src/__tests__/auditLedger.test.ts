@@ -0,0 +1,97 @@
+import { auditHash, stableStringify } from '../lib/auditHash';
+import {
+  AuditRecord,
+  ChainedAuditEntry,
+  EMPTY_CHAIN,
+  GENESIS_HASH,
+  linkAuditEntry,
+  verifyAuditChain,
+} from '../lib/auditLedger';
+
+function buildChain(records: AuditRecord[]): ChainedAuditEntry[] {
+  const entries: ChainedAuditEntry[] = [];
+  let head = EMPTY_CHAIN;
+  records.forEach((record, index) => {
+    const entry = linkAuditEntry(head, record, `2026-01-0${index + 1}T00:00:00.000Z`);
+    entries.push(entry);
+    head = { sequence: entry.sequence, hash: entry.hash };
+  });
+  return entries;
+}
+
+const records: AuditRecord[] = [
+  { action: 'submit_for_review', resourceId: 'c1', userId: 'u1', metadata: { reviewId: 'r1' } },
+  { action: 'review_stage_approve', resourceId: 'c1', userId: 'u2', metadata: { round: 1 } },
+  { action: 'campaign_approve', resourceId: 'c1', userId: 'u2' },
+];
+
+describe('auditLedger', () => {
+  it('links each entry to the previous hash with a monotonic sequence', () => {
+    const chain = buildChain(records);
+    expect(chain.map(entry => entry.sequence)).toEqual([1, 2, 3]);
+    expect(chain[0]?.previousHash).toBe(GENESIS_HASH);
+    expect(chain[1]?.previousHash).toBe(chain[0]?.hash);
+    expect(verifyAuditChain(chain)).toEqual({
+      valid: true,
+      verified: 3,
+      head: { sequence: 3, hash: chain[2]?.hash },
+    });
+  });
+
+  it('hashes metadata independent of key order', () => {
+    const a = auditHash({
+      action: 'a',
+      resourceId: 'r',
+      userId: 'u',
+      timestamp: 't',
+      metadata: { x: 1, y: 2 },
+    });
+    const b = auditHash({
+      action: 'a',
+      resourceId: 'r',
+      userId: 'u',
+      timestamp: 't',
+      metadata: { y: 2, x: 1 },
+    });
+    expect(a).toBe(b);
+  });
+
+  it('sorts keys by code point, not locale', () => {
+    expect(stableStringify({ b: 1, a: { é: 2, z: 3 }, B: 4 })).toBe(
+      '{"B":4,"a":{"z":3,"é":2},"b":1}'
+    );
+  });
+
+  it('reports the first edited entry', () => {
+    const chain = buildChain(records).map(entry => ({ ...entry, id: `doc${entry.sequence}` }));
+    const tampered = chain.map(entry =>
+      entry.sequence === 2 ? { ...entry, metadata: { round: 2 } } : entry
+    );
+    expect(verifyAuditChain(tampered)).toEqual({
+      valid: false,
+      verified: 1,
+      brokenAt: { id: 'doc2', sequence: 2, reason: 'hash_mismatch' },
+    });
+  });
+
+  it('reports deleted and re-linked entries', () => {
+    const chain = buildChain(records);
+    expect(verifyAuditChain([chain[0]!, chain[2]!])).toMatchObject({
+      valid: false,
+      brokenAt: { sequence: 3, reason: 'sequence_gap' },
+    });
+
+    // Rehashing an edited entry does not help; its successor still points at the original
+    const forged = linkAuditEntry(EMPTY_CHAIN, { ...records[0]!, userId: 'intruder' }, 'now');
+    expect(verifyAuditChain([forged, chain[1]!, chain[2]!])).toMatchObject({
+      valid: false,
+      brokenAt: { sequence: 2, reason: 'previous_hash_mismatch' },
+    });
+  });
+
+  it('continues from a verified head', () => {
+    const chain = buildChain(records);
+    const start = { sequence: 1, hash: chain[0]!.hash };
+    expect(verifyAuditChain(chain.slice(1), start)).toMatchObject({ valid: true, verified: 2 });
+  });
+});
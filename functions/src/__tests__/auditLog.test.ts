@@ -0,0 +1,128 @@
+import { toAuditLog, toAuditRecord } from '../lib/auditLog';
+import {
+  AuditLog,
+  AuditLogBackend,
+  AuditLogInput,
+  createAuditLogService,
+  matchesAuditLogQuery,
+} from '../shared/auditLog';
+
+function memoryBackend(pageSize: number): AuditLogBackend & { logs: AuditLog[] } {
+  const logs: AuditLog[] = [];
+  return {
+    logs,
+    async append(input) {
+      const log: AuditLog = {
+        logId: `log${logs.length + 1}`,
+        timestamp: new Date(Date.UTC(2026, 0, 1, 0, logs.length)).toISOString(),
+        userId: input.userId,
+        action: input.action,
+        targetId: input.targetId,
+        source: input.source,
+        diff: { before: input.before ?? {}, after: input.after ?? {} },
+      };
+      logs.unshift(log);
+      return log;
+    },
+    async list({ limit = pageSize, cursor }) {
+      const start = cursor ? logs.findIndex(log => log.logId === cursor) + 1 : 0;
+      const page = logs.slice(start, start + Math.min(limit, pageSize));
+      const last = page[page.length - 1];
+      return {
+        logs: page,
+        nextCursor: last && start + page.length < logs.length ? last.logId : null,
+      };
+    },
+  };
+}
+
+const input: AuditLogInput = {
+  userId: 'u1',
+  action: 'USER_UPDATED',
+  targetId: 'u2',
+  source: 'ui',
+  before: { name: 'Ann' },
+  after: { name: 'Anne' },
+};
+
+describe('auditLog', () => {
+  it('records the authenticated actor under a client action and keeps the diff', () => {
+    expect(toAuditRecord('actor', input)).toEqual({
+      action: 'client.USER_UPDATED',
+      resourceId: 'u2',
+      userId: 'actor',
+      metadata: { source: 'ui', before: { name: 'Ann' }, after: { name: 'Anne' } },
+    });
+  });
+
+  it('reads client entries back with their source and diff', () => {
+    const record = toAuditRecord('u1', input);
+    const log = toAuditLog('doc1', { ...record, recordedAt: '2026-01-01T00:00:00.000Z' });
+    expect(log).toEqual({
+      logId: 'doc1',
+      timestamp: '2026-01-01T00:00:00.000Z',
+      userId: 'u1',
+      action: 'USER_UPDATED',
+      targetId: 'u2',
+      source: 'ui',
+      diff: { before: { name: 'Ann' }, after: { name: 'Anne' } },
+    });
+  });
+
+  it('reads function entries as backend entries', () => {
+    const log = toAuditLog('doc2', {
+      action: 'campaign_approve',
+      resourceId: 'c1',
+      userId: 'u3',
+      metadata: { reviewId: 'r1' },
+      timestamp: { seconds: 1767225600, nanoseconds: 0 },
+    });
+    expect(log).toMatchObject({
+      source: 'backend',
+      timestamp: '2026-01-01T00:00:00.000Z',
+      diff: { before: {}, after: { reviewId: 'r1' } },
+    });
+  });
+
+  it('matches actor, target and inclusive UTC day filters', () => {
+    const log = toAuditLog('doc3', {
+      ...toAuditRecord('u1', input),
+      recordedAt: '2026-01-02T23:59:00.000Z',
+    });
+    expect(matchesAuditLogQuery(log, { actor: 'u1', target: 'u2' })).toBe(true);
+    expect(matchesAuditLogQuery(log, { from: '2026-01-02', to: '2026-01-02' })).toBe(true);
+    expect(matchesAuditLogQuery(log, { actor: 'u2' })).toBe(false);
+    expect(matchesAuditLogQuery(log, { from: '2026-01-03' })).toBe(false);
+    expect(matchesAuditLogQuery(log, { to: '2026-01-01' })).toBe(false);
+  });
+
+  it('keeps the further targets of a client entry and matches on any of them', () => {
+    const record = toAuditRecord('u1', {
+      ...input,
+      action: 'STORE_IMPORTED',
+      targetId: 'stores',
+      targetIds: ['s1', 's2'],
+      before: {},
+      after: { importedCount: 2 },
+    });
+    expect(record.metadata).toMatchObject({ targetIds: ['s1', 's2'] });
+
+    const log = toAuditLog('doc4', { ...record, recordedAt: '2026-01-02T00:00:00.000Z' });
+    expect(log.targetIds).toEqual(['s1', 's2']);
+    expect(matchesAuditLogQuery(log, { target: 'stores' })).toBe(true);
+    expect(matchesAuditLogQuery(log, { target: 's2' })).toBe(true);
+    expect(matchesAuditLogQuery(log, { target: 's3' })).toBe(false);
+  });
+
+  it('pages through the backend instead of truncating', async () => {
+    const backend = memoryBackend(2);
+    const service = createAuditLogService(backend);
+    for (let index = 0; index < 5; index++) {
+      await service.writeAuditLog({ ...input, targetId: `u${index}` });
+    }
+
+    const recent = await service.getRecentAuditLogs(4);
+    expect(recent.map(log => log.targetId)).toEqual(['u4', 'u3', 'u2', 'u1']);
+    expect(await service.getRecentAuditLogs(10)).toHaveLength(5);
+  });
+});
@@ -0,0 +1,77 @@
+import {
+  BudgetEnvelope,
+  BudgetEnvelopeSchema,
+  evaluateBudgetEnvelope,
+  toBudgetedCampaign,
+} from '../lib/budgetEnvelopes';
+
+describe('budgetEnvelopes', () => {
+  const envelope = BudgetEnvelopeSchema.parse({ amount: 100000 }) as BudgetEnvelope;
+
+  const committed = [
+    { id: 'c1', budget: 40000, storeId: 's1', region: 'west' },
+    { id: 'c2', budget: 30000, storeId: 's2', region: 'east' },
+  ];
+
+  it('passes a campaign that fits comfortably in the envelope', () => {
+    expect(evaluateBudgetEnvelope(envelope, committed, { id: 'new', budget: 10000 })).toEqual([]);
+  });
+
+  it('blocks a campaign that would exceed the program envelope', () => {
+    const findings = evaluateBudgetEnvelope(envelope, committed, { id: 'new', budget: 35000 });
+
+    expect(findings).toEqual([
+      {
+        ruleId: 'budget.envelope.program',
+        field: 'budget',
+        severity: 'block',
+        message:
+          'Program budget would be exceeded: USD 70,000 committed + USD 35,000 requested against USD 100,000',
+        remediation:
+          'Reduce the budget to USD 30,000 or less, or ask finance to raise the program envelope',
+      },
+    ]);
+  });
+
+  it('warns near the limit and honours onExceed', () => {
+    const warnOnly = { ...envelope, onExceed: 'warn' as const };
+
+    expect(
+      evaluateBudgetEnvelope(envelope, committed, { id: 'new', budget: 25000 }).map(f => f.ruleId)
+    ).toEqual(['budget.envelope.program.nearLimit']);
+    expect(
+      evaluateBudgetEnvelope(warnOnly, committed, { id: 'new', budget: 35000 }).map(f => f.severity)
+    ).toEqual(['warn']);
+  });
+
+  it('does not count the candidate twice when it is already committed', () => {
+    expect(evaluateBudgetEnvelope(envelope, committed, { id: 'c1', budget: 45000 })).toEqual([]);
+  });
+
+  it('checks store and region allocations within the program', () => {
+    const scoped: BudgetEnvelope = {
+      ...envelope,
+      byStore: { s1: 50000 },
+      byRegion: { east: 60000 },
+    };
+
+    expect(
+      evaluateBudgetEnvelope(scoped, committed, {
+        id: 'new',
+        budget: 15000,
+        storeId: 's1',
+        region: 'east',
+      }).map(f => f.ruleId)
+    ).toEqual(['budget.envelope.store']);
+  });
+
+  it('reads budget fields from campaign documents', () => {
+    expect(toBudgetedCampaign('c1', { budget: 500, store_id: 's1', region: 'west' })).toEqual({
+      id: 'c1',
+      budget: 500,
+      storeId: 's1',
+      region: 'west',
+    });
+    expect(toBudgetedCampaign('c2', { title: 'No budget' })).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  CadenceRule,
+  CadenceRuleSchema,
+  ScheduledActivity,
+  evaluateCadence,
+  flattenWeek,
+} from '../lib/cadenceRules';
+import { BUILTIN_RULE_PACK } from '../lib/governanceRules';
+
+describe('cadenceRules', () => {
+  const emailWeekly: CadenceRule = CadenceRuleSchema.parse({
+    id: 'cadence.email.weekly',
+    scope: { channel: 'Email' },
+    per: ['programId'],
+    maxCount: 2,
+    windowDays: 7,
+  });
+
+  const activity = (
+    activityId: string,
+    date: string,
+    overrides: Partial<ScheduledActivity> = {}
+  ): ScheduledActivity => ({
+    activityId,
+    programId: 'prog-1',
+    channel: 'Email',
+    date: new Date(date),
+    ...overrides,
+  });
+
+  describe('flattenWeek', () => {
+    it('dates each activity from its day card and inherits the programId', () => {
+      const activities = flattenWeek({
+        programId: 'prog-1',
+        dayCards: {
+          mon: {
+            date: { seconds: Date.parse('2025-06-02T00:00:00Z') / 1000 },
+            activities: [{ activityId: 'a1', channel: 'Email', audience: 'vip' }],
+          },
+          tue: { date: 'not a date', activities: [{ activityId: 'a2', channel: 'Push' }] },
+        },
+      });
+
+      expect(activities).toEqual([
+        {
+          activityId: 'a1',
+          programId: 'prog-1',
+          channel: 'Email',
+          audience: 'vip',
+          date: new Date('2025-06-02T00:00:00Z'),
+        },
+      ]);
+    });
+  });
+
+  describe('evaluateCadence', () => {
+    it('allows activities up to the cap', () => {
+      const activities = [activity('a1', '2025-06-02'), activity('a2', '2025-06-04')];
+      expect(evaluateCadence([emailWeekly], activities)).toEqual([]);
+    });
+
+    it('flags the activity that tips a rolling window over the cap', () => {
+      const activities = [
+        activity('a1', '2025-06-02'),
+        activity('a2', '2025-06-04'),
+        activity('a3', '2025-06-08'),
+      ];
+
+      const findings = evaluateCadence([emailWeekly], activities);
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0]).toMatchObject({
+        ruleId: 'cadence.email.weekly',
+        field: 'activities.a3',
+        severity: 'warn',
+        message: '3 Email activities within 7 days exceeds the cap of 2',
+      });
+    });
+
+    it('does not count activities outside the window, scope or group', () => {
+      const activities = [
+        activity('a1', '2025-06-02'),
+        activity('a2', '2025-06-04'),
+        activity('a3', '2025-06-09'),
+        activity('a4', '2025-06-05', { channel: 'Push' }),
+        activity('a5', '2025-06-05', { programId: 'prog-2' }),
+      ];
+
+      expect(evaluateCadence([emailWeekly], activities)).toEqual([]);
+    });
+
+    it('only reports windows containing the changed activity', () => {
+      const activities = [
+        activity('a1', '2025-06-02'),
+        activity('a2', '2025-06-03'),
+        activity('a3', '2025-06-04'),
+        activity('b1', '2025-06-20'),
+      ];
+
+      expect(evaluateCadence([emailWeekly], activities, 'b1')).toEqual([]);
+      expect(evaluateCadence([emailWeekly], activities, 'a1')).toHaveLength(1);
+    });
+
+    it('ships an email cap in the builtin pack', () => {
+      expect(BUILTIN_RULE_PACK.cadenceRules?.map(rule => rule.id)).toContain(
+        'cadence.email.weekly'
+      );
+    });
+  });
+});
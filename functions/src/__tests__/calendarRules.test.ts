@@ -0,0 +1,99 @@
+import {
+  CalendarRules,
+  CalendarRulesSchema,
+  evaluateCalendarRules,
+  getBlackoutsForDay,
+  getCampaignDatedItems,
+} from '../lib/calendarRules';
+import { BUILTIN_RULE_PACK, evaluateRulePack } from '../lib/governanceRules';
+
+describe('calendarRules', () => {
+  const rules = CalendarRulesSchema.parse({
+    blackouts: [
+      {
+        id: 'blackout.recall',
+        name: 'Boot recall',
+        start: '2025-07-01',
+        end: '2025-07-07',
+        channels: ['Email'],
+      },
+      { id: 'blackout.july4', name: 'Independence Day', start: '2025-07-04', end: '2025-07-04' },
+    ],
+    launchWindows: [
+      { id: 'window.push.weekdays', channels: ['Push'], daysOfWeek: [1, 2, 3, 4, 5] },
+    ],
+  }) as CalendarRules;
+
+  it('flags items inside a blackout for matching channels only', () => {
+    const findings = evaluateCalendarRules(rules, [
+      { field: 'activities.a1', date: new Date('2025-07-02T00:00:00Z'), channel: 'Email' },
+      { field: 'activities.a2', date: new Date('2025-07-02T00:00:00Z'), channel: 'Social' },
+    ]);
+
+    expect(findings).toEqual([
+      {
+        ruleId: 'blackout.recall',
+        field: 'activities.a1',
+        severity: 'block',
+        message: '2025-07-02 falls in the "Boot recall" blackout (2025-07-01 to 2025-07-07)',
+      },
+    ]);
+  });
+
+  it('applies channel-less blackouts to everything, including undated channels', () => {
+    const findings = evaluateCalendarRules(rules, [
+      { field: 'dueDate', date: new Date('2025-07-04T12:00:00Z') },
+    ]);
+    expect(findings.map(finding => finding.ruleId)).toEqual(['blackout.july4']);
+  });
+
+  it('flags items outside their channel launch window', () => {
+    const findings = evaluateCalendarRules(rules, [
+      { field: 'activities.p1', date: new Date('2025-06-14T00:00:00Z'), channel: 'Push' },
+      { field: 'activities.p2', date: new Date('2025-06-16T00:00:00Z'), channel: 'Push' },
+    ]);
+
+    expect(findings).toEqual([
+      {
+        ruleId: 'window.push.weekdays',
+        field: 'activities.p1',
+        severity: 'warn',
+        message: '2025-06-14 is outside the Push launch window',
+      },
+    ]);
+  });
+
+  it('lists the blackouts covering a day for calendar shading', () => {
+    expect(getBlackoutsForDay(rules.blackouts, '2025-07-04').map(rule => rule.id)).toEqual([
+      'blackout.recall',
+      'blackout.july4',
+    ]);
+    expect(getBlackoutsForDay(rules.blackouts, '2025-07-04', 'Push').map(rule => rule.id)).toEqual([
+      'blackout.july4',
+    ]);
+  });
+
+  it('checks campaign start and due dates during rule pack evaluation', () => {
+    expect(
+      getCampaignDatedItems({ startDate: '2025-07-03', dueDate: 'soon', channel: 'Email' })
+    ).toEqual([{ field: 'startDate', date: new Date('2025-07-03'), channel: 'Email' }]);
+
+    const findings = evaluateRulePack(
+      { ...BUILTIN_RULE_PACK, calendarRules: rules },
+      {
+        title: 'Summer launch',
+        description: 'Summer launch campaign',
+        assignedTo: 'planner1',
+        createdAt: '2025-06-01',
+        startDate: '2025-07-03',
+        dueDate: '2025-07-10',
+        channel: 'Email',
+      },
+      'draft',
+      new Date('2025-06-01T00:00:00Z')
+    );
+    expect(findings.map(finding => [finding.ruleId, finding.field])).toEqual([
+      ['blackout.recall', 'startDate'],
+    ]);
+  });
+});
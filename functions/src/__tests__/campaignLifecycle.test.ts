@@ -0,0 +1,61 @@
+import {
+  CAMPAIGN_TRANSITIONS,
+  LifecycleTransitionError,
+  applyLifecycleEvent,
+  canTransition,
+  canTriggerEvent,
+  getAvailableEvents,
+  getCampaignStatus,
+  normalizeCampaignStatus,
+} from '../shared/campaignLifecycle';
+
+describe('campaignLifecycle', () => {
+  it('walks the happy path from draft to completed', () => {
+    let campaign: Record<string, unknown> = {};
+    for (const event of ['submit', 'approve', 'activate', 'complete'] as const) {
+      campaign = { status: applyLifecycleEvent(campaign, event) };
+    }
+    expect(campaign['status']).toBe('completed');
+  });
+
+  it('sends requested changes back to draft and lets rejected campaigns reopen', () => {
+    expect(applyLifecycleEvent({ status: 'in-review' }, 'request_changes')).toBe('draft');
+    expect(applyLifecycleEvent({ status: 'rejected' }, 'reopen')).toBe('draft');
+  });
+
+  it('refuses transitions from the wrong status', () => {
+    expect(() => applyLifecycleEvent({ status: 'approved' }, 'approve')).toThrow(
+      new LifecycleTransitionError('approve', 'approved')
+    );
+    expect(() => applyLifecycleEvent({ status: 'in-review' }, 'submit')).toThrow(
+      'Cannot submit a campaign that is in-review'
+    );
+    expect(canTransition(getCampaignStatus({ status: 'archived' }), 'submit')).toBe(false);
+  });
+
+  it('reads legacy and missing statuses', () => {
+    expect(getCampaignStatus({ status: 'in_review' })).toBe('in-review');
+    expect(getCampaignStatus({})).toBe('draft');
+    expect(Object.keys(CAMPAIGN_TRANSITIONS)).toContain('reopen');
+  });
+
+  it('normalizes stored statuses for the migration', () => {
+    expect(normalizeCampaignStatus('inReview')).toBe('in-review');
+    expect(normalizeCampaignStatus(null)).toBe('draft');
+    expect(normalizeCampaignStatus('completed')).toBe('completed');
+    expect(normalizeCampaignStatus(3)).toBeNull();
+  });
+
+  it('limits direct events to their roles and leaves decisions to stage approvers', () => {
+    expect(canTriggerEvent('activate', { editor: true })).toBe(true);
+    expect(canTriggerEvent('activate', { viewer: true })).toBe(false);
+    expect(canTriggerEvent('approve', { admin: true })).toBe(false);
+  });
+
+  it('lists the events a user can trigger from a status', () => {
+    expect(getAvailableEvents('approved', { admin: true })).toEqual(['activate']);
+    expect(getAvailableEvents('in_review', { admin: true })).toEqual([]);
+    expect(getAvailableEvents(undefined, { editor: true })).toEqual(['submit']);
+    expect(getAvailableEvents('rejected', { viewer: true })).toEqual([]);
+  });
+});
@@ -0,0 +1,162 @@
+import {
+  ContentLintConfigSchema,
+  DEFAULT_CONTENT_LINT,
+  HASHTAGS_FIELD,
+  SUBJECT_LINE_FIELD,
+  compilePhrase,
+  lintContent,
+  resolveContentLint,
+} from '../lib/contentLint';
+import {
+  BUILTIN_RULE_PACK,
+  GovernanceRulePackSchema,
+  evaluateRulePack,
+} from '../lib/governanceRules';
+
+describe('contentLint', () => {
+  const ruleIds = (fields: Record<string, string>, extra: object = {}) =>
+    lintContent(DEFAULT_CONTENT_LINT, { fields, ...extra }).map(finding => finding.ruleId);
+
+  describe('compilePhrase', () => {
+    it('matches whole words only', () => {
+      const regex = compilePhrase('free', 'word');
+      expect(regex.test('Get it FREE today')).toBe(true);
+      expect(regex.test('A carefree summer')).toBe(false);
+      expect(regex.test('Freedom sale')).toBe(false);
+    });
+
+    it('escapes punctuation and skips boundaries on non-word ends', () => {
+      const regex = compilePhrase('% off', 'word');
+      expect(regex.test('Take 20% off')).toBe(true);
+      expect(compilePhrase('a.b', 'word').test('axb')).toBe(false);
+    });
+  });
+
+  describe('banned phrases', () => {
+    it('flags banned words without matching inside other words', () => {
+      expect(ruleIds({ title: 'Not a scam' })).toEqual(['content.inappropriateWords']);
+      expect(ruleIds({ title: 'Scampi night' })).toEqual([]);
+    });
+
+    it('ignores invalid regexes from a published pack', () => {
+      const config = ContentLintConfigSchema.parse({
+        bannedPhrases: [{ id: 'content.broken', pattern: '(', match: 'regex' }],
+      });
+      expect(lintContent(config, { fields: { title: '(' } })).toEqual([]);
+    });
+  });
+
+  describe('claim disclaimers', () => {
+    it('requires a disclaimer when a claim appears', () => {
+      const findings = lintContent(DEFAULT_CONTENT_LINT, {
+        fields: { title: 'Free shipping weekend', description: 'Save 30% off boots' },
+      });
+
+      expect(findings).toEqual([
+        expect.objectContaining({
+          ruleId: 'content.claims.free',
+          field: 'title',
+          severity: 'block',
+          message: '"Free" offers must carry a terms disclaimer',
+        }),
+        expect.objectContaining({
+          ruleId: 'content.claims.percentOff',
+          field: 'description',
+          message: '"30% off" discounts must state exclusions',
+        }),
+      ]);
+    });
+
+    it('accepts a disclaimer in any field', () => {
+      expect(
+        ruleIds({ title: 'Free shipping weekend', description: 'Terms apply. Exclusions apply.' })
+      ).toEqual([]);
+    });
+  });
+
+  describe('subject lines and hashtags', () => {
+    it('applies the subject-line limit for the channel', () => {
+      const subject = 'A'.repeat(5) + ' subject line that runs a little long';
+      expect(ruleIds({ [SUBJECT_LINE_FIELD]: subject }, { channel: 'Push' })).toEqual([
+        'content.subjectLine.maxLength',
+      ]);
+      expect(ruleIds({ [SUBJECT_LINE_FIELD]: subject }, { channel: 'Email' })).toEqual([]);
+    });
+
+    it('checks hashtag count, format, bans and duplicates', () => {
+      const config = {
+        ...DEFAULT_CONTENT_LINT,
+        hashtags: { ...DEFAULT_CONTENT_LINT.hashtags, banned: ['#sale'] },
+      };
+      const findings = lintContent(config, {
+        fields: {},
+        hashtags: ['#Fall', 'fall', '2for1', 'Sale', 'a', 'b'],
+      });
+
+      expect(findings.map(finding => [finding.ruleId, finding.field])).toEqual([
+        ['content.hashtags.maxCount', HASHTAGS_FIELD],
+        ['content.hashtags.duplicate', HASHTAGS_FIELD],
+        ['content.hashtags.format', HASHTAGS_FIELD],
+        ['content.hashtags.banned', HASHTAGS_FIELD],
+      ]);
+    });
+  });
+
+  describe('style', () => {
+    it('flags ALL-CAPS copy and emoji-heavy copy', () => {
+      expect(ruleIds({ title: 'HUGE SAVINGS THIS WEEKEND' })).toEqual(['content.style.allCaps']);
+      expect(ruleIds({ title: 'Sale 🔥🔥 now 🎉' })).toEqual(['content.style.emojiDensity']);
+      expect(ruleIds({ title: 'New fall styles 🍂 in store this week' })).toEqual([]);
+    });
+  });
+
+  it('runs as part of the rule pack evaluation', () => {
+    const findings = evaluateRulePack(
+      BUILTIN_RULE_PACK,
+      {
+        title: 'Fall launch',
+        description: 'Guaranteed comfort',
+        assignedTo: 'planner1',
+        dueDate: '2025-07-01',
+        createdAt: '2025-06-01',
+        channel: 'Email',
+        contentPacket: { subjectLine: 'Guaranteed comfort', hashtags: ['Fall'] },
+      },
+      'draft',
+      new Date('2025-06-01T00:00:00Z')
+    );
+
+    expect(findings.map(finding => finding.field)).toEqual(['description', SUBJECT_LINE_FIELD]);
+  });
+
+  it('fills in a pack section the same way on clients as the schema does', () => {
+    const sections = [
+      { enabled: false },
+      {
+        appliesTo: ['publish'],
+        bannedPhrases: [{ id: 'content.banned.cheap', pattern: 'cheap' }],
+        claimDisclaimers: [{ id: 'content.claims.best', claim: 'best', disclaimer: 'survey' }],
+        hashtags: { maxCount: 2 },
+      },
+    ] as const;
+
+    for (const section of sections) {
+      expect(resolveContentLint(section)).toEqual(ContentLintConfigSchema.parse(section));
+    }
+    expect(resolveContentLint(undefined)).toBe(DEFAULT_CONTENT_LINT);
+  });
+
+  it('follows the pack scoping and can be switched off', () => {
+    const campaign = { title: 'Free shipping weekend', assignedTo: 'planner1' };
+    const pack = (contentLint: object) =>
+      GovernanceRulePackSchema.parse({ version: 5, rules: [], contentLint });
+    const lintIds = (contentLint: object, validationType: 'draft' | 'publish') =>
+      evaluateRulePack(pack(contentLint), campaign, validationType).map(finding => finding.ruleId);
+
+    expect(lintIds({ enabled: false }, 'publish')).toEqual([]);
+    expect(lintIds({ ...DEFAULT_CONTENT_LINT, appliesTo: ['publish'] }, 'draft')).toEqual([]);
+    expect(lintIds({ ...DEFAULT_CONTENT_LINT, appliesTo: ['publish'] }, 'publish')).toEqual([
+      'content.claims.free',
+    ]);
+  });
+});
@@ -0,0 +1,228 @@
+import {
+  BUILTIN_RULE_PACK,
+  GovernanceOverride,
+  GovernanceRule,
+  GovernanceRulePackSchema,
+  ValidationFinding,
+  applyOverrides,
+  evaluateRule,
+  evaluateRulePack,
+  findRuleSeverity,
+  getComplianceCategory,
+  isTimeRelativeRule,
+  summarizeCompliance,
+} from '../lib/governanceRules';
+
+describe('governanceRules', () => {
+  const now = new Date('2025-06-01T00:00:00Z');
+
+  const validCampaign = {
+    title: 'Fall Footwear Launch',
+    description: 'Launch campaign for the new fall collection',
+    assignedTo: 'planner1',
+    dueDate: '2025-07-01',
+    createdAt: '2025-06-01',
+    budget: 5000,
+  };
+
+  describe('BUILTIN_RULE_PACK', () => {
+    it('passes a valid campaign', () => {
+      expect(evaluateRulePack(BUILTIN_RULE_PACK, validCampaign, 'draft', now)).toEqual([]);
+    });
+
+    it('reports missing required fields', () => {
+      const violations = evaluateRulePack(
+        BUILTIN_RULE_PACK,
+        { ...validCampaign, description: '  ', assignedTo: undefined },
+        'draft',
+        now
+      );
+
+      expect(violations.map(v => [v.field, v.severity, v.message])).toEqual([
+        ['description', 'block', 'description is required'],
+        ['assignedTo', 'block', 'assignedTo is required'],
+      ]);
+    });
+
+    it('reports each inappropriate word as a warning', () => {
+      const violations = evaluateRulePack(
+        BUILTIN_RULE_PACK,
+        { ...validCampaign, title: 'Not a scam', description: 'Definitely not fake' },
+        'draft',
+        now
+      );
+
+      expect(violations).toEqual([
+        {
+          ruleId: 'content.inappropriateWords',
+          field: 'title',
+          severity: 'warn',
+          message: 'Content may contain inappropriate language: "scam"',
+          remediation: 'Reword the copy to remove "scam"',
+        },
+        {
+          ruleId: 'content.inappropriateWords',
+          field: 'description',
+          severity: 'warn',
+          message: 'Content may contain inappropriate language: "fake"',
+          remediation: 'Reword the copy to remove "fake"',
+        },
+      ]);
+    });
+
+    it('reports budget and timeline thresholds', () => {
+      const violations = evaluateRulePack(
+        BUILTIN_RULE_PACK,
+        { ...validCampaign, budget: 2000000, dueDate: '2027-01-01' },
+        'draft',
+        now
+      );
+
+      expect(violations.map(v => v.ruleId)).toEqual(['budget.recommendedMax', 'timeline.maxDays']);
+    });
+  });
+
+  describe('evaluateRule', () => {
+    const rule: GovernanceRule = {
+      id: 'budget.cap',
+      field: 'budget',
+      operator: 'max',
+      threshold: 1000,
+      severity: 'block',
+      message: '{field} must not exceed {threshold}',
+      remediation: 'Lower {field}',
+      enabled: true,
+      appliesTo: ['publish'],
+    };
+
+    it('interpolates message placeholders', () => {
+      expect(evaluateRule(rule, { budget: 1500 }, now)).toEqual([
+        {
+          ruleId: 'budget.cap',
+          field: 'budget',
+          severity: 'block',
+          message: 'budget must not exceed 1000',
+          remediation: 'Lower budget',
+        },
+      ]);
+    });
+
+    it('skips rules that do not apply to the validation type', () => {
+      const pack = { version: 3, rules: [rule] };
+
+      expect(evaluateRulePack(pack, { budget: 1500 }, 'draft', now)).toEqual([]);
+      expect(evaluateRulePack(pack, { budget: 1500 }, 'publish', now)).toHaveLength(1);
+    });
+
+    it('maps legacy error/warning severities when parsing packs', () => {
+      const pack = GovernanceRulePackSchema.parse({
+        version: 2,
+        rules: [{ ...rule, severity: 'warning' }],
+      });
+
+      expect(pack.rules[0]?.severity).toBe('warn');
+    });
+
+    it('skips disabled rules', () => {
+      const pack = { version: 3, rules: [{ ...rule, enabled: false }] };
+
+      expect(evaluateRulePack(pack, { budget: 1500 }, 'publish', now)).toEqual([]);
+    });
+
+    it('tells rules judged against today apart from field comparisons', () => {
+      // timeline.* rules are measured from createdAt
+      expect(BUILTIN_RULE_PACK.rules.filter(isTimeRelativeRule).map(r => r.id)).toEqual([
+        'dueDate.future',
+      ]);
+      expect(isTimeRelativeRule({ ...rule, operator: 'minDaysFrom', threshold: 7 })).toBe(true);
+      expect(isTimeRelativeRule(rule)).toBe(false);
+    });
+  });
+
+  describe('summarizeCompliance', () => {
+    it('groups findings by category and derives a status per section', () => {
+      const sections = summarizeCompliance([
+        { ruleId: 'title.maxLength', field: 'title', severity: 'block', message: 'Too long' },
+        { ruleId: 'budget.recommendedMax', field: 'budget', severity: 'warn', message: 'High' },
+      ]);
+
+      expect(sections.contentPolicy.status).toBe('non_compliant');
+      expect(sections.businessRules.status).toBe('warnings');
+      expect(sections.userPermissions).toEqual({ status: 'compliant', issues: [] });
+    });
+
+    it('files custom rule ids under business rules', () => {
+      expect(getComplianceCategory('permissions.createCampaign')).toBe('userPermissions');
+      expect(getComplianceCategory('finance.quarterCap')).toBe('businessRules');
+    });
+  });
+
+  describe('applyOverrides', () => {
+    const finding: ValidationFinding = {
+      ruleId: 'title.maxLength',
+      field: 'title',
+      severity: 'block',
+      message: 'Title must be 100 characters or less',
+    };
+
+    const override: GovernanceOverride = {
+      id: 'ovr1',
+      ruleId: 'title.maxLength',
+      justification: 'Legal-approved product name exceeds the limit',
+      expiresAt: '2025-06-15T00:00:00.000Z',
+      grantedBy: 'manager1',
+      grantedAt: '2025-05-30T00:00:00.000Z',
+    };
+
+    it('downgrades a blocking finding while the override is live', () => {
+      expect(applyOverrides([finding], [override], now)).toEqual([
+        {
+          ...finding,
+          severity: 'warn',
+          message:
+            'Title must be 100 characters or less (overridden until 2025-06-15T00:00:00.000Z)',
+          overrideId: 'ovr1',
+        },
+      ]);
+    });
+
+    it('ignores expired and revoked overrides', () => {
+      const expired = { ...override, expiresAt: '2025-05-31T00:00:00.000Z' };
+      const revoked = { ...override, revokedAt: '2025-05-31T00:00:00.000Z' };
+
+      expect(applyOverrides([finding], [expired, revoked], now)).toEqual([finding]);
+    });
+
+    it('never waives permission findings', () => {
+      const permission: ValidationFinding = {
+        ruleId: 'permissions.createCampaign',
+        severity: 'block',
+        message: 'No permission',
+      };
+
+      expect(
+        applyOverrides([permission], [{ ...override, ruleId: 'permissions.createCampaign' }], now)
+      ).toEqual([permission]);
+    });
+  });
+
+  describe('findRuleSeverity', () => {
+    it('finds field rules and content lint rules in the pack', () => {
+      expect(findRuleSeverity(BUILTIN_RULE_PACK, 'title.maxLength')).toBe('block');
+      expect(findRuleSeverity(BUILTIN_RULE_PACK, 'description.maxLength')).toBe('warn');
+      expect(findRuleSeverity(BUILTIN_RULE_PACK, 'content.claims.free')).toBe('block');
+    });
+
+    it('returns null for rules the pack does not have or has disabled', () => {
+      const pack = {
+        ...BUILTIN_RULE_PACK,
+        rules: BUILTIN_RULE_PACK.rules.map(rule =>
+          rule.id === 'title.maxLength' ? { ...rule, enabled: false } : rule
+        ),
+      };
+
+      expect(findRuleSeverity(pack, 'title.maxLength')).toBeNull();
+      expect(findRuleSeverity(pack, 'made.up')).toBeNull();
+    });
+  });
+});
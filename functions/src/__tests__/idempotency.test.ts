@@ -0,0 +1,19 @@
+import { idempotencyDocId, requestFingerprint } from '../lib/idempotency';
+
+describe('idempotency', () => {
+  it('fingerprints requests independent of key order', () => {
+    expect(requestFingerprint({ a: 1, b: { c: [1, 2], d: undefined } })).toBe(
+      requestFingerprint({ b: { c: [1, 2] }, a: 1 })
+    );
+    expect(requestFingerprint({ a: 1 })).not.toBe(requestFingerprint({ a: 2 }));
+  });
+
+  it('scopes keys to the callable and caller', () => {
+    expect(idempotencyDocId('approveCampaign', 'u1', 'k')).not.toBe(
+      idempotencyDocId('approveCampaign', 'u2', 'k')
+    );
+    expect(idempotencyDocId('approveCampaign', 'u1', 'k')).not.toBe(
+      idempotencyDocId('submitForReview', 'u1', 'k')
+    );
+  });
+});
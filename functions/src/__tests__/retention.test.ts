@@ -0,0 +1,43 @@
+import { GovernanceRulePackSchema } from '../lib/governanceRules';
+import { DEFAULT_RETENTION, LegalHolds, isUnderLegalHold, retentionCutoff } from '../lib/retention';
+
+describe('retention', () => {
+  const holds: LegalHolds = { campaigns: new Set(['c1']), users: new Set(['u1']) };
+
+  it('keeps records tied to a held campaign or user', () => {
+    expect(isUnderLegalHold({ event: 'campaign_validated', campaignId: 'c1' }, holds)).toBe(true);
+    expect(isUnderLegalHold({ action: 'campaign_approve', resourceId: 'c1' }, holds)).toBe(true);
+    expect(isUnderLegalHold({ event: 'login', userId: 'u1' }, holds)).toBe(true);
+    // A governance entry about the held user, made by someone else
+    expect(isUnderLegalHold({ resourceId: 'u1', userId: 'admin' }, holds)).toBe(true);
+  });
+
+  it('releases records of other campaigns and users', () => {
+    expect(isUnderLegalHold({ campaignId: 'c2', userId: 'u2' }, holds)).toBe(false);
+    expect(isUnderLegalHold({ event: 'job_error' }, holds)).toBe(false);
+    expect(isUnderLegalHold({ userId: ['u1'] }, holds)).toBe(false);
+  });
+
+  it('cuts off at the start of a UTC day', () => {
+    expect(retentionCutoff(new Date('2026-03-10T02:00:00.000Z'), 7).toISOString()).toBe(
+      '2026-03-03T00:00:00.000Z'
+    );
+  });
+
+  it('parses a retention policy from a rule pack', () => {
+    const pack = GovernanceRulePackSchema.parse({
+      version: 3,
+      rules: [],
+      retention: { days: { ...DEFAULT_RETENTION.days, governance: null, telemetry: 30 } },
+    });
+    expect(pack.retention?.days).toMatchObject({ governance: null, telemetry: 30 });
+
+    expect(() =>
+      GovernanceRulePackSchema.parse({
+        version: 3,
+        rules: [],
+        retention: { days: { ...DEFAULT_RETENTION.days, telemetry: 0 } },
+      })
+    ).toThrow();
+  });
+});
@@ -0,0 +1,73 @@
+import { ReviewStage } from '../lib/approvalChains';
+import {
+  DEFAULT_REVIEW_SLA,
+  ReviewSlaPolicy,
+  escalateOverdueReview,
+  getSlaState,
+  reassignStage,
+  startReviewSla,
+} from '../lib/reviewSla';
+
+describe('reviewSla', () => {
+  const submitted = new Date('2025-06-02T09:00:00Z');
+  const stage: ReviewStage = {
+    id: 'review',
+    name: 'Review',
+    approverRoles: ['reviewer'],
+    status: 'pending',
+  };
+  const policy: ReviewSlaPolicy = { ...DEFAULT_REVIEW_SLA, maxEscalations: 1 };
+
+  it('sets the due time from the priority target', () => {
+    expect(startReviewSla(policy, 'high', submitted)).toEqual({
+      priority: 'high',
+      targetHours: 8,
+      startedAt: '2025-06-02T09:00:00.000Z',
+      dueAt: '2025-06-02T17:00:00.000Z',
+      nextCheckAt: '2025-06-02T17:00:00.000Z',
+      escalationLevel: 0,
+    });
+  });
+
+  it('reports on-track, at-risk and breached states', () => {
+    const sla = startReviewSla(policy, 'high', submitted);
+
+    expect(getSlaState(sla, 0.75, new Date('2025-06-02T10:00:00Z')).state).toBe('on_track');
+    expect(getSlaState(sla, 0.75, new Date('2025-06-02T16:00:00Z'))).toEqual({
+      state: 'at_risk',
+      remainingMs: 60 * 60 * 1000,
+    });
+    expect(getSlaState(sla, 0.75, new Date('2025-06-02T18:00:00Z')).state).toBe('breached');
+  });
+
+  it('escalates to backup approvers until escalations run out', () => {
+    const sla = startReviewSla(policy, 'high', submitted);
+    const overdue = new Date('2025-06-02T18:00:00Z');
+
+    const first = escalateOverdueReview(sla, stage, policy, overdue);
+    expect(first).toMatchObject({ newlyBreached: true, escalated: true });
+    expect(first.sla).toMatchObject({
+      breachedAt: '2025-06-02T18:00:00.000Z',
+      escalationLevel: 1,
+      nextCheckAt: '2025-06-03T02:00:00.000Z',
+    });
+    expect(first.stage.approverRoles).toEqual(['reviewer', 'manager', 'admin']);
+
+    const second = escalateOverdueReview(
+      first.sla,
+      first.stage,
+      policy,
+      new Date('2025-06-03T03:00:00Z')
+    );
+    expect(second).toMatchObject({ newlyBreached: false, escalated: false });
+    expect(second.sla.nextCheckAt).toBeNull();
+    expect(second.sla.breachedAt).toBe('2025-06-02T18:00:00.000Z');
+  });
+
+  it('adds a delegate to the stage approver pool', () => {
+    expect(reassignStage({ ...stage, approverUids: ['u1'] }, 'u2')).toMatchObject({
+      assignee: 'u2',
+      approverUids: ['u1', 'u2'],
+    });
+  });
+});
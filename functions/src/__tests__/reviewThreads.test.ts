@@ -0,0 +1,56 @@
+import { createSubmission, diffSnapshots, snapshotCampaign } from '../lib/reviewThreads';
+
+describe('reviewThreads', () => {
+  const campaign = {
+    title: 'Spring sale',
+    status: 'draft',
+    updatedAt: { toDate: () => new Date('2024-03-02T10:00:00Z') },
+    budget: 5000,
+    dueDate: { toDate: () => new Date('2024-04-01T00:00:00Z') },
+    contentPacket: { subjectLine: 'Save big', hashtags: ['#spring'] },
+  };
+
+  it('snapshots editor content and drops workflow fields', () => {
+    expect(snapshotCampaign(campaign)).toEqual({
+      title: 'Spring sale',
+      budget: 5000,
+      dueDate: '2024-04-01T00:00:00.000Z',
+      contentPacket: { subjectLine: 'Save big', hashtags: ['#spring'] },
+    });
+  });
+
+  it('diffs snapshots by dotted field path', () => {
+    const before = snapshotCampaign(campaign);
+    const after = snapshotCampaign({
+      ...campaign,
+      budget: 4000,
+      region: 'west',
+      contentPacket: { subjectLine: 'Save more', hashtags: ['#spring'] },
+    });
+
+    expect(diffSnapshots(before, after)).toEqual([
+      { field: 'budget', before: 5000, after: 4000 },
+      { field: 'contentPacket.subjectLine', before: 'Save big', after: 'Save more' },
+      { field: 'region', before: null, after: 'west' },
+    ]);
+  });
+
+  it('numbers submissions and diffs each against the previous round', () => {
+    const now = new Date('2024-03-05T12:00:00Z');
+    const first = createSubmission([], campaign, 'editor1', now);
+    const second = createSubmission(
+      [first],
+      { ...campaign, title: 'Spring savings' },
+      'editor1',
+      now
+    );
+
+    expect(first).toMatchObject({ round: 1, changes: [] });
+    expect(second).toMatchObject({
+      round: 2,
+      submittedBy: 'editor1',
+      submittedAt: '2024-03-05T12:00:00.000Z',
+      changes: [{ field: 'title', before: 'Spring sale', after: 'Spring savings' }],
+    });
+  });
+});
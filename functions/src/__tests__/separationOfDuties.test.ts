@@ -0,0 +1,124 @@
+import { ReviewStage } from '../lib/approvalChains';
+import {
+  DEFAULT_SEPARATION_OF_DUTIES,
+  DutyContext,
+  SeparationOfDutiesPolicy,
+  checkSeparationOfDuties,
+  confirmDutyException,
+  findDutyConflicts,
+  requestDutyException,
+} from '../lib/separationOfDuties';
+
+describe('separationOfDuties', () => {
+  const policy = DEFAULT_SEPARATION_OF_DUTIES;
+  const stages: ReviewStage[] = [
+    {
+      id: 'content',
+      name: 'Content review',
+      approverRoles: ['reviewer', 'admin'],
+      status: 'approved',
+      decidedBy: 'rev1',
+    },
+    {
+      id: 'manager',
+      name: 'Manager sign-off',
+      approverRoles: ['manager', 'admin'],
+      status: 'pending',
+    },
+  ];
+  const context = (overrides: Partial<DutyContext>): DutyContext => ({
+    uid: 'mgr1',
+    roles: { manager: true },
+    submitters: ['editor1'],
+    createdBy: 'creator1',
+    stages,
+    currentStage: 1,
+    ...overrides,
+  });
+
+  it('allows an independent approver', () => {
+    expect(checkSeparationOfDuties(policy, context({}))).toEqual({
+      kind: 'allowed',
+      conflicts: [],
+    });
+  });
+
+  it('finds submitter, creator and consecutive-stage conflicts', () => {
+    expect(findDutyConflicts(policy, context({ uid: 'editor1' }))).toEqual(['submitter']);
+    expect(findDutyConflicts(policy, context({ uid: 'creator1' }))).toEqual(['creator']);
+    expect(findDutyConflicts(policy, context({ uid: 'rev1' }))).toEqual(['consecutiveStage']);
+    expect(
+      findDutyConflicts(
+        { ...policy, blockCreator: false },
+        context({ uid: 'creator1', submitters: ['creator1'] })
+      )
+    ).toEqual(['submitter']);
+  });
+
+  it('denies conflicted approvers without an exception role', () => {
+    expect(checkSeparationOfDuties(policy, context({ uid: 'editor1' }))).toEqual({
+      kind: 'denied',
+      conflicts: ['submitter'],
+      message: 'Separation of duties: approver submitted this review',
+    });
+  });
+
+  it('requires a second sign-off for admin exceptions', () => {
+    const adminCheck = checkSeparationOfDuties(
+      policy,
+      context({ uid: 'rev1', roles: { admin: true } })
+    );
+    expect(adminCheck).toEqual({ kind: 'secondSignOffRequired', conflicts: ['consecutiveStage'] });
+
+    const withoutSecond: SeparationOfDutiesPolicy = {
+      ...policy,
+      exceptions: { ...policy.exceptions, requireSecondSignOff: false },
+    };
+    expect(
+      checkSeparationOfDuties(withoutSecond, context({ uid: 'rev1', roles: { admin: true } })).kind
+    ).toBe('exception');
+  });
+
+  it('only lets an independent approver confirm a pending exception', () => {
+    const now = new Date('2025-06-01T00:00:00Z');
+    const pending = [
+      stages[0]!,
+      requestDutyException(stages[1]!, 'rev1', ['consecutiveStage'], 'Covering', now),
+    ];
+
+    expect(
+      checkSeparationOfDuties(
+        policy,
+        context({ uid: 'rev1', roles: { admin: true }, stages: pending })
+      ).kind
+    ).toBe('denied');
+    expect(checkSeparationOfDuties(policy, context({ uid: 'editor1', stages: pending })).kind).toBe(
+      'denied'
+    );
+    expect(checkSeparationOfDuties(policy, context({ stages: pending })).kind).toBe('allowed');
+
+    expect(confirmDutyException(pending[1]!, 'mgr1', now).dutyException).toEqual({
+      requestedBy: 'rev1',
+      conflicts: ['consecutiveStage'],
+      reason: 'Covering',
+      requestedAt: now.toISOString(),
+      confirmedBy: 'mgr1',
+      confirmedAt: now.toISOString(),
+    });
+  });
+
+  it('treats an exception requester as an approver of the next stage', () => {
+    const approvedWithException: ReviewStage[] = [
+      {
+        ...requestDutyException(stages[0]!, 'adm1', ['submitter'], 'Covering'),
+        status: 'approved',
+        decidedBy: 'rev2',
+      },
+      stages[1]!,
+    ];
+
+    expect(
+      findDutyConflicts(policy, context({ uid: 'adm1', stages: approvedWithException }))
+    ).toEqual(['consecutiveStage']);
+  });
+});
@@ -0,0 +1,149 @@
+import { WrikeApiError, WrikeClient, WrikeTokens } from '../integrations/wrikeClient';
+import { WrikeStub, startWrikeStub } from '../integrations/wrikeStub';
+
+describe('WrikeClient', () => {
+  let stub: WrikeStub;
+  const delays: number[] = [];
+  const sleep = async (ms: number) => {
+    delays.push(ms);
+  };
+
+  beforeEach(async () => {
+    stub = await startWrikeStub();
+    delays.length = 0;
+  });
+
+  afterEach(async () => {
+    await stub.close();
+  });
+
+  it('reads folders, tasks, custom fields and contacts', async () => {
+    const client = new WrikeClient(stub.config(), { sleep });
+    const projectId = stub.config().projectId;
+
+    expect((await client.getFolder(projectId))?.title).toBe('Vizzy Campaigns');
+    expect((await client.getFolderTasks(projectId)).map(task => task.title)).toEqual([
+      'Draft launch brief',
+      'Book media slots',
+    ]);
+    expect((await client.getCustomFields()).map(field => field.title)).toContain('budget');
+    expect(await client.getContacts()).toHaveLength(2);
+    expect((await client.getMe())?.id).toBe('KUAAAAAA00000001');
+  });
+
+  it('creates and updates tasks', async () => {
+    const client = new WrikeClient(stub.config(), { sleep });
+    const task = await client.createTask(stub.config().projectId, {
+      title: 'Approve creative',
+      responsibles: ['KUAAAAAA00000001'],
+      dates: { type: 'Milestone', due: '2026-04-01' },
+    });
+    expect(task).toMatchObject({ status: 'Active', responsibleIds: ['KUAAAAAA00000001'] });
+
+    const updated = await client.updateTask(task.id, {
+      status: 'Completed',
+      addResponsibles: ['KUAAAAAA00000002'],
+      removeResponsibles: ['KUAAAAAA00000001'],
+    });
+    expect(updated).toMatchObject({ status: 'Completed', responsibleIds: ['KUAAAAAA00000002'] });
+    expect(stub.state.tasks.get(task.id)?.status).toBe('Completed');
+  });
+
+  it('registers and resumes webhooks', async () => {
+    const client = new WrikeClient(stub.config(), { sleep });
+    const webhook = await client.createWebhook(stub.config().projectId, {
+      hookUrl: 'https://example.com/wrikeWebhook',
+      secret: 'shh',
+      events: ['TaskStatusChanged'],
+    });
+    expect(webhook).toMatchObject({ status: 'Active', folderId: stub.config().projectId });
+
+    stub.state.webhooks.get(webhook.id)!.status = 'Suspended';
+    expect((await client.getWebhooks()).map(found => found.status)).toEqual(['Suspended']);
+    expect(await client.updateWebhook(webhook.id, { status: 'Active' })).toMatchObject({
+      status: 'Active',
+    });
+  });
+
+  it('refreshes an expired access token once and reports the new pair', async () => {
+    const refreshed: WrikeTokens[] = [];
+    const client = new WrikeClient(stub.config(), {
+      sleep,
+      onTokenRefresh: tokens => {
+        refreshed.push(tokens);
+      },
+    });
+    stub.expireAccessToken();
+
+    expect(await client.getContacts()).toHaveLength(2);
+    expect(refreshed).toEqual([
+      { accessToken: stub.state.accessToken, refreshToken: stub.state.refreshToken },
+    ]);
+  });
+
+  it('shares one refresh between concurrent requests', async () => {
+    const client = new WrikeClient(stub.config(), { sleep });
+    stub.expireAccessToken();
+
+    // The stub rejects a reused refresh token, so a second refresh would fail
+    await expect(
+      Promise.all([client.getContacts(), client.getCustomFields(), client.getMe()])
+    ).resolves.toHaveLength(3);
+  });
+
+  it('fails when the token cannot be refreshed', async () => {
+    const client = new WrikeClient(stub.config({ clientSecret: 'wrong' }), { sleep });
+    stub.expireAccessToken();
+
+    await expect(client.getContacts()).rejects.toMatchObject({
+      name: 'WrikeApiError',
+      status: 401,
+      code: 'invalid_client',
+    });
+  });
+
+  it('waits out rate limits, honouring Retry-After', async () => {
+    const client = new WrikeClient(stub.config(), { sleep, baseDelayMs: 100 });
+    stub.failNext({ status: 429, retryAfter: 2 });
+    stub.failNext({ status: 429 });
+
+    expect(await client.getCustomFields()).toHaveLength(4);
+    expect(delays).toEqual([2000, 200]);
+  });
+
+  it('retries a rate-limited create but not one that failed on the server', async () => {
+    const client = new WrikeClient(stub.config(), { sleep });
+    const folderId = stub.config().projectId;
+
+    stub.failNext({ status: 429, retryAfter: 0 });
+    await expect(client.createTask(folderId, { title: 'Once' })).resolves.toMatchObject({
+      title: 'Once',
+    });
+
+    const before = stub.requests.length;
+    stub.failNext({ status: 503 });
+    await expect(client.createTask(folderId, { title: 'Maybe twice' })).rejects.toBeInstanceOf(
+      WrikeApiError
+    );
+    expect(stub.requests.length - before).toBe(1);
+  });
+
+  it('gives up after maxRetries', async () => {
+    const client = new WrikeClient(stub.config(), { sleep, maxRetries: 2 });
+    stub.failNext({ status: 429, times: 3, retryAfter: 0 });
+
+    await expect(client.getContacts()).rejects.toMatchObject({
+      status: 429,
+      code: 'rate_limit_exceeded',
+    });
+    expect(stub.requests).toHaveLength(3);
+  });
+
+  it('surfaces Wrike errors', async () => {
+    const client = new WrikeClient(stub.config(), { sleep });
+    await expect(client.getTask('missing')).rejects.toMatchObject({
+      status: 404,
+      code: 'resource_not_found',
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { GovernanceRulePackSchema } from '../lib/governanceRules';
+import {
+  DEFAULT_WRIKE_SYNC,
+  WrikeSyncPolicy,
+  fromWrikeDay,
+  reconcileWrikeSync,
+  toActivityStatus,
+  toWrikeDay,
+  wrikeConflictId,
+} from '../lib/wrikeConflicts';
+
+describe('wrikeConflicts', () => {
+  const baseline = { status: 'active', dueDate: '2026-03-10', assignedTo: 'u1' };
+
+  it('copies a change made on one side to the other', () => {
+    const result = reconcileWrikeSync(
+      baseline,
+      { ...baseline, assignedTo: 'u2' },
+      { ...baseline, dueDate: '2026-03-17' },
+      DEFAULT_WRIKE_SYNC
+    );
+
+    expect(result.pull).toEqual({ dueDate: '2026-03-17' });
+    expect(result.push).toEqual({ assignedTo: 'u2' });
+    expect(result.conflicts).toEqual([]);
+    expect(result.baseline).toEqual({ status: 'active', dueDate: '2026-03-17', assignedTo: 'u2' });
+  });
+
+  it('reports fields changed on both sides under the manual policy', () => {
+    const result = reconcileWrikeSync(
+      baseline,
+      { ...baseline, dueDate: '2026-03-12' },
+      { ...baseline, dueDate: '2026-03-17' },
+      DEFAULT_WRIKE_SYNC
+    );
+
+    expect(result.pull).toEqual({});
+    expect(result.push).toEqual({});
+    expect(result.conflicts).toEqual([
+      {
+        field: 'dueDate',
+        baseline: '2026-03-10',
+        vizzyValue: '2026-03-12',
+        wrikeValue: '2026-03-17',
+      },
+    ]);
+    // The baseline stays put so the conflict is found again until resolved
+    expect(result.baseline['dueDate']).toBe('2026-03-10');
+  });
+
+  it('settles conflicts by policy, with per-field exceptions', () => {
+    const policy: WrikeSyncPolicy = {
+      conflictPolicy: 'vizzy_wins',
+      fieldPolicies: { dueDate: 'wrike_wins' },
+    };
+    const result = reconcileWrikeSync(
+      baseline,
+      { status: 'completed', dueDate: '2026-03-12', assignedTo: 'u1' },
+      { status: 'deferred', dueDate: '2026-03-17', assignedTo: 'u1' },
+      policy
+    );
+
+    expect(result.push).toEqual({ status: 'completed' });
+    expect(result.pull).toEqual({ dueDate: '2026-03-17' });
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('treats both sides as changed when a field has no baseline', () => {
+    const result = reconcileWrikeSync(
+      {},
+      { dueDate: '2026-03-12', assignedTo: 'u1' },
+      { dueDate: null, assignedTo: 'u1' },
+      DEFAULT_WRIKE_SYNC
+    );
+
+    expect(result.conflicts).toEqual([
+      { field: 'dueDate', baseline: null, vizzyValue: '2026-03-12', wrikeValue: null },
+    ]);
+    expect(result.baseline).toEqual({ assignedTo: 'u1' });
+  });
+
+  it('skips fields one side cannot express', () => {
+    const result = reconcileWrikeSync(
+      baseline,
+      { dueDate: '2026-03-10', assignedTo: 'u2' },
+      { dueDate: '2026-03-10' },
+      DEFAULT_WRIKE_SYNC
+    );
+
+    expect(result.push).toEqual({});
+    expect(result.baseline).toEqual({ dueDate: '2026-03-10' });
+  });
+
+  it('maps Wrike task statuses onto activity statuses', () => {
+    expect(toActivityStatus('Completed')).toBe('completed');
+    expect(toActivityStatus('OnHold')).toBeNull();
+    expect(wrikeConflictId('c1', null, 'dueDate')).toBe('c1_campaign_dueDate');
+  });
+
+  it('parses a Wrike sync policy from a rule pack', () => {
+    const pack = GovernanceRulePackSchema.parse({
+      version: 4,
+      rules: [],
+      wrikeSync: { conflictPolicy: 'wrike_wins', fieldPolicies: { assignedTo: 'manual' } },
+    });
+    expect(pack.wrikeSync?.fieldPolicies?.assignedTo).toBe('manual');
+
+    expect(() =>
+      GovernanceRulePackSchema.parse({
+        version: 4,
+        rules: [],
+        wrikeSync: { conflictPolicy: 'newest_wins' },
+      })
+    ).toThrow();
+  });
+
+  it('turns Wrike days into UTC midnight and back', () => {
+    const date = fromWrikeDay('2026-03-10');
+
+    expect(date?.toISOString()).toBe('2026-03-10T00:00:00.000Z');
+    expect(toWrikeDay(date)).toBe('2026-03-10');
+    expect(fromWrikeDay(null)).toBeNull();
+    expect(fromWrikeDay('not a day')).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+import {
+  isHandshakeExpected,
+  parseWrikeWebhookEvents,
+  signWrikeWebhook,
+  verifyWrikeWebhookSignature,
+  wrikeEventKey,
+} from '../lib/wrikeWebhooks';
+
+describe('wrikeWebhooks', () => {
+  const secret = 'webhook-secret';
+  const statusChanged = {
+    webhookId: 'IEAAAAAAJA000001',
+    eventAuthorId: 'KUAAAAAA00000002',
+    eventType: 'TaskStatusChanged',
+    taskId: 'IEAAAAAAKQ000001',
+    oldStatus: 'Active',
+    status: 'Completed',
+    lastUpdatedDate: '2026-03-10T09:30:00Z',
+  };
+
+  it('accepts deliveries signed with the secret', () => {
+    const rawBody = Buffer.from(JSON.stringify([statusChanged]));
+    const signature = signWrikeWebhook(secret, rawBody);
+
+    expect(verifyWrikeWebhookSignature(secret, rawBody, signature)).toBe(true);
+    expect(verifyWrikeWebhookSignature(secret, rawBody, signature.toUpperCase())).toBe(true);
+  });
+
+  it('rejects unsigned, mis-signed and altered deliveries', () => {
+    const rawBody = Buffer.from(JSON.stringify([statusChanged]));
+    const signature = signWrikeWebhook(secret, rawBody);
+    const altered = Buffer.from(JSON.stringify([{ ...statusChanged, status: 'Cancelled' }]));
+
+    expect(verifyWrikeWebhookSignature(secret, rawBody, undefined)).toBe(false);
+    expect(verifyWrikeWebhookSignature('other', rawBody, signature)).toBe(false);
+    expect(verifyWrikeWebhookSignature(secret, altered, signature)).toBe(false);
+    expect(verifyWrikeWebhookSignature(secret, rawBody, 'short')).toBe(false);
+  });
+
+  it('keeps task events we act on and drops the rest', () => {
+    const events = parseWrikeWebhookEvents([
+      statusChanged,
+      { webhookId: 'w', eventType: 'FolderTitleChanged', folderId: 'f' },
+      { webhookId: 'w', eventType: 'TaskDatesChanged' },
+      { webhookId: 'w', eventType: 'CommentAdded', taskId: 't', commentId: 'c' },
+    ]);
+
+    expect(events.map(event => event.eventType)).toEqual(['TaskStatusChanged', 'CommentAdded']);
+    expect(events[0]).toMatchObject({ status: 'Completed' });
+    expect(() => parseWrikeWebhookEvents({ eventType: 'TaskStatusChanged' })).toThrow();
+  });
+
+  it('gives a redelivered event the same key', () => {
+    const [event] = parseWrikeWebhookEvents([statusChanged]);
+    const [redelivered] = parseWrikeWebhookEvents([JSON.parse(JSON.stringify(statusChanged))]);
+    const [later] = parseWrikeWebhookEvents([
+      { ...statusChanged, lastUpdatedDate: '2026-03-10T09:31:00Z' },
+    ]);
+
+    expect(wrikeEventKey(event!)).toBe(wrikeEventKey(redelivered!));
+    expect(wrikeEventKey(event!)).not.toBe(wrikeEventKey(later!));
+    expect(wrikeEventKey(event!)).toMatch(/^[0-9a-f]{40}$/);
+  });
+
+  it('expects the handshake only while a registration is outstanding', () => {
+    const now = new Date('2026-03-10T09:30:00Z');
+
+    expect(isHandshakeExpected(new Date('2026-03-10T09:31:00Z'), now)).toBe(true);
+    expect(isHandshakeExpected(new Date('2026-03-10T09:29:00Z'), now)).toBe(false);
+    expect(isHandshakeExpected(null, now)).toBe(false);
+  });
+});
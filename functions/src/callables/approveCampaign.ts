@@ -1,24 +1,41 @@
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import * as admin from 'firebase-admin';
 import { z } from 'zod';
-import { auditHash } from '../lib/auditHash';
-
-const ApproveCampaignSchema = z.object({
-  campaignId: z.string().min(1),
-  reviewId: z.string().min(1),
-  approvalType: z.enum(['approve', 'reject']),
-  reason: z.string().min(1, 'Reason is required for approval/rejection'),
+import { governanceEngine } from '../lib/governanceEngine';
+import { ReviewDecisionResult, decideReview } from '../lib/reviewDecisions';
+import { LifecycleTransitionError } from '../shared/campaignLifecycle';
+import { IdempotencyKeyReuseError, runIdempotentTransaction } from '../lib/idempotency';
+
+const ReviewCommentSchema = z.object({
+  field: z.string().min(1).optional(),
+  message: z.string().min(1),
 });
 
+const ApproveCampaignSchema = z
+  .object({
+    campaignId: z.string().min(1),
+    reviewId: z.string().min(1),
+    approvalType: z.enum(['approve', 'reject', 'request_changes']),
+    reason: z.string().min(1, 'Reason is required for approval/rejection'),
+    comments: z.array(ReviewCommentSchema).default([]),
+    // Retries with the same key return the first result instead of deciding again
+    idempotencyKey: z.string().min(1).max(128).optional(),
+  })
+  .refine(data => data.approvalType !== 'request_changes' || data.comments.length > 0, {
+    message: 'At least one comment is required when requesting changes',
+    path: ['comments'],
+  });
+
 export const approveCampaign = onCall(
   {
     timeoutSeconds: 30,
     memory: '256MiB',
   },
-  async (request): Promise<{ success: boolean; newStatus: string }> => {
+  async (request): Promise<ReviewDecisionResult> => {
     try {
       // Validate input
-      const { campaignId, reviewId, approvalType, reason } = ApproveCampaignSchema.parse(request.data);
+      const input = ApproveCampaignSchema.parse(request.data);
+      const { campaignId, reviewId, approvalType, reason, comments, idempotencyKey } = input;
 
       // Check authentication
       if (!request.auth) {
@@ -26,98 +43,57 @@ export const approveCampaign = onCall(
       }
 
       const uid = request.auth.uid;
+      const db = admin.firestore();
 
-      // Check if user has permission to approve/reject
-      const userDoc = await admin.firestore().collection('users').doc(uid).get();
+      // Load the approver's roles; stage pools decide who may act
+      const userDoc = await db.collection('users').doc(uid).get();
       if (!userDoc.exists) {
         throw new HttpsError('not-found', 'User profile not found');
       }
 
-      const userData = userDoc.data();
-      const userRoles = userData?.roles || {};
-      
-      if (!userRoles.reviewer && !userRoles.admin) {
-        throw new HttpsError('permission-denied', 'User does not have permission to approve campaigns');
-      }
-
-      // Get review record
-      const reviewDoc = await admin.firestore().collection('governance').doc(reviewId).get();
-      if (!reviewDoc.exists) {
-        throw new HttpsError('not-found', 'Review record not found');
-      }
-
-      const reviewData = reviewDoc.data();
-      
-      // Check if review is still pending
-      if (reviewData!.status !== 'pending') {
-        throw new HttpsError('failed-precondition', 'Review has already been processed');
-      }
-
-      // Update review record
-      await admin.firestore().collection('governance').doc(reviewId).update({
-        status: approvalType === 'approve' ? 'approved' : 'rejected',
-        reviewedBy: uid,
-        reviewedAt: admin.firestore.FieldValue.serverTimestamp(),
-        reason,
-      });
-
-      // Update campaign status
-      const newStatus = approvalType === 'approve' ? 'approved' : 'rejected';
-      await admin.firestore().collection('campaigns').doc(campaignId).update({
-        status: newStatus,
-        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-        lastReviewDecision: admin.firestore.FieldValue.serverTimestamp(),
-        reviewDecision: approvalType,
-        reviewReason: reason,
-      });
-
-      // Log approval/rejection
-      await admin.firestore().collection('telemetry').add({
-        event: `campaign_${approvalType}`,
-        userId: uid,
-        campaignId,
-        reviewId,
-        reason,
-        timestamp: admin.firestore.FieldValue.serverTimestamp(),
-      });
-
-      // Create audit log
-      const auditEntry = {
-        action: `campaign_${approvalType}`,
-        resourceId: campaignId,
-        userId: uid,
-        timestamp: admin.firestore.FieldValue.serverTimestamp(),
-        metadata: {
-          reviewId,
-          reason,
-          previousStatus: reviewData!.status,
-          newStatus,
-        },
-        hash: auditHash({
-          action: `campaign_${approvalType}`,
-          resourceId: campaignId,
-          userId: uid,
-          timestamp: new Date().toISOString(),
-        }),
-      };
-
-      await admin.firestore().collection('governance').add(auditEntry);
+      const userRoles = (userDoc.data()?.['roles'] ?? {}) as Record<string, boolean>;
+
+      // Policies come from the rule pack, not from the documents being changed
+      const dutyPolicy = await governanceEngine.getSeparationOfDutiesPolicy();
+      const slaPolicy = await governanceEngine.getReviewSlaPolicy();
+
+      // The decision reads and writes in one transaction (see decideReview)
+      const result = await runIdempotentTransaction(
+        { callable: 'approveCampaign', uid, key: idempotencyKey, request: input },
+        transaction =>
+          decideReview(transaction, {
+            uid,
+            userRoles,
+            campaignId,
+            reviewId,
+            approvalType,
+            reason,
+            comments,
+            dutyPolicy,
+            slaPolicy,
+          })
+      );
 
       // If approved, trigger any post-approval workflows
-      if (approvalType === 'approve') {
+      if (result.newStatus === 'approved') {
         // TODO: Trigger automated workflows like notifications, status updates, etc.
         console.log(`Campaign ${campaignId} approved, triggering post-approval workflows`);
       }
 
-      return {
-        success: true,
-        newStatus,
-      };
+      return result;
     } catch (error) {
       if (error instanceof z.ZodError) {
         throw new HttpsError('invalid-argument', 'Invalid input data', error.errors);
       }
 
+      if (error instanceof LifecycleTransitionError) {
+        throw new HttpsError('failed-precondition', error.message);
+      }
+
+      if (error instanceof IdempotencyKeyReuseError) {
+        throw new HttpsError('already-exists', error.message);
+      }
+
       if (error instanceof HttpsError) {
         throw error;
       }
@@ -0,0 +1,193 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import * as admin from 'firebase-admin';
+import { z } from 'zod';
+import { openAuditLedger } from '../lib/auditLedger';
+import { governanceEngine } from '../lib/governanceEngine';
+import { ReviewDecisionResult, decideReview } from '../lib/reviewDecisions';
+import { LifecycleTransitionError } from '../shared/campaignLifecycle';
+import {
+  IdempotencyKeyReuseError,
+  idempotencyDocId,
+  runIdempotentTransaction,
+} from '../lib/idempotency';
+
+export const MAX_BULK_REVIEWS = 50;
+
+const BulkReviewDecisionSchema = z
+  .object({
+    reviews: z
+      .array(z.object({ reviewId: z.string().min(1), campaignId: z.string().min(1) }))
+      .min(1)
+      .max(MAX_BULK_REVIEWS),
+    approvalType: z.enum(['approve', 'reject', 'request_changes']),
+    reason: z.string().min(1, 'Reason is required for bulk decisions'),
+    // Shared by every item; required (at least one) for request_changes
+    comments: z
+      .array(z.object({ field: z.string().min(1).optional(), message: z.string().min(1) }))
+      .default([]),
+    // Each item is keyed as `${idempotencyKey}:${reviewId}` and the summary as
+    // `${idempotencyKey}:summary`, so a retried batch skips the items that
+    // already went through and keeps the same bulkId and summary
+    idempotencyKey: z.string().min(1).max(128).optional(),
+  })
+  .refine(data => data.approvalType !== 'request_changes' || data.comments.length > 0, {
+    message: 'At least one comment is required when requesting changes',
+    path: ['comments'],
+  })
+  .refine(data => new Set(data.reviews.map(item => item.reviewId)).size === data.reviews.length, {
+    message: 'Each review may appear only once',
+    path: ['reviews'],
+  });
+
+type BulkItemResult =
+  | ({ reviewId: string; campaignId: string } & ReviewDecisionResult)
+  | { reviewId: string; campaignId: string; success: false; code: string; message: string };
+
+interface BulkReviewDecisionResult {
+  bulkId: string;
+  succeeded: number;
+  failed: number;
+  results: BulkItemResult[];
+}
+
+// Same error mapping as approveCampaign, reported per item instead of thrown
+function describeItemError(error: unknown): { code: string; message: string } {
+  if (error instanceof LifecycleTransitionError) {
+    return { code: 'failed-precondition', message: error.message };
+  }
+  if (error instanceof IdempotencyKeyReuseError) {
+    return { code: 'already-exists', message: error.message };
+  }
+  if (error instanceof HttpsError) {
+    return { code: error.code, message: error.message };
+  }
+  console.error('Bulk review item error:', error);
+  return { code: 'internal', message: 'Internal server error during approval' };
+}
+
+export const bulkReviewDecision = onCall(
+  {
+    timeoutSeconds: 120,
+    memory: '256MiB',
+  },
+  async (request): Promise<BulkReviewDecisionResult> => {
+    try {
+      const input = BulkReviewDecisionSchema.parse(request.data);
+      const { reviews, approvalType, reason, comments, idempotencyKey } = input;
+
+      if (!request.auth) {
+        throw new HttpsError('unauthenticated', 'User must be authenticated');
+      }
+
+      const uid = request.auth.uid;
+      const db = admin.firestore();
+
+      const userDoc = await db.collection('users').doc(uid).get();
+      if (!userDoc.exists) {
+        throw new HttpsError('not-found', 'User profile not found');
+      }
+
+      const userRoles = (userDoc.data()?.['roles'] ?? {}) as Record<string, boolean>;
+
+      const dutyPolicy = await governanceEngine.getSeparationOfDutiesPolicy();
+      const slaPolicy = await governanceEngine.getReviewSlaPolicy();
+
+      // Groups the per-item audit records under one summary record; a retried
+      // batch derives the same id from its key
+      const bulkId = idempotencyKey
+        ? idempotencyDocId('bulkReviewDecision', uid, idempotencyKey)
+        : db.collection('governance').doc().id;
+
+      // Items are decided one at a time, each in its own transaction, so one
+      // failure does not hold back the rest of the batch
+      const results: BulkItemResult[] = [];
+      for (const { reviewId, campaignId } of reviews) {
+        try {
+          const result = await runIdempotentTransaction(
+            {
+              callable: 'bulkReviewDecision',
+              uid,
+              key: idempotencyKey ? `${idempotencyKey}:${reviewId}` : undefined,
+              request: { reviewId, campaignId, approvalType, reason, comments },
+            },
+            transaction =>
+              decideReview(transaction, {
+                uid,
+                userRoles,
+                campaignId,
+                reviewId,
+                approvalType,
+                reason,
+                comments,
+                dutyPolicy,
+                slaPolicy,
+                auditMetadata: { bulkId },
+              })
+          );
+          results.push({ reviewId, campaignId, ...result });
+        } catch (error) {
+          results.push({ reviewId, campaignId, success: false, ...describeItemError(error) });
+        }
+      }
+
+      const failures = results.filter(
+        (item): item is Extract<BulkItemResult, { success: false }> => !item.success
+      );
+      const succeeded = results.length - failures.length;
+
+      // The summary and its telemetry are written once per batch, however
+      // often it is retried
+      const reviewIds = reviews.map(item => item.reviewId);
+      await runIdempotentTransaction(
+        {
+          callable: 'bulkReviewDecision',
+          uid,
+          key: idempotencyKey ? `${idempotencyKey}:summary` : undefined,
+          request: { approvalType, reason, reviewIds },
+        },
+        async transaction => {
+          const ledger = await openAuditLedger(transaction);
+
+          transaction.set(db.collection('telemetry').doc(), {
+            event: 'review_bulk_decision',
+            userId: uid,
+            bulkId,
+            approvalType,
+            total: results.length,
+            succeeded,
+            failed: failures.length,
+            timestamp: admin.firestore.FieldValue.serverTimestamp(),
+          });
+
+          ledger.append({
+            action: 'review_bulk_decision',
+            resourceId: bulkId,
+            userId: uid,
+            metadata: {
+              approvalType,
+              reason,
+              reviewIds,
+              succeeded,
+              failures: failures.map(item => ({ reviewId: item.reviewId, code: item.code })),
+            },
+          });
+
+          return { bulkId };
+        }
+      );
+
+      return { bulkId, succeeded, failed: failures.length, results };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new HttpsError('invalid-argument', 'Invalid input data', error.errors);
+      }
+
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Bulk review decision error:', error);
+      throw new HttpsError('internal', 'Internal server error during bulk review');
+    }
+  }
+);
@@ -0,0 +1,175 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { defineSecret } from 'firebase-functions/params';
+import * as admin from 'firebase-admin';
+import { z } from 'zod';
+import { AuditChainHead, EMPTY_CHAIN, appendAuditEntry } from '../lib/auditLedger';
+import { loadAuditEntries } from '../lib/auditArchive';
+import { toCheckpoint, verifyCheckpointSignature } from '../lib/auditCheckpoints';
+import {
+  AUDIT_BUNDLE_FILES,
+  AuditBundleManifest,
+  buildAuditBundle,
+  signAuditManifest,
+} from '../lib/auditBundle';
+
+const auditCheckpointKey = defineSecret('AUDIT_CHECKPOINT_KEY');
+// Ed25519 private key (PKCS#8 PEM); auditors get the matching public key
+const auditExportSigningKey = defineSecret('AUDIT_EXPORT_SIGNING_KEY');
+
+const MAX_BUNDLE_ENTRIES = 50000;
+const DOWNLOAD_URL_TTL_MS = 60 * 60 * 1000;
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+// Only days the chain monitor has checkpointed can be exported
+const ExportAuditBundleSchema = z
+  .object({ from: isoDate, to: isoDate })
+  .refine(range => range.from <= range.to, { message: '`from` must not be after `to`' });
+
+interface ExportAuditBundleResult {
+  bundleId: string;
+  manifest: AuditBundleManifest;
+  files: Array<{ name: string; path: string; url: string }>;
+}
+
+export const exportAuditBundle = onCall(
+  {
+    timeoutSeconds: 300,
+    memory: '1GiB',
+    secrets: [auditCheckpointKey, auditExportSigningKey],
+  },
+  async (request): Promise<ExportAuditBundleResult> => {
+    try {
+      const range = ExportAuditBundleSchema.parse(request.data);
+
+      if (!request.auth) {
+        throw new HttpsError('unauthenticated', 'User must be authenticated');
+      }
+
+      const uid = request.auth.uid;
+      const db = admin.firestore();
+
+      const userDoc = await db.collection('users').doc(uid).get();
+      if (!userDoc.exists) {
+        throw new HttpsError('not-found', 'User profile not found');
+      }
+
+      const userRoles = (userDoc.data()?.['roles'] ?? {}) as Record<string, boolean>;
+      if (!userRoles['admin'] && !userRoles['auditor']) {
+        throw new HttpsError('permission-denied', 'User cannot export the audit ledger');
+      }
+
+      const checkpointSnapshot = await db
+        .collection('auditCheckpoints')
+        .where('date', '>=', range.from)
+        .where('date', '<=', range.to)
+        .get();
+      const checkpoints = checkpointSnapshot.docs
+        .map(doc => ({ id: doc.id, ...toCheckpoint(doc.data()) }))
+        .sort((a, b) => a.toSequence - b.toSequence);
+
+      const first = checkpoints[0];
+      const last = checkpoints[checkpoints.length - 1];
+      if (!first || !last) {
+        throw new HttpsError('not-found', 'No checkpointed audit entries in this range');
+      }
+
+      // Never hand out a bundle built on checkpoints we did not sign
+      const key = auditCheckpointKey.value();
+      const forged = checkpoints.find(checkpoint => !verifyCheckpointSignature(checkpoint, key));
+      if (forged) {
+        throw new HttpsError(
+          'failed-precondition',
+          `Checkpoint ${forged.id} has an invalid signature; run verifyAuditLedger`
+        );
+      }
+
+      if (last.toSequence - first.fromSequence + 1 > MAX_BUNDLE_ENTRIES) {
+        throw new HttpsError(
+          'invalid-argument',
+          `Range holds more than ${MAX_BUNDLE_ENTRIES} entries; export a shorter range`
+        );
+      }
+
+      let anchor: AuditChainHead = EMPTY_CHAIN;
+      if (first.previousCheckpoint) {
+        const previousDoc = await db
+          .collection('auditCheckpoints')
+          .doc(first.previousCheckpoint)
+          .get();
+        if (previousDoc.exists) {
+          const previous = toCheckpoint(previousDoc.data() ?? {});
+          anchor = { sequence: previous.toSequence, hash: previous.headHash };
+        }
+      }
+
+      // Entries past the retention period are read back from their archives
+      const entries = await loadAuditEntries(first.fromSequence, last.toSequence);
+
+      const bundleId = `${range.from}_${range.to}_${Date.now()}`;
+      const bundle = buildAuditBundle({
+        bundleId,
+        generatedAt: new Date().toISOString(),
+        generatedBy: uid,
+        range,
+        anchor,
+        entries,
+        checkpoints,
+      });
+      const manifestJson = bundle.files[AUDIT_BUNDLE_FILES.manifest] ?? '';
+      const files: Record<string, string> = {
+        ...bundle.files,
+        [AUDIT_BUNDLE_FILES.signature]:
+          signAuditManifest(manifestJson, auditExportSigningKey.value()) + '\n',
+      };
+
+      const bucket = admin.storage().bucket();
+      const expires = Date.now() + DOWNLOAD_URL_TTL_MS;
+      const stored = await Promise.all(
+        Object.entries(files).map(async ([name, content]) => {
+          const path = `exports/audit/${bundleId}/${name}`;
+          const file = bucket.file(path);
+          await file.save(content, {
+            contentType: name.endsWith('.json') ? 'application/json' : 'text/plain',
+            metadata: { metadata: { bundleId, generatedBy: uid } },
+          });
+          const [url] = await file.getSignedUrl({ action: 'read', expires });
+          return { name, path, url };
+        })
+      );
+
+      await appendAuditEntry({
+        action: 'audit_bundle_exported',
+        resourceId: bundleId,
+        userId: uid,
+        metadata: {
+          range,
+          fromSequence: bundle.manifest.fromSequence,
+          toSequence: bundle.manifest.toSequence,
+          entryCount: bundle.manifest.entryCount,
+        },
+      });
+
+      await db.collection('telemetry').add({
+        event: 'audit_bundle_exported',
+        userId: uid,
+        bundleId,
+        entryCount: bundle.manifest.entryCount,
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      return { bundleId, manifest: bundle.manifest, files: stored };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new HttpsError('invalid-argument', 'Invalid input data', error.errors);
+      }
+
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Audit bundle export error:', error);
+      throw new HttpsError('internal', 'Internal server error during audit export');
+    }
+  }
+);
@@ -2,7 +2,7 @@ import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import * as admin from 'firebase-admin';
 import { z } from 'zod';
 import { wrikeMapper } from '../lib/wrikeMapper';
-import { auditHash } from '../lib/auditHash';
+import { appendAuditEntry } from '../lib/auditLedger';
 
 const ExportToWrikeSchema = z.object({
   campaignId: z.string().min(1),
@@ -94,25 +94,16 @@ export const exportToWrike = onCall(
       });
 
       // Create audit log
-      const auditEntry = {
+      await appendAuditEntry({
         action: 'export_to_wrike',
         resourceId: campaignId,
         userId: uid,
-        timestamp: admin.firestore.FieldValue.serverTimestamp(),
         metadata: {
           wrikeId,
           exportType,
           includeMetadata,
         },
-        hash: auditHash({
-          action: 'export_to_wrike',
-          resourceId: campaignId,
-          userId: uid,
-          timestamp: new Date().toISOString(),
-        }),
-      };
-
-      await admin.firestore().collection('governance').add(auditEntry);
+      });
 
       return {
         success: true,
@@ -0,0 +1,87 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import * as admin from 'firebase-admin';
+import { z } from 'zod';
+import { ComplianceReport, governanceEngine } from '../lib/governanceEngine';
+import { appendAuditEntry } from '../lib/auditLedger';
+
+const GetComplianceReportSchema = z.object({
+  campaignId: z.string().min(1),
+  validationType: z.enum(['draft', 'preview', 'publish']).default('preview'),
+});
+
+export const getComplianceReport = onCall(
+  {
+    timeoutSeconds: 60,
+    memory: '512MiB',
+  },
+  async (request): Promise<{ success: boolean; report: ComplianceReport }> => {
+    try {
+      // Validate input
+      const { campaignId, validationType } = GetComplianceReportSchema.parse(request.data);
+
+      // Check authentication
+      if (!request.auth) {
+        throw new HttpsError('unauthenticated', 'User must be authenticated');
+      }
+
+      const uid = request.auth.uid;
+
+      // Compliance snapshots are for reviewers, auditors and admins
+      const userDoc = await admin.firestore().collection('users').doc(uid).get();
+      if (!userDoc.exists) {
+        throw new HttpsError('not-found', 'User profile not found');
+      }
+
+      const userRoles = (userDoc.data()?.['roles'] ?? {}) as Record<string, boolean>;
+
+      if (!userRoles['admin'] && !userRoles['reviewer'] && !userRoles['auditor']) {
+        throw new HttpsError(
+          'permission-denied',
+          'User does not have permission to view compliance reports'
+        );
+      }
+
+      const report = await governanceEngine.getComplianceReport(campaignId, validationType);
+      if (!report) {
+        throw new HttpsError('not-found', 'Campaign not found');
+      }
+
+      // Log report generation
+      await admin.firestore().collection('telemetry').add({
+        event: 'compliance_report_generated',
+        userId: uid,
+        campaignId,
+        status: report.status,
+        rulePackVersion: report.rulePackVersion,
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      // Create audit log
+      await appendAuditEntry({
+        action: 'generate_compliance_report',
+        resourceId: campaignId,
+        userId: uid,
+        metadata: {
+          status: report.status,
+          rulePackVersion: report.rulePackVersion,
+        },
+      });
+
+      return {
+        success: true,
+        report,
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new HttpsError('invalid-argument', 'Invalid input data', error.errors);
+      }
+
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Compliance report error:', error);
+      throw new HttpsError('internal', 'Internal server error while generating compliance report');
+    }
+  }
+);
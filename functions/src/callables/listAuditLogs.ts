@@ -0,0 +1,96 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import * as admin from 'firebase-admin';
+import { z } from 'zod';
+import { toAuditLog } from '../lib/auditLog';
+import { AuditLogPage, DEFAULT_AUDIT_PAGE_SIZE, MAX_AUDIT_PAGE_SIZE } from '../shared/auditLog';
+
+const DaySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+// Newest first, a page at a time; call again with the returned cursor until it is null
+const ListAuditLogsSchema = z.object({
+  limit: z.number().int().min(1).max(MAX_AUDIT_PAGE_SIZE).default(DEFAULT_AUDIT_PAGE_SIZE),
+  cursor: z.string().min(1).nullish(),
+  actor: z.string().min(1).optional(),
+  target: z.string().min(1).optional(),
+  from: DaySchema.optional(),
+  to: DaySchema.optional(),
+});
+
+function startOfUtcDay(day: string, offsetDays = 0): admin.firestore.Timestamp {
+  const date = new Date(`${day}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + offsetDays);
+  return admin.firestore.Timestamp.fromDate(date);
+}
+
+export const listAuditLogs = onCall(
+  {
+    timeoutSeconds: 60,
+    memory: '256MiB',
+  },
+  async (request): Promise<AuditLogPage> => {
+    try {
+      const { limit, cursor, actor, target, from, to } = ListAuditLogsSchema.parse(
+        request.data ?? {}
+      );
+
+      if (!request.auth) {
+        throw new HttpsError('unauthenticated', 'User must be authenticated');
+      }
+
+      const uid = request.auth.uid;
+      const db = admin.firestore();
+
+      const userDoc = await db.collection('users').doc(uid).get();
+      if (!userDoc.exists) {
+        throw new HttpsError('not-found', 'User profile not found');
+      }
+
+      const userRoles = (userDoc.data()?.['roles'] ?? {}) as Record<string, boolean>;
+      if (!userRoles['admin'] && !userRoles['auditor']) {
+        throw new HttpsError('permission-denied', 'User cannot read audit logs');
+      }
+
+      let query: admin.firestore.Query = db.collection('governance');
+      if (actor) query = query.where('userId', '==', actor);
+      // Client entries that cover several targets list the rest under metadata.targetIds
+      if (target) {
+        query = query.where(
+          admin.firestore.Filter.or(
+            admin.firestore.Filter.where('resourceId', '==', target),
+            admin.firestore.Filter.where('metadata.targetIds', 'array-contains', target)
+          )
+        );
+      }
+      if (from) query = query.where('timestamp', '>=', startOfUtcDay(from));
+      if (to) query = query.where('timestamp', '<', startOfUtcDay(to, 1));
+      query = query.orderBy('timestamp', 'desc');
+      if (cursor) {
+        const cursorDoc = await db.collection('governance').doc(cursor).get();
+        if (!cursorDoc.exists) {
+          throw new HttpsError('invalid-argument', `Unknown audit log cursor: ${cursor}`);
+        }
+        query = query.startAfter(cursorDoc);
+      }
+
+      // One extra doc tells us whether another page follows
+      const snapshot = await query.limit(limit + 1).get();
+      const docs = snapshot.docs.slice(0, limit);
+
+      return {
+        logs: docs.map(doc => toAuditLog(doc.id, doc.data())),
+        nextCursor: snapshot.docs.length > limit ? (docs[docs.length - 1]?.id ?? null) : null,
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new HttpsError('invalid-argument', 'Invalid input data', error.errors);
+      }
+
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('List audit logs error:', error);
+      throw new HttpsError('internal', 'Internal server error while listing audit logs');
+    }
+  }
+);
@@ -0,0 +1,176 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { defineSecret } from 'firebase-functions/params';
+import * as admin from 'firebase-admin';
+import { z } from 'zod';
+import { appendAuditEntry } from '../lib/auditLedger';
+import { toDate } from '../lib/dateSafe';
+import {
+  WRIKE_HANDSHAKE_WINDOW_MS,
+  WRIKE_WEBHOOK_EVENTS,
+  WRIKE_WEBHOOK_STATUS_PATH,
+} from '../lib/wrikeWebhooks';
+import { WrikeIntegration, createWrikeIntegration } from '../integrations/wrike';
+import { WrikeWebhook } from '../integrations/wrikeClient';
+
+const wrikeWebhookSecret = defineSecret('WRIKE_WEBHOOK_SECRET');
+
+// `check` reports on the connection and webhook; `register` creates the
+// webhook, or resumes it if Wrike suspended it, and then reports
+const ManageWrikeWebhookSchema = z.object({
+  action: z.enum(['check', 'register']),
+});
+
+interface WrikeWebhookHealth {
+  connected: boolean;
+  // WRIKE_WEBHOOK_URL, the wrikeWebhook function's public URL
+  hookUrl: string | null;
+  webhook: { id: string; status: WrikeWebhook['status']; folderId?: string } | null;
+  lastEventAt: string | null;
+  lastEventType: string | null;
+  // wrike_sync tasks waiting for ingestionWorker
+  pendingEvents: number;
+}
+
+async function findWebhook(
+  integration: WrikeIntegration,
+  hookUrl: string | null
+): Promise<WrikeWebhook | null> {
+  if (!hookUrl) return null;
+  const webhooks = await integration.client.getWebhooks();
+  return webhooks.find(webhook => webhook.hookUrl === hookUrl) ?? null;
+}
+
+async function checkHealth(
+  integration: WrikeIntegration,
+  hookUrl: string | null
+): Promise<WrikeWebhookHealth> {
+  const db = admin.firestore();
+  const connected = await integration.testConnection();
+  const [webhook, statusDoc, pending] = await Promise.all([
+    connected ? findWebhook(integration, hookUrl) : null,
+    db.doc(WRIKE_WEBHOOK_STATUS_PATH).get(),
+    db
+      .collection('ingestionQueue')
+      .where('type', '==', 'wrike_sync')
+      .where('status', '==', 'pending')
+      .count()
+      .get(),
+  ]);
+  const status = statusDoc.data() ?? {};
+
+  return {
+    connected,
+    hookUrl,
+    webhook: webhook
+      ? {
+          id: webhook.id,
+          status: webhook.status,
+          ...(webhook.folderId ? { folderId: webhook.folderId } : {}),
+        }
+      : null,
+    lastEventAt: toDate(status['lastEventAt'])?.toISOString() ?? null,
+    lastEventType: typeof status['lastEventType'] === 'string' ? status['lastEventType'] : null,
+    pendingEvents: pending.data().count,
+  };
+}
+
+export const manageWrikeWebhook = onCall(
+  {
+    timeoutSeconds: 60,
+    memory: '256MiB',
+    secrets: [wrikeWebhookSecret],
+  },
+  async (request): Promise<WrikeWebhookHealth> => {
+    try {
+      const { action } = ManageWrikeWebhookSchema.parse(request.data);
+
+      if (!request.auth) {
+        throw new HttpsError('unauthenticated', 'User must be authenticated');
+      }
+
+      const uid = request.auth.uid;
+      const db = admin.firestore();
+
+      const userDoc = await db.collection('users').doc(uid).get();
+      if (!userDoc.exists) {
+        throw new HttpsError('not-found', 'User profile not found');
+      }
+
+      const userRoles = (userDoc.data()?.['roles'] ?? {}) as Record<string, boolean>;
+      if (!userRoles['admin']) {
+        throw new HttpsError('permission-denied', 'Only admins can manage the Wrike webhook');
+      }
+
+      const integration = await createWrikeIntegration();
+      if (!integration) {
+        throw new HttpsError('failed-precondition', 'Wrike is not configured');
+      }
+      const hookUrl = process.env['WRIKE_WEBHOOK_URL'] ?? null;
+
+      if (action === 'register') {
+        if (!hookUrl) {
+          throw new HttpsError(
+            'failed-precondition',
+            'Set WRIKE_WEBHOOK_URL to register the webhook'
+          );
+        }
+
+        const existing = await findWebhook(integration, hookUrl);
+        if (existing?.status === 'Active') {
+          throw new HttpsError('already-exists', 'The webhook is already registered and active');
+        }
+
+        // Creating the webhook makes Wrike send the handshake to wrikeWebhook,
+        // so the receiver must be deployed with the same secret. It answers the
+        // handshake only while pendingHandshakeUntil is set.
+        const statusRef = db.doc(WRIKE_WEBHOOK_STATUS_PATH);
+        await statusRef.set(
+          {
+            pendingHandshakeUntil: admin.firestore.Timestamp.fromMillis(
+              Date.now() + WRIKE_HANDSHAKE_WINDOW_MS
+            ),
+          },
+          { merge: true }
+        );
+
+        let webhook: WrikeWebhook;
+        try {
+          webhook = existing
+            ? await integration.client.updateWebhook(existing.id, { status: 'Active' })
+            : await integration.client.createWebhook(integration.rootFolderId, {
+                hookUrl,
+                secret: wrikeWebhookSecret.value(),
+                events: [...WRIKE_WEBHOOK_EVENTS],
+              });
+        } finally {
+          await statusRef.update({
+            pendingHandshakeUntil: admin.firestore.FieldValue.delete(),
+          });
+        }
+
+        await appendAuditEntry({
+          action: existing ? 'wrike_webhook_resumed' : 'wrike_webhook_registered',
+          resourceId: webhook.id,
+          userId: uid,
+          metadata: {
+            hookUrl,
+            ...(webhook.folderId ? { folderId: webhook.folderId } : {}),
+          },
+        });
+      }
+
+      return await checkHealth(integration, hookUrl);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new HttpsError('invalid-argument', 'Invalid input data', error.errors);
+      }
+
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Wrike webhook management error:', error);
+      throw new HttpsError('internal', 'Internal server error while managing Wrike webhook');
+    }
+  }
+);
@@ -0,0 +1,149 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import * as admin from 'firebase-admin';
+import { z } from 'zod';
+import { openAuditLedger } from '../lib/auditLedger';
+import { normalizeCampaignStatus } from '../shared/campaignLifecycle';
+
+// One-time migration of campaign docs onto the shared lifecycle statuses.
+// Runs a page at a time; call again with the returned cursor until it is null.
+const MigrateCampaignStatusesSchema = z.object({
+  dryRun: z.boolean().default(true),
+  pageSize: z.number().int().min(1).max(400).default(200),
+  startAfter: z.string().min(1).optional(),
+});
+
+interface StatusChange {
+  campaignId: string;
+  from: string | null;
+  to: string;
+}
+
+interface MigrateCampaignStatusesResult {
+  dryRun: boolean;
+  scanned: number;
+  changes: StatusChange[];
+  // Statuses outside the lifecycle are left alone for a human to resolve
+  unknown: Array<{ campaignId: string; status: unknown }>;
+  nextCursor: string | null;
+}
+
+export const migrateCampaignStatuses = onCall(
+  {
+    timeoutSeconds: 300,
+    memory: '512MiB',
+  },
+  async (request): Promise<MigrateCampaignStatusesResult> => {
+    try {
+      const { dryRun, pageSize, startAfter } = MigrateCampaignStatusesSchema.parse(
+        request.data ?? {}
+      );
+
+      if (!request.auth) {
+        throw new HttpsError('unauthenticated', 'User must be authenticated');
+      }
+
+      const uid = request.auth.uid;
+      const db = admin.firestore();
+
+      const userDoc = await db.collection('users').doc(uid).get();
+      if (!userDoc.exists) {
+        throw new HttpsError('not-found', 'User profile not found');
+      }
+
+      const userRoles = (userDoc.data()?.['roles'] ?? {}) as Record<string, boolean>;
+      if (!userRoles['admin']) {
+        throw new HttpsError('permission-denied', 'Only admins can migrate campaign statuses');
+      }
+
+      let query = db
+        .collection('campaigns')
+        .orderBy(admin.firestore.FieldPath.documentId())
+        .limit(pageSize);
+      if (startAfter) {
+        query = query.startAfter(startAfter);
+      }
+      const snapshot = await query.get();
+
+      let changes: StatusChange[] = [];
+      const unknown: MigrateCampaignStatusesResult['unknown'] = [];
+      // Status each change was planned from, to detect campaigns edited since the page was read
+      const scannedStatus = new Map<string, unknown>();
+
+      for (const campaignDoc of snapshot.docs) {
+        const status: unknown = campaignDoc.data()['status'];
+        const normalized = normalizeCampaignStatus(status);
+
+        if (normalized === null) {
+          unknown.push({ campaignId: campaignDoc.id, status });
+          continue;
+        }
+
+        if (normalized === status) continue;
+
+        const from = typeof status === 'string' ? status : null;
+        changes.push({ campaignId: campaignDoc.id, from, to: normalized });
+        scannedStatus.set(campaignDoc.id, status);
+      }
+
+      const lastDoc = snapshot.docs[snapshot.docs.length - 1];
+      const nextCursor = snapshot.docs.length === pageSize && lastDoc ? lastDoc.id : null;
+
+      // The page's updates and its audit entry commit together; campaigns whose
+      // status changed since the scan are skipped and left for the next run
+      if (!dryRun && changes.length > 0) {
+        changes = await db.runTransaction(async transaction => {
+          const refs = changes.map(change => db.collection('campaigns').doc(change.campaignId));
+          const current = await transaction.getAll(...refs);
+          const applied = changes.filter(
+            (change, index) =>
+              current[index]?.exists &&
+              current[index]?.data()?.['status'] === scannedStatus.get(change.campaignId)
+          );
+          if (applied.length === 0) return applied;
+
+          const ledger = await openAuditLedger(transaction);
+          for (const change of applied) {
+            transaction.update(db.collection('campaigns').doc(change.campaignId), {
+              status: change.to,
+              statusMigratedFrom: change.from,
+              updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+            });
+          }
+          ledger.append({
+            action: 'campaign_status_migration',
+            resourceId: 'campaigns',
+            userId: uid,
+            metadata: {
+              startAfter: startAfter ?? null,
+              changes: applied,
+            },
+          });
+          return applied;
+        });
+      }
+
+      await db.collection('telemetry').add({
+        event: 'campaign_status_migration_page',
+        userId: uid,
+        dryRun,
+        scanned: snapshot.docs.length,
+        changed: changes.length,
+        unknown: unknown.length,
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      return { dryRun, scanned: snapshot.docs.length, changes, unknown, nextCursor };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new HttpsError('invalid-argument', 'Invalid input data', error.errors);
+      }
+
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Campaign status migration error:', error);
+      throw new HttpsError('internal', 'Internal server error during status migration');
+    }
+  }
+);
@@ -0,0 +1,141 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import * as admin from 'firebase-admin';
+import { z } from 'zod';
+import { GovernanceOverride, findRuleSeverity, isOverridableRule } from '../lib/governanceRules';
+import { governanceEngine } from '../lib/governanceEngine';
+import { openAuditLedger } from '../lib/auditLedger';
+
+const MAX_OVERRIDE_DAYS = 90;
+
+const OverrideGovernanceRuleSchema = z.object({
+  campaignId: z.string().min(1),
+  ruleId: z.string().min(1),
+  justification: z.string().trim().min(20, 'Justification must be at least 20 characters'),
+  expiresAt: z.string().datetime({ offset: true }),
+});
+
+export const overrideGovernanceRule = onCall(
+  {
+    timeoutSeconds: 30,
+    memory: '256MiB',
+  },
+  async (request): Promise<{ success: boolean; override: GovernanceOverride }> => {
+    try {
+      // Validate input
+      const { campaignId, ruleId, justification, expiresAt } = OverrideGovernanceRuleSchema.parse(
+        request.data
+      );
+
+      // Check authentication
+      if (!request.auth) {
+        throw new HttpsError('unauthenticated', 'User must be authenticated');
+      }
+
+      const uid = request.auth.uid;
+
+      // Only managers and admins may waive a blocking rule
+      const userDoc = await admin.firestore().collection('users').doc(uid).get();
+      if (!userDoc.exists) {
+        throw new HttpsError('not-found', 'User profile not found');
+      }
+
+      const userRoles = (userDoc.data()?.['roles'] ?? {}) as Record<string, boolean>;
+
+      if (!userRoles['manager'] && !userRoles['admin']) {
+        throw new HttpsError(
+          'permission-denied',
+          'User does not have permission to override governance rules'
+        );
+      }
+
+      if (!isOverridableRule(ruleId)) {
+        throw new HttpsError('failed-precondition', `Rule ${ruleId} cannot be overridden`);
+      }
+
+      // Only a blocking rule of the active pack can be waived
+      const rulePack = await governanceEngine.loadRulePack();
+      const severity = findRuleSeverity(rulePack, ruleId);
+      if (severity === null) {
+        throw new HttpsError('not-found', `Rule ${ruleId} is not in the active rule pack`);
+      }
+      if (severity !== 'block') {
+        throw new HttpsError('failed-precondition', `Rule ${ruleId} does not block`);
+      }
+
+      // Overrides must expire, and not too far out
+      const expiry = new Date(expiresAt);
+      const now = new Date();
+      const maxExpiry = new Date(now.getTime() + MAX_OVERRIDE_DAYS * 24 * 60 * 60 * 1000);
+      if (expiry <= now || expiry > maxExpiry) {
+        throw new HttpsError(
+          'invalid-argument',
+          `Override must expire within the next ${MAX_OVERRIDE_DAYS} days`
+        );
+      }
+
+      const db = admin.firestore();
+      const campaignRef = db.collection('campaigns').doc(campaignId);
+      const override: GovernanceOverride = {
+        id: db.collection('governance').doc().id,
+        ruleId,
+        justification,
+        expiresAt: expiry.toISOString(),
+        grantedBy: uid,
+        grantedAt: now.toISOString(),
+      };
+
+      // The override and its audit entry are written together
+      await db.runTransaction(async transaction => {
+        const campaignDoc = await transaction.get(campaignRef);
+        if (!campaignDoc.exists) {
+          throw new HttpsError('not-found', 'Campaign not found');
+        }
+
+        const ledger = await openAuditLedger(transaction);
+
+        transaction.update(campaignRef, {
+          'governance.overrides': admin.firestore.FieldValue.arrayUnion(override),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        ledger.append({
+          action: 'override_governance_rule',
+          resourceId: campaignId,
+          userId: uid,
+          metadata: {
+            overrideId: override.id,
+            ruleId,
+            justification,
+            expiresAt: override.expiresAt,
+          },
+        });
+      });
+
+      // Log override
+      await db.collection('telemetry').add({
+        event: 'governance_rule_overridden',
+        userId: uid,
+        campaignId,
+        ruleId,
+        overrideId: override.id,
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      return {
+        success: true,
+        override,
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new HttpsError('invalid-argument', 'Invalid input data', error.errors);
+      }
+
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Governance override error:', error);
+      throw new HttpsError('internal', 'Internal server error while overriding rule');
+    }
+  }
+);
@@ -0,0 +1,145 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import * as admin from 'firebase-admin';
+import { z } from 'zod';
+import { openAuditLedger } from '../lib/auditLedger';
+import { getReviewStages, isStageApprover } from '../lib/approvalChains';
+import { reassignStage } from '../lib/reviewSla';
+
+const ReassignReviewSchema = z.object({
+  reviewId: z.string().min(1),
+  toUid: z.string().min(1),
+  reason: z.string().min(1, 'Reason is required for reassignment'),
+});
+
+// Roles that can take on a delegated review
+const REVIEWING_ROLES = ['reviewer', 'manager', 'admin'];
+
+export const reassignReview = onCall(
+  {
+    timeoutSeconds: 30,
+    memory: '256MiB',
+  },
+  async (
+    request
+  ): Promise<{ success: boolean; stage: { id: string; name: string }; assignee: string }> => {
+    try {
+      const { reviewId, toUid, reason } = ReassignReviewSchema.parse(request.data);
+
+      if (!request.auth) {
+        throw new HttpsError('unauthenticated', 'User must be authenticated');
+      }
+
+      const uid = request.auth.uid;
+
+      const userDoc = await admin.firestore().collection('users').doc(uid).get();
+      if (!userDoc.exists) {
+        throw new HttpsError('not-found', 'User profile not found');
+      }
+
+      const userRoles = (userDoc.data()?.['roles'] ?? {}) as Record<string, boolean>;
+
+      const delegateDoc = await admin.firestore().collection('users').doc(toUid).get();
+      if (!delegateDoc.exists) {
+        throw new HttpsError('not-found', 'Delegate user profile not found');
+      }
+
+      const delegateRoles = (delegateDoc.data()?.['roles'] ?? {}) as Record<string, boolean>;
+      if (!REVIEWING_ROLES.some(role => delegateRoles[role])) {
+        throw new HttpsError('failed-precondition', 'Delegate does not hold a reviewing role');
+      }
+
+      const db = admin.firestore();
+      const reviewRef = db.collection('governance').doc(reviewId);
+
+      // Read and update in one transaction so a stage decided or escalated
+      // meanwhile is not overwritten
+      const { stage, campaignId } = await db.runTransaction(async transaction => {
+        const reviewDoc = await transaction.get(reviewRef);
+        if (!reviewDoc.exists) {
+          throw new HttpsError('not-found', 'Review record not found');
+        }
+
+        const reviewData = reviewDoc.data() ?? {};
+        if (reviewData['status'] !== 'pending') {
+          throw new HttpsError('failed-precondition', 'Only pending reviews can be reassigned');
+        }
+
+        const stages = getReviewStages(reviewData);
+        const currentStage = (reviewData['currentStage'] as number | undefined) ?? 0;
+        const stage = stages[currentStage];
+        if (!stage || stage.status !== 'pending') {
+          throw new HttpsError('failed-precondition', 'Review has no stage awaiting a decision');
+        }
+
+        // Approvers may delegate their own stage; managers and admins may reassign any review
+        if (
+          !userRoles['admin'] &&
+          !userRoles['manager'] &&
+          !isStageApprover(stage, uid, userRoles)
+        ) {
+          throw new HttpsError('permission-denied', 'User cannot reassign this review');
+        }
+
+        const ledger = await openAuditLedger(transaction);
+        const reassigned = reassignStage(stage, toUid);
+        const delegation = {
+          stageId: stage.id,
+          from: stage.assignee ?? null,
+          to: toUid,
+          by: uid,
+          reason,
+          at: new Date().toISOString(),
+        };
+        const delegations = Array.isArray(reviewData['delegations'])
+          ? (reviewData['delegations'] as unknown[])
+          : [];
+
+        transaction.update(reviewRef, {
+          stages: stages.map((candidate, index) =>
+            index === currentStage ? reassigned : candidate
+          ),
+          delegations: [...delegations, delegation],
+        });
+
+        const campaignId = (reviewData['campaignId'] as string | undefined) ?? null;
+        ledger.append({
+          action: 'review_reassigned',
+          resourceId: campaignId ?? reviewId,
+          userId: uid,
+          metadata: {
+            reviewId,
+            stageId: stage.id,
+            from: delegation.from,
+            to: toUid,
+            reason,
+          },
+        });
+
+        return { stage, campaignId };
+      });
+
+      await db.collection('telemetry').add({
+        event: 'review_reassigned',
+        userId: uid,
+        reviewId,
+        campaignId,
+        stageId: stage.id,
+        toUid,
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      return { success: true, stage: { id: stage.id, name: stage.name }, assignee: toUid };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new HttpsError('invalid-argument', 'Invalid input data', error.errors);
+      }
+
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Review reassignment error:', error);
+      throw new HttpsError('internal', 'Internal server error during reassignment');
+    }
+  }
+);
@@ -0,0 +1,134 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import * as admin from 'firebase-admin';
+import { z } from 'zod';
+import { openAuditLedger } from '../lib/auditLedger';
+import { WrikeConflict, WrikeConflictResolution } from '../lib/wrikeConflicts';
+import { createWrikeIntegration } from '../integrations/wrike';
+import { loadContactDirectory, loadSyncTarget, toDocFields } from '../integrations/wrikeSync';
+
+// `keep` picks the side whose current value wins; it is copied to the other
+// side and becomes the new baseline for the field
+const ResolveWrikeConflictSchema = z.object({
+  conflictId: z.string().min(1),
+  keep: z.enum(['vizzy', 'wrike']),
+});
+
+interface ResolveWrikeConflictResult {
+  conflictId: string;
+  field: WrikeConflict['field'];
+  keep: WrikeConflictResolution;
+  value: string | null;
+}
+
+export const resolveWrikeConflict = onCall(
+  {
+    timeoutSeconds: 60,
+    memory: '256MiB',
+  },
+  async (request): Promise<ResolveWrikeConflictResult> => {
+    try {
+      const { conflictId, keep } = ResolveWrikeConflictSchema.parse(request.data);
+
+      if (!request.auth) {
+        throw new HttpsError('unauthenticated', 'User must be authenticated');
+      }
+
+      const uid = request.auth.uid;
+      const db = admin.firestore();
+
+      const userDoc = await db.collection('users').doc(uid).get();
+      if (!userDoc.exists) {
+        throw new HttpsError('not-found', 'User profile not found');
+      }
+
+      const userRoles = (userDoc.data()?.['roles'] ?? {}) as Record<string, boolean>;
+      if (!userRoles['admin']) {
+        throw new HttpsError('permission-denied', 'Only admins can resolve Wrike conflicts');
+      }
+
+      const conflictRef = db.collection('wrikeConflicts').doc(conflictId);
+      const conflictDoc = await conflictRef.get();
+      const conflict = conflictDoc.data() as WrikeConflict | undefined;
+      if (!conflict) {
+        throw new HttpsError('not-found', 'Conflict not found');
+      }
+      if (conflict.status !== 'open') {
+        throw new HttpsError('failed-precondition', 'Conflict is already resolved');
+      }
+
+      const integration = await createWrikeIntegration();
+      if (!integration) {
+        throw new HttpsError('failed-precondition', 'Wrike is not configured');
+      }
+      const directory = await loadContactDirectory(integration.client);
+      const target = await loadSyncTarget(integration.client, directory, conflict);
+      if (!target) {
+        throw new HttpsError(
+          'failed-precondition',
+          'The campaign, activity or Wrike item no longer exists'
+        );
+      }
+
+      const { field } = conflict;
+      const value = keep === 'vizzy' ? target.vizzy[field] : target.wrike[field];
+      if (value === undefined) {
+        throw new HttpsError(
+          'failed-precondition',
+          `The ${keep === 'vizzy' ? 'Vizzy' : 'Wrike'} value for ${field} cannot be copied to the other side`
+        );
+      }
+
+      if (keep === 'vizzy') await target.push({ [field]: value });
+
+      return await db.runTransaction(async (transaction): Promise<ResolveWrikeConflictResult> => {
+        const current = await transaction.get(conflictRef);
+        if (current.data()?.['status'] !== 'open') {
+          throw new HttpsError('failed-precondition', 'Conflict is already resolved');
+        }
+
+        const ledger = await openAuditLedger(transaction);
+        const resolvedAt = new Date().toISOString();
+
+        transaction.update(target.ref, {
+          ...(keep === 'wrike' ? toDocFields({ [field]: value }) : {}),
+          [`wrikeBaseline.${field}`]: value,
+        });
+        transaction.update(conflictRef, {
+          status: 'resolved',
+          resolution: keep,
+          resolvedBy: uid,
+          resolvedAt,
+        });
+
+        ledger.append({
+          action: 'wrike_conflict_resolved',
+          resourceId: conflict.campaignId,
+          userId: uid,
+          metadata: {
+            conflictId,
+            ...(conflict.activityId ? { activityId: conflict.activityId } : {}),
+            wrikeId: conflict.wrikeId,
+            field,
+            keep,
+            value,
+            vizzyValue: target.vizzy[field] ?? null,
+            wrikeValue: target.wrike[field] ?? null,
+          },
+        });
+
+        return { conflictId, field, keep, value };
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new HttpsError('invalid-argument', 'Invalid input data', error.errors);
+      }
+
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Wrike conflict resolution error:', error);
+      throw new HttpsError('internal', 'Internal server error while resolving Wrike conflict');
+    }
+  }
+);
@@ -0,0 +1,119 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import * as admin from 'firebase-admin';
+import { z } from 'zod';
+import { GovernanceOverride } from '../lib/governanceRules';
+import { openAuditLedger } from '../lib/auditLedger';
+
+// Ends an override before it expires; the override stays on the campaign with
+// revokedAt set so the history of what was waived is kept
+const RevokeGovernanceOverrideSchema = z.object({
+  campaignId: z.string().min(1),
+  overrideId: z.string().min(1),
+  reason: z.string().trim().min(1).max(1000),
+});
+
+export const revokeGovernanceOverride = onCall(
+  {
+    timeoutSeconds: 30,
+    memory: '256MiB',
+  },
+  async (request): Promise<{ success: boolean; override: GovernanceOverride }> => {
+    try {
+      const { campaignId, overrideId, reason } = RevokeGovernanceOverrideSchema.parse(request.data);
+
+      if (!request.auth) {
+        throw new HttpsError('unauthenticated', 'User must be authenticated');
+      }
+
+      const uid = request.auth.uid;
+      const db = admin.firestore();
+
+      // Same roles that may grant an override
+      const userDoc = await db.collection('users').doc(uid).get();
+      if (!userDoc.exists) {
+        throw new HttpsError('not-found', 'User profile not found');
+      }
+
+      const userRoles = (userDoc.data()?.['roles'] ?? {}) as Record<string, boolean>;
+      if (!userRoles['manager'] && !userRoles['admin']) {
+        throw new HttpsError(
+          'permission-denied',
+          'User does not have permission to revoke governance overrides'
+        );
+      }
+
+      const campaignRef = db.collection('campaigns').doc(campaignId);
+
+      const override = await db.runTransaction(async (transaction): Promise<GovernanceOverride> => {
+        const campaignDoc = await transaction.get(campaignRef);
+        if (!campaignDoc.exists) {
+          throw new HttpsError('not-found', 'Campaign not found');
+        }
+
+        const governance = (campaignDoc.data()?.['governance'] ?? {}) as {
+          overrides?: GovernanceOverride[];
+        };
+        const overrides = governance.overrides ?? [];
+        const current = overrides.find(candidate => candidate.id === overrideId);
+        if (!current) {
+          throw new HttpsError('not-found', 'Override not found');
+        }
+        if (current.revokedAt) {
+          throw new HttpsError('failed-precondition', 'Override is already revoked');
+        }
+
+        const ledger = await openAuditLedger(transaction);
+        const revoked: GovernanceOverride = {
+          ...current,
+          revokedAt: new Date().toISOString(),
+          revokedBy: uid,
+        };
+
+        transaction.update(campaignRef, {
+          'governance.overrides': overrides.map(candidate =>
+            candidate.id === overrideId ? revoked : candidate
+          ),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        ledger.append({
+          action: 'revoke_governance_override',
+          resourceId: campaignId,
+          userId: uid,
+          metadata: {
+            overrideId,
+            ruleId: current.ruleId,
+            reason,
+          },
+        });
+
+        return revoked;
+      });
+
+      await db.collection('telemetry').add({
+        event: 'governance_override_revoked',
+        userId: uid,
+        campaignId,
+        ruleId: override.ruleId,
+        overrideId,
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      return {
+        success: true,
+        override,
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new HttpsError('invalid-argument', 'Invalid input data', error.errors);
+      }
+
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Governance override revoke error:', error);
+      throw new HttpsError('internal', 'Internal server error while revoking override');
+    }
+  }
+);
@@ -0,0 +1,104 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import * as admin from 'firebase-admin';
+import { z } from 'zod';
+import { openAuditLedger } from '../lib/auditLedger';
+import { LegalHold } from '../lib/retention';
+
+// While a hold is active, the retention job keeps every record tied to the
+// campaign or user, and Firestore rules block deleting the doc itself
+const SetLegalHoldSchema = z.object({
+  subject: z.enum(['campaign', 'user']),
+  subjectId: z.string().min(1),
+  hold: z.boolean(),
+  reason: z.string().trim().min(1).max(1000),
+});
+
+const SUBJECT_COLLECTIONS = { campaign: 'campaigns', user: 'users' } as const;
+
+interface SetLegalHoldResult {
+  subject: 'campaign' | 'user';
+  subjectId: string;
+  legalHold: LegalHold | null;
+}
+
+export const setLegalHold = onCall(
+  {
+    timeoutSeconds: 30,
+    memory: '256MiB',
+  },
+  async (request): Promise<SetLegalHoldResult> => {
+    try {
+      const { subject, subjectId, hold, reason } = SetLegalHoldSchema.parse(request.data);
+
+      if (!request.auth) {
+        throw new HttpsError('unauthenticated', 'User must be authenticated');
+      }
+
+      const uid = request.auth.uid;
+      const db = admin.firestore();
+
+      const userDoc = await db.collection('users').doc(uid).get();
+      if (!userDoc.exists) {
+        throw new HttpsError('not-found', 'User profile not found');
+      }
+
+      const userRoles = (userDoc.data()?.['roles'] ?? {}) as Record<string, boolean>;
+      if (!userRoles['admin']) {
+        throw new HttpsError('permission-denied', 'Only admins can manage legal holds');
+      }
+
+      const subjectRef = db.collection(SUBJECT_COLLECTIONS[subject]).doc(subjectId);
+
+      return await db.runTransaction(async (transaction): Promise<SetLegalHoldResult> => {
+        const subjectDoc = await transaction.get(subjectRef);
+        if (!subjectDoc.exists) {
+          throw new HttpsError(
+            'not-found',
+            `${subject === 'campaign' ? 'Campaign' : 'User'} not found`
+          );
+        }
+
+        const current = subjectDoc.data()?.['legalHold'] as LegalHold | undefined;
+        if (hold === Boolean(current?.active)) {
+          throw new HttpsError(
+            'failed-precondition',
+            hold ? 'Already under legal hold' : 'Not under legal hold'
+          );
+        }
+
+        const ledger = await openAuditLedger(transaction);
+        const legalHold: LegalHold | null = hold
+          ? { active: true, reason, placedBy: uid, placedAt: new Date().toISOString() }
+          : null;
+
+        transaction.update(subjectRef, {
+          legalHold: legalHold ?? admin.firestore.FieldValue.delete(),
+        });
+
+        ledger.append({
+          action: hold ? 'legal_hold_placed' : 'legal_hold_released',
+          resourceId: subjectId,
+          userId: uid,
+          metadata: {
+            subject,
+            reason,
+            ...(current ? { previousHold: current } : {}),
+          },
+        });
+
+        return { subject, subjectId, legalHold };
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new HttpsError('invalid-argument', 'Invalid input data', error.errors);
+      }
+
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Legal hold error:', error);
+      throw new HttpsError('internal', 'Internal server error while updating legal hold');
+    }
+  }
+);
@@ -2,24 +2,48 @@ import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import * as admin from 'firebase-admin';
 import { z } from 'zod';
 import { governanceEngine } from '../lib/governanceEngine';
-import { auditHash } from '../lib/auditHash';
+import { ValidationFinding } from '../lib/governanceRules';
+import { createReviewStages, getReviewStages, resetReviewStages } from '../lib/approvalChains';
+import { createSubmission, getReviewSubmissions } from '../lib/reviewThreads';
+import { ReviewPriority, ReviewSlaPolicy, startReviewSla } from '../lib/reviewSla';
+import {
+  CAMPAIGN_TRANSITIONS,
+  LifecycleTransitionError,
+  applyLifecycleEvent,
+  canTriggerEvent,
+} from '../shared/campaignLifecycle';
+import { IdempotencyKeyReuseError, runIdempotentTransaction } from '../lib/idempotency';
+import { AuditLedger, openAuditLedger } from '../lib/auditLedger';
 
 const SubmitForReviewSchema = z.object({
   campaignId: z.string().min(1),
   reviewType: z.enum(['content', 'compliance', 'strategy']).default('content'),
   priority: z.enum(['low', 'medium', 'high']).default('medium'),
   notes: z.string().optional(),
+  // Resubmit on an existing thread after changes were requested
+  reviewId: z.string().min(1).optional(),
+  // Retries with the same key return the first result instead of submitting again
+  idempotencyKey: z.string().min(1).max(128).optional(),
 });
 
+interface SubmitForReviewResult {
+  success: boolean;
+  reviewId: string;
+  chainId: string;
+  round: number;
+  findings: ValidationFinding[];
+}
+
 export const submitForReview = onCall(
   {
     timeoutSeconds: 30,
     memory: '256MiB',
   },
-  async (request): Promise<{ success: boolean; reviewId: string }> => {
+  async (request): Promise<SubmitForReviewResult> => {
     try {
       // Validate input
-      const { campaignId, reviewType, priority, notes } = SubmitForReviewSchema.parse(request.data);
+      const input = SubmitForReviewSchema.parse(request.data);
+      const { campaignId, reviewType, priority, notes, reviewId: threadId, idempotencyKey } = input;
 
       // Check authentication
       if (!request.auth) {
@@ -27,115 +51,172 @@ export const submitForReview = onCall(
       }
 
       const uid = request.auth.uid;
+      const db = admin.firestore();
 
       // Check if user has permission to submit for review
-      const userDoc = await admin.firestore().collection('users').doc(uid).get();
+      const userDoc = await db.collection('users').doc(uid).get();
       if (!userDoc.exists) {
         throw new HttpsError('not-found', 'User profile not found');
       }
 
-      const userData = userDoc.data();
-      const userRoles = userData?.roles || {};
-      
-      if (!userRoles.editor && !userRoles.admin) {
-        throw new HttpsError('permission-denied', 'User does not have permission to submit for review');
+      const userRoles = (userDoc.data()?.['roles'] ?? {}) as Record<string, boolean>;
+
+      if (!canTriggerEvent('submit', userRoles)) {
+        throw new HttpsError(
+          'permission-denied',
+          'User does not have permission to submit for review'
+        );
       }
 
       // Get campaign data
-      const campaignDoc = await admin.firestore().collection('campaigns').doc(campaignId).get();
+      const campaignRef = db.collection('campaigns').doc(campaignId);
+      const campaignDoc = await campaignRef.get();
       if (!campaignDoc.exists) {
         throw new HttpsError('not-found', 'Campaign not found');
       }
 
-      const campaignData = campaignDoc.data();
-      
+      const campaignData = campaignDoc.data() ?? {};
+
       // Validate campaign before submission
       const validationResult = await governanceEngine.validateCampaign({
         campaignId,
-        campaignData: campaignData!,
+        campaignData,
         validationType: 'publish',
         userId: uid,
       });
 
-      if (validationResult.errors.length > 0) {
-        throw new HttpsError(
-          'failed-precondition',
-          'Campaign validation failed',
-          { errors: validationResult.errors }
-        );
+      if (!validationResult.isValid) {
+        throw new HttpsError('failed-precondition', 'Campaign validation failed', {
+          findings: validationResult.findings,
+          rulePackVersion: validationResult.rulePackVersion,
+        });
       }
 
-      // Create review record
-      const reviewId = admin.firestore().collection('governance').doc().id;
-      
-      const reviewData = {
-        id: reviewId,
-        type: 'campaign_review',
-        title: `Review: ${campaignData!.title}`,
-        description: `Campaign submitted for ${reviewType} review`,
-        status: 'pending',
-        submittedBy: uid,
-        submittedAt: admin.firestore.FieldValue.serverTimestamp(),
-        campaignId,
-        reviewType,
-        priority,
-        notes: notes || '',
-        metadata: {
-          campaignTitle: campaignData!.title,
-          campaignStatus: campaignData!.status,
-        },
-      };
-
-      await admin.firestore().collection('governance').doc(reviewId).set(reviewData);
-
-      // Update campaign status
-      await admin.firestore().collection('campaigns').doc(campaignId).update({
-        status: 'in-review',
-        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-        lastReviewSubmission: admin.firestore.FieldValue.serverTimestamp(),
-      });
+      const slaPolicy = await governanceEngine.getReviewSlaPolicy();
 
-      // Log submission
-      await admin.firestore().collection('telemetry').add({
-        event: 'campaign_submitted_for_review',
-        userId: uid,
-        campaignId,
-        reviewId,
+      // Pick the approval chain for this review; each stage has its own approver pool
+      const budget = campaignData['budget'];
+      const channel = campaignData['channel'];
+      const chain = await governanceEngine.getApprovalChain({
         reviewType,
-        priority,
-        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+        ...(typeof budget === 'number' ? { budget } : {}),
+        ...(typeof channel === 'string' ? { channel } : {}),
       });
 
-      // Create audit log
-      const auditEntry = {
-        action: 'submit_for_review',
-        resourceId: campaignId,
-        userId: uid,
-        timestamp: admin.firestore.FieldValue.serverTimestamp(),
-        metadata: {
-          reviewId,
-          reviewType,
-          priority,
-        },
-        hash: auditHash({
-          action: 'submit_for_review',
-          resourceId: campaignId,
-          userId: uid,
-          timestamp: new Date().toISOString(),
-        }),
-      };
-
-      await admin.firestore().collection('governance').add(auditEntry);
-
-      return {
-        success: true,
-        reviewId,
-      };
+      // The status check and every write share one transaction, so a campaign
+      // cannot be submitted twice concurrently
+      return await runIdempotentTransaction(
+        { callable: 'submitForReview', uid, key: idempotencyKey, request: input },
+        async (transaction): Promise<SubmitForReviewResult> => {
+          const current = (await transaction.get(campaignRef)).data() ?? {};
+          const newStatus = applyLifecycleEvent(current, 'submit');
+          const ledger = await openAuditLedger(transaction);
+
+          if (threadId) {
+            return resubmitForReview(transaction, ledger, {
+              uid,
+              campaignId,
+              campaignData: current,
+              newStatus,
+              reviewId: threadId,
+              notes,
+              slaPolicy,
+              findings: validationResult.findings,
+            });
+          }
+
+          const stages = createReviewStages(chain);
+          const sla = startReviewSla(slaPolicy, priority);
+
+          // Create review record
+          const reviewRef = db.collection('governance').doc();
+          const reviewId = reviewRef.id;
+
+          transaction.set(reviewRef, {
+            id: reviewId,
+            type: 'campaign_review',
+            title: `Review: ${current['title']}`,
+            description: `Campaign submitted for ${reviewType} review`,
+            status: 'pending',
+            submittedBy: uid,
+            submittedAt: admin.firestore.FieldValue.serverTimestamp(),
+            campaignId,
+            reviewType,
+            priority,
+            notes: notes || '',
+            chainId: chain.id,
+            chainName: chain.name,
+            stages,
+            currentStage: 0,
+            sla,
+            submissions: [createSubmission([], current, uid)],
+            comments: [],
+            metadata: {
+              campaignTitle: current['title'],
+              campaignStatus: current['status'] ?? 'draft',
+              rulePackVersion: validationResult.rulePackVersion,
+            },
+          });
+
+          // Update campaign status
+          transaction.update(campaignRef, {
+            status: newStatus,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+            lastReviewSubmission: admin.firestore.FieldValue.serverTimestamp(),
+            reviewId,
+          });
+
+          // Log submission
+          transaction.set(db.collection('telemetry').doc(), {
+            event: CAMPAIGN_TRANSITIONS.submit.telemetryEvent,
+            userId: uid,
+            campaignId,
+            reviewId,
+            reviewType,
+            priority,
+            chainId: chain.id,
+            stageCount: stages.length,
+            slaDueAt: sla.dueAt,
+            timestamp: admin.firestore.FieldValue.serverTimestamp(),
+          });
+
+          // Create audit log
+          ledger.append({
+            action: CAMPAIGN_TRANSITIONS.submit.auditAction,
+            resourceId: campaignId,
+            userId: uid,
+            metadata: {
+              reviewId,
+              reviewType,
+              priority,
+              chainId: chain.id,
+              stages: stages.map(stage => stage.id),
+            },
+          });
+
+          return {
+            success: true,
+            reviewId,
+            chainId: chain.id,
+            round: 1,
+            // Non-blocking findings (warn/info) so the editor can still see them
+            findings: validationResult.findings,
+          };
+        }
+      );
     } catch (error) {
       if (error instanceof z.ZodError) {
         throw new HttpsError('invalid-argument', 'Invalid input data', error.errors);
       }
 
+      if (error instanceof LifecycleTransitionError) {
+        throw new HttpsError('failed-precondition', error.message);
+      }
+
+      if (error instanceof IdempotencyKeyReuseError) {
+        throw new HttpsError('already-exists', error.message);
+      }
+
       if (error instanceof HttpsError) {
         throw error;
       }
@@ -145,3 +226,90 @@ export const submitForReview = onCall(
     }
   }
 );
+
+/**
+ * Put a campaign back on its existing review thread. The new submission is
+ * diffed against the previous one and the chain restarts from its first stage.
+ */
+async function resubmitForReview(
+  transaction: admin.firestore.Transaction,
+  ledger: AuditLedger,
+  input: {
+    uid: string;
+    campaignId: string;
+    campaignData: Record<string, unknown>;
+    newStatus: string;
+    reviewId: string;
+    notes: string | undefined;
+    slaPolicy: ReviewSlaPolicy;
+    findings: ValidationFinding[];
+  }
+): Promise<SubmitForReviewResult> {
+  const { uid, campaignId, campaignData, newStatus, reviewId, notes, slaPolicy, findings } = input;
+  const db = admin.firestore();
+
+  const reviewRef = db.collection('governance').doc(reviewId);
+  const reviewDoc = await transaction.get(reviewRef);
+  if (!reviewDoc.exists) {
+    throw new HttpsError('not-found', 'Review record not found');
+  }
+
+  const reviewData = reviewDoc.data() ?? {};
+  if (reviewData['campaignId'] !== campaignId) {
+    throw new HttpsError('failed-precondition', 'Review does not belong to this campaign');
+  }
+
+  if (reviewData['status'] !== 'changes_requested') {
+    throw new HttpsError('failed-precondition', 'Review is not awaiting changes');
+  }
+
+  const submissions = getReviewSubmissions(reviewData);
+  const submission = createSubmission(submissions, campaignData, uid);
+  const stages = resetReviewStages(getReviewStages(reviewData));
+  const chainId = (reviewData['chainId'] as string | undefined) ?? 'chain.default';
+  const priority = (reviewData['priority'] as ReviewPriority | undefined) ?? 'medium';
+  const sla = startReviewSla(slaPolicy, priority);
+
+  transaction.update(reviewRef, {
+    status: 'pending',
+    stages,
+    currentStage: 0,
+    sla,
+    submissions: [...submissions, submission],
+    submittedBy: uid,
+    submittedAt: admin.firestore.FieldValue.serverTimestamp(),
+    ...(notes !== undefined ? { notes } : {}),
+  });
+
+  transaction.update(db.collection('campaigns').doc(campaignId), {
+    status: newStatus,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    lastReviewSubmission: admin.firestore.FieldValue.serverTimestamp(),
+    reviewId,
+  });
+
+  transaction.set(db.collection('telemetry').doc(), {
+    event: 'campaign_resubmitted_for_review',
+    userId: uid,
+    campaignId,
+    reviewId,
+    chainId,
+    round: submission.round,
+    changedFieldCount: submission.changes.length,
+    timestamp: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  ledger.append({
+    action: 'resubmit_for_review',
+    resourceId: campaignId,
+    userId: uid,
+    metadata: {
+      reviewId,
+      chainId,
+      round: submission.round,
+      changedFields: submission.changes.map(change => change.field),
+    },
+  });
+
+  return { success: true, reviewId, chainId, round: submission.round, findings };
+}
@@ -0,0 +1,121 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import * as admin from 'firebase-admin';
+import { z } from 'zod';
+import { openAuditLedger } from '../lib/auditLedger';
+import {
+  CAMPAIGN_TRANSITIONS,
+  LifecycleTransitionError,
+  applyLifecycleEvent,
+  canTriggerEvent,
+} from '../shared/campaignLifecycle';
+import { IdempotencyKeyReuseError, runIdempotentTransaction } from '../lib/idempotency';
+
+// Review outcomes go through submitForReview/approveCampaign; these are the
+// transitions outside the review workflow
+const TransitionCampaignSchema = z.object({
+  campaignId: z.string().min(1),
+  event: z.enum(['activate', 'complete', 'reopen']),
+  reason: z.string().optional(),
+  idempotencyKey: z.string().min(1).max(128).optional(),
+});
+
+interface TransitionCampaignResult {
+  success: boolean;
+  previousStatus: string;
+  newStatus: string;
+}
+
+export const transitionCampaign = onCall(
+  {
+    timeoutSeconds: 30,
+    memory: '256MiB',
+  },
+  async (request): Promise<TransitionCampaignResult> => {
+    try {
+      const input = TransitionCampaignSchema.parse(request.data);
+      const { campaignId, event, reason, idempotencyKey } = input;
+
+      if (!request.auth) {
+        throw new HttpsError('unauthenticated', 'User must be authenticated');
+      }
+
+      const uid = request.auth.uid;
+      const db = admin.firestore();
+
+      const userDoc = await db.collection('users').doc(uid).get();
+      if (!userDoc.exists) {
+        throw new HttpsError('not-found', 'User profile not found');
+      }
+
+      const userRoles = (userDoc.data()?.['roles'] ?? {}) as Record<string, boolean>;
+      if (!canTriggerEvent(event, userRoles)) {
+        throw new HttpsError('permission-denied', 'User cannot change campaign status');
+      }
+
+      const campaignRef = db.collection('campaigns').doc(campaignId);
+      const { telemetryEvent, auditAction } = CAMPAIGN_TRANSITIONS[event];
+
+      return await runIdempotentTransaction(
+        { callable: 'transitionCampaign', uid, key: idempotencyKey, request: input },
+        async (transaction): Promise<TransitionCampaignResult> => {
+          const campaignDoc = await transaction.get(campaignRef);
+          if (!campaignDoc.exists) {
+            throw new HttpsError('not-found', 'Campaign not found');
+          }
+
+          const campaignData = campaignDoc.data() ?? {};
+          const ledger = await openAuditLedger(transaction);
+          const previousStatus = String(campaignData['status'] ?? 'draft');
+          const newStatus = applyLifecycleEvent(campaignData, event);
+
+          transaction.update(campaignRef, {
+            status: newStatus,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+
+          transaction.set(db.collection('telemetry').doc(), {
+            event: telemetryEvent,
+            userId: uid,
+            campaignId,
+            previousStatus,
+            newStatus,
+            timestamp: admin.firestore.FieldValue.serverTimestamp(),
+          });
+
+          ledger.append({
+            action: auditAction,
+            resourceId: campaignId,
+            userId: uid,
+            metadata: {
+              event,
+              previousStatus,
+              newStatus,
+              reason: reason ?? null,
+            },
+          });
+
+          return { success: true, previousStatus, newStatus };
+        }
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new HttpsError('invalid-argument', 'Invalid input data', error.errors);
+      }
+
+      if (error instanceof LifecycleTransitionError) {
+        throw new HttpsError('failed-precondition', error.message);
+      }
+
+      if (error instanceof IdempotencyKeyReuseError) {
+        throw new HttpsError('already-exists', error.message);
+      }
+
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Campaign transition error:', error);
+      throw new HttpsError('internal', 'Internal server error during status change');
+    }
+  }
+);
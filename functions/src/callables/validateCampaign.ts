@@ -2,7 +2,8 @@ import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import * as admin from 'firebase-admin';
 import { z } from 'zod';
 import { governanceEngine } from '../lib/governanceEngine';
-import { auditHash } from '../lib/auditHash';
+import { ValidationFinding, countBySeverity } from '../lib/governanceRules';
+import { appendAuditEntry } from '../lib/auditLedger';
 
 const ValidateCampaignSchema = z.object({
   campaignId: z.string().min(1),
@@ -15,7 +16,9 @@ export const validateCampaign = onCall(
     timeoutSeconds: 60,
     memory: '512MiB',
   },
-  async (request): Promise<{ success: boolean; errors: string[]; warnings: string[] }> => {
+  async (
+    request
+  ): Promise<{ success: boolean; findings: ValidationFinding[]; rulePackVersion: number }> => {
     try {
       // Validate input
       const { campaignId, campaignData, validationType } = ValidateCampaignSchema.parse(request.data);
@@ -34,6 +37,7 @@ export const validateCampaign = onCall(
         validationType,
         userId: uid,
       });
+      const counts = countBySeverity(validationResult.findings);
 
       // Log validation attempt
       await admin.firestore().collection('telemetry').add({
@@ -41,37 +45,33 @@ export const validateCampaign = onCall(
         userId: uid,
         campaignId,
         validationType,
-        success: validationResult.errors.length === 0,
-        errorCount: validationResult.errors.length,
-        warningCount: validationResult.warnings.length,
+        success: validationResult.isValid,
+        blockCount: counts.block,
+        warnCount: counts.warn,
+        infoCount: counts.info,
+        rulePackVersion: validationResult.rulePackVersion,
         timestamp: admin.firestore.FieldValue.serverTimestamp(),
       });
 
       // Create audit log
-      const auditEntry = {
+      await appendAuditEntry({
         action: 'validate_campaign',
         resourceId: campaignId,
         userId: uid,
-        timestamp: admin.firestore.FieldValue.serverTimestamp(),
         metadata: {
           validationType,
-          errorCount: validationResult.errors.length,
-          warningCount: validationResult.warnings.length,
+          blockCount: counts.block,
+          warnCount: counts.warn,
+          infoCount: counts.info,
+          ruleIds: validationResult.findings.map(finding => finding.ruleId),
+          rulePackVersion: validationResult.rulePackVersion,
         },
-        hash: auditHash({
-          action: 'validate_campaign',
-          resourceId: campaignId,
-          userId: uid,
-          timestamp: new Date().toISOString(),
-        }),
-      };
-
-      await admin.firestore().collection('governance').add(auditEntry);
+      });
 
       return {
-        success: validationResult.errors.length === 0,
-        errors: validationResult.errors,
-        warnings: validationResult.warnings,
+        success: validationResult.isValid,
+        findings: validationResult.findings,
+        rulePackVersion: validationResult.rulePackVersion,
       };
     } catch (error) {
       if (error instanceof z.ZodError) {
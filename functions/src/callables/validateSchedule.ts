@@ -0,0 +1,95 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import * as admin from 'firebase-admin';
+import { z } from 'zod';
+import { governanceEngine } from '../lib/governanceEngine';
+import { flattenWeek } from '../lib/cadenceRules';
+import { ValidationFinding, countBySeverity } from '../lib/governanceRules';
+
+const ActivitySchema = z.object({
+  activityId: z.string().min(1),
+  channel: z.enum(['Email', 'Social', 'Banner', 'Push']),
+  audience: z.string().optional(),
+});
+
+const WeekSchema = z.object({
+  weekId: z.string().min(1),
+  programId: z.string().min(1),
+  dayCards: z.record(
+    z.object({
+      date: z.unknown(),
+      activities: z.array(ActivitySchema),
+    })
+  ),
+});
+
+const ValidateScheduleSchema = z.object({
+  // Weeks surrounding the change, so rolling windows that straddle week boundaries are covered
+  weeks: z.array(WeekSchema).min(1).max(12),
+  changedActivityId: z.string().optional(),
+  change: z.enum(['added', 'moved']).optional(),
+});
+
+export const validateSchedule = onCall(
+  {
+    timeoutSeconds: 30,
+    memory: '256MiB',
+  },
+  async (
+    request
+  ): Promise<{ success: boolean; findings: ValidationFinding[]; rulePackVersion: number }> => {
+    try {
+      // Validate input
+      const { weeks, changedActivityId, change } = ValidateScheduleSchema.parse(request.data);
+
+      // Check authentication
+      if (!request.auth) {
+        throw new HttpsError('unauthenticated', 'User must be authenticated');
+      }
+
+      const uid = request.auth.uid;
+
+      const activities = weeks.flatMap(week =>
+        flattenWeek(week as Parameters<typeof flattenWeek>[0])
+      );
+
+      const validationResult = await governanceEngine.validateSchedule(
+        changedActivityId ? { activities, changedActivityId } : { activities }
+      );
+      const counts = countBySeverity(validationResult.findings);
+
+      // Log validation attempt
+      await admin
+        .firestore()
+        .collection('telemetry')
+        .add({
+          event: 'schedule_validation',
+          userId: uid,
+          weekIds: weeks.map(week => week.weekId),
+          change: change ?? null,
+          changedActivityId: changedActivityId ?? null,
+          success: validationResult.isValid,
+          blockCount: counts.block,
+          warnCount: counts.warn,
+          rulePackVersion: validationResult.rulePackVersion,
+          timestamp: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+      return {
+        success: validationResult.isValid,
+        findings: validationResult.findings,
+        rulePackVersion: validationResult.rulePackVersion,
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new HttpsError('invalid-argument', 'Invalid input data', error.errors);
+      }
+
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Schedule validation error:', error);
+      throw new HttpsError('internal', 'Internal server error during schedule validation');
+    }
+  }
+);
@@ -0,0 +1,71 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import * as admin from 'firebase-admin';
+import { z } from 'zod';
+import { AuditChainReport, verifyStoredAuditChain } from '../lib/auditLedger';
+import { verifyAuditArchives } from '../lib/auditArchive';
+
+const VerifyAuditLedgerSchema = z.object({
+  maxEntries: z.number().int().min(1).max(50000).default(10000),
+});
+
+export const verifyAuditLedger = onCall(
+  {
+    timeoutSeconds: 300,
+    memory: '512MiB',
+  },
+  async (request): Promise<AuditChainReport> => {
+    try {
+      const { maxEntries } = VerifyAuditLedgerSchema.parse(request.data ?? {});
+
+      if (!request.auth) {
+        throw new HttpsError('unauthenticated', 'User must be authenticated');
+      }
+
+      const uid = request.auth.uid;
+      const db = admin.firestore();
+
+      const userDoc = await db.collection('users').doc(uid).get();
+      if (!userDoc.exists) {
+        throw new HttpsError('not-found', 'User profile not found');
+      }
+
+      const userRoles = (userDoc.data()?.['roles'] ?? {}) as Record<string, boolean>;
+      if (!userRoles['admin'] && !userRoles['auditor']) {
+        throw new HttpsError('permission-denied', 'User cannot verify the audit ledger');
+      }
+
+      // Walks from the first entry, through the archives and on into live
+      // entries; the report names the first broken link
+      const archived = await verifyAuditArchives({ maxEntries });
+      let report: AuditChainReport = archived;
+      if (archived.valid && archived.verified < maxEntries) {
+        const live = await verifyStoredAuditChain({
+          start: archived.head,
+          maxEntries: maxEntries - archived.verified,
+        });
+        report = { ...live, verified: archived.verified + live.verified };
+      }
+
+      await db.collection('telemetry').add({
+        event: report.valid ? 'audit_chain_verified' : 'audit_chain_broken',
+        userId: uid,
+        verified: report.verified,
+        ...(report.valid ? {} : { brokenAt: report.brokenAt }),
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      return report;
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new HttpsError('invalid-argument', 'Invalid input data', error.errors);
+      }
+
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Audit ledger verification error:', error);
+      throw new HttpsError('internal', 'Internal server error during audit verification');
+    }
+  }
+);
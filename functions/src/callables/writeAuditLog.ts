@@ -0,0 +1,70 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { z } from 'zod';
+import { appendAuditEntry } from '../lib/auditLedger';
+import {
+  MAX_AUDIT_DIFF_LENGTH,
+  MAX_AUDIT_TARGET_IDS,
+  toAuditLog,
+  toAuditRecord,
+} from '../lib/auditLog';
+import { AuditLog, CLIENT_AUDIT_ACTIONS } from '../shared/auditLog';
+
+const AuditDiffSideSchema = z
+  .record(z.unknown())
+  .refine(value => JSON.stringify(value).length <= MAX_AUDIT_DIFF_LENGTH, {
+    message: `Must serialize to at most ${MAX_AUDIT_DIFF_LENGTH} characters`,
+  });
+
+// Client audit logs are appended to the governance ledger alongside the
+// entries functions write, under `client.<action>`. Only catalogue actions
+// are accepted; `backend` is reserved for functions.
+const WriteAuditLogSchema = z.object({
+  action: z.enum(CLIENT_AUDIT_ACTIONS),
+  targetId: z.string().min(1).max(200),
+  targetIds: z.array(z.string().min(1).max(200)).max(MAX_AUDIT_TARGET_IDS).optional(),
+  source: z.enum(['ui', 'chat']),
+  before: AuditDiffSideSchema.optional(),
+  after: AuditDiffSideSchema.optional(),
+});
+
+export const writeAuditLog = onCall(
+  {
+    timeoutSeconds: 30,
+    memory: '256MiB',
+  },
+  async (request): Promise<AuditLog> => {
+    try {
+      const input = WriteAuditLogSchema.parse(request.data);
+
+      if (!request.auth) {
+        throw new HttpsError('unauthenticated', 'User must be authenticated');
+      }
+
+      const uid = request.auth.uid;
+      const entry = await appendAuditEntry(
+        toAuditRecord(uid, {
+          userId: uid,
+          action: input.action,
+          targetId: input.targetId,
+          ...(input.targetIds ? { targetIds: input.targetIds } : {}),
+          source: input.source,
+          ...(input.before ? { before: input.before } : {}),
+          ...(input.after ? { after: input.after } : {}),
+        })
+      );
+
+      return toAuditLog(entry.id, { ...entry });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new HttpsError('invalid-argument', 'Invalid input data', error.errors);
+      }
+
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Write audit log error:', error);
+      throw new HttpsError('internal', 'Internal server error during audit logging');
+    }
+  }
+);
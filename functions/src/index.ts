@@ -8,18 +8,37 @@ admin.initializeApp();
 export { validateCampaign } from './callables/validateCampaign';
 export { submitForReview } from './callables/submitForReview';
 export { approveCampaign } from './callables/approveCampaign';
+export { bulkReviewDecision } from './callables/bulkReviewDecision';
 export { exportToWrike } from './callables/exportToWrike';
 export { aiSuggest } from './callables/aiSuggest';
+export { getComplianceReport } from './callables/getComplianceReport';
+export { overrideGovernanceRule } from './callables/overrideGovernanceRule';
+export { revokeGovernanceOverride } from './callables/revokeGovernanceOverride';
+export { validateSchedule } from './callables/validateSchedule';
+export { reassignReview } from './callables/reassignReview';
+export { transitionCampaign } from './callables/transitionCampaign';
+export { migrateCampaignStatuses } from './callables/migrateCampaignStatuses';
+export { verifyAuditLedger } from './callables/verifyAuditLedger';
+export { writeAuditLog } from './callables/writeAuditLog';
+export { listAuditLogs } from './callables/listAuditLogs';
+export { exportAuditBundle } from './callables/exportAuditBundle';
+export { setLegalHold } from './callables/setLegalHold';
+export { resolveWrikeConflict } from './callables/resolveWrikeConflict';
+export { manageWrikeWebhook } from './callables/manageWrikeWebhook';
+
+// Export webhooks
+export { wrikeWebhook } from './webhooks/wrikeWebhook';
 
 // Export scheduled jobs
 export { learnFromFeedback } from './jobs/learnFromFeedback';
 export { governanceBackfill } from './jobs/governanceBackfill';
 export { ingestionWorker } from './jobs/ingestionWorker';
+export { reviewSlaMonitor } from './jobs/reviewSlaMonitor';
+export { auditChainMonitor } from './jobs/auditChainMonitor';
+export { dataRetention } from './jobs/dataRetention';
+export { wrikeSync } from './jobs/wrikeSync';
 
 // Export utility functions
 export { auditHash } from './lib/auditHash';
 export { governanceEngine } from './lib/governanceEngine';
 export { wrikeMapper } from './lib/wrikeMapper';
-
-// Export integrations
-export { wrikeSync } from './integrations/wrike';
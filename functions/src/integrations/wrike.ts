@@ -1,18 +1,30 @@
 import * as admin from 'firebase-admin';
+import { CampaignStatus, normalizeCampaignStatus } from '../shared/campaignLifecycle';
+import {
+  WRIKE_API_URL,
+  WrikeApiError,
+  WrikeApiTask,
+  WrikeClient,
+  WrikeClientOptions,
+  WrikeConfig,
+  WrikeCustomFieldValue,
+  WrikeProjectStatus,
+  WrikeTaskInput,
+  WrikeTaskStatus,
+  WrikeTokens,
+} from './wrikeClient';
 
-export interface WrikeConfig {
-  apiUrl: string;
-  accessToken: string;
-  refreshToken?: string;
-  projectId: string;
-  folderId?: string;
-}
+export type { WrikeConfig } from './wrikeClient';
+
+// Rotated OAuth tokens; newer than the ones in the environment once a refresh happened
+const TOKENS_PATH = 'integrationTokens/wrike';
 
 export interface WrikeProject {
   id: string;
   title: string;
   description: string;
   status: string;
+  // Keyed by custom field title
   customFields: Record<string, unknown>;
 }
 
@@ -26,23 +38,56 @@ export interface WrikeTask {
   parentId?: string;
 }
 
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value ? value : undefined;
+
 export class WrikeIntegration {
+  // Shared with two-way sync so both use one set of rotating tokens
+  readonly client: WrikeClient;
   private config: WrikeConfig;
+  // Custom field title to id, loaded once per integration
+  private customFieldIds: Promise<Map<string, string>> | null = null;
 
-  constructor(config: WrikeConfig) {
+  constructor(config: WrikeConfig, options: WrikeClientOptions = {}) {
     this.config = config;
+    this.client = new WrikeClient(config, options);
   }
 
+  // Folder campaign projects are created in
+  get rootFolderId(): string {
+    return this.config.folderId ?? this.config.projectId;
+  }
+
+  /**
+   * Create or update the Wrike project folder for a campaign. Campaigns with a
+   * `wrikeId` update that folder; a stale id (e.g. from before the real API
+   * was wired up) gets a new folder.
+   */
   async syncProject(projectData: Record<string, unknown>): Promise<WrikeProject> {
     try {
-      // TODO: Implement actual Wrike API calls
-      // For now, return mock data
+      const input = {
+        title: asString(projectData['title']) ?? 'Untitled campaign',
+        description: asString(projectData['description']) ?? '',
+        project: { status: this.mapStatus(String(projectData['status'] ?? '')) },
+        customFields: await this.toCustomFieldValues(this.mapCustomFields(projectData)),
+      };
+
+      const existingId = asString(projectData['wrikeId']);
+      let folder = null;
+      if (existingId) {
+        folder = await this.client.updateFolder(existingId, input).catch(error => {
+          if (error instanceof WrikeApiError && error.status === 404) return null;
+          throw error;
+        });
+      }
+      folder ??= await this.client.createFolder(this.rootFolderId, input);
+
       const wrikeProject: WrikeProject = {
-        id: `wrike_${Date.now()}`,
-        title: projectData.title as string,
-        description: projectData.description as string,
-        status: this.mapStatus(projectData.status as string),
-        customFields: this.mapCustomFields(projectData),
+        id: folder.id,
+        title: folder.title,
+        description: folder.description ?? '',
+        status: folder.project?.status ?? input.project.status,
+        customFields: await this.fromCustomFieldValues(folder.customFields ?? []),
       };
 
       // Store sync record
@@ -62,16 +107,19 @@ export class WrikeIntegration {
 
   async createTask(taskData: Record<string, unknown>): Promise<WrikeTask> {
     try {
-      // TODO: Implement actual Wrike API calls
-      const wrikeTask: WrikeTask = {
-        id: `task_${Date.now()}`,
-        title: taskData.title as string,
-        description: taskData.description as string,
+      const folderId = asString(taskData['parentId']) ?? this.rootFolderId;
+      const assignees = Array.isArray(taskData['assignees'])
+        ? (taskData['assignees'] as string[])
+        : [];
+
+      const created = await this.client.createTask(folderId, {
+        title: asString(taskData['title']) ?? 'Untitled task',
+        description: asString(taskData['description']) ?? '',
         status: 'Active',
-        assignees: taskData.assignees as string[] || [],
-        dueDate: taskData.dueDate as string,
-        parentId: taskData.parentId as string,
-      };
+        responsibles: await this.resolveContacts(assignees),
+        ...this.toDates(asString(taskData['dueDate'])),
+      });
+      const wrikeTask = this.toTask(created);
 
       // Store task record
       await admin.firestore().collection('wrike').add({
@@ -90,17 +138,26 @@ export class WrikeIntegration {
 
   async updateTask(taskId: string, updates: Record<string, unknown>): Promise<WrikeTask> {
     try {
-      // TODO: Implement actual Wrike API calls
-      // For now, return mock updated task
-      const updatedTask: WrikeTask = {
-        id: taskId,
-        title: updates.title as string || 'Updated Task',
-        description: updates.description as string || '',
-        status: updates.status as string || 'Active',
-        assignees: updates.assignees as string[] || [],
-        dueDate: updates.dueDate as string || '',
+      const input: WrikeTaskInput = {
+        ...(asString(updates['title']) ? { title: updates['title'] as string } : {}),
+        ...(typeof updates['description'] === 'string'
+          ? { description: updates['description'] }
+          : {}),
+        ...(asString(updates['status']) ? { status: updates['status'] as WrikeTaskStatus } : {}),
+        ...this.toDates(asString(updates['dueDate'])),
       };
 
+      // Wrike takes assignee changes as additions and removals
+      if (Array.isArray(updates['assignees'])) {
+        const current = await this.client.getTask(taskId);
+        const wanted = await this.resolveContacts(updates['assignees'] as string[]);
+        const existing = current?.responsibleIds ?? [];
+        input.addResponsibles = wanted.filter(id => !existing.includes(id));
+        input.removeResponsibles = existing.filter(id => !wanted.includes(id));
+      }
+
+      const updatedTask = this.toTask(await this.client.updateTask(taskId, input));
+
       // Store update record
       await admin.firestore().collection('wrike').add({
         type: 'task_updated',
@@ -118,14 +175,15 @@ export class WrikeIntegration {
 
   async getProject(projectId: string): Promise<WrikeProject | null> {
     try {
-      // TODO: Implement actual Wrike API calls
-      // For now, return mock data
+      const folder = await this.client.getFolder(projectId);
+      if (!folder) return null;
+
       return {
-        id: projectId,
-        title: 'Mock Project',
-        description: 'Mock project description',
-        status: 'Active',
-        customFields: {},
+        id: folder.id,
+        title: folder.title,
+        description: folder.description ?? '',
+        status: folder.project?.status ?? 'Green',
+        customFields: await this.fromCustomFieldValues(folder.customFields ?? []),
       };
     } catch (error) {
       console.error('Error fetching Wrike project:', error);
@@ -135,28 +193,8 @@ export class WrikeIntegration {
 
   async getTasks(projectId: string): Promise<WrikeTask[]> {
     try {
-      // TODO: Implement actual Wrike API calls
-      // For now, return mock data
-      return [
-        {
-          id: 'task_1',
-          title: 'Mock Task 1',
-          description: 'Mock task description',
-          status: 'Active',
-          assignees: ['user1'],
-          dueDate: '2024-02-01',
-          parentId: projectId,
-        },
-        {
-          id: 'task_2',
-          title: 'Mock Task 2',
-          description: 'Another mock task',
-          status: 'Completed',
-          assignees: ['user2'],
-          dueDate: '2024-01-15',
-          parentId: projectId,
-        },
-      ];
+      const tasks = await this.client.getFolderTasks(projectId);
+      return tasks.map(task => this.toTask(task));
     } catch (error) {
       console.error('Error fetching Wrike tasks:', error);
       return [];
@@ -165,102 +203,136 @@ export class WrikeIntegration {
 
   async testConnection(): Promise<boolean> {
     try {
-      // TODO: Implement actual Wrike API connection test
-      // For now, return true for testing
-      return true;
+      return (await this.client.getMe()) !== null;
     } catch (error) {
       console.error('Wrike connection test failed:', error);
       return false;
     }
   }
 
-  private mapStatus(status: string): string {
-    const statusMap: Record<string, string> = {
-      'draft': 'Draft',
-      'in-review': 'In Progress',
-      'approved': 'Approved',
-      'active': 'Active',
-      'completed': 'Completed',
+  private toTask(task: WrikeApiTask): WrikeTask {
+    const parentId = task.parentIds?.[0];
+    return {
+      id: task.id,
+      title: task.title,
+      description: task.description ?? '',
+      status: task.status,
+      assignees: task.responsibleIds ?? [],
+      dueDate: task.dates?.due ?? '',
+      ...(parentId ? { parentId } : {}),
     };
+  }
+
+  private toDates(dueDate: string | undefined): Pick<WrikeTaskInput, 'dates'> {
+    // A task with only a due date is a milestone in Wrike
+    return dueDate ? { dates: { type: 'Milestone', due: dueDate.slice(0, 10) } } : {};
+  }
 
-    return statusMap[status] || 'Draft';
+  // Assignees may be Wrike contact ids or email addresses
+  private async resolveContacts(assignees: string[]): Promise<string[]> {
+    if (!assignees.some(assignee => assignee.includes('@'))) return assignees;
+
+    const contacts = await this.client.getContacts();
+    return assignees.flatMap(assignee => {
+      if (!assignee.includes('@')) return [assignee];
+      const email = assignee.toLowerCase();
+      const contact = contacts.find(candidate =>
+        candidate.profiles?.some(profile => profile.email?.toLowerCase() === email)
+      );
+      if (!contact) console.warn(`No Wrike contact for ${assignee}; leaving it unassigned`);
+      return contact ? [contact.id] : [];
+    });
+  }
+
+  private loadCustomFieldIds(): Promise<Map<string, string>> {
+    this.customFieldIds ??= this.client
+      .getCustomFields()
+      .then(fields => new Map(fields.map(field => [field.title, field.id])));
+    return this.customFieldIds;
+  }
+
+  // Fields without a Wrike custom field of the same title are left out
+  private async toCustomFieldValues(
+    fields: Record<string, unknown>
+  ): Promise<WrikeCustomFieldValue[]> {
+    const ids = await this.loadCustomFieldIds();
+    return Object.entries(fields).flatMap(([title, value]) => {
+      const id = ids.get(title);
+      return id ? [{ id, value: Array.isArray(value) ? value.join(', ') : String(value) }] : [];
+    });
+  }
+
+  private async fromCustomFieldValues(
+    values: WrikeCustomFieldValue[]
+  ): Promise<Record<string, unknown>> {
+    const ids = await this.loadCustomFieldIds();
+    const titles = new Map([...ids].map(([title, id]) => [id, title]));
+    return Object.fromEntries(values.map(field => [titles.get(field.id) ?? field.id, field.value]));
+  }
+
+  private mapStatus(status: string): WrikeProjectStatus {
+    const statusMap: Record<CampaignStatus, WrikeProjectStatus> = {
+      draft: 'OnHold',
+      'in-review': 'Yellow',
+      approved: 'Green',
+      rejected: 'Cancelled',
+      active: 'Green',
+      completed: 'Completed',
+    };
+
+    const normalized = normalizeCampaignStatus(status);
+    return normalized ? statusMap[normalized] : 'OnHold';
   }
 
   private mapCustomFields(data: Record<string, unknown>): Record<string, unknown> {
     const customFields: Record<string, unknown> = {};
 
     // Map common fields to Wrike custom fields
-    if (data.budget) customFields.budget = data.budget;
-    if (data.priority) customFields.priority = data.priority;
-    if (data.tags) customFields.tags = data.tags;
-    if (data.teamId) customFields.teamId = data.teamId;
+    for (const field of ['budget', 'priority', 'tags', 'teamId']) {
+      if (data[field]) customFields[field] = data[field];
+    }
 
     return customFields;
   }
 }
 
-// Export function for scheduled sync
-export const wrikeSync = async (): Promise<void> => {
-  try {
-    // TODO: Get Wrike config from Firestore or environment
-    const config: WrikeConfig = {
-      apiUrl: 'https://www.wrike.com/api/v4',
-      accessToken: 'mock_token',
-      projectId: 'mock_project',
-    };
+/**
+ * Wrike settings from the environment. Set WRIKE_API_URL and WRIKE_TOKEN_URL to
+ * the stub (`npm run wrike:stub`) to run without network access.
+ */
+export async function loadWrikeConfig(): Promise<WrikeConfig | null> {
+  const env = process.env;
+  const accessToken = env['WRIKE_API_TOKEN'];
+  const projectId = env['WRIKE_PROJECT_ID'];
+  if (!accessToken || !projectId) return null;
 
-    const wrikeIntegration = new WrikeIntegration(config);
+  const stored = (await admin.firestore().doc(TOKENS_PATH).get()).data() as
+    | Partial<WrikeTokens>
+    | undefined;
+  const refreshToken = stored?.refreshToken ?? env['WRIKE_REFRESH_TOKEN'];
 
-    // Test connection
-    const isConnected = await wrikeIntegration.testConnection();
-    if (!isConnected) {
-      throw new Error('Wrike connection failed');
-    }
-
-    // Get campaigns that need syncing
-    const campaignsSnapshot = await admin.firestore()
-      .collection('campaigns')
-      .where('wrikeSyncNeeded', '==', true)
-      .limit(10)
-      .get();
-
-    console.log(`Found ${campaignsSnapshot.docs.length} campaigns needing Wrike sync`);
-
-    for (const campaignDoc of campaignsSnapshot.docs) {
-      try {
-        const campaignData = campaignDoc.data();
-        
-        // Sync campaign to Wrike
-        const wrikeProject = await wrikeIntegration.syncProject(campaignData);
-        
-        // Update campaign with Wrike ID
-        await campaignDoc.ref.update({
-          wrikeId: wrikeProject.id,
-          wrikeSyncNeeded: false,
-          lastWrikeSync: admin.firestore.FieldValue.serverTimestamp(),
-        });
-
-        console.log(`Synced campaign ${campaignDoc.id} to Wrike project ${wrikeProject.id}`);
-      } catch (error) {
-        console.error(`Error syncing campaign ${campaignDoc.id}:`, error);
-      }
-    }
+  return {
+    apiUrl: env['WRIKE_API_URL'] ?? WRIKE_API_URL,
+    accessToken: stored?.accessToken ?? accessToken,
+    projectId,
+    ...(refreshToken ? { refreshToken } : {}),
+    ...(env['WRIKE_CLIENT_ID'] ? { clientId: env['WRIKE_CLIENT_ID'] } : {}),
+    ...(env['WRIKE_CLIENT_SECRET'] ? { clientSecret: env['WRIKE_CLIENT_SECRET'] } : {}),
+    ...(env['WRIKE_TOKEN_URL'] ? { tokenUrl: env['WRIKE_TOKEN_URL'] } : {}),
+    ...(env['WRIKE_FOLDER_ID'] ? { folderId: env['WRIKE_FOLDER_ID'] } : {}),
+  };
+}
 
-    // Log sync completion
-    await admin.firestore().collection('telemetry').add({
-      event: 'wrike_sync_completed',
-      timestamp: admin.firestore.FieldValue.serverTimestamp(),
-      campaignsProcessed: campaignsSnapshot.docs.length,
-    });
+export async function createWrikeIntegration(): Promise<WrikeIntegration | null> {
+  const config = await loadWrikeConfig();
+  if (!config) return null;
 
-  } catch (error) {
-    console.error('Wrike sync error:', error);
-    
-    // Log error
-    await admin.firestore().collection('telemetry').add({
-      event: 'wrike_sync_error',
-      error: error.message,
-      timestamp: admin.firestore.FieldValue.serverTimestamp(),
-    });
-  }
-};
+  return new WrikeIntegration(config, {
+    onTokenRefresh: tokens =>
+      admin
+        .firestore()
+        .doc(TOKENS_PATH)
+        .set({ ...tokens, refreshedAt: admin.firestore.FieldValue.serverTimestamp() })
+        .then(() => undefined),
+  });
+}
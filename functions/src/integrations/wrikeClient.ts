@@ -0,0 +1,399 @@
+import axios, { AxiosInstance, AxiosResponse, Method } from 'axios';
+
+export const WRIKE_API_URL = 'https://www.wrike.com/api/v4';
+export const WRIKE_TOKEN_URL = 'https://login.wrike.com/oauth2/token';
+
+export interface WrikeConfig {
+  apiUrl: string;
+  accessToken: string;
+  // With clientId and clientSecret, lets the client renew an expired access token
+  refreshToken?: string;
+  clientId?: string;
+  clientSecret?: string;
+  tokenUrl?: string;
+  projectId: string;
+  folderId?: string;
+}
+
+export interface WrikeTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export interface WrikeClientOptions {
+  // Retries after the first attempt for rate limits, server errors and dropped connections
+  maxRetries?: number;
+  // Backoff when Wrike sends no Retry-After; doubles on each retry
+  baseDelayMs?: number;
+  timeoutMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+  // Wrike rotates refresh tokens; persist the new pair or the next refresh fails
+  onTokenRefresh?: (tokens: WrikeTokens) => Promise<void> | void;
+}
+
+// Wrike v4 wraps every result in { kind, data: [...] }
+export interface WrikeResponse<T> {
+  kind: string;
+  data: T[];
+}
+
+export interface WrikeCustomFieldValue {
+  id: string;
+  value: string;
+}
+
+export type WrikeProjectStatus = 'Green' | 'Yellow' | 'Red' | 'Completed' | 'OnHold' | 'Cancelled';
+
+export interface WrikeFolder {
+  id: string;
+  title: string;
+  description?: string;
+  childIds?: string[];
+  scope?: string;
+  // Present when the folder is a project
+  project?: {
+    authorId?: string;
+    ownerIds?: string[];
+    status?: WrikeProjectStatus;
+    startDate?: string;
+    endDate?: string;
+  };
+  customFields?: WrikeCustomFieldValue[];
+  createdDate?: string;
+  updatedDate?: string;
+  permalink?: string;
+}
+
+export type WrikeTaskStatus = 'Active' | 'Completed' | 'Deferred' | 'Cancelled';
+
+export interface WrikeTaskDates {
+  type: 'Backlog' | 'Milestone' | 'Planned';
+  start?: string;
+  due?: string;
+  duration?: number;
+}
+
+export interface WrikeApiTask {
+  id: string;
+  title: string;
+  description?: string;
+  status: WrikeTaskStatus;
+  importance?: 'High' | 'Normal' | 'Low';
+  parentIds?: string[];
+  responsibleIds?: string[];
+  dates?: WrikeTaskDates;
+  customFields?: WrikeCustomFieldValue[];
+  createdDate?: string;
+  updatedDate?: string;
+  permalink?: string;
+}
+
+export interface WrikeCustomField {
+  id: string;
+  title: string;
+  type: string;
+  sharedIds?: string[];
+  settings?: Record<string, unknown>;
+}
+
+export interface WrikeContact {
+  id: string;
+  firstName: string;
+  lastName: string;
+  type: 'Person' | 'Group';
+  profiles?: Array<{ accountId: string; email?: string; role?: string; external?: boolean }>;
+  deleted?: boolean;
+  me?: boolean;
+}
+
+export interface WrikeFolderInput {
+  title?: string;
+  description?: string;
+  project?: {
+    status?: WrikeProjectStatus;
+    ownerIds?: string[];
+    startDate?: string;
+    endDate?: string;
+  };
+  customFields?: WrikeCustomFieldValue[];
+}
+
+export interface WrikeTaskInput {
+  title?: string;
+  description?: string;
+  status?: WrikeTaskStatus;
+  importance?: 'High' | 'Normal' | 'Low';
+  dates?: Partial<WrikeTaskDates>;
+  // On create
+  responsibles?: string[];
+  // On update
+  addResponsibles?: string[];
+  removeResponsibles?: string[];
+  customFields?: WrikeCustomFieldValue[];
+}
+
+// Wrike suspends a webhook after repeated delivery failures
+export type WrikeWebhookStatus = 'Active' | 'Suspended';
+
+export interface WrikeWebhook {
+  id: string;
+  accountId?: string;
+  // Absent for account-wide webhooks
+  folderId?: string;
+  hookUrl: string;
+  status: WrikeWebhookStatus;
+  events?: string[];
+}
+
+export interface WrikeWebhookInput {
+  hookUrl: string;
+  // Wrike signs deliveries with it; see lib/wrikeWebhooks.ts
+  secret?: string;
+  // Event types to deliver; all of them when absent
+  events?: string[];
+}
+
+// Optional task fields Wrike leaves out of list responses unless asked for
+const TASK_LIST_FIELDS = ['responsibleIds', 'customFields', 'description', 'parentIds'];
+
+export class WrikeApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    // Wrike's error code, e.g. `not_authorized` or `rate_limit_exceeded`
+    public readonly code: string
+  ) {
+    super(message);
+    this.name = 'WrikeApiError';
+  }
+}
+
+/**
+ * HTTP client for the parts of the Wrike v4 API we use. Renews the access
+ * token once on a 401 and retries rate-limited and failed requests with
+ * backoff. Point `apiUrl` and `tokenUrl` at the stub in wrikeStub.ts to run
+ * without network access.
+ */
+export class WrikeClient {
+  private readonly http: AxiosInstance;
+  private accessToken: string;
+  private refreshToken: string | undefined;
+  private refreshing: Promise<void> | null = null;
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  constructor(
+    private readonly config: WrikeConfig,
+    private readonly options: WrikeClientOptions = {}
+  ) {
+    this.http = axios.create({
+      baseURL: config.apiUrl,
+      timeout: options.timeoutMs ?? 30000,
+      // Statuses are handled in request() so 401s and 429s can be retried
+      validateStatus: () => true,
+    });
+    this.accessToken = config.accessToken;
+    this.refreshToken = config.refreshToken;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.sleep = options.sleep ?? (ms => new Promise(resolve => setTimeout(resolve, ms)));
+  }
+
+  async getFolder(folderId: string): Promise<WrikeFolder | null> {
+    const folders = await this.request<WrikeFolder>('GET', `/folders/${folderId}`);
+    return folders[0] ?? null;
+  }
+
+  async getChildFolders(folderId: string): Promise<WrikeFolder[]> {
+    return this.request<WrikeFolder>('GET', `/folders/${folderId}/folders`);
+  }
+
+  async createFolder(parentId: string, input: WrikeFolderInput): Promise<WrikeFolder> {
+    return this.single(await this.request('POST', `/folders/${parentId}/folders`, { data: input }));
+  }
+
+  async updateFolder(folderId: string, input: WrikeFolderInput): Promise<WrikeFolder> {
+    return this.single(await this.request('PUT', `/folders/${folderId}`, { data: input }));
+  }
+
+  async getTask(taskId: string): Promise<WrikeApiTask | null> {
+    const tasks = await this.request<WrikeApiTask>('GET', `/tasks/${taskId}`);
+    return tasks[0] ?? null;
+  }
+
+  async getFolderTasks(folderId: string): Promise<WrikeApiTask[]> {
+    return this.request<WrikeApiTask>('GET', `/folders/${folderId}/tasks`, {
+      params: { descendants: true, fields: JSON.stringify(TASK_LIST_FIELDS) },
+    });
+  }
+
+  async createTask(folderId: string, input: WrikeTaskInput): Promise<WrikeApiTask> {
+    return this.single(await this.request('POST', `/folders/${folderId}/tasks`, { data: input }));
+  }
+
+  async updateTask(taskId: string, input: WrikeTaskInput): Promise<WrikeApiTask> {
+    return this.single(await this.request('PUT', `/tasks/${taskId}`, { data: input }));
+  }
+
+  async getCustomFields(): Promise<WrikeCustomField[]> {
+    return this.request<WrikeCustomField>('GET', '/customfields');
+  }
+
+  async getContacts(): Promise<WrikeContact[]> {
+    return this.request<WrikeContact>('GET', '/contacts');
+  }
+
+  // The contact the token belongs to; a cheap way to check the credentials
+  async getMe(): Promise<WrikeContact | null> {
+    const contacts = await this.request<WrikeContact>('GET', '/contacts', { params: { me: true } });
+    return contacts[0] ?? null;
+  }
+
+  async getWebhooks(): Promise<WrikeWebhook[]> {
+    return this.request<WrikeWebhook>('GET', '/webhooks');
+  }
+
+  async createWebhook(folderId: string, input: WrikeWebhookInput): Promise<WrikeWebhook> {
+    return this.single(
+      await this.request('POST', `/folders/${folderId}/webhooks`, { data: input })
+    );
+  }
+
+  // Setting `Active` resumes a suspended webhook
+  async updateWebhook(
+    webhookId: string,
+    input: { status: WrikeWebhookStatus }
+  ): Promise<WrikeWebhook> {
+    return this.single(await this.request('PUT', `/webhooks/${webhookId}`, { data: input }));
+  }
+
+  private single<T>(items: T[]): T {
+    const [item] = items;
+    if (!item) {
+      throw new WrikeApiError('Wrike returned an empty response', 502, 'empty_response');
+    }
+    return item;
+  }
+
+  private async request<T>(
+    method: Method,
+    path: string,
+    options: { params?: Record<string, unknown>; data?: unknown } = {}
+  ): Promise<T[]> {
+    let refreshed = false;
+
+    for (let attempt = 0; ; attempt++) {
+      let response: AxiosResponse;
+      try {
+        response = await this.http.request({
+          method,
+          url: path,
+          ...(options.params ? { params: options.params } : {}),
+          ...(options.data !== undefined ? { data: options.data } : {}),
+          headers: { Authorization: `bearer ${this.accessToken}` },
+        });
+      } catch (error) {
+        // Dropped connection or timeout; only repeat requests that are safe to repeat
+        if (method === 'GET' && attempt < this.maxRetries) {
+          await this.sleep(this.backoff(attempt));
+          continue;
+        }
+        throw error;
+      }
+
+      if (response.status >= 200 && response.status < 300) {
+        return ((response.data as WrikeResponse<T>)?.data ?? []) as T[];
+      }
+
+      if (response.status === 401 && !refreshed && this.canRefresh()) {
+        refreshed = true;
+        await this.refreshAccessToken();
+        continue;
+      }
+
+      // A rate-limited request was not processed, so any method can be retried
+      const retryable = response.status === 429 || (response.status >= 500 && method === 'GET');
+      if (retryable && attempt < this.maxRetries) {
+        await this.sleep(this.retryDelay(response, attempt));
+        continue;
+      }
+
+      const body = (response.data ?? {}) as { error?: string; errorDescription?: string };
+      throw new WrikeApiError(
+        body.errorDescription ?? `Wrike ${method} ${path} failed with ${response.status}`,
+        response.status,
+        body.error ?? 'http_error'
+      );
+    }
+  }
+
+  private backoff(attempt: number): number {
+    return this.baseDelayMs * 2 ** attempt;
+  }
+
+  private retryDelay(response: AxiosResponse, attempt: number): number {
+    const retryAfter = Number(response.headers['retry-after']);
+    return Number.isFinite(retryAfter) && retryAfter >= 0
+      ? retryAfter * 1000
+      : this.backoff(attempt);
+  }
+
+  private canRefresh(): boolean {
+    return Boolean(this.refreshToken && this.config.clientId && this.config.clientSecret);
+  }
+
+  // Concurrent 401s share one refresh; the refresh token is single-use
+  private async refreshAccessToken(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.exchangeRefreshToken().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async exchangeRefreshToken(): Promise<void> {
+    const response = await axios.post(
+      this.config.tokenUrl ?? WRIKE_TOKEN_URL,
+      new URLSearchParams({
+        client_id: this.config.clientId ?? '',
+        client_secret: this.config.clientSecret ?? '',
+        grant_type: 'refresh_token',
+        refresh_token: this.refreshToken ?? '',
+      }).toString(),
+      {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        timeout: this.options.timeoutMs ?? 30000,
+        validateStatus: () => true,
+      }
+    );
+
+    const body = (response.data ?? {}) as {
+      access_token?: string;
+      refresh_token?: string;
+      host?: string;
+      error?: string;
+      error_description?: string;
+    };
+    if (response.status !== 200 || !body.access_token) {
+      throw new WrikeApiError(
+        body.error_description ?? 'Wrike token refresh failed',
+        response.status,
+        body.error ?? 'token_refresh_failed'
+      );
+    }
+
+    this.accessToken = body.access_token;
+    this.refreshToken = body.refresh_token ?? this.refreshToken;
+    // Tokens are tied to the account's data center, which Wrike names in `host`
+    if (body.host && this.config.apiUrl === WRIKE_API_URL) {
+      this.http.defaults.baseURL = `https://${body.host}/api/v4`;
+    }
+
+    await this.options.onTokenRefresh?.({
+      accessToken: this.accessToken,
+      refreshToken: this.refreshToken ?? '',
+    });
+  }
+}
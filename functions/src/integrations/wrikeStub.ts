@@ -0,0 +1,423 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import type {
+  WrikeApiTask,
+  WrikeConfig,
+  WrikeContact,
+  WrikeCustomField,
+  WrikeFolder,
+  WrikeFolderInput,
+  WrikeTaskInput,
+  WrikeWebhook,
+} from './wrikeClient';
+
+// In-memory stand-in for the Wrike v4 API and its OAuth token endpoint, for
+// tests and the emulator. Run it on its own with `npm run wrike:stub`.
+
+export interface WrikeStubFixtures {
+  folders: WrikeFolder[];
+  tasks: WrikeApiTask[];
+  customFields: WrikeCustomField[];
+  contacts: WrikeContact[];
+}
+
+export const WRIKE_STUB_FIXTURES: WrikeStubFixtures = {
+  folders: [
+    {
+      id: 'IEAAAAAAI4000001',
+      title: 'Vizzy Campaigns',
+      description: 'Campaigns exported from Vizzy',
+      childIds: [],
+      scope: 'WsFolder',
+      project: { ownerIds: ['KUAAAAAA00000001'], status: 'Green' },
+      customFields: [],
+    },
+  ],
+  tasks: [
+    {
+      id: 'IEAAAAAAKQ000001',
+      title: 'Draft launch brief',
+      description: 'Brief for the spring launch',
+      status: 'Active',
+      importance: 'Normal',
+      parentIds: ['IEAAAAAAI4000001'],
+      responsibleIds: ['KUAAAAAA00000001'],
+      dates: { type: 'Planned', start: '2026-03-02', due: '2026-03-06' },
+      customFields: [{ id: 'IEAAAAAAJUAAAAA1', value: '12000' }],
+    },
+    {
+      id: 'IEAAAAAAKQ000002',
+      title: 'Book media slots',
+      status: 'Completed',
+      importance: 'High',
+      parentIds: ['IEAAAAAAI4000001'],
+      responsibleIds: ['KUAAAAAA00000002'],
+      dates: { type: 'Milestone', due: '2026-02-20' },
+      customFields: [],
+    },
+  ],
+  customFields: [
+    { id: 'IEAAAAAAJUAAAAA1', title: 'budget', type: 'Currency' },
+    { id: 'IEAAAAAAJUAAAAA2', title: 'priority', type: 'DropDown' },
+    { id: 'IEAAAAAAJUAAAAA3', title: 'tags', type: 'Text' },
+    { id: 'IEAAAAAAJUAAAAA4', title: 'teamId', type: 'Text' },
+  ],
+  contacts: [
+    {
+      id: 'KUAAAAAA00000001',
+      firstName: 'Avery',
+      lastName: 'Planner',
+      type: 'Person',
+      profiles: [{ accountId: 'IEAAAAAA', email: 'avery@example.com', role: 'User' }],
+      me: true,
+    },
+    {
+      id: 'KUAAAAAA00000002',
+      firstName: 'Jordan',
+      lastName: 'Buyer',
+      type: 'Person',
+      profiles: [{ accountId: 'IEAAAAAA', email: 'jordan@example.com', role: 'User' }],
+    },
+  ],
+};
+
+export interface WrikeStubOptions {
+  port?: number;
+  fixtures?: WrikeStubFixtures;
+  accessToken?: string;
+  refreshToken?: string;
+  clientId?: string;
+  clientSecret?: string;
+}
+
+export interface WrikeStub {
+  apiUrl: string;
+  tokenUrl: string;
+  // Live state; tests may read or edit it directly
+  state: {
+    folders: Map<string, WrikeFolder>;
+    tasks: Map<string, WrikeApiTask>;
+    customFields: WrikeCustomField[];
+    contacts: WrikeContact[];
+    webhooks: Map<string, WrikeWebhook>;
+    accessToken: string;
+    refreshToken: string;
+  };
+  requests: Array<{ method: string; path: string }>;
+  // Answer the next `times` API requests with an error, e.g. 429 to simulate rate limits
+  failNext(failure: { status: number; times?: number; retryAfter?: number }): void;
+  // Make the current access token stale, so the next request needs a refresh
+  expireAccessToken(): void;
+  // A client config pointing at this stub
+  config(overrides?: Partial<WrikeConfig>): WrikeConfig;
+  close(): Promise<void>;
+}
+
+type Json = Record<string, unknown>;
+
+class StubError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+async function readBody(request: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function send(
+  response: http.ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  response.end(JSON.stringify(body));
+}
+
+export async function startWrikeStub(options: WrikeStubOptions = {}): Promise<WrikeStub> {
+  // Deep copy so tests cannot leak edits into the shared fixtures
+  const fixtures = JSON.parse(
+    JSON.stringify(options.fixtures ?? WRIKE_STUB_FIXTURES)
+  ) as WrikeStubFixtures;
+  const clientId = options.clientId ?? 'stub-client';
+  const clientSecret = options.clientSecret ?? 'stub-secret';
+
+  const state: WrikeStub['state'] = {
+    folders: new Map(fixtures.folders.map(folder => [folder.id, folder])),
+    tasks: new Map(fixtures.tasks.map(task => [task.id, task])),
+    customFields: fixtures.customFields,
+    contacts: fixtures.contacts,
+    webhooks: new Map(),
+    accessToken: options.accessToken ?? 'stub-access-token',
+    refreshToken: options.refreshToken ?? 'stub-refresh-token',
+  };
+  const requests: WrikeStub['requests'] = [];
+  const failures: Array<{ status: number; retryAfter?: number }> = [];
+  let nextId = 1;
+  let tokenVersion = 1;
+
+  const newId = (prefix: string) => `${prefix}${String(nextId++).padStart(8, '0')}`;
+
+  const folder = (id: string) => {
+    const found = state.folders.get(id);
+    if (!found) throw new StubError(404, 'resource_not_found', `Folder ${id} not found`);
+    return found;
+  };
+  const task = (id: string) => {
+    const found = state.tasks.get(id);
+    if (!found) throw new StubError(404, 'resource_not_found', `Task ${id} not found`);
+    return found;
+  };
+
+  function applyTaskInput(target: WrikeApiTask, input: WrikeTaskInput): void {
+    if (input.title !== undefined) target.title = input.title;
+    if (input.description !== undefined) target.description = input.description;
+    if (input.status !== undefined) target.status = input.status;
+    if (input.importance !== undefined) target.importance = input.importance;
+    if (input.dates) target.dates = { type: 'Planned', ...target.dates, ...input.dates };
+
+    const responsibles = new Set(input.responsibles ?? target.responsibleIds ?? []);
+    input.addResponsibles?.forEach(id => responsibles.add(id));
+    input.removeResponsibles?.forEach(id => responsibles.delete(id));
+    target.responsibleIds = [...responsibles];
+
+    for (const field of input.customFields ?? []) {
+      target.customFields = [
+        ...(target.customFields ?? []).filter(existing => existing.id !== field.id),
+        field,
+      ];
+    }
+    target.updatedDate = new Date().toISOString();
+  }
+
+  function applyFolderInput(target: WrikeFolder, input: WrikeFolderInput): void {
+    if (input.title !== undefined) target.title = input.title;
+    if (input.description !== undefined) target.description = input.description;
+    if (input.project) target.project = { ...target.project, ...input.project };
+    for (const field of input.customFields ?? []) {
+      target.customFields = [
+        ...(target.customFields ?? []).filter(existing => existing.id !== field.id),
+        field,
+      ];
+    }
+    target.updatedDate = new Date().toISOString();
+  }
+
+  function route(method: string, path: string, query: URLSearchParams, body: Json): unknown[] {
+    const parts = path.split('/').filter(Boolean);
+    const [resource, id, child] = parts;
+
+    if (resource === 'folders' && id && !child && method === 'GET') return [folder(id)];
+    if (resource === 'folders' && id && !child && method === 'PUT') {
+      const target = folder(id);
+      applyFolderInput(target, body as WrikeFolderInput);
+      return [target];
+    }
+    if (resource === 'folders' && id && child === 'folders' && method === 'GET') {
+      return (folder(id).childIds ?? []).flatMap(childId => state.folders.get(childId) ?? []);
+    }
+    if (resource === 'folders' && id && child === 'folders' && method === 'POST') {
+      const parent = folder(id);
+      const created: WrikeFolder = {
+        id: newId('IEAAAAAAI4'),
+        title: String(body['title'] ?? ''),
+        childIds: [],
+        scope: 'WsFolder',
+        createdDate: new Date().toISOString(),
+      };
+      applyFolderInput(created, body as WrikeFolderInput);
+      state.folders.set(created.id, created);
+      parent.childIds = [...(parent.childIds ?? []), created.id];
+      return [created];
+    }
+    if (resource === 'folders' && id && child === 'tasks' && method === 'GET') {
+      folder(id);
+      return [...state.tasks.values()].filter(candidate => candidate.parentIds?.includes(id));
+    }
+    if (resource === 'folders' && id && child === 'tasks' && method === 'POST') {
+      folder(id);
+      const created: WrikeApiTask = {
+        id: newId('IEAAAAAAKQ'),
+        title: String(body['title'] ?? ''),
+        status: 'Active',
+        parentIds: [id],
+        responsibleIds: [],
+        customFields: [],
+        createdDate: new Date().toISOString(),
+      };
+      applyTaskInput(created, body as WrikeTaskInput);
+      state.tasks.set(created.id, created);
+      return [created];
+    }
+    if (resource === 'tasks' && id && !child && method === 'GET') return [task(id)];
+    if (resource === 'tasks' && id && !child && method === 'PUT') {
+      const target = task(id);
+      applyTaskInput(target, body as WrikeTaskInput);
+      return [target];
+    }
+    if (resource === 'folders' && id && child === 'webhooks' && method === 'POST') {
+      folder(id);
+      const created: WrikeWebhook = {
+        id: newId('IEAAAAAAJA'),
+        accountId: 'IEAAAAAA',
+        folderId: id,
+        hookUrl: String(body['hookUrl'] ?? ''),
+        status: 'Active',
+        ...(Array.isArray(body['events']) ? { events: body['events'] as string[] } : {}),
+      };
+      state.webhooks.set(created.id, created);
+      return [created];
+    }
+    if (resource === 'webhooks' && !id && method === 'GET') return [...state.webhooks.values()];
+    if (resource === 'webhooks' && id && method === 'PUT') {
+      const target = state.webhooks.get(id);
+      if (!target) throw new StubError(404, 'resource_not_found', `Webhook ${id} not found`);
+      if (body['status'] === 'Active' || body['status'] === 'Suspended') {
+        target.status = body['status'];
+      }
+      return [target];
+    }
+    if (resource === 'customfields' && !id && method === 'GET') return state.customFields;
+    if (resource === 'contacts' && !id && method === 'GET') {
+      return query.get('me') === 'true'
+        ? state.contacts.filter(contact => contact.me)
+        : state.contacts;
+    }
+
+    throw new StubError(404, 'method_not_found', `${method} ${path} is not stubbed`);
+  }
+
+  async function handleToken(request: http.IncomingMessage, response: http.ServerResponse) {
+    const form = new URLSearchParams(await readBody(request));
+    if (form.get('client_id') !== clientId || form.get('client_secret') !== clientSecret) {
+      return send(response, 401, {
+        error: 'invalid_client',
+        error_description: 'Unknown client',
+      });
+    }
+    if (
+      form.get('grant_type') !== 'refresh_token' ||
+      form.get('refresh_token') !== state.refreshToken
+    ) {
+      return send(response, 400, {
+        error: 'invalid_grant',
+        error_description: 'Refresh token is invalid or was already used',
+      });
+    }
+
+    // Refresh tokens are single-use, as in Wrike
+    tokenVersion++;
+    state.accessToken = `stub-access-token-${tokenVersion}`;
+    state.refreshToken = `stub-refresh-token-${tokenVersion}`;
+    return send(response, 200, {
+      access_token: state.accessToken,
+      refresh_token: state.refreshToken,
+      token_type: 'bearer',
+      expires_in: 3600,
+    });
+  }
+
+  const server = http.createServer(async (request, response) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const method = request.method ?? 'GET';
+
+    try {
+      if (url.pathname === '/oauth2/token' && method === 'POST') {
+        return await handleToken(request, response);
+      }
+      if (!url.pathname.startsWith('/api/v4/')) {
+        throw new StubError(404, 'not_found', `${url.pathname} is not stubbed`);
+      }
+
+      const path = url.pathname.slice('/api/v4'.length);
+      requests.push({ method, path });
+
+      const failure = failures.shift();
+      if (failure) {
+        const headers: Record<string, string> =
+          failure.retryAfter === undefined ? {} : { 'Retry-After': String(failure.retryAfter) };
+        return send(
+          response,
+          failure.status,
+          {
+            error: failure.status === 429 ? 'rate_limit_exceeded' : 'server_error',
+            errorDescription: `Stubbed ${failure.status}`,
+          },
+          headers
+        );
+      }
+
+      if (request.headers.authorization !== `bearer ${state.accessToken}`) {
+        throw new StubError(401, 'not_authorized', 'Access token is invalid or expired');
+      }
+
+      const raw = method === 'GET' ? '' : await readBody(request);
+      const body = raw ? (JSON.parse(raw) as Json) : {};
+      return send(response, 200, {
+        kind: path.split('/').filter(Boolean).pop() ?? 'unknown',
+        data: route(method, path, url.searchParams, body),
+      });
+    } catch (error) {
+      if (error instanceof StubError) {
+        return send(response, error.status, { error: error.code, errorDescription: error.message });
+      }
+      return send(response, 500, { error: 'server_error', errorDescription: String(error) });
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const origin = `http://127.0.0.1:${port}`;
+
+  return {
+    apiUrl: `${origin}/api/v4`,
+    tokenUrl: `${origin}/oauth2/token`,
+    state,
+    requests,
+    failNext: ({ status, times = 1, retryAfter }) => {
+      for (let index = 0; index < times; index++) {
+        failures.push(retryAfter === undefined ? { status } : { status, retryAfter });
+      }
+    },
+    expireAccessToken: () => {
+      state.accessToken = `stub-access-token-expired-${tokenVersion}`;
+    },
+    config: overrides => ({
+      apiUrl: `${origin}/api/v4`,
+      tokenUrl: `${origin}/oauth2/token`,
+      accessToken: state.accessToken,
+      refreshToken: state.refreshToken,
+      clientId,
+      clientSecret,
+      projectId: fixtures.folders[0]?.id ?? 'IEAAAAAAI4000001',
+      ...overrides,
+    }),
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close(error => (error ? reject(error) : resolve()))
+      ),
+  };
+}
+
+if (require.main === module) {
+  const port = Number(process.env['WRIKE_STUB_PORT'] ?? 8089);
+  startWrikeStub({ port }).then(stub => {
+    const config = stub.config();
+    console.log(`Wrike stub listening on ${stub.apiUrl}`);
+    console.log('Point the functions emulator at it with:');
+    console.log(`  WRIKE_API_URL=${config.apiUrl}`);
+    console.log(`  WRIKE_TOKEN_URL=${config.tokenUrl}`);
+    console.log(`  WRIKE_API_TOKEN=${config.accessToken}`);
+    console.log(`  WRIKE_REFRESH_TOKEN=${config.refreshToken}`);
+    console.log(`  WRIKE_CLIENT_ID=${config.clientId}`);
+    console.log(`  WRIKE_CLIENT_SECRET=${config.clientSecret}`);
+    console.log(`  WRIKE_PROJECT_ID=${config.projectId}`);
+  });
+}
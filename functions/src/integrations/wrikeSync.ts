@@ -0,0 +1,588 @@
+import * as admin from 'firebase-admin';
+import { openAuditLedger } from '../lib/auditLedger';
+import { toDate } from '../lib/dateSafe';
+import { governanceEngine } from '../lib/governanceEngine';
+import {
+  ActivityStatus,
+  WRIKE_SYNC_FIELDS,
+  WrikeConflict,
+  WrikeFieldConflict,
+  WrikeSyncPolicy,
+  WrikeSyncValues,
+  fromWrikeDay,
+  reconcileWrikeSync,
+  toActivityStatus,
+  toWrikeDay,
+  wrikeConflictId,
+} from '../lib/wrikeConflicts';
+import {
+  WrikeApiError,
+  WrikeApiTask,
+  WrikeClient,
+  WrikeFolder,
+  WrikeFolderInput,
+  WrikeTaskInput,
+  WrikeTaskStatus,
+} from './wrikeClient';
+import { WrikeIntegration } from './wrike';
+
+// Upper bounds per run; the rest are picked up by the next run
+const MAX_PUSHES_PER_RUN = 10;
+const MAX_PULLS_PER_RUN = 25;
+// Firestore caps `in` filters at 30 values
+const IN_QUERY_LIMIT = 30;
+
+const TASK_STATUSES: Record<ActivityStatus, WrikeTaskStatus> = {
+  active: 'Active',
+  completed: 'Completed',
+  deferred: 'Deferred',
+  cancelled: 'Cancelled',
+};
+
+// Vizzy users and Wrike contacts with the same email address
+export interface WrikeContactDirectory {
+  uidFor: Map<string, string>;
+  contactFor: Map<string, string>;
+}
+
+// A campaign or activity doc and the Wrike folder or task it is linked to
+export interface WrikeSyncTarget {
+  ref: admin.firestore.DocumentReference;
+  campaignId: string;
+  activityId: string | null;
+  wrikeId: string;
+  vizzy: WrikeSyncValues;
+  wrike: WrikeSyncValues;
+  baseline: WrikeSyncValues;
+  // Send Vizzy values to the linked folder or task
+  push: (values: WrikeSyncValues) => Promise<void>;
+}
+
+export interface WrikeSyncSummary {
+  pushedCampaigns: number;
+  pulledCampaigns: number;
+  pulledChanges: number;
+  pushedChanges: number;
+  conflicts: number;
+  errors: number;
+}
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value ? value : undefined;
+
+export async function loadContactDirectory(client: WrikeClient): Promise<WrikeContactDirectory> {
+  const contactByEmail = new Map<string, string>();
+  for (const contact of await client.getContacts()) {
+    if (contact.deleted || contact.type !== 'Person') continue;
+    for (const profile of contact.profiles ?? []) {
+      if (profile.email) contactByEmail.set(profile.email.toLowerCase(), contact.id);
+    }
+  }
+
+  const directory: WrikeContactDirectory = { uidFor: new Map(), contactFor: new Map() };
+  const emails = [...contactByEmail.keys()];
+  for (let i = 0; i < emails.length; i += IN_QUERY_LIMIT) {
+    const users = await admin
+      .firestore()
+      .collection('users')
+      .where('email', 'in', emails.slice(i, i + IN_QUERY_LIMIT))
+      .select('email')
+      .get();
+    for (const userDoc of users.docs) {
+      const contactId = contactByEmail.get(String(userDoc.data()['email']).toLowerCase());
+      if (!contactId) continue;
+      directory.uidFor.set(contactId, userDoc.id);
+      directory.contactFor.set(userDoc.id, contactId);
+    }
+  }
+  return directory;
+}
+
+// Assignees without a counterpart on the other side are left out, so they are
+// neither compared nor copied
+function wrikeAssignee(
+  contactIds: string[] | undefined,
+  directory: WrikeContactDirectory
+): Pick<WrikeSyncValues, 'assignedTo'> {
+  const [contactId] = contactIds ?? [];
+  if (!contactId) return { assignedTo: null };
+  const uid = directory.uidFor.get(contactId);
+  return uid ? { assignedTo: uid } : {};
+}
+
+function vizzyAssignee(
+  data: Record<string, unknown>,
+  directory: WrikeContactDirectory
+): Pick<WrikeSyncValues, 'assignedTo'> {
+  const uid = asString(data['assignedTo']);
+  if (!uid) return { assignedTo: null };
+  return directory.contactFor.has(uid) ? { assignedTo: uid } : {};
+}
+
+// Campaigns always have a due date, so an empty one is not sent to Wrike
+export function campaignSyncValues(
+  data: Record<string, unknown>,
+  directory: WrikeContactDirectory
+): WrikeSyncValues {
+  const dueDate = toWrikeDay(toDate(data['dueDate']));
+  return { ...(dueDate ? { dueDate } : {}), ...vizzyAssignee(data, directory) };
+}
+
+export function activitySyncValues(
+  data: Record<string, unknown>,
+  directory: WrikeContactDirectory
+): WrikeSyncValues {
+  const status = toActivityStatus(data['status']);
+  return {
+    ...(status ? { status } : {}),
+    dueDate: toWrikeDay(toDate(data['dueDate'])),
+    ...vizzyAssignee(data, directory),
+  };
+}
+
+export function folderSyncValues(
+  folder: WrikeFolder,
+  directory: WrikeContactDirectory
+): WrikeSyncValues {
+  return {
+    dueDate: folder.project?.endDate?.slice(0, 10) ?? null,
+    ...wrikeAssignee(folder.project?.ownerIds, directory),
+  };
+}
+
+export function taskSyncValues(
+  task: WrikeApiTask,
+  directory: WrikeContactDirectory
+): WrikeSyncValues {
+  return {
+    status: toActivityStatus(task.status),
+    dueDate: task.dates?.due?.slice(0, 10) ?? null,
+    ...wrikeAssignee(task.responsibleIds, directory),
+  };
+}
+
+function folderInput(values: WrikeSyncValues, directory: WrikeContactDirectory): WrikeFolderInput {
+  const ownerId = values.assignedTo ? directory.contactFor.get(values.assignedTo) : undefined;
+  return {
+    project: {
+      ...(values.dueDate ? { endDate: values.dueDate } : {}),
+      ...(values.assignedTo !== undefined ? { ownerIds: ownerId ? [ownerId] : [] } : {}),
+    },
+  };
+}
+
+function taskInput(
+  task: Pick<WrikeApiTask, 'dates' | 'responsibleIds'>,
+  values: WrikeSyncValues,
+  directory: WrikeContactDirectory
+): WrikeTaskInput {
+  const input: WrikeTaskInput = {};
+  const status = toActivityStatus(values.status);
+  if (status) input.status = TASK_STATUSES[status];
+
+  if (values.dueDate !== undefined) {
+    const start = task.dates?.start?.slice(0, 10);
+    input.dates = !values.dueDate
+      ? { type: 'Backlog' }
+      : start && start <= values.dueDate
+        ? { type: 'Planned', start, due: values.dueDate }
+        : { type: 'Milestone', due: values.dueDate };
+  }
+
+  // Vizzy has one assignee, so it replaces everyone responsible in Wrike
+  if (values.assignedTo !== undefined) {
+    const contactId = values.assignedTo ? directory.contactFor.get(values.assignedTo) : undefined;
+    const wanted = contactId ? [contactId] : [];
+    const existing = task.responsibleIds ?? [];
+    input.addResponsibles = wanted.filter(id => !existing.includes(id));
+    input.removeResponsibles = existing.filter(id => !wanted.includes(id));
+  }
+  return input;
+}
+
+async function getFolderOrNull(client: WrikeClient, folderId: string): Promise<WrikeFolder | null> {
+  try {
+    return await client.getFolder(folderId);
+  } catch (error) {
+    if (error instanceof WrikeApiError && error.status === 404) return null;
+    throw error;
+  }
+}
+
+async function getTaskOrNull(client: WrikeClient, taskId: string): Promise<WrikeApiTask | null> {
+  try {
+    return await client.getTask(taskId);
+  } catch (error) {
+    if (error instanceof WrikeApiError && error.status === 404) return null;
+    throw error;
+  }
+}
+
+export function campaignSyncTarget(
+  client: WrikeClient,
+  directory: WrikeContactDirectory,
+  campaignDoc: admin.firestore.DocumentSnapshot,
+  folder: WrikeFolder
+): WrikeSyncTarget {
+  const data = campaignDoc.data() ?? {};
+  return {
+    ref: campaignDoc.ref,
+    campaignId: campaignDoc.id,
+    activityId: null,
+    wrikeId: folder.id,
+    vizzy: campaignSyncValues(data, directory),
+    wrike: folderSyncValues(folder, directory),
+    baseline: (data['wrikeBaseline'] ?? {}) as WrikeSyncValues,
+    push: async values => {
+      await client.updateFolder(folder.id, folderInput(values, directory));
+    },
+  };
+}
+
+export function activitySyncTarget(
+  client: WrikeClient,
+  directory: WrikeContactDirectory,
+  campaignId: string,
+  activityDoc: admin.firestore.DocumentSnapshot,
+  task: WrikeApiTask
+): WrikeSyncTarget {
+  const data = activityDoc.data() ?? {};
+  return {
+    ref: activityDoc.ref,
+    campaignId,
+    activityId: activityDoc.id,
+    wrikeId: task.id,
+    vizzy: activitySyncValues(data, directory),
+    wrike: taskSyncValues(task, directory),
+    baseline: (data['wrikeBaseline'] ?? {}) as WrikeSyncValues,
+    push: async values => {
+      await client.updateTask(task.id, taskInput(task, values, directory));
+    },
+  };
+}
+
+/**
+ * Load the sync target a conflict is about, with both sides read fresh.
+ * Returns null when the doc or the Wrike item is gone.
+ */
+export async function loadSyncTarget(
+  client: WrikeClient,
+  directory: WrikeContactDirectory,
+  conflict: Pick<WrikeConflict, 'campaignId' | 'activityId' | 'wrikeId'>
+): Promise<WrikeSyncTarget | null> {
+  const campaignRef = admin.firestore().collection('campaigns').doc(conflict.campaignId);
+  if (!conflict.activityId) {
+    const [campaignDoc, folder] = await Promise.all([
+      campaignRef.get(),
+      getFolderOrNull(client, conflict.wrikeId),
+    ]);
+    return campaignDoc.exists && folder
+      ? campaignSyncTarget(client, directory, campaignDoc, folder)
+      : null;
+  }
+
+  const [activityDoc, task] = await Promise.all([
+    campaignRef.collection('activities').doc(conflict.activityId).get(),
+    getTaskOrNull(client, conflict.wrikeId),
+  ]);
+  return activityDoc.exists && task
+    ? activitySyncTarget(client, directory, conflict.campaignId, activityDoc, task)
+    : null;
+}
+
+/**
+ * Synced values in the form Vizzy docs store them: due dates as Timestamps at
+ * UTC midnight. The 'YYYY-MM-DD' form is kept in wrikeBaseline only.
+ */
+export function toDocFields(values: WrikeSyncValues): Record<string, unknown> {
+  const fields: Record<string, unknown> = { ...values };
+  if (values.dueDate !== undefined) {
+    const dueDate = fromWrikeDay(values.dueDate);
+    fields['dueDate'] = dueDate ? admin.firestore.Timestamp.fromDate(dueDate) : null;
+  }
+  return fields;
+}
+
+// Vizzy values read in this transaction must still be the ones reconciled
+function unchangedSince(
+  data: Record<string, unknown>,
+  target: WrikeSyncTarget,
+  directory: WrikeContactDirectory
+): boolean {
+  const current = target.activityId
+    ? activitySyncValues(data, directory)
+    : campaignSyncValues(data, directory);
+  return WRIKE_SYNC_FIELDS.every(field => current[field] === target.vizzy[field]);
+}
+
+// Open a conflict per field, refresh ones still open, and close those whose
+// sides have since agreed
+async function recordConflicts(
+  target: WrikeSyncTarget,
+  conflicts: WrikeFieldConflict[]
+): Promise<void> {
+  const db = admin.firestore();
+  const refs = WRIKE_SYNC_FIELDS.map(field =>
+    db
+      .collection('wrikeConflicts')
+      .doc(wrikeConflictId(target.campaignId, target.activityId, field))
+  );
+  const existing = await db.getAll(...refs);
+  const now = new Date().toISOString();
+  const batch = db.batch();
+  let writes = 0;
+
+  WRIKE_SYNC_FIELDS.forEach((field, index) => {
+    const ref = refs[index]!;
+    const isOpen = existing[index]?.data()?.['status'] === 'open';
+    const conflict = conflicts.find(candidate => candidate.field === field);
+
+    if (conflict && isOpen) {
+      batch.update(ref, { ...conflict, wrikeId: target.wrikeId, updatedAt: now });
+    } else if (conflict) {
+      const record: WrikeConflict = {
+        ...conflict,
+        campaignId: target.campaignId,
+        activityId: target.activityId,
+        wrikeId: target.wrikeId,
+        status: 'open',
+        detectedAt: now,
+      };
+      batch.set(ref, { ...record, updatedAt: now });
+    } else if (isOpen) {
+      batch.update(ref, { status: 'resolved', resolvedBy: 'system', resolvedAt: now });
+    } else {
+      return;
+    }
+    writes++;
+  });
+
+  if (writes > 0) await batch.commit();
+}
+
+/**
+ * Reconcile one record: push Vizzy-side changes to Wrike, write Wrike-side
+ * changes onto the doc, and store the new baseline. The doc write is skipped
+ * if someone edited a synced field in the meantime; the next run picks it up.
+ */
+export async function syncTarget(
+  target: WrikeSyncTarget,
+  policy: WrikeSyncPolicy,
+  directory: WrikeContactDirectory
+): Promise<{ pulled: number; pushed: number; conflicts: number }> {
+  const result = reconcileWrikeSync(target.baseline, target.vizzy, target.wrike, policy);
+  const pulled = Object.keys(result.pull).length;
+  const pushed = Object.keys(result.push).length;
+
+  if (pushed > 0) await target.push(result.push);
+
+  const db = admin.firestore();
+  await db.runTransaction(async transaction => {
+    const doc = await transaction.get(target.ref);
+    const ledger = pulled > 0 ? await openAuditLedger(transaction) : null;
+    if (!doc.exists || !unchangedSince(doc.data() ?? {}, target, directory)) return;
+
+    transaction.update(target.ref, {
+      ...toDocFields(result.pull),
+      wrikeBaseline: result.baseline,
+      lastWrikeSync: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    ledger?.append({
+      action: 'wrike_sync_pulled',
+      resourceId: target.campaignId,
+      userId: 'system',
+      metadata: {
+        ...(target.activityId ? { activityId: target.activityId } : {}),
+        wrikeId: target.wrikeId,
+        changes: Object.fromEntries(
+          Object.entries(result.pull).map(([field, value]) => [
+            field,
+            { from: target.vizzy[field as keyof WrikeSyncValues] ?? null, to: value },
+          ])
+        ),
+      },
+    });
+  });
+
+  await recordConflicts(target, result.conflicts);
+  return { pulled, pushed, conflicts: result.conflicts.length };
+}
+
+// New folders and tasks start from Vizzy's values, which become the baseline
+async function seedTarget(target: WrikeSyncTarget): Promise<void> {
+  await target.push(target.vizzy);
+  await target.ref.update({
+    wrikeBaseline: target.vizzy,
+    lastWrikeSync: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+// Create a Wrike task in the campaign's project for each activity not linked yet
+async function createActivityTasks(
+  client: WrikeClient,
+  directory: WrikeContactDirectory,
+  campaignId: string,
+  wrikeProjectId: string,
+  activities: admin.firestore.QuerySnapshot
+): Promise<void> {
+  for (const activityDoc of activities.docs) {
+    const activity = activityDoc.data();
+    if (asString(activity['wrikeTaskId'])) continue;
+
+    const task = await client.createTask(wrikeProjectId, {
+      title: asString(activity['title']) ?? asString(activity['channel']) ?? 'Untitled activity',
+      description: asString(activity['description']) ?? '',
+    });
+    await activityDoc.ref.update({ wrikeTaskId: task.id });
+    await seedTarget(activitySyncTarget(client, directory, campaignId, activityDoc, task));
+  }
+}
+
+/**
+ * Push campaigns flagged with `wrikeSyncNeeded`, creating Wrike folders and
+ * tasks for anything not linked yet, then pull the least recently synced
+ * linked campaigns and their activities back from Wrike.
+ */
+export async function runWrikeSync(integration: WrikeIntegration): Promise<WrikeSyncSummary> {
+  const db = admin.firestore();
+  const client = integration.client;
+  const policy = await governanceEngine.getWrikeSyncPolicy();
+  const directory = await loadContactDirectory(client);
+  const summary: WrikeSyncSummary = {
+    pushedCampaigns: 0,
+    pulledCampaigns: 0,
+    pulledChanges: 0,
+    pushedChanges: 0,
+    conflicts: 0,
+    errors: 0,
+  };
+
+  const pending = await db
+    .collection('campaigns')
+    .where('wrikeSyncNeeded', '==', true)
+    .limit(MAX_PUSHES_PER_RUN)
+    .get();
+  console.log(`Found ${pending.docs.length} campaigns needing Wrike sync`);
+
+  for (const campaignDoc of pending.docs) {
+    try {
+      const campaignData = campaignDoc.data();
+      const wrikeProject = await integration.syncProject(campaignData);
+      const created = wrikeProject.id !== campaignData['wrikeId'];
+
+      await campaignDoc.ref.update({
+        wrikeId: wrikeProject.id,
+        wrikeSyncNeeded: false,
+        lastWrikeSync: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      if (created) {
+        const folder = await getFolderOrNull(client, wrikeProject.id);
+        if (folder) await seedTarget(campaignSyncTarget(client, directory, campaignDoc, folder));
+      }
+
+      const activities = await campaignDoc.ref.collection('activities').get();
+      await createActivityTasks(client, directory, campaignDoc.id, wrikeProject.id, activities);
+
+      summary.pushedCampaigns++;
+      console.log(`Synced campaign ${campaignDoc.id} to Wrike project ${wrikeProject.id}`);
+    } catch (error) {
+      summary.errors++;
+      console.error(`Error syncing campaign ${campaignDoc.id}:`, error);
+    }
+  }
+
+  // Oldest first; each pull moves lastWrikeSync, so every linked campaign
+  // gets its turn
+  const linked = await db
+    .collection('campaigns')
+    .orderBy('lastWrikeSync')
+    .limit(MAX_PULLS_PER_RUN)
+    .get();
+
+  for (const campaignDoc of linked.docs) {
+    const wrikeId = asString(campaignDoc.data()['wrikeId']);
+    if (!wrikeId) continue;
+
+    try {
+      const folder = await getFolderOrNull(client, wrikeId);
+      if (!folder) {
+        console.warn(`Wrike project ${wrikeId} for campaign ${campaignDoc.id} no longer exists`);
+        await campaignDoc.ref.update({
+          lastWrikeSync: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        continue;
+      }
+
+      const targets = [campaignSyncTarget(client, directory, campaignDoc, folder)];
+      const [tasks, activities] = await Promise.all([
+        client.getFolderTasks(wrikeId),
+        campaignDoc.ref.collection('activities').get(),
+      ]);
+      // Activities added since the campaign was pushed get their task now
+      await createActivityTasks(client, directory, campaignDoc.id, wrikeId, activities);
+
+      const tasksById = new Map(tasks.map(task => [task.id, task]));
+      for (const activityDoc of activities.docs) {
+        const task = tasksById.get(String(activityDoc.data()['wrikeTaskId'] ?? ''));
+        if (task) {
+          targets.push(activitySyncTarget(client, directory, campaignDoc.id, activityDoc, task));
+        }
+      }
+
+      for (const target of targets) {
+        const result = await syncTarget(target, policy, directory);
+        summary.pulledChanges += result.pulled;
+        summary.pushedChanges += result.pushed;
+        summary.conflicts += result.conflicts;
+      }
+      summary.pulledCampaigns++;
+    } catch (error) {
+      summary.errors++;
+      console.error(`Error pulling campaign ${campaignDoc.id} from Wrike:`, error);
+    }
+  }
+
+  return summary;
+}
+
+// The activity linked to a Wrike task, if any
+export async function findActivityForTask(
+  taskId: string
+): Promise<admin.firestore.QueryDocumentSnapshot | null> {
+  const activities = await admin
+    .firestore()
+    .collectionGroup('activities')
+    .where('wrikeTaskId', '==', taskId)
+    .limit(1)
+    .get();
+  return activities.docs[0] ?? null;
+}
+
+/**
+ * Reconcile the activity linked to one Wrike task, for webhook events. Tasks
+ * not linked to an activity, or deleted since the event, are skipped.
+ */
+export async function syncWrikeTask(
+  integration: WrikeIntegration,
+  taskId: string
+): Promise<{ matched: boolean; pulled: number; pushed: number; conflicts: number }> {
+  const activityDoc = await findActivityForTask(taskId);
+  const campaignId = activityDoc?.ref.parent.parent?.id;
+  const task = activityDoc && (await getTaskOrNull(integration.client, taskId));
+  if (!activityDoc || !campaignId || !task) {
+    return { matched: false, pulled: 0, pushed: 0, conflicts: 0 };
+  }
+
+  const client = integration.client;
+  const [policy, directory] = await Promise.all([
+    governanceEngine.getWrikeSyncPolicy(),
+    loadContactDirectory(client),
+  ]);
+  const result = await syncTarget(
+    activitySyncTarget(client, directory, campaignId, activityDoc, task),
+    policy,
+    directory
+  );
+  return { matched: true, ...result };
+}
@@ -0,0 +1,142 @@
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { defineSecret } from 'firebase-functions/params';
+import * as admin from 'firebase-admin';
+import { AuditChainReport, ChainedAuditEntry, verifyStoredAuditChain } from '../lib/auditLedger';
+import {
+  buildCheckpointPayload,
+  groupEntriesByDay,
+  signCheckpoint,
+  toCheckpoint,
+  verifyCheckpointSignature,
+} from '../lib/auditCheckpoints';
+
+// HMAC key for checkpoint signatures; rotate by re-signing existing checkpoints
+const auditCheckpointKey = defineSecret('AUDIT_CHECKPOINT_KEY');
+
+// Upper bound per run; a backlog larger than this is picked up by the next run
+const MAX_ENTRIES_PER_RUN = 50000;
+
+/**
+ * Raise an integrity alert: a telemetry event for monitoring and a
+ * notification for every admin.
+ */
+async function raiseAuditChainAlert(
+  reason: string,
+  details: Record<string, unknown>
+): Promise<void> {
+  const db = admin.firestore();
+
+  await db.collection('telemetry').add({
+    event: 'audit_chain_alert',
+    severity: 'critical',
+    reason,
+    ...details,
+    timestamp: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  const admins = await db.collection('users').where('roles.admin', '==', true).get();
+  const batch = db.batch();
+  for (const adminDoc of admins.docs) {
+    batch.set(db.collection('notifications').doc(), {
+      userId: adminDoc.id,
+      type: 'audit_chain_alert',
+      severity: 'critical',
+      title: 'Audit ledger integrity check failed',
+      body: `The audit chain verification reported ${reason}. Review the governance ledger.`,
+      details: { reason, ...details },
+      read: false,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+  await batch.commit();
+}
+
+export const auditChainMonitor = onSchedule(
+  {
+    schedule: '30 0 * * *', // Run daily at 00:30, after the previous UTC day has closed
+    timeZone: 'UTC',
+    memory: '512MiB',
+    secrets: [auditCheckpointKey],
+  },
+  async event => {
+    console.log('Starting auditChainMonitor job:', event.scheduleTime);
+
+    try {
+      const db = admin.firestore();
+      const key = auditCheckpointKey.value();
+      const checkpoints = db.collection('auditCheckpoints');
+
+      // Resume from the latest checkpoint, after checking it was signed by us
+      const latestSnapshot = await checkpoints.orderBy('toSequence', 'desc').limit(1).get();
+      const latestDoc = latestSnapshot.docs[0];
+      const latest = latestDoc ? toCheckpoint(latestDoc.data()) : null;
+
+      if (latestDoc && latest && !verifyCheckpointSignature(latest, key)) {
+        await raiseAuditChainAlert('checkpoint_signature_invalid', { checkpoint: latestDoc.id });
+        console.error(`auditChainMonitor: checkpoint ${latestDoc.id} has an invalid signature`);
+        return;
+      }
+
+      const verifiedEntries: ChainedAuditEntry[] = [];
+      const report: AuditChainReport = await verifyStoredAuditChain({
+        ...(latest ? { start: { sequence: latest.toSequence, hash: latest.headHash } } : {}),
+        maxEntries: MAX_ENTRIES_PER_RUN,
+        onVerified: entries => verifiedEntries.push(...entries),
+      });
+
+      if (!report.valid) {
+        await raiseAuditChainAlert(report.brokenAt.reason, {
+          brokenAt: report.brokenAt,
+          verified: report.verified,
+          fromCheckpoint: latestDoc?.id ?? null,
+        });
+      }
+
+      // Checkpoint each closed day; today's entries wait for tomorrow's run.
+      // Nothing is checkpointed past a broken link.
+      const todayStart = new Date(event.scheduleTime);
+      todayStart.setUTCHours(0, 0, 0, 0);
+      const days = report.valid ? groupEntriesByDay(verifiedEntries, todayStart) : [];
+      // A run that hit its entry limit may have stopped partway through its last day
+      if (report.verified >= MAX_ENTRIES_PER_RUN) days.pop();
+
+      let previousCheckpoint = latestDoc?.id ?? null;
+      const batch = db.batch();
+      for (const day of days) {
+        const payload = buildCheckpointPayload(day.date, day.entries, previousCheckpoint);
+        // A day split across runs gets one checkpoint per run; the doc id keeps both
+        const checkpointId = `${day.date}_${payload.toSequence}`;
+        batch.set(checkpoints.doc(checkpointId), {
+          ...signCheckpoint(payload, key),
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        previousCheckpoint = checkpointId;
+      }
+      await batch.commit();
+
+      await db.collection('telemetry').add({
+        event: 'audit_chain_monitor_completed',
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+        valid: report.valid,
+        verifiedCount: report.verified,
+        checkpointCount: days.length,
+      });
+
+      console.log(
+        `auditChainMonitor job completed: ${report.verified} entries verified, ${days.length} checkpoints, chain ${report.valid ? 'valid' : 'broken'}`
+      );
+    } catch (error) {
+      console.error('Error in auditChainMonitor job:', error);
+
+      await admin
+        .firestore()
+        .collection('telemetry')
+        .add({
+          event: 'job_error',
+          jobName: 'auditChainMonitor',
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: admin.firestore.FieldValue.serverTimestamp(),
+        });
+    }
+  }
+);
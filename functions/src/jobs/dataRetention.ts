@@ -0,0 +1,246 @@
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { defineSecret } from 'firebase-functions/params';
+import * as admin from 'firebase-admin';
+import { AuditChainHead, verifyAuditChain } from '../lib/auditLedger';
+import { merkleRoot, toCheckpoint, verifyCheckpointSignature } from '../lib/auditCheckpoints';
+import {
+  ARCHIVE_HEAD_PATH,
+  archiveId,
+  loadArchiveHead,
+  loadAuditEntries,
+  splitAuditArchive,
+} from '../lib/auditArchive';
+import { LegalHolds, isUnderLegalHold, retentionCutoff } from '../lib/retention';
+import { governanceEngine } from '../lib/governanceEngine';
+
+const auditCheckpointKey = defineSecret('AUDIT_CHECKPOINT_KEY');
+
+// Upper bounds per run; anything left over is picked up by the next run
+const MAX_CHECKPOINTS_PER_RUN = 30;
+const MAX_DELETES_PER_COLLECTION = 5000;
+// Stays under the 500-write batch limit
+const BATCH_SIZE = 400;
+
+async function loadLegalHolds(): Promise<LegalHolds> {
+  const db = admin.firestore();
+  const [campaigns, users] = await Promise.all([
+    db.collection('campaigns').where('legalHold.active', '==', true).select().get(),
+    db.collection('users').where('legalHold.active', '==', true).select().get(),
+  ]);
+  return {
+    campaigns: new Set(campaigns.docs.map(doc => doc.id)),
+    users: new Set(users.docs.map(doc => doc.id)),
+  };
+}
+
+/**
+ * Copy checkpointed days older than `cutoff` into gzipped auditArchives docs
+ * and move the archive head past them. Days are archived in chain order and
+ * only after their entries match their signed checkpoint, so the archives and
+ * the live entries after them form one unbroken chain. The live copies are
+ * deleted afterwards, once the archive is stored.
+ */
+async function archiveAuditEntries(
+  cutoff: Date,
+  key: string
+): Promise<{ archivedCount: number; head: AuditChainHead }> {
+  const db = admin.firestore();
+  const cutoffDate = cutoff.toISOString().slice(0, 10);
+  let head: AuditChainHead = await loadArchiveHead();
+  let archivedCount = 0;
+
+  const checkpoints = await db
+    .collection('auditCheckpoints')
+    .where('toSequence', '>', head.sequence)
+    .orderBy('toSequence')
+    .limit(MAX_CHECKPOINTS_PER_RUN)
+    .get();
+
+  for (const checkpointDoc of checkpoints.docs) {
+    const checkpoint = toCheckpoint(checkpointDoc.data());
+    if (checkpoint.date >= cutoffDate) break;
+
+    if (!verifyCheckpointSignature(checkpoint, key)) {
+      throw new Error(`Checkpoint ${checkpointDoc.id} has an invalid signature`);
+    }
+    if (checkpoint.fromSequence !== head.sequence + 1) {
+      throw new Error(`Checkpoint ${checkpointDoc.id} does not follow the archive head`);
+    }
+
+    const entries = await loadAuditEntries(checkpoint.fromSequence, checkpoint.toSequence);
+    const report = verifyAuditChain(entries, head);
+    if (
+      !report.valid ||
+      report.head.sequence !== checkpoint.toSequence ||
+      report.head.hash !== checkpoint.headHash ||
+      merkleRoot(entries.map(entry => entry.hash)) !== checkpoint.rootHash
+    ) {
+      throw new Error(`Entries do not match checkpoint ${checkpointDoc.id}; run verifyAuditLedger`);
+    }
+
+    const batch = db.batch();
+    for (const archive of splitAuditArchive(entries, checkpointDoc.id)) {
+      batch.set(db.collection('auditArchives').doc(archiveId(archive)), {
+        ...archive,
+        archivedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+    batch.set(db.doc(ARCHIVE_HEAD_PATH), {
+      ...report.head,
+      checkpointId: checkpointDoc.id,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    await batch.commit();
+
+    head = report.head;
+    archivedCount += entries.length;
+  }
+
+  return { archivedCount, head };
+}
+
+/**
+ * Delete the records a query matches, a page at a time, keeping those under
+ * legal hold. The query must be ordered so pages can resume after a kept doc.
+ */
+async function deleteAgedRecords(
+  query: admin.firestore.Query,
+  holds: LegalHolds
+): Promise<{ deletedCount: number; heldCount: number }> {
+  const db = admin.firestore();
+  let deletedCount = 0;
+  let heldCount = 0;
+  let last: admin.firestore.QueryDocumentSnapshot | undefined;
+
+  while (deletedCount < MAX_DELETES_PER_COLLECTION) {
+    const page = await (last ? query.startAfter(last) : query).limit(BATCH_SIZE).get();
+    if (page.empty) break;
+
+    const batch = db.batch();
+    for (const doc of page.docs) {
+      if (isUnderLegalHold(doc.data(), holds)) {
+        heldCount++;
+      } else {
+        batch.delete(doc.ref);
+        deletedCount++;
+      }
+    }
+    await batch.commit();
+
+    if (page.docs.length < BATCH_SIZE) break;
+    last = page.docs[page.docs.length - 1];
+  }
+
+  return { deletedCount, heldCount };
+}
+
+export const dataRetention = onSchedule(
+  {
+    schedule: '0 2 * * *', // Run daily at 02:00, after auditChainMonitor has checkpointed
+    timeZone: 'UTC',
+    memory: '1GiB',
+    secrets: [auditCheckpointKey],
+  },
+  async event => {
+    console.log('Starting dataRetention job:', event.scheduleTime);
+
+    try {
+      const db = admin.firestore();
+      const now = new Date(event.scheduleTime);
+      const { days } = await governanceEngine.getRetentionPolicy();
+      const holds = await loadLegalHolds();
+
+      let archivedCount = 0;
+      const deletions: Record<string, { deletedCount: number; heldCount: number }> = {};
+      if (days.governance !== null) {
+        const archived = await archiveAuditEntries(
+          retentionCutoff(now, days.governance),
+          auditCheckpointKey.value()
+        );
+        archivedCount = archived.archivedCount;
+        // Live copies of archived entries, including those kept for a hold
+        // that has since been released
+        deletions['governance'] = await deleteAgedRecords(
+          db
+            .collection('governance')
+            .where('sequence', '<=', archived.head.sequence)
+            .orderBy('sequence'),
+          holds
+        );
+      }
+      if (days.telemetry !== null) {
+        deletions['telemetry'] = await deleteAgedRecords(
+          db
+            .collection('telemetry')
+            .where('timestamp', '<', retentionCutoff(now, days.telemetry))
+            .orderBy('timestamp'),
+          holds
+        );
+      }
+      if (days.notifications !== null) {
+        deletions['notifications'] = await deleteAgedRecords(
+          db
+            .collection('notifications')
+            .where('createdAt', '<', retentionCutoff(now, days.notifications))
+            .orderBy('createdAt'),
+          holds
+        );
+      }
+      if (days.ingestionQueue !== null) {
+        const cutoff = retentionCutoff(now, days.ingestionQueue);
+        // Tasks that ran out of retries have failedAt and no completedAt
+        const completed = await deleteAgedRecords(
+          db
+            .collection('ingestionQueue')
+            .where('status', '==', 'completed')
+            .where('completedAt', '<', cutoff)
+            .orderBy('completedAt'),
+          holds
+        );
+        const failed = await deleteAgedRecords(
+          db
+            .collection('ingestionQueue')
+            .where('status', '==', 'failed')
+            .where('failedAt', '<', cutoff)
+            .orderBy('failedAt'),
+          holds
+        );
+        deletions['ingestionQueue'] = {
+          deletedCount: completed.deletedCount + failed.deletedCount,
+          heldCount: completed.heldCount + failed.heldCount,
+        };
+      }
+
+      await db.collection('telemetry').add({
+        event: 'data_retention_completed',
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+        archivedCount,
+        heldCount: Object.values(deletions).reduce((sum, result) => sum + result.heldCount, 0),
+        deletedCounts: Object.fromEntries(
+          Object.entries(deletions).map(([collection, result]) => [collection, result.deletedCount])
+        ),
+        legalHolds: holds.campaigns.size + holds.users.size,
+      });
+
+      console.log(
+        `dataRetention job completed: ${archivedCount} audit entries archived, ${Object.entries(
+          deletions
+        )
+          .map(([collection, result]) => `${result.deletedCount} ${collection}`)
+          .join(', ')} deleted`
+      );
+    } catch (error) {
+      console.error('Error in dataRetention job:', error);
+
+      await admin
+        .firestore()
+        .collection('telemetry')
+        .add({
+          event: 'job_error',
+          jobName: 'dataRetention',
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: admin.firestore.FieldValue.serverTimestamp(),
+        });
+    }
+  }
+);
@@ -1,5 +1,8 @@
 import { onSchedule } from 'firebase-functions/v2/scheduler';
 import * as admin from 'firebase-admin';
+import { appendAuditEntry } from '../lib/auditLedger';
+import { auditHash } from '../lib/auditHash';
+import { toDate } from '../lib/dateSafe';
 
 export const governanceBackfill = onSchedule(
   {
@@ -58,8 +61,16 @@ export const governanceBackfill = onSchedule(
         try {
           const governanceData = governanceDoc.data();
           
-          // Generate audit hash
-          const hash = generateAuditHash(governanceData);
+          // Legacy records predate the chained ledger; hash them with the same
+          // SHA-256 scheme, using their stored timestamp
+          const timestamp = toDate(governanceData['timestamp']);
+          const hash = auditHash({
+            action: String(governanceData['action'] ?? ''),
+            resourceId: String(governanceData['resourceId'] ?? ''),
+            userId: String(governanceData['userId'] ?? ''),
+            timestamp: timestamp ? timestamp.toISOString() : '',
+            metadata: (governanceData['metadata'] ?? {}) as Record<string, unknown>,
+          });
           
           // Update record with hash
           await governanceDoc.ref.update({
@@ -100,16 +111,12 @@ export const governanceBackfill = onSchedule(
 );
 
 async function createAuditTrail(campaignId: string, campaignData: Record<string, unknown>): Promise<void> {
-  const db = admin.firestore();
-  const timestamp = admin.firestore.FieldValue.serverTimestamp();
-  
   // Create audit entries for campaign lifecycle
   const auditEntries = [
     {
       action: 'campaign_created',
       resourceId: campaignId,
       userId: campaignData.createdBy || 'system',
-      timestamp,
       metadata: {
         title: campaignData.title,
         status: campaignData.status,
@@ -123,7 +130,6 @@ async function createAuditTrail(campaignId: string, campaignData: Record<string,
       action: 'campaign_status_changed',
       resourceId: campaignId,
       userId: campaignData.updatedBy || 'system',
-      timestamp,
       metadata: {
         previousStatus: 'draft',
         newStatus: campaignData.status,
@@ -137,39 +143,19 @@ async function createAuditTrail(campaignId: string, campaignData: Record<string,
       action: 'campaign_assigned',
       resourceId: campaignId,
       userId: campaignData.assignedBy || 'system',
-      timestamp,
       metadata: {
         assignedTo: campaignData.assignedTo,
       },
     });
   }
 
-  // Store audit entries
+  // Append audit entries to the ledger
   for (const entry of auditEntries) {
-    const hash = generateAuditHash(entry);
-    await db.collection('governance').add({
-      ...entry,
-      hash,
+    await appendAuditEntry({
+      action: entry.action,
+      resourceId: entry.resourceId,
+      userId: String(entry.userId),
+      metadata: entry.metadata,
     });
   }
 }
-
-function generateAuditHash(data: Record<string, unknown>): string {
-  // Simple hash generation (in real implementation, use crypto)
-  const hashInput = JSON.stringify({
-    action: data.action,
-    resourceId: data.resourceId,
-    userId: data.userId,
-    timestamp: data.timestamp,
-  });
-  
-  // This is a simplified hash - in production, use proper crypto hashing
-  let hash = 0;
-  for (let i = 0; i < hashInput.length; i++) {
-    const char = hashInput.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-  
-  return Math.abs(hash).toString(16);
-}
@@ -1,9 +1,18 @@
 import { onSchedule } from 'firebase-functions/v2/scheduler';
 import * as admin from 'firebase-admin';
+import { createWrikeIntegration } from '../integrations/wrike';
+import { findActivityForTask, syncWrikeTask } from '../integrations/wrikeSync';
+import { WrikeWebhookEvent } from '../lib/wrikeWebhooks';
+
+// A failed task is retried after 1, 2, 4, 8 and 16 minutes, then left failed.
+// The receiver drops Wrike's redeliveries of a queued event, so for a wrike_sync
+// task (a 429, a token refresh race) this is the only second chance it gets.
+const MAX_INGESTION_ATTEMPTS = 6;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
 
 export const ingestionWorker = onSchedule(
   {
-    schedule: '*/15 * * * *', // Run every 15 minutes
+    schedule: '* * * * *', // Run every minute; Wrike webhook events wait here
     timeZone: 'UTC',
     memory: '256MiB',
   },
@@ -17,7 +26,7 @@ export const ingestionWorker = onSchedule(
       const pendingTasks = await db
         .collection('ingestionQueue')
         .where('status', '==', 'pending')
-        .where('scheduledFor', '<=', admin.firestore.FieldValue.serverTimestamp())
+        .where('scheduledFor', '<=', admin.firestore.Timestamp.now())
         .limit(10)
         .get();
 
@@ -50,45 +59,36 @@ export const ingestionWorker = onSchedule(
         } catch (error) {
           console.error(`Error processing ingestion task ${taskDoc.id}:`, error);
           
-          // Mark task as failed
+          // Reschedule the task with backoff, or mark it failed once it is out of attempts
+          const retryCount = Number(taskDoc.data()['retryCount'] ?? 0) + 1;
+          const retry = retryCount < MAX_INGESTION_ATTEMPTS;
           await taskDoc.ref.update({
-            status: 'failed',
+            status: retry ? 'pending' : 'failed',
+            ...(retry
+              ? {
+                  scheduledFor: admin.firestore.Timestamp.fromMillis(
+                    Date.now() + RETRY_BASE_DELAY_MS * 2 ** (retryCount - 1)
+                  ),
+                }
+              : {}),
             failedAt: admin.firestore.FieldValue.serverTimestamp(),
             error: error.message,
-            retryCount: admin.firestore.FieldValue.increment(1),
+            retryCount,
           });
           
           errorCount++;
         }
       }
 
-      // Clean up old completed tasks (older than 7 days)
-      const sevenDaysAgo = new Date();
-      sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-      
-      const oldTasks = await db
-        .collection('ingestionQueue')
-        .where('status', 'in', ['completed', 'failed'])
-        .where('completedAt', '<', sevenDaysAgo)
-        .limit(50)
-        .get();
-
-      console.log(`Found ${oldTasks.docs.length} old tasks to clean up`);
-
-      for (const taskDoc of oldTasks.docs) {
-        await taskDoc.ref.delete();
-      }
-
       // Log job completion
       await db.collection('telemetry').add({
         event: 'ingestion_worker_completed',
         timestamp: admin.firestore.FieldValue.serverTimestamp(),
         processedCount,
         errorCount,
-        cleanedUpCount: oldTasks.docs.length,
       });
 
-      console.log(`ingestionWorker job completed: ${processedCount} processed, ${errorCount} errors, ${oldTasks.docs.length} cleaned up`);
+      console.log(`ingestionWorker job completed: ${processedCount} processed, ${errorCount} errors`);
     } catch (error) {
       console.error('Error in ingestionWorker job:', error);
       
@@ -124,17 +124,37 @@ async function processIngestionTask(taskData: Record<string, unknown>): Promise<
   }
 }
 
+// Queued by the wrikeWebhook receiver, one task per Wrike event
 async function processWrikeSync(data: Record<string, unknown>): Promise<Record<string, unknown>> {
-  // TODO: Implement Wrike API sync
-  console.log('Processing Wrike sync:', data);
-  
-  // Mock implementation
-  return {
-    type: 'wrike_sync',
-    recordsProcessed: 5,
-    recordsUpdated: 3,
-    recordsCreated: 2,
-  };
+  const event = data as WrikeWebhookEvent;
+
+  // Comments are logged against the linked activity; nothing in Vizzy syncs them
+  if (event.eventType === 'CommentAdded') {
+    const activityDoc = await findActivityForTask(event.taskId);
+    await admin.firestore().collection('wrike').add({
+      type: 'comment_added',
+      taskId: event.taskId,
+      commentId: event.commentId ?? null,
+      eventAuthorId: event.eventAuthorId ?? null,
+      campaignId: activityDoc?.ref.parent.parent?.id ?? null,
+      activityId: activityDoc?.id ?? null,
+      receivedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return {
+      type: 'wrike_sync',
+      eventType: event.eventType,
+      taskId: event.taskId,
+      matched: Boolean(activityDoc),
+    };
+  }
+
+  const wrikeIntegration = await createWrikeIntegration();
+  if (!wrikeIntegration) {
+    throw new Error('Wrike is not configured; set WRIKE_API_TOKEN and WRIKE_PROJECT_ID');
+  }
+
+  const result = await syncWrikeTask(wrikeIntegration, event.taskId);
+  return { type: 'wrike_sync', eventType: event.eventType, taskId: event.taskId, ...result };
 }
 
 async function processUserImport(data: Record<string, unknown>): Promise<Record<string, unknown>> {
@@ -0,0 +1,142 @@
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import * as admin from 'firebase-admin';
+import { governanceEngine } from '../lib/governanceEngine';
+import { getReviewStages } from '../lib/approvalChains';
+import { ReviewSla, escalateOverdueReview } from '../lib/reviewSla';
+import { openAuditLedger } from '../lib/auditLedger';
+
+export const reviewSlaMonitor = onSchedule(
+  {
+    schedule: '*/15 * * * *', // Run every 15 minutes
+    timeZone: 'UTC',
+    memory: '256MiB',
+  },
+  async event => {
+    console.log('Starting reviewSlaMonitor job:', event.scheduleTime);
+
+    try {
+      const db = admin.firestore();
+      const now = new Date();
+      const policy = await governanceEngine.getReviewSlaPolicy();
+
+      // Pending reviews whose stage is past due or due another escalation check
+      const overdueSnapshot = await db
+        .collection('governance')
+        .where('status', '==', 'pending')
+        .where('sla.nextCheckAt', '<=', now.toISOString())
+        .limit(100)
+        .get();
+
+      console.log(`Found ${overdueSnapshot.docs.length} reviews past their SLA`);
+
+      let breachedCount = 0;
+      let escalatedCount = 0;
+      let errorCount = 0;
+
+      for (const reviewDoc of overdueSnapshot.docs) {
+        try {
+          // Re-read in a transaction: the stage may have been decided or
+          // reassigned since the query ran
+          const escalation = await db.runTransaction(async transaction => {
+            const fresh = await transaction.get(reviewDoc.ref);
+            const reviewData = fresh.data();
+            if (!reviewData || reviewData['status'] !== 'pending') return null;
+
+            const sla = reviewData['sla'] as ReviewSla | undefined;
+            if (!sla?.nextCheckAt || new Date(sla.nextCheckAt) > now) return null;
+
+            const stages = getReviewStages(reviewData);
+            const currentStage = (reviewData['currentStage'] as number | undefined) ?? 0;
+            const stage = stages[currentStage];
+            if (!stage || stage.status !== 'pending') return null;
+
+            const result = escalateOverdueReview(sla, stage, policy, now);
+            const ledger = result.escalated ? await openAuditLedger(transaction) : null;
+
+            transaction.update(reviewDoc.ref, {
+              sla: result.sla,
+              stages: stages.map((candidate, index) =>
+                index === currentStage ? result.stage : candidate
+              ),
+            });
+
+            // Escalations are audited against the campaign, like other review decisions
+            ledger?.append({
+              action: 'review_escalated',
+              resourceId: (reviewData['campaignId'] as string | undefined) ?? reviewDoc.id,
+              userId: 'system',
+              metadata: {
+                reviewId: reviewDoc.id,
+                stageId: stage.id,
+                escalationLevel: result.sla.escalationLevel,
+                addedRoles: policy.escalateTo.approverRoles,
+                addedUids: policy.escalateTo.approverUids ?? [],
+              },
+            });
+
+            return { sla, stage, result, campaignId: reviewData['campaignId'] ?? null };
+          });
+          if (!escalation) continue;
+
+          const { sla, stage, result } = escalation;
+          const telemetryBase = {
+            reviewId: reviewDoc.id,
+            campaignId: escalation.campaignId,
+            priority: sla.priority,
+            stageId: stage.id,
+            dueAt: sla.dueAt,
+            timestamp: admin.firestore.FieldValue.serverTimestamp(),
+          };
+
+          if (result.newlyBreached) {
+            breachedCount++;
+            await db.collection('telemetry').add({
+              event: 'review_sla_breached',
+              ...telemetryBase,
+              overdueMinutes: Math.round(
+                (now.getTime() - new Date(sla.dueAt).getTime()) / (1000 * 60)
+              ),
+            });
+          }
+
+          if (result.escalated) {
+            escalatedCount++;
+            await db.collection('telemetry').add({
+              event: 'review_escalated',
+              ...telemetryBase,
+              escalationLevel: result.sla.escalationLevel,
+            });
+          }
+        } catch (error) {
+          console.error(`Error escalating review ${reviewDoc.id}:`, error);
+          errorCount++;
+        }
+      }
+
+      await db.collection('telemetry').add({
+        event: 'review_sla_monitor_completed',
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+        checkedCount: overdueSnapshot.docs.length,
+        breachedCount,
+        escalatedCount,
+        errorCount,
+      });
+
+      console.log(
+        `reviewSlaMonitor job completed: ${breachedCount} breached, ${escalatedCount} escalated, ${errorCount} errors`
+      );
+    } catch (error) {
+      console.error('Error in reviewSlaMonitor job:', error);
+
+      await admin
+        .firestore()
+        .collection('telemetry')
+        .add({
+          event: 'job_error',
+          jobName: 'reviewSlaMonitor',
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: admin.firestore.FieldValue.serverTimestamp(),
+        });
+    }
+  }
+);
@@ -0,0 +1,55 @@
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import * as admin from 'firebase-admin';
+import { createWrikeIntegration } from '../integrations/wrike';
+import { runWrikeSync } from '../integrations/wrikeSync';
+
+export const wrikeSync = onSchedule(
+  {
+    schedule: '*/15 * * * *', // Run every 15 minutes
+    timeZone: 'UTC',
+    memory: '512MiB',
+  },
+  async event => {
+    console.log('Starting wrikeSync job:', event.scheduleTime);
+
+    try {
+      const wrikeIntegration = await createWrikeIntegration();
+      if (!wrikeIntegration) {
+        throw new Error('Wrike is not configured; set WRIKE_API_TOKEN and WRIKE_PROJECT_ID');
+      }
+
+      if (!(await wrikeIntegration.testConnection())) {
+        throw new Error('Wrike connection failed');
+      }
+
+      const summary = await runWrikeSync(wrikeIntegration);
+
+      await admin
+        .firestore()
+        .collection('telemetry')
+        .add({
+          event: 'wrike_sync_completed',
+          timestamp: admin.firestore.FieldValue.serverTimestamp(),
+          ...summary,
+        });
+
+      console.log(
+        `wrikeSync job completed: ${summary.pushedCampaigns} campaigns pushed, ` +
+          `${summary.pulledCampaigns} pulled, ${summary.pulledChanges} changes from Wrike, ` +
+          `${summary.conflicts} conflicts`
+      );
+    } catch (error) {
+      console.error('Error in wrikeSync job:', error);
+
+      await admin
+        .firestore()
+        .collection('telemetry')
+        .add({
+          event: 'job_error',
+          jobName: 'wrikeSync',
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: admin.firestore.FieldValue.serverTimestamp(),
+        });
+    }
+  }
+);
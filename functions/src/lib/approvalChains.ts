@@ -0,0 +1,185 @@
+import { z } from 'zod';
+import type { DutyException } from './separationOfDuties';
+
+export type StageStatus = 'waiting' | 'pending' | 'approved' | 'rejected' | 'changes_requested';
+export type StageDecision = 'approve' | 'reject' | 'request_changes';
+
+export interface ApprovalStage {
+  id: string;
+  name: string;
+  // Approver pool: anyone holding one of these roles, or listed explicitly
+  approverRoles: string[];
+  approverUids?: string[];
+}
+
+export interface ApprovalChain {
+  id: string;
+  name: string;
+  // Every criterion that is set must match; the first matching chain wins
+  match: {
+    reviewTypes?: string[];
+    minBudget?: number;
+    channels?: string[];
+  };
+  stages: ApprovalStage[];
+}
+
+// Stage as tracked on a review record
+export interface ReviewStage extends ApprovalStage {
+  status: StageStatus;
+  // Named reviewer the stage was delegated to
+  assignee?: string;
+  decidedBy?: string;
+  decidedAt?: string;
+  reason?: string;
+  // Set when a conflicted approver used a separation-of-duties exception
+  dutyException?: DutyException;
+}
+
+export interface ChainSelectionInput {
+  reviewType: string;
+  budget?: number;
+  channel?: string;
+}
+
+export interface StageDecisionResult {
+  stages: ReviewStage[];
+  currentStage: number;
+  outcome: 'advanced' | 'approved' | 'rejected' | 'changes_requested';
+}
+
+const ApprovalStageSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  approverRoles: z.array(z.string()).default([]),
+  approverUids: z.array(z.string()).optional(),
+});
+
+export const ApprovalChainSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  match: z
+    .object({
+      reviewTypes: z.array(z.string()).optional(),
+      minBudget: z.number().nonnegative().optional(),
+      channels: z.array(z.string()).optional(),
+    })
+    .default({}),
+  stages: z.array(ApprovalStageSchema).min(1),
+});
+
+// Used when no configured chain matches: the original one-step review
+export const DEFAULT_APPROVAL_CHAIN: ApprovalChain = {
+  id: 'chain.default',
+  name: 'Single review',
+  match: {},
+  stages: [{ id: 'review', name: 'Review', approverRoles: ['reviewer', 'admin'] }],
+};
+
+export function selectApprovalChain(
+  chains: ApprovalChain[],
+  input: ChainSelectionInput
+): ApprovalChain {
+  const matches = (chain: ApprovalChain): boolean => {
+    const { reviewTypes, minBudget, channels } = chain.match;
+    if (reviewTypes && !reviewTypes.includes(input.reviewType)) return false;
+    if (minBudget !== undefined && (input.budget ?? 0) < minBudget) return false;
+    if (channels && (!input.channel || !channels.includes(input.channel))) return false;
+    return true;
+  };
+
+  return chains.find(matches) ?? DEFAULT_APPROVAL_CHAIN;
+}
+
+/**
+ * Stages for a new review: the first is pending, the rest wait their turn
+ */
+export function createReviewStages(chain: ApprovalChain): ReviewStage[] {
+  return chain.stages.map((stage, index) => ({
+    ...stage,
+    status: index === 0 ? 'pending' : 'waiting',
+  }));
+}
+
+/**
+ * Stages of a stored review. Reviews created before approval chains have no
+ * stages and are treated as a pending single-step default review.
+ */
+export function getReviewStages(reviewData: Record<string, unknown>): ReviewStage[] {
+  const stages = reviewData['stages'];
+  if (Array.isArray(stages) && stages.length > 0) {
+    return stages as ReviewStage[];
+  }
+  return createReviewStages(DEFAULT_APPROVAL_CHAIN);
+}
+
+export function isStageApprover(
+  stage: ApprovalStage,
+  uid: string,
+  roles: Record<string, boolean>
+): boolean {
+  return (stage.approverUids ?? []).includes(uid) || stage.approverRoles.some(role => roles[role]);
+}
+
+/**
+ * Record a decision on the current stage. Approving the last stage approves
+ * the review; rejecting or requesting changes at any stage ends this round and
+ * leaves later stages waiting.
+ */
+export function applyStageDecision(
+  stages: ReviewStage[],
+  currentStage: number,
+  decision: StageDecision,
+  uid: string,
+  reason: string,
+  now: Date = new Date()
+): StageDecisionResult {
+  const stage = stages[currentStage];
+  if (!stage || stage.status !== 'pending') {
+    throw new Error(`Stage ${currentStage} is not awaiting a decision`);
+  }
+
+  const statusByDecision: Record<StageDecision, StageStatus> = {
+    approve: 'approved',
+    reject: 'rejected',
+    request_changes: 'changes_requested',
+  };
+  const decided: ReviewStage = {
+    ...stage,
+    status: statusByDecision[decision],
+    decidedBy: uid,
+    decidedAt: now.toISOString(),
+    reason,
+  };
+  const updated = stages.map((candidate, index) => (index === currentStage ? decided : candidate));
+
+  if (decision === 'reject') {
+    return { stages: updated, currentStage, outcome: 'rejected' };
+  }
+
+  if (decision === 'request_changes') {
+    return { stages: updated, currentStage, outcome: 'changes_requested' };
+  }
+
+  const next = updated[currentStage + 1];
+  if (!next) {
+    return { stages: updated, currentStage, outcome: 'approved' };
+  }
+
+  updated[currentStage + 1] = { ...next, status: 'pending' };
+  return { stages: updated, currentStage: currentStage + 1, outcome: 'advanced' };
+}
+
+/**
+ * Restart a chain for a resubmission: every stage is decided again, since
+ * earlier approvals covered content that has since changed.
+ */
+export function resetReviewStages(stages: ReviewStage[]): ReviewStage[] {
+  return stages.map((stage, index) => ({
+    id: stage.id,
+    name: stage.name,
+    approverRoles: stage.approverRoles,
+    ...(stage.approverUids ? { approverUids: stage.approverUids } : {}),
+    status: index === 0 ? 'pending' : 'waiting',
+  }));
+}
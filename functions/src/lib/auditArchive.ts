@@ -0,0 +1,213 @@
+import * as zlib from 'zlib';
+import * as admin from 'firebase-admin';
+import {
+  AuditChainHead,
+  AuditChainReport,
+  EMPTY_CHAIN,
+  StoredAuditEntry,
+  toChainedEntry,
+  verifyAuditChain,
+} from './auditLedger';
+
+// Sequence and hash of the last archived entry. Live verification and exports
+// continue from here; everything up to it is read from auditArchives.
+export const ARCHIVE_HEAD_PATH = 'auditChain/archive';
+
+// Firestore caps documents at 1 MiB; leave room for the other fields
+export const MAX_ARCHIVE_BYTES = 900 * 1024;
+
+// A contiguous run of chained audit entries, gzipped as NDJSON. Archives are
+// written per checkpointed day, so each one lies inside a signed checkpoint.
+export interface AuditArchive {
+  checkpointId: string;
+  fromSequence: number;
+  toSequence: number;
+  entryCount: number;
+  // Chain head just before the first entry; the first entry must link to it
+  anchor: AuditChainHead;
+  headHash: string;
+  encoding: 'ndjson+gzip';
+  data: Buffer;
+}
+
+export function archiveId(archive: Pick<AuditArchive, 'fromSequence' | 'toSequence'>): string {
+  // Zero-padded so archive ids sort in chain order
+  return `${String(archive.fromSequence).padStart(12, '0')}_${archive.toSequence}`;
+}
+
+export function packAuditArchive(entries: StoredAuditEntry[], checkpointId: string): AuditArchive {
+  const first = entries[0];
+  const last = entries[entries.length - 1];
+  if (!first || !last) {
+    throw new Error('An audit archive needs at least one entry');
+  }
+
+  const ndjson = entries.map(entry => JSON.stringify(entry)).join('\n') + '\n';
+  return {
+    checkpointId,
+    fromSequence: first.sequence,
+    toSequence: last.sequence,
+    entryCount: entries.length,
+    anchor: { sequence: first.sequence - 1, hash: first.previousHash },
+    headHash: last.hash,
+    encoding: 'ndjson+gzip',
+    data: zlib.gzipSync(Buffer.from(ndjson, 'utf8')),
+  };
+}
+
+/**
+ * Pack entries into as few archives as fit under `maxBytes` each, halving a
+ * run until its compressed form fits.
+ */
+export function splitAuditArchive(
+  entries: StoredAuditEntry[],
+  checkpointId: string,
+  maxBytes: number = MAX_ARCHIVE_BYTES
+): AuditArchive[] {
+  const archive = packAuditArchive(entries, checkpointId);
+  if (archive.data.length <= maxBytes) return [archive];
+  if (entries.length === 1) {
+    throw new Error(`Audit entry ${archive.fromSequence} is too large to archive`);
+  }
+
+  const middle = Math.ceil(entries.length / 2);
+  return [
+    ...splitAuditArchive(entries.slice(0, middle), checkpointId, maxBytes),
+    ...splitAuditArchive(entries.slice(middle), checkpointId, maxBytes),
+  ];
+}
+
+export function unpackAuditArchive(archive: Pick<AuditArchive, 'data'>): StoredAuditEntry[] {
+  return zlib
+    .gunzipSync(archive.data)
+    .toString('utf8')
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line) as StoredAuditEntry);
+}
+
+export function toAuditArchive(data: Record<string, unknown>): AuditArchive {
+  const anchor = (data['anchor'] ?? {}) as Record<string, unknown>;
+  return {
+    checkpointId: String(data['checkpointId'] ?? ''),
+    fromSequence: Number(data['fromSequence']),
+    toSequence: Number(data['toSequence']),
+    entryCount: Number(data['entryCount']),
+    anchor: { sequence: Number(anchor['sequence']), hash: String(anchor['hash'] ?? '') },
+    headHash: String(data['headHash'] ?? ''),
+    encoding: 'ndjson+gzip',
+    data: Buffer.from(data['data'] as Uint8Array),
+  };
+}
+
+export async function loadArchiveHead(): Promise<AuditChainHead> {
+  const data = (await admin.firestore().doc(ARCHIVE_HEAD_PATH).get()).data();
+  return data && typeof data['sequence'] === 'number' && typeof data['hash'] === 'string'
+    ? { sequence: data['sequence'], hash: data['hash'] }
+    : EMPTY_CHAIN;
+}
+
+/**
+ * Verify the archived part of the chain from the first entry, an archive at a
+ * time. A valid report's head is where verification of live entries resumes.
+ */
+export async function verifyAuditArchives(
+  options: { maxEntries?: number; pageSize?: number } = {}
+): Promise<AuditChainReport> {
+  const { maxEntries = 10000, pageSize = 20 } = options;
+  const archives = admin.firestore().collection('auditArchives');
+
+  let head = EMPTY_CHAIN;
+  let verified = 0;
+  let cursor: string | null = null;
+
+  while (verified < maxEntries) {
+    let query = archives.orderBy(admin.firestore.FieldPath.documentId()).limit(pageSize);
+    if (cursor) query = query.startAfter(cursor);
+    const snapshot = await query.get();
+    if (snapshot.empty) break;
+
+    for (const doc of snapshot.docs) {
+      const archive = toAuditArchive(doc.data());
+      const report = verifyAuditChain(unpackAuditArchive(archive), head);
+      if (!report.valid) {
+        return { ...report, verified: verified + report.verified };
+      }
+      if (report.head.sequence !== archive.toSequence || report.head.hash !== archive.headHash) {
+        return {
+          valid: false,
+          verified: verified + report.verified,
+          brokenAt: { id: doc.id, sequence: archive.fromSequence, reason: 'head_mismatch' },
+        };
+      }
+
+      verified += report.verified;
+      head = report.head;
+    }
+    cursor = snapshot.docs[snapshot.docs.length - 1]?.id ?? null;
+  }
+
+  // Stopped early at maxEntries; the archive head check needs the whole run
+  if (verified >= maxEntries) return { valid: true, verified, head };
+
+  const stored = await loadArchiveHead();
+  if (stored.sequence !== head.sequence || stored.hash !== head.hash) {
+    return {
+      valid: false,
+      verified,
+      brokenAt: {
+        sequence: head.sequence + 1,
+        reason: stored.sequence > head.sequence ? 'missing_entries' : 'head_mismatch',
+      },
+    };
+  }
+
+  return { valid: true, verified, head };
+}
+
+/**
+ * Chained entries in a sequence range, in order, read from archives up to the
+ * archive head and from the governance collection after it.
+ */
+export async function loadAuditEntries(
+  fromSequence: number,
+  toSequence: number,
+  pageSize = 500
+): Promise<StoredAuditEntry[]> {
+  const db = admin.firestore();
+  const archiveHead = await loadArchiveHead();
+  const entries: StoredAuditEntry[] = [];
+
+  if (fromSequence <= archiveHead.sequence) {
+    const snapshot = await db
+      .collection('auditArchives')
+      .where('toSequence', '>=', fromSequence)
+      .orderBy('toSequence')
+      .get();
+    for (const doc of snapshot.docs) {
+      const archive = toAuditArchive(doc.data());
+      if (archive.fromSequence > toSequence) break;
+      entries.push(
+        ...unpackAuditArchive(archive).filter(
+          entry => entry.sequence >= fromSequence && entry.sequence <= toSequence
+        )
+      );
+    }
+  }
+
+  let after = Math.max(fromSequence - 1, archiveHead.sequence);
+  while (after < toSequence) {
+    const snapshot = await db
+      .collection('governance')
+      .where('sequence', '>', after)
+      .where('sequence', '<=', toSequence)
+      .orderBy('sequence')
+      .limit(pageSize)
+      .get();
+    if (snapshot.empty) break;
+    entries.push(...snapshot.docs.map(toChainedEntry));
+    after = entries[entries.length - 1]?.sequence ?? toSequence;
+  }
+
+  return entries;
+}
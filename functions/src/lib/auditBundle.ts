@@ -0,0 +1,115 @@
+import * as crypto from 'crypto';
+import type { AuditChainHead, StoredAuditEntry } from './auditLedger';
+import type { AuditCheckpoint } from './auditCheckpoints';
+
+// Self-contained export of a date range of the audit ledger for external
+// auditors. scripts/verify-audit-bundle.mjs checks a bundle offline.
+export const AUDIT_BUNDLE_VERSION = 1;
+
+export const AUDIT_BUNDLE_FILES = {
+  entries: 'entries.ndjson',
+  checkpoints: 'checkpoints.ndjson',
+  manifest: 'manifest.json',
+  signature: 'manifest.sig',
+} as const;
+
+export interface AuditBundleFile {
+  name: string;
+  sha256: string;
+  bytes: number;
+}
+
+export interface AuditBundleManifest {
+  version: number;
+  bundleId: string;
+  generatedAt: string;
+  generatedBy: string;
+  range: { from: string; to: string }; // YYYY-MM-DD (UTC), inclusive
+  // Chain head just before the first entry; the first entry must link to it
+  anchor: AuditChainHead;
+  fromSequence: number;
+  toSequence: number;
+  entryCount: number;
+  checkpointCount: number;
+  files: AuditBundleFile[];
+}
+
+export interface AuditBundleInput {
+  bundleId: string;
+  generatedAt: string;
+  generatedBy: string;
+  range: { from: string; to: string };
+  anchor: AuditChainHead;
+  entries: StoredAuditEntry[];
+  checkpoints: Array<AuditCheckpoint & { id: string }>;
+}
+
+export interface AuditBundle {
+  manifest: AuditBundleManifest;
+  // File name to content, including manifest.json
+  files: Record<string, string>;
+}
+
+function sha256(content: string): string {
+  return crypto.createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
+function toNdjson(rows: object[]): string {
+  return rows.map(row => JSON.stringify(row)).join('\n') + (rows.length ? '\n' : '');
+}
+
+export function buildAuditBundle(input: AuditBundleInput): AuditBundle {
+  const first = input.entries[0];
+  const last = input.entries[input.entries.length - 1];
+  if (!first || !last) {
+    throw new Error('An audit bundle needs at least one entry');
+  }
+
+  const content: Record<string, string> = {
+    [AUDIT_BUNDLE_FILES.entries]: toNdjson(
+      input.entries.map(entry => ({
+        id: entry.id,
+        sequence: entry.sequence,
+        action: entry.action,
+        resourceId: entry.resourceId,
+        userId: entry.userId,
+        metadata: entry.metadata ?? {},
+        recordedAt: entry.recordedAt,
+        previousHash: entry.previousHash,
+        hash: entry.hash,
+      }))
+    ),
+    [AUDIT_BUNDLE_FILES.checkpoints]: toNdjson(input.checkpoints),
+  };
+
+  const manifest: AuditBundleManifest = {
+    version: AUDIT_BUNDLE_VERSION,
+    bundleId: input.bundleId,
+    generatedAt: input.generatedAt,
+    generatedBy: input.generatedBy,
+    range: input.range,
+    anchor: input.anchor,
+    fromSequence: first.sequence,
+    toSequence: last.sequence,
+    entryCount: input.entries.length,
+    checkpointCount: input.checkpoints.length,
+    files: Object.entries(content).map(([name, body]) => ({
+      name,
+      sha256: sha256(body),
+      bytes: Buffer.byteLength(body, 'utf8'),
+    })),
+  };
+
+  return {
+    manifest,
+    files: { ...content, [AUDIT_BUNDLE_FILES.manifest]: JSON.stringify(manifest, null, 2) + '\n' },
+  };
+}
+
+/**
+ * Ed25519 signature over the exact bytes of manifest.json, base64 encoded.
+ * Auditors verify it with the public key we hand them out of band.
+ */
+export function signAuditManifest(manifestJson: string, privateKeyPem: string): string {
+  return crypto.sign(null, Buffer.from(manifestJson, 'utf8'), privateKeyPem).toString('base64');
+}
@@ -0,0 +1,123 @@
+import * as crypto from 'crypto';
+import { stableStringify } from './auditHash';
+import type { ChainedAuditEntry } from './auditLedger';
+
+// Signed summary of one UTC day of the audit chain. The next verification run
+// starts from the latest checkpoint instead of the first entry.
+export interface AuditCheckpointPayload {
+  date: string; // YYYY-MM-DD (UTC)
+  fromSequence: number;
+  toSequence: number;
+  entryCount: number;
+  // Merkle root over the day's entry hashes, in sequence order
+  rootHash: string;
+  // Hash of the day's last entry; the chain continues from here
+  headHash: string;
+  previousCheckpoint: string | null;
+}
+
+export interface AuditCheckpoint extends AuditCheckpointPayload {
+  signature: string;
+}
+
+export function toCheckpoint(data: Record<string, unknown>): AuditCheckpoint {
+  return {
+    date: String(data['date']),
+    fromSequence: Number(data['fromSequence']),
+    toSequence: Number(data['toSequence']),
+    entryCount: Number(data['entryCount']),
+    rootHash: String(data['rootHash']),
+    headHash: String(data['headHash']),
+    previousCheckpoint: (data['previousCheckpoint'] as string | null | undefined) ?? null,
+    signature: String(data['signature'] ?? ''),
+  };
+}
+
+function sha256(input: string): string {
+  return crypto.createHash('sha256').update(input).digest('hex');
+}
+
+/**
+ * Merkle root of a list of hashes. An odd node at any level is paired with
+ * itself.
+ */
+export function merkleRoot(hashes: string[]): string {
+  if (hashes.length === 0) return sha256('');
+
+  let level = hashes;
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let index = 0; index < level.length; index += 2) {
+      const left = level[index] as string;
+      const right = level[index + 1] ?? left;
+      next.push(sha256(left + right));
+    }
+    level = next;
+  }
+  return level[0] as string;
+}
+
+/**
+ * Split entries (in sequence order) into one contiguous run per UTC day of
+ * `recordedAt`, leaving out entries from `before` onwards. Clock skew between
+ * instances can put an entry slightly earlier than its predecessor, so a day
+ * never goes backwards: such entries join the later day.
+ */
+export function groupEntriesByDay(
+  entries: ChainedAuditEntry[],
+  before: Date
+): Array<{ date: string; entries: ChainedAuditEntry[] }> {
+  const cutoff = before.toISOString().slice(0, 10);
+  const groups: Array<{ date: string; entries: ChainedAuditEntry[] }> = [];
+
+  for (const entry of entries) {
+    const entryDate = entry.recordedAt.slice(0, 10);
+    const current = groups[groups.length - 1];
+    const date = current && current.date > entryDate ? current.date : entryDate;
+    if (date >= cutoff) break;
+
+    if (current && current.date === date) {
+      current.entries.push(entry);
+    } else {
+      groups.push({ date, entries: [entry] });
+    }
+  }
+
+  return groups;
+}
+
+export function buildCheckpointPayload(
+  date: string,
+  entries: ChainedAuditEntry[],
+  previousCheckpoint: string | null
+): AuditCheckpointPayload {
+  const first = entries[0];
+  const last = entries[entries.length - 1];
+  if (!first || !last) {
+    throw new Error(`No audit entries to checkpoint for ${date}`);
+  }
+
+  return {
+    date,
+    fromSequence: first.sequence,
+    toSequence: last.sequence,
+    entryCount: entries.length,
+    rootHash: merkleRoot(entries.map(entry => entry.hash)),
+    headHash: last.hash,
+    previousCheckpoint,
+  };
+}
+
+export function signCheckpoint(payload: AuditCheckpointPayload, key: string): AuditCheckpoint {
+  const signature = crypto.createHmac('sha256', key).update(stableStringify(payload)).digest('hex');
+  return { ...payload, signature };
+}
+
+export function verifyCheckpointSignature(checkpoint: AuditCheckpoint, key: string): boolean {
+  const { signature, ...payload } = checkpoint;
+  const expected = signCheckpoint(payload, key).signature;
+  return (
+    signature.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  );
+}
@@ -6,16 +6,37 @@ export interface AuditData {
   userId: string;
   timestamp: string;
   metadata?: Record<string, unknown>;
+  // Chain position; set on every entry written through the audit ledger
+  sequence?: number;
+  previousHash?: string;
+}
+
+/**
+ * JSON with object keys sorted, so a value read back from Firestore (which
+ * does not keep key order) serializes exactly as it did when it was written.
+ * Keys sort by code point rather than locale, so every runtime agrees.
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
 }
 
 export function auditHash(data: AuditData): string {
   // Create a deterministic hash from audit data
-  const hashInput = JSON.stringify({
+  const hashInput = stableStringify({
     action: data.action,
     resourceId: data.resourceId,
     userId: data.userId,
     timestamp: data.timestamp,
     metadata: data.metadata || {},
+    sequence: data.sequence,
+    previousHash: data.previousHash,
   });
 
   return crypto.createHash('sha256').update(hashInput).digest('hex');
@@ -38,7 +59,7 @@ export function createAuditEntry(
     resourceId,
     userId,
     timestamp,
-    metadata,
+    ...(metadata ? { metadata } : {}),
   });
 
   return { hash, timestamp };
@@ -0,0 +1,249 @@
+import * as admin from 'firebase-admin';
+import { auditHash } from './auditHash';
+
+// The chain's first entry links to this instead of a previous hash
+export const GENESIS_HASH = '0'.repeat(64);
+
+// Sequence and hash of the latest entry; every append reads and moves it, so
+// appends are serialized and the chain cannot fork
+const CHAIN_HEAD_PATH = 'auditChain/head';
+
+export interface AuditRecord {
+  action: string;
+  resourceId: string;
+  userId: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface ChainedAuditEntry extends AuditRecord {
+  sequence: number;
+  previousHash: string;
+  // Hashed with the entry; `timestamp` on the stored doc is a server timestamp
+  // kept for queries and is not part of the hash
+  recordedAt: string;
+  hash: string;
+}
+
+// A chained entry with the id of its governance doc
+export interface StoredAuditEntry extends ChainedAuditEntry {
+  id: string;
+}
+
+export interface AuditChainHead {
+  sequence: number;
+  hash: string;
+}
+
+export type AuditChainBreak =
+  | 'hash_mismatch'
+  | 'previous_hash_mismatch'
+  | 'sequence_gap'
+  // The chain head points past the last stored entry, e.g. entries were deleted
+  | 'missing_entries'
+  // The chain head does not match the last stored entry
+  | 'head_mismatch';
+
+export type AuditChainReport =
+  | { valid: true; verified: number; head: AuditChainHead }
+  | {
+      valid: false;
+      verified: number;
+      // First entry that does not follow from the one before it
+      brokenAt: { id?: string; sequence: number; reason: AuditChainBreak };
+    };
+
+export const EMPTY_CHAIN: AuditChainHead = { sequence: 0, hash: GENESIS_HASH };
+
+/**
+ * Link a record onto the chain after `head`. Pure, so the verifier can apply
+ * the same rules to stored entries.
+ */
+export function linkAuditEntry(
+  head: AuditChainHead,
+  record: AuditRecord,
+  recordedAt: string
+): ChainedAuditEntry {
+  const sequence = head.sequence + 1;
+  const metadata = record.metadata ?? {};
+  return {
+    action: record.action,
+    resourceId: record.resourceId,
+    userId: record.userId,
+    metadata,
+    sequence,
+    previousHash: head.hash,
+    recordedAt,
+    hash: auditHash({
+      action: record.action,
+      resourceId: record.resourceId,
+      userId: record.userId,
+      timestamp: recordedAt,
+      metadata,
+      sequence,
+      previousHash: head.hash,
+    }),
+  };
+}
+
+/**
+ * Walk entries in sequence order from `start` and report the first one whose
+ * hash, link or sequence number does not follow from its predecessor.
+ */
+export function verifyAuditChain(
+  entries: Array<ChainedAuditEntry & { id?: string }>,
+  start: AuditChainHead = EMPTY_CHAIN
+): AuditChainReport {
+  let head = start;
+
+  for (const [index, entry] of entries.entries()) {
+    const brokenAt = (reason: AuditChainBreak): AuditChainReport => ({
+      valid: false,
+      verified: index,
+      brokenAt: { ...(entry.id ? { id: entry.id } : {}), sequence: entry.sequence, reason },
+    });
+
+    if (entry.sequence !== head.sequence + 1) return brokenAt('sequence_gap');
+    if (entry.previousHash !== head.hash) return brokenAt('previous_hash_mismatch');
+
+    const expected = linkAuditEntry(head, entry, entry.recordedAt);
+    if (expected.hash !== entry.hash) return brokenAt('hash_mismatch');
+
+    head = { sequence: entry.sequence, hash: entry.hash };
+  }
+
+  return { valid: true, verified: entries.length, head };
+}
+
+/**
+ * Appends audit entries inside a transaction. Open it before the
+ * transaction's first write, since it reads the chain head.
+ */
+export class AuditLedger {
+  private head: AuditChainHead;
+
+  constructor(
+    private readonly transaction: admin.firestore.Transaction,
+    head: AuditChainHead
+  ) {
+    this.head = head;
+  }
+
+  append(record: AuditRecord): StoredAuditEntry {
+    const db = admin.firestore();
+    const entry = linkAuditEntry(this.head, record, new Date().toISOString());
+    const entryRef = db.collection('governance').doc();
+
+    this.transaction.set(entryRef, {
+      ...entry,
+      timestamp: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    this.head = { sequence: entry.sequence, hash: entry.hash };
+    this.transaction.set(db.doc(CHAIN_HEAD_PATH), {
+      ...this.head,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return { ...entry, id: entryRef.id };
+  }
+}
+
+function toChainHead(headDoc: admin.firestore.DocumentSnapshot): AuditChainHead {
+  const data = headDoc.data();
+  return data && typeof data['sequence'] === 'number' && typeof data['hash'] === 'string'
+    ? { sequence: data['sequence'], hash: data['hash'] }
+    : EMPTY_CHAIN;
+}
+
+export async function openAuditLedger(
+  transaction: admin.firestore.Transaction
+): Promise<AuditLedger> {
+  const headDoc = await transaction.get(admin.firestore().doc(CHAIN_HEAD_PATH));
+  return new AuditLedger(transaction, toChainHead(headDoc));
+}
+
+// For writers without a transaction of their own
+export async function appendAuditEntry(record: AuditRecord): Promise<StoredAuditEntry> {
+  return admin.firestore().runTransaction(async transaction => {
+    const ledger = await openAuditLedger(transaction);
+    return ledger.append(record);
+  });
+}
+
+export function toChainedEntry(doc: admin.firestore.QueryDocumentSnapshot): StoredAuditEntry {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    action: String(data['action'] ?? ''),
+    resourceId: String(data['resourceId'] ?? ''),
+    userId: String(data['userId'] ?? ''),
+    metadata: (data['metadata'] ?? {}) as Record<string, unknown>,
+    sequence: Number(data['sequence']),
+    previousHash: String(data['previousHash'] ?? ''),
+    recordedAt: String(data['recordedAt'] ?? ''),
+    hash: String(data['hash'] ?? ''),
+  };
+}
+
+/**
+ * Verify stored entries after `start`, reading them a page at a time in
+ * sequence order. Stops at the first broken link. When it reaches the end of
+ * the chain, the last entry must also match the stored chain head.
+ */
+export async function verifyStoredAuditChain(
+  options: {
+    start?: AuditChainHead;
+    maxEntries?: number;
+    pageSize?: number;
+    // Called with each page once it has verified, e.g. to build checkpoints
+    onVerified?: (entries: ChainedAuditEntry[]) => void;
+  } = {}
+): Promise<AuditChainReport> {
+  const { start = EMPTY_CHAIN, maxEntries = 10000, pageSize = 500, onVerified } = options;
+  const governance = admin.firestore().collection('governance');
+
+  let head = start;
+  let verified = 0;
+  let recheckedHead = false;
+
+  while (verified < maxEntries) {
+    const snapshot = await governance
+      .where('sequence', '>', head.sequence)
+      .orderBy('sequence')
+      .limit(Math.min(pageSize, maxEntries - verified))
+      .get();
+
+    if (snapshot.empty) {
+      const stored = toChainHead(await admin.firestore().doc(CHAIN_HEAD_PATH).get());
+      if (stored.sequence === head.sequence && stored.hash === head.hash) break;
+
+      // Entries appended while we were reading; look once more before flagging
+      if (stored.sequence > head.sequence && !recheckedHead) {
+        recheckedHead = true;
+        continue;
+      }
+
+      return {
+        valid: false,
+        verified,
+        brokenAt: {
+          sequence: head.sequence + 1,
+          reason: stored.sequence > head.sequence ? 'missing_entries' : 'head_mismatch',
+        },
+      };
+    }
+    recheckedHead = false;
+
+    const entries = snapshot.docs.map(toChainedEntry);
+    const report = verifyAuditChain(entries, head);
+    if (!report.valid) {
+      return { ...report, verified: verified + report.verified };
+    }
+
+    onVerified?.(entries);
+
+    verified += report.verified;
+    head = report.head;
+  }
+
+  return { valid: true, verified, head };
+}
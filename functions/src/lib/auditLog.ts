@@ -0,0 +1,66 @@
+import { toDate } from './dateSafe';
+import type { AuditRecord } from './auditLedger';
+import {
+  AuditLog,
+  AuditLogInput,
+  CLIENT_AUDIT_ACTION_PREFIX,
+  isAuditSource,
+  toAuditDiff,
+} from '../shared/auditLog';
+
+// Cap on the serialized size of a client entry's `before` and `after`
+export const MAX_AUDIT_DIFF_LENGTH = 16_000;
+
+// Cap on the further targets one client entry may list
+export const MAX_AUDIT_TARGET_IDS = 500;
+
+/**
+ * Ledger record for an audit log written by a client. The actor is always the
+ * authenticated caller, whatever `userId` the client sent, and the action is
+ * namespaced under `client.`.
+ */
+export function toAuditRecord(actorId: string, input: AuditLogInput): AuditRecord {
+  return {
+    action: `${CLIENT_AUDIT_ACTION_PREFIX}${input.action}`,
+    resourceId: input.targetId,
+    userId: actorId,
+    metadata: {
+      source: input.source,
+      ...(input.targetIds?.length ? { targetIds: input.targetIds } : {}),
+      ...toAuditDiff(input),
+    },
+  };
+}
+
+/**
+ * Read a governance entry as an audit log. Client entries read back under
+ * their catalogue action. Entries written by functions carry plain metadata
+ * rather than a diff, so they read as `backend` entries with the metadata as
+ * `after`.
+ */
+export function toAuditLog(id: string, data: Record<string, unknown>): AuditLog {
+  const metadata = (data['metadata'] ?? {}) as Record<string, unknown>;
+  const fromClient = isAuditSource(metadata['source']) && metadata['source'] !== 'backend';
+  const recordedAt = typeof data['recordedAt'] === 'string' ? data['recordedAt'] : null;
+  const action = String(data['action'] ?? '');
+  const targetIds = metadata['targetIds'];
+
+  return {
+    logId: id,
+    timestamp: recordedAt ?? toDate(data['timestamp'])?.toISOString() ?? '',
+    userId: String(data['userId'] ?? ''),
+    action:
+      fromClient && action.startsWith(CLIENT_AUDIT_ACTION_PREFIX)
+        ? action.slice(CLIENT_AUDIT_ACTION_PREFIX.length)
+        : action,
+    targetId: String(data['resourceId'] ?? ''),
+    ...(fromClient && Array.isArray(targetIds) ? { targetIds: targetIds.map(String) } : {}),
+    source: fromClient ? (metadata['source'] as AuditLog['source']) : 'backend',
+    diff: fromClient
+      ? {
+          before: (metadata['before'] ?? {}) as Record<string, unknown>,
+          after: (metadata['after'] ?? {}) as Record<string, unknown>,
+        }
+      : { before: {}, after: metadata },
+  };
+}
@@ -0,0 +1,146 @@
+import { z } from 'zod';
+import type { FindingSeverity, ValidationFinding } from './governanceRules';
+
+// Campaigns in these states have money committed against their program's envelope
+export const COMMITTED_CAMPAIGN_STATUSES = ['approved', 'active'] as const;
+
+export interface BudgetEnvelope {
+  amount: number;
+  currency: string;
+  // Finding raised when a campaign would take the program over its envelope
+  onExceed: Extract<FindingSeverity, 'block' | 'warn'>;
+  // Share of the envelope at which a warning is raised before it is exceeded
+  warnAtRatio: number;
+  byStore?: Record<string, number>;
+  byRegion?: Record<string, number>;
+}
+
+export interface BudgetedCampaign {
+  id: string;
+  budget: number;
+  storeId?: string;
+  region?: string;
+}
+
+export const BudgetEnvelopeSchema = z.object({
+  amount: z.number().nonnegative(),
+  currency: z.string().default('USD'),
+  onExceed: z.enum(['block', 'warn']).default('block'),
+  warnAtRatio: z.number().min(0).max(1).default(0.9),
+  byStore: z.record(z.number().nonnegative()).optional(),
+  byRegion: z.record(z.number().nonnegative()).optional(),
+});
+
+/**
+ * Read the budget fields the envelope check needs from a campaign document.
+ * Returns null for campaigns without a usable budget.
+ */
+export function toBudgetedCampaign(
+  id: string,
+  data: Record<string, unknown>
+): BudgetedCampaign | null {
+  const budget = data['budget'];
+  if (typeof budget !== 'number' || !Number.isFinite(budget)) return null;
+
+  const campaign: BudgetedCampaign = { id, budget };
+  if (typeof data['store_id'] === 'string') campaign.storeId = data['store_id'];
+  if (typeof data['region'] === 'string') campaign.region = data['region'];
+  return campaign;
+}
+
+function formatAmount(amount: number, currency: string): string {
+  return `${currency} ${amount.toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+}
+
+function checkAllocation(
+  ruleId: string,
+  label: string,
+  allocation: number,
+  committed: number,
+  requested: number,
+  envelope: BudgetEnvelope
+): ValidationFinding[] {
+  const total = committed + requested;
+  const remaining = Math.max(allocation - committed, 0);
+  const amount = (value: number) => formatAmount(value, envelope.currency);
+
+  if (total > allocation) {
+    return [
+      {
+        ruleId,
+        field: 'budget',
+        severity: envelope.onExceed,
+        message: `${label} budget would be exceeded: ${amount(committed)} committed + ${amount(requested)} requested against ${amount(allocation)}`,
+        remediation: `Reduce the budget to ${amount(remaining)} or less, or ask finance to raise the ${label.toLowerCase()} envelope`,
+      },
+    ];
+  }
+
+  if (allocation > 0 && total / allocation >= envelope.warnAtRatio) {
+    return [
+      {
+        ruleId: `${ruleId}.nearLimit`,
+        field: 'budget',
+        severity: 'warn',
+        message: `${label} budget would be ${Math.round((total / allocation) * 100)}% committed (${amount(total)} of ${amount(allocation)})`,
+      },
+    ];
+  }
+
+  return [];
+}
+
+/**
+ * Check a campaign's budget against its program envelope, and against any
+ * store or region allocation within it. The candidate is excluded from the
+ * committed set so re-validating an approved campaign does not count it twice.
+ */
+export function evaluateBudgetEnvelope(
+  envelope: BudgetEnvelope,
+  committed: BudgetedCampaign[],
+  candidate: BudgetedCampaign
+): ValidationFinding[] {
+  const others = committed.filter(campaign => campaign.id !== candidate.id);
+  const sum = (campaigns: BudgetedCampaign[]) =>
+    campaigns.reduce((total, campaign) => total + Math.max(campaign.budget, 0), 0);
+  const requested = Math.max(candidate.budget, 0);
+
+  const findings = checkAllocation(
+    'budget.envelope.program',
+    'Program',
+    envelope.amount,
+    sum(others),
+    requested,
+    envelope
+  );
+
+  const storeAllocation = candidate.storeId ? envelope.byStore?.[candidate.storeId] : undefined;
+  if (storeAllocation !== undefined) {
+    findings.push(
+      ...checkAllocation(
+        'budget.envelope.store',
+        'Store',
+        storeAllocation,
+        sum(others.filter(campaign => campaign.storeId === candidate.storeId)),
+        requested,
+        envelope
+      )
+    );
+  }
+
+  const regionAllocation = candidate.region ? envelope.byRegion?.[candidate.region] : undefined;
+  if (regionAllocation !== undefined) {
+    findings.push(
+      ...checkAllocation(
+        'budget.envelope.region',
+        'Region',
+        regionAllocation,
+        sum(others.filter(campaign => campaign.region === candidate.region)),
+        requested,
+        envelope
+      )
+    );
+  }
+
+  return findings;
+}
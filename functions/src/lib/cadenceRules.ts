@@ -0,0 +1,157 @@
+import { z } from 'zod';
+import type { FindingSeverity, ValidationFinding } from './governanceRules';
+import { toDate } from './dateSafe';
+
+export type CadenceDimension = 'programId' | 'audience' | 'channel';
+
+export interface CadenceRule {
+  id: string;
+  scope: Partial<Record<CadenceDimension, string>>;
+  per: CadenceDimension[];
+  maxCount: number;
+  windowDays: number;
+  severity: FindingSeverity;
+  message: string;
+  remediation?: string;
+  enabled: boolean;
+}
+
+export interface ScheduledActivity {
+  activityId: string;
+  programId: string;
+  channel: string;
+  audience?: string;
+  date: Date;
+}
+
+// Structural subset of Week/DayCard/Activity from the planner models
+export interface PlannerWeek {
+  programId: string;
+  dayCards: Record<string, { date: unknown; activities: PlannerActivity[] }>;
+}
+
+export interface PlannerActivity {
+  activityId: string;
+  channel: string;
+  audience?: string;
+}
+
+const CadenceDimensionSchema = z.enum(['programId', 'audience', 'channel']);
+
+export const CadenceRuleSchema = z.object({
+  id: z.string().min(1),
+  scope: z.record(CadenceDimensionSchema, z.string()).default({}),
+  per: z.array(CadenceDimensionSchema).default(['programId']),
+  maxCount: z.number().int().nonnegative(),
+  windowDays: z.number().int().positive(),
+  severity: z.enum(['block', 'warn', 'info']).default('warn'),
+  message: z
+    .string()
+    .default('{count} {channel} activities within {windowDays} days exceeds the cap of {maxCount}'),
+  remediation: z.string().optional(),
+  enabled: z.boolean().default(true),
+});
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Flatten the planner's Week/DayCard cache into dated activities.
+ * Activities inherit the week's programId.
+ */
+export function flattenWeek(week: PlannerWeek): ScheduledActivity[] {
+  return Object.values(week.dayCards).flatMap(dayCard => {
+    const date = toDate(dayCard.date);
+    if (!date) return [];
+
+    return dayCard.activities.map(activity => {
+      const scheduled: ScheduledActivity = {
+        activityId: activity.activityId,
+        programId: week.programId,
+        channel: activity.channel,
+        date,
+      };
+      if (activity.audience) scheduled.audience = activity.audience;
+      return scheduled;
+    });
+  });
+}
+
+function matchesScope(rule: CadenceRule, activity: ScheduledActivity): boolean {
+  return (Object.entries(rule.scope) as Array<[CadenceDimension, string]>).every(
+    ([dimension, value]) => activity[dimension] === value
+  );
+}
+
+function groupKey(rule: CadenceRule, activity: ScheduledActivity): string {
+  return rule.per.map(dimension => activity[dimension] ?? '').join('|');
+}
+
+function interpolate(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    values[key] !== undefined ? String(values[key]) : placeholder
+  );
+}
+
+/**
+ * Check every rolling window of `windowDays` for groups of activities that
+ * exceed a cadence cap. One finding is raised per breached window, anchored
+ * to the activity that tipped the count over the cap.
+ *
+ * @param changedActivityId - When set, only windows containing this activity
+ *   are reported, so adding or moving one activity does not resurface
+ *   unrelated, already-known breaches.
+ */
+export function evaluateCadence(
+  rules: CadenceRule[],
+  activities: ScheduledActivity[],
+  changedActivityId?: string
+): ValidationFinding[] {
+  const findings: ValidationFinding[] = [];
+
+  for (const rule of rules.filter(candidate => candidate.enabled)) {
+    const groups = new Map<string, ScheduledActivity[]>();
+    for (const activity of activities.filter(candidate => matchesScope(rule, candidate))) {
+      const key = groupKey(rule, activity);
+      groups.set(key, [...(groups.get(key) ?? []), activity]);
+    }
+
+    for (const group of groups.values()) {
+      const sorted = [...group].sort((a, b) => a.date.getTime() - b.date.getTime());
+      const reported = new Set<string>();
+
+      sorted.forEach((start, index) => {
+        const windowEnd = start.date.getTime() + rule.windowDays * MS_PER_DAY;
+        const window = sorted.slice(index).filter(activity => activity.date.getTime() < windowEnd);
+        if (window.length <= rule.maxCount) return;
+
+        const tipping = window[rule.maxCount];
+        if (!tipping || reported.has(tipping.activityId)) return;
+        if (changedActivityId && !window.some(a => a.activityId === changedActivityId)) return;
+        reported.add(tipping.activityId);
+
+        const values = {
+          count: window.length,
+          maxCount: rule.maxCount,
+          windowDays: rule.windowDays,
+          channel: start.channel,
+          programId: start.programId,
+          audience: start.audience ?? '',
+          date: start.date.toISOString().split('T')[0] ?? '',
+        };
+
+        const finding: ValidationFinding = {
+          ruleId: rule.id,
+          field: `activities.${tipping.activityId}`,
+          severity: rule.severity,
+          message: interpolate(rule.message, values),
+        };
+        if (rule.remediation) {
+          finding.remediation = interpolate(rule.remediation, values);
+        }
+        findings.push(finding);
+      });
+    }
+  }
+
+  return findings;
+}
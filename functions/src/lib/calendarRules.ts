@@ -0,0 +1,184 @@
+import { z } from 'zod';
+import type { FindingSeverity, ValidationFinding } from './governanceRules';
+import { toDate } from './dateSafe';
+
+export interface BlackoutRule {
+  id: string;
+  name: string;
+  // Inclusive calendar days, YYYY-MM-DD
+  start: string;
+  end: string;
+  // Empty means every channel is blacked out
+  channels: string[];
+  severity: FindingSeverity;
+  message: string;
+  remediation?: string;
+  enabled: boolean;
+}
+
+export interface LaunchWindowRule {
+  id: string;
+  channels: string[];
+  // 0 = Sunday ... 6 = Saturday; omitted means any day
+  daysOfWeek?: number[];
+  // Inclusive calendar days, YYYY-MM-DD; omitted ends are open
+  from?: string;
+  to?: string;
+  severity: FindingSeverity;
+  message: string;
+  remediation?: string;
+  enabled: boolean;
+}
+
+export interface CalendarRules {
+  blackouts: BlackoutRule[];
+  launchWindows: LaunchWindowRule[];
+}
+
+// A date-bearing field to check: a campaign's dueDate/startDate or a planner activity's day
+export interface DatedItem {
+  field: string;
+  date: Date;
+  channel?: string;
+}
+
+const DaySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+export const BlackoutRuleSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  start: DaySchema,
+  end: DaySchema,
+  channels: z.array(z.string()).default([]),
+  severity: z.enum(['block', 'warn', 'info']).default('block'),
+  message: z.string().default('{date} falls in the "{name}" blackout ({start} to {end})'),
+  remediation: z.string().optional(),
+  enabled: z.boolean().default(true),
+});
+
+export const LaunchWindowRuleSchema = z.object({
+  id: z.string().min(1),
+  channels: z.array(z.string()).min(1),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).optional(),
+  from: DaySchema.optional(),
+  to: DaySchema.optional(),
+  severity: z.enum(['block', 'warn', 'info']).default('warn'),
+  message: z.string().default('{date} is outside the {channel} launch window'),
+  remediation: z.string().optional(),
+  enabled: z.boolean().default(true),
+});
+
+export const CalendarRulesSchema = z.object({
+  blackouts: z.array(BlackoutRuleSchema).default([]),
+  launchWindows: z.array(LaunchWindowRuleSchema).default([]),
+});
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Rules are written in calendar days, so compare on the UTC day of each date
+export function toDayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function appliesToChannel(channels: string[], channel: string | undefined): boolean {
+  return channels.length === 0 || (channel !== undefined && channels.includes(channel));
+}
+
+function interpolate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+}
+
+/**
+ * Blackouts covering a calendar day, optionally narrowed to one channel.
+ * Without a channel every blackout on that day is returned, which is what the
+ * planner calendar shades.
+ */
+export function getBlackoutsForDay(
+  blackouts: BlackoutRule[],
+  day: string,
+  channel?: string
+): BlackoutRule[] {
+  return blackouts.filter(
+    rule =>
+      rule.enabled &&
+      rule.start <= day &&
+      day <= rule.end &&
+      (channel === undefined || appliesToChannel(rule.channels, channel))
+  );
+}
+
+function isInLaunchWindow(rule: LaunchWindowRule, date: Date): boolean {
+  const day = toDayKey(date);
+  if (rule.from && day < rule.from) return false;
+  if (rule.to && day > rule.to) return false;
+  return !rule.daysOfWeek || rule.daysOfWeek.includes(date.getUTCDay());
+}
+
+/**
+ * Check dated items against blackout periods and per-channel launch windows.
+ * Blackouts without channels apply to every item; launch windows only apply
+ * to items on one of their channels.
+ */
+export function evaluateCalendarRules(
+  rules: CalendarRules,
+  items: DatedItem[]
+): ValidationFinding[] {
+  const findings: ValidationFinding[] = [];
+
+  for (const item of items) {
+    const day = toDayKey(item.date);
+    const values = {
+      field: item.field,
+      date: day,
+      weekday: DAY_NAMES[item.date.getUTCDay()] ?? '',
+      channel: item.channel ?? 'any channel',
+    };
+
+    for (const rule of rules.blackouts) {
+      if (!rule.enabled || !appliesToChannel(rule.channels, item.channel)) continue;
+      if (day < rule.start || day > rule.end) continue;
+
+      const ruleValues = { ...values, name: rule.name, start: rule.start, end: rule.end };
+      const finding: ValidationFinding = {
+        ruleId: rule.id,
+        field: item.field,
+        severity: rule.severity,
+        message: interpolate(rule.message, ruleValues),
+      };
+      if (rule.remediation) finding.remediation = interpolate(rule.remediation, ruleValues);
+      findings.push(finding);
+    }
+
+    for (const rule of rules.launchWindows) {
+      if (!rule.enabled || !item.channel || !rule.channels.includes(item.channel)) continue;
+      if (isInLaunchWindow(rule, item.date)) continue;
+
+      const finding: ValidationFinding = {
+        ruleId: rule.id,
+        field: item.field,
+        severity: rule.severity,
+        message: interpolate(rule.message, values),
+      };
+      if (rule.remediation) finding.remediation = interpolate(rule.remediation, values);
+      findings.push(finding);
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Dated items for a campaign: its dueDate and startDate, on the campaign's channel
+ */
+export function getCampaignDatedItems(campaignData: Record<string, unknown>): DatedItem[] {
+  const channel = campaignData['channel'];
+
+  return ['startDate', 'dueDate'].flatMap(field => {
+    const date = toDate(campaignData[field]);
+    if (!date) return [];
+
+    const item: DatedItem = { field, date };
+    if (typeof channel === 'string') item.channel = channel;
+    return [item];
+  });
+}
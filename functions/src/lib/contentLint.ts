@@ -0,0 +1,46 @@
+import { z } from 'zod';
+
+export * from '../shared/contentLint';
+
+const SeveritySchema = z.enum(['block', 'warn', 'info']);
+
+const BannedPhraseSchema = z.object({
+  id: z.string().min(1),
+  pattern: z.string().min(1),
+  match: z.enum(['word', 'regex']).default('word'),
+  severity: SeveritySchema.default('warn'),
+  message: z.string().default('Content contains banned phrase "{match}"'),
+  remediation: z.string().optional(),
+});
+
+const ClaimDisclaimerSchema = z.object({
+  id: z.string().min(1),
+  claim: z.string().min(1),
+  match: z.enum(['word', 'regex']).default('word'),
+  disclaimer: z.string().min(1),
+  severity: SeveritySchema.default('block'),
+  message: z.string().default('"{match}" claims require a disclaimer'),
+  remediation: z.string().optional(),
+});
+
+export const ContentLintConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  appliesTo: z
+    .array(z.enum(['draft', 'preview', 'publish']))
+    .default(['draft', 'preview', 'publish']),
+  bannedPhrases: z.array(BannedPhraseSchema).default([]),
+  claimDisclaimers: z.array(ClaimDisclaimerSchema).default([]),
+  hashtags: z
+    .object({
+      maxCount: z.number().int().nonnegative().default(5),
+      pattern: z.string().default('^[A-Za-z][A-Za-z0-9_]*$'),
+      banned: z.array(z.string()).default([]),
+      severity: SeveritySchema.default('warn'),
+    })
+    .default({}),
+  subjectLineMaxLength: z.record(z.number().int().positive()).default({}),
+  maxCapsRatio: z.number().min(0).max(1).default(0.5),
+  minLettersForCapsCheck: z.number().int().nonnegative().default(10),
+  maxEmojiDensity: z.number().nonnegative().default(0.2),
+  styleSeverity: SeveritySchema.default('warn'),
+});
@@ -0,0 +1,15 @@
+export function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  // Firestore Timestamp (admin SDK) or its serialized { seconds, nanoseconds } form
+  if (value && typeof value === 'object') {
+    const candidate = value as { toDate?: () => Date; seconds?: number; _seconds?: number };
+    if (typeof candidate.toDate === 'function') return candidate.toDate();
+    const seconds = candidate.seconds ?? candidate._seconds;
+    if (typeof seconds === 'number') return new Date(seconds * 1000);
+  }
+  return null;
+}
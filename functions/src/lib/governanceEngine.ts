@@ -1,237 +1,451 @@
 import * as admin from 'firebase-admin';
+import {
+  BUILTIN_RULE_PACK,
+  ComplianceCategory,
+  ComplianceSection,
+  ComplianceStatus,
+  GovernanceOverride,
+  GovernanceRulePack,
+  GovernanceRulePackSchema,
+  ValidationFinding,
+  ValidationType,
+  applyOverrides,
+  evaluateRulePack,
+  getComplianceStatus,
+  hasBlockingFindings,
+  isTimeRelativeRule,
+  summarizeCompliance,
+} from './governanceRules';
+import { ApprovalChain, ChainSelectionInput, selectApprovalChain } from './approvalChains';
+import { ScheduledActivity, evaluateCadence } from './cadenceRules';
+import { DEFAULT_REVIEW_SLA, ReviewSlaPolicy } from './reviewSla';
+import { DEFAULT_SEPARATION_OF_DUTIES, SeparationOfDutiesPolicy } from './separationOfDuties';
+import { DEFAULT_RETENTION, RetentionPolicy } from './retention';
+import { DEFAULT_WRIKE_SYNC, WrikeSyncPolicy } from './wrikeConflicts';
+import { evaluateCalendarRules } from './calendarRules';
+import {
+  BudgetEnvelope,
+  BudgetEnvelopeSchema,
+  BudgetedCampaign,
+  COMMITTED_CAMPAIGN_STATUSES,
+  evaluateBudgetEnvelope,
+  toBudgetedCampaign,
+} from './budgetEnvelopes';
+import { toDate } from './dateSafe';
+import { CLIENT_AUDIT_ACTION_PREFIX } from '../shared/auditLog';
 
 export interface CampaignValidationResult {
-  errors: string[];
-  warnings: string[];
+  findings: ValidationFinding[];
   isValid: boolean;
+  rulePackVersion: number;
+}
+
+export interface ReviewHistoryEntry {
+  id: string;
+  type: string;
+  action: string;
+  userId: string;
+  timestamp: string | null;
+  reviewType?: string;
+  reason?: string;
+}
+
+export interface ComplianceReport {
+  campaignId: string;
+  campaignTitle: string;
+  campaignStatus: string;
+  generatedAt: string;
+  rulePackVersion: number;
+  status: ComplianceStatus;
+  compliance: Record<ComplianceCategory, ComplianceSection>;
+  reviewHistory: ReviewHistoryEntry[];
+  overrides: GovernanceOverride[];
+  recommendations: string[];
+}
+
+export interface ScheduleValidationContext {
+  activities: ScheduledActivity[];
+  changedActivityId?: string;
+}
+
+export interface ScheduleValidationResult {
+  findings: ValidationFinding[];
+  isValid: boolean;
+  rulePackVersion: number;
 }
 
 export interface ValidationContext {
   campaignId: string;
   campaignData: Record<string, unknown>;
-  validationType: 'draft' | 'preview' | 'publish';
-  userId: string;
+  validationType: ValidationType;
+  // null when validating a stored campaign that has no recorded owner
+  userId: string | null;
+  // Leave out rules judged against today, e.g. for campaigns already past review
+  skipTimeRelativeRules?: boolean;
 }
 
+// Campaigns past review: their dates were checked when they were submitted
+const HISTORICAL_CAMPAIGN_STATUSES = ['approved', 'rejected', 'active', 'completed'];
+
 export class GovernanceEngine {
   private db = admin.firestore();
 
   async validateCampaign(context: ValidationContext): Promise<CampaignValidationResult> {
-    const { campaignData, validationType, userId } = context;
-    const errors: string[] = [];
-    const warnings: string[] = [];
-
-    // Basic validation rules
-    await this.validateRequiredFields(campaignData, errors);
-    await this.validateContentPolicy(campaignData, errors, warnings);
-    await this.validateBusinessRules(campaignData, errors, warnings);
-    
+    const { campaignId, campaignData, validationType, userId } = context;
+
+    // Declarative rules from the active rule pack
+    const rulePack = await this.loadRulePack();
+    const evaluatedPack = context.skipTimeRelativeRules
+      ? { ...rulePack, rules: rulePack.rules.filter(rule => !isTimeRelativeRule(rule)) }
+      : rulePack;
+    const ruleFindings = evaluateRulePack(evaluatedPack, campaignData, validationType);
+
     // User-specific validation
-    await this.validateUserPermissions(userId, campaignData, errors);
-    
+    if (userId) {
+      await this.validateUserPermissions(userId, campaignData, ruleFindings);
+    } else {
+      ruleFindings.push({
+        ruleId: 'permissions.owner',
+        field: 'createdBy',
+        severity: 'warn',
+        message: 'Campaign has no recorded owner, so owner permissions were not checked',
+        remediation: 'Ask an admin to set the campaign owner',
+      });
+    }
+
+    // Program budget envelope, summed across committed campaigns
+    await this.validateBudgetEnvelope(campaignId, campaignData, ruleFindings);
+
     // Type-specific validation
     if (validationType === 'publish') {
-      await this.validatePublishRequirements(campaignData, errors);
+      this.validatePublishRequirements(campaignData, ruleFindings);
     }
 
+    // Live overrides downgrade their rule from block to warn
+    const overrides = await this.loadOverrides(campaignId);
+    const findings = applyOverrides(ruleFindings, overrides);
+
     return {
-      errors,
-      warnings,
-      isValid: errors.length === 0,
+      findings,
+      isValid: !hasBlockingFindings(findings),
+      rulePackVersion: rulePack.version,
     };
   }
 
-  private async validateRequiredFields(
-    campaignData: Record<string, unknown>,
-    errors: string[]
-  ): Promise<void> {
-    const requiredFields = ['title', 'description', 'assignedTo', 'dueDate'];
-    
-    for (const field of requiredFields) {
-      if (!campaignData[field] || 
-          (typeof campaignData[field] === 'string' && !campaignData[field].toString().trim())) {
-        errors.push(`${field} is required`);
-      }
-    }
+  async validateSchedule(context: ScheduleValidationContext): Promise<ScheduleValidationResult> {
+    const { activities, changedActivityId } = context;
 
-    // Validate due date is in the future
-    if (campaignData.dueDate) {
-      const dueDate = new Date(campaignData.dueDate as string);
-      if (dueDate <= new Date()) {
-        errors.push('Due date must be in the future');
-      }
+    const rulePack = await this.loadRulePack();
+    const findings = evaluateCadence(rulePack.cadenceRules ?? [], activities, changedActivityId);
+
+    // Blackouts and launch windows are checked per activity day
+    if (rulePack.calendarRules) {
+      const checked = changedActivityId
+        ? activities.filter(activity => activity.activityId === changedActivityId)
+        : activities;
+      findings.push(
+        ...evaluateCalendarRules(
+          rulePack.calendarRules,
+          checked.map(activity => ({
+            field: `activities.${activity.activityId}`,
+            date: activity.date,
+            channel: activity.channel,
+          }))
+        )
+      );
     }
+
+    return {
+      findings,
+      isValid: !hasBlockingFindings(findings),
+      rulePackVersion: rulePack.version,
+    };
   }
 
-  private async validateContentPolicy(
-    campaignData: Record<string, unknown>,
-    errors: string[],
-    warnings: string[]
-  ): Promise<void> {
-    const title = campaignData.title as string;
-    const description = campaignData.description as string;
-
-    // Check for inappropriate content (basic example)
-    const inappropriateWords = ['spam', 'scam', 'fake'];
-    const content = `${title} ${description}`.toLowerCase();
-    
-    for (const word of inappropriateWords) {
-      if (content.includes(word)) {
-        warnings.push(`Content may contain inappropriate language: "${word}"`);
-      }
-    }
+  async getApprovalChain(input: ChainSelectionInput): Promise<ApprovalChain> {
+    const rulePack = await this.loadRulePack();
+    return selectApprovalChain(rulePack.approvalChains ?? [], input);
+  }
 
-    // Check title length
-    if (title && title.length > 100) {
-      errors.push('Title must be 100 characters or less');
-    }
+  async getReviewSlaPolicy(): Promise<ReviewSlaPolicy> {
+    const rulePack = await this.loadRulePack();
+    return rulePack.reviewSla ?? DEFAULT_REVIEW_SLA;
+  }
 
-    // Check description length
-    if (description && description.length > 1000) {
-      warnings.push('Description is quite long, consider shortening for better engagement');
-    }
+  async getSeparationOfDutiesPolicy(): Promise<SeparationOfDutiesPolicy> {
+    const rulePack = await this.loadRulePack();
+    return rulePack.separationOfDuties ?? DEFAULT_SEPARATION_OF_DUTIES;
   }
 
-  private async validateBusinessRules(
-    campaignData: Record<string, unknown>,
-    errors: string[],
-    warnings: string[]
-  ): Promise<void> {
-    // Check budget constraints
-    const budget = campaignData.budget as number;
-    if (budget !== undefined) {
-      if (budget < 0) {
-        errors.push('Budget cannot be negative');
-      } else if (budget > 1000000) {
-        warnings.push('Budget exceeds recommended maximum for single campaign');
-      }
+  async getRetentionPolicy(): Promise<RetentionPolicy> {
+    const rulePack = await this.loadRulePack();
+    return rulePack.retention ?? DEFAULT_RETENTION;
+  }
+
+  async getWrikeSyncPolicy(): Promise<WrikeSyncPolicy> {
+    const rulePack = await this.loadRulePack();
+    return rulePack.wrikeSync ?? DEFAULT_WRIKE_SYNC;
+  }
+
+  // Overrides are always read from the stored campaign so callers cannot smuggle
+  // them in through client-supplied campaignData.
+  async loadOverrides(campaignId: string): Promise<GovernanceOverride[]> {
+    const campaignDoc = await this.db.collection('campaigns').doc(campaignId).get();
+    const governance = (campaignDoc.data()?.['governance'] ?? {}) as {
+      overrides?: GovernanceOverride[];
+    };
+    return governance.overrides ?? [];
+  }
+
+  /**
+   * The highest-versioned active rule pack, or the built-in rules when none has
+   * been published. A published pack that does not parse is reported and
+   * rejected rather than replaced by the built-in rules, so a bad publish
+   * cannot quietly change what is enforced.
+   */
+  async loadRulePack(): Promise<GovernanceRulePack> {
+    const snapshot = await this.db
+      .collection('governanceRules')
+      .where('active', '==', true)
+      .orderBy('version', 'desc')
+      .limit(1)
+      .get();
+
+    const packDoc = snapshot.docs[0];
+    if (!packDoc) {
+      return BUILTIN_RULE_PACK;
     }
 
-    // Check campaign timeline
-    const dueDate = new Date(campaignData.dueDate as string);
-    const createdAt = campaignData.createdAt ? new Date(campaignData.createdAt as string) : new Date();
-    const daysDiff = Math.ceil((dueDate.getTime() - createdAt.getTime()) / (1000 * 60 * 60 * 24));
-    
-    if (daysDiff < 1) {
-      errors.push('Campaign timeline must be at least 1 day');
-    } else if (daysDiff > 365) {
-      warnings.push('Campaign timeline exceeds 1 year, consider breaking into smaller campaigns');
+    const parsed = GovernanceRulePackSchema.safeParse(packDoc.data());
+    if (!parsed.success) {
+      console.error(`Governance rule pack ${packDoc.id} is invalid:`, parsed.error);
+      await this.db.collection('telemetry').add({
+        event: 'rule_pack_invalid',
+        packId: packDoc.id,
+        version: packDoc.data()['version'] ?? null,
+        issues: parsed.error.issues.slice(0, 20).map(issue => ({
+          path: issue.path.join('.'),
+          message: issue.message,
+        })),
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      throw new Error(`Governance rule pack ${packDoc.id} is invalid and cannot be enforced`);
     }
+
+    return parsed.data as GovernanceRulePack;
   }
 
   private async validateUserPermissions(
     userId: string,
     campaignData: Record<string, unknown>,
-    errors: string[]
+    findings: ValidationFinding[]
   ): Promise<void> {
     try {
       const userDoc = await this.db.collection('users').doc(userId).get();
       if (!userDoc.exists) {
-        errors.push('User profile not found');
+        findings.push({
+          ruleId: 'permissions.profile',
+          severity: 'block',
+          message: 'User profile not found',
+          remediation: 'Sign out and back in, or ask an admin to create your profile',
+        });
         return;
       }
 
-      const userData = userDoc.data();
-      const userRoles = userData?.roles || {};
+      const userRoles = (userDoc.data()?.['roles'] ?? {}) as Record<string, boolean>;
 
       // Check if user has permission to create campaigns
-      if (!userRoles.editor && !userRoles.admin) {
-        errors.push('User does not have permission to create campaigns');
+      if (!userRoles['editor'] && !userRoles['admin']) {
+        findings.push({
+          ruleId: 'permissions.createCampaign',
+          severity: 'block',
+          message: 'User does not have permission to create campaigns',
+          remediation: 'Ask an admin for the editor role',
+        });
       }
 
       // Check team assignment if applicable
-      const assignedTo = campaignData.assignedTo as string;
+      const assignedTo = campaignData['assignedTo'];
       if (assignedTo && assignedTo !== userId) {
         // Check if user can assign to other users
-        if (!userRoles.admin && !userRoles.reviewer) {
-          errors.push('User does not have permission to assign campaigns to other users');
+        if (!userRoles['admin'] && !userRoles['reviewer']) {
+          findings.push({
+            ruleId: 'permissions.assignOthers',
+            field: 'assignedTo',
+            severity: 'block',
+            message: 'User does not have permission to assign campaigns to other users',
+            remediation: 'Assign the campaign to yourself or ask a reviewer to reassign it',
+          });
         }
       }
     } catch (error) {
       console.error('Error validating user permissions:', error);
-      errors.push('Unable to validate user permissions');
+      findings.push({
+        ruleId: 'permissions.unavailable',
+        severity: 'block',
+        message: 'Unable to validate user permissions',
+        remediation: 'Try again in a few minutes',
+      });
     }
   }
 
-  private async validatePublishRequirements(
+  private async validateBudgetEnvelope(
+    campaignId: string,
     campaignData: Record<string, unknown>,
-    errors: string[]
+    findings: ValidationFinding[]
   ): Promise<void> {
-    // Additional validation for publishing
-    if (!campaignData.assignedTo) {
-      errors.push('Campaign must be assigned to someone before publishing');
+    const programId = campaignData['programId'];
+    const candidate = toBudgetedCampaign(campaignId, campaignData);
+    if (typeof programId !== 'string' || !programId || !candidate) {
+      return;
     }
 
-    // Check if campaign has been reviewed (basic check)
-    if (campaignData.status !== 'approved') {
-      errors.push('Campaign must be approved before publishing');
+    try {
+      const programDoc = await this.db.collection('programs').doc(programId).get();
+      const envelopeData = programDoc.data()?.['budgetEnvelope'];
+      if (!envelopeData) {
+        return;
+      }
+
+      const envelope = BudgetEnvelopeSchema.parse(envelopeData) as BudgetEnvelope;
+      const committedSnapshot = await this.db
+        .collection('campaigns')
+        .where('programId', '==', programId)
+        .where('status', 'in', [...COMMITTED_CAMPAIGN_STATUSES])
+        .get();
+
+      const committed = committedSnapshot.docs
+        .map(doc => toBudgetedCampaign(doc.id, doc.data()))
+        .filter((campaign): campaign is BudgetedCampaign => campaign !== null);
+
+      findings.push(...evaluateBudgetEnvelope(envelope, committed, candidate));
+    } catch (error) {
+      console.error('Error validating budget envelope:', error);
+      findings.push({
+        ruleId: 'budget.envelope.unavailable',
+        field: 'budget',
+        severity: 'block',
+        message: 'Unable to check the program budget envelope',
+        remediation: 'Try again in a few minutes',
+      });
+    }
+  }
+
+  private validatePublishRequirements(
+    campaignData: Record<string, unknown>,
+    findings: ValidationFinding[]
+  ): void {
+    // Additional validation for publishing
+    if (!campaignData['assignedTo']) {
+      findings.push({
+        ruleId: 'publish.assigned',
+        field: 'assignedTo',
+        severity: 'block',
+        message: 'Campaign must be assigned to someone before publishing',
+        remediation: 'Choose an assignee',
+      });
     }
+
+    // Approval before going live is enforced by the campaign lifecycle (approved -> active),
+    // not here: submitForReview runs these checks on drafts
   }
 
-  async getComplianceReport(campaignId: string): Promise<Record<string, unknown>> {
+  async getComplianceReport(
+    campaignId: string,
+    validationType: ValidationType = 'preview'
+  ): Promise<ComplianceReport | null> {
     try {
       const campaignDoc = await this.db.collection('campaigns').doc(campaignId).get();
       if (!campaignDoc.exists) {
-        throw new Error('Campaign not found');
+        return null;
       }
 
-      const campaignData = campaignDoc.data()!;
-      
-      // Generate compliance report
-      const report = {
+      const campaignData = campaignDoc.data() ?? {};
+      const owner = campaignData['createdBy'] ?? campaignData['owner_id'];
+      const ownerId = typeof owner === 'string' && owner ? owner : null;
+
+      // Re-run the active rule set against the stored campaign, on behalf of its
+      // owner. Campaigns past review are not held to rules judged against today,
+      // otherwise every finished campaign would fail `dueDate.future`
+      const validation = await this.validateCampaign({
         campaignId,
-        generatedAt: new Date().toISOString(),
-        compliance: {
-          contentPolicy: await this.checkContentCompliance(campaignData),
-          businessRules: await this.checkBusinessCompliance(campaignData),
-          userPermissions: await this.checkPermissionCompliance(campaignData),
-        },
-        recommendations: await this.generateRecommendations(campaignData),
+        campaignData,
+        validationType,
+        userId: ownerId,
+        skipTimeRelativeRules: HISTORICAL_CAMPAIGN_STATUSES.includes(
+          String(campaignData['status'] ?? '')
+        ),
+      });
+
+      const governance = (campaignData['governance'] ?? {}) as {
+        overrides?: GovernanceOverride[];
       };
 
-      return report;
+      return {
+        campaignId,
+        campaignTitle: (campaignData['title'] ?? '') as string,
+        campaignStatus: (campaignData['status'] ?? '') as string,
+        generatedAt: new Date().toISOString(),
+        rulePackVersion: validation.rulePackVersion,
+        status: getComplianceStatus(validation.findings),
+        compliance: summarizeCompliance(validation.findings),
+        reviewHistory: await this.getReviewHistory(campaignId),
+        overrides: governance.overrides ?? [],
+        recommendations: this.generateRecommendations(campaignData),
+      };
     } catch (error) {
       console.error('Error generating compliance report:', error);
       throw error;
     }
   }
 
-  private async checkContentCompliance(campaignData: Record<string, unknown>): Promise<Record<string, unknown>> {
-    // Implement content compliance checks
-    return {
-      status: 'compliant',
-      checks: ['language', 'length', 'format'],
-      issues: [],
-    };
-  }
+  async getReviewHistory(campaignId: string): Promise<ReviewHistoryEntry[]> {
+    const governance = this.db.collection('governance');
 
-  private async checkBusinessCompliance(campaignData: Record<string, unknown>): Promise<Record<string, unknown>> {
-    // Implement business rule compliance checks
-    return {
-      status: 'compliant',
-      checks: ['budget', 'timeline', 'assignments'],
-      issues: [],
-    };
-  }
+    // Review records reference the campaign by campaignId, audit entries by resourceId
+    const [reviews, auditEntries] = await Promise.all([
+      governance.where('campaignId', '==', campaignId).get(),
+      governance.where('resourceId', '==', campaignId).get(),
+    ]);
 
-  private async checkPermissionCompliance(campaignData: Record<string, unknown>): Promise<Record<string, unknown>> {
-    // Implement permission compliance checks
-    return {
-      status: 'compliant',
-      checks: ['userRoles', 'teamAccess', 'campaignPermissions'],
-      issues: [],
-    };
+    // Client audit logs may name a campaign as their target but are not review history
+    const reviewAuditEntries = auditEntries.docs.filter(
+      doc => !String(doc.data()['action'] ?? '').startsWith(CLIENT_AUDIT_ACTION_PREFIX)
+    );
+
+    const history = [...reviews.docs, ...reviewAuditEntries].map(doc => {
+      const data = doc.data();
+      const timestamp = toDate(data['reviewedAt'] ?? data['submittedAt'] ?? data['timestamp']);
+      const metadata = (data['metadata'] ?? {}) as Record<string, unknown>;
+
+      const entry: ReviewHistoryEntry = {
+        id: doc.id,
+        type: (data['type'] ?? 'audit') as string,
+        action: (data['action'] ?? data['status'] ?? '') as string,
+        userId: (data['reviewedBy'] ?? data['submittedBy'] ?? data['userId'] ?? '') as string,
+        timestamp: timestamp ? timestamp.toISOString() : null,
+      };
+
+      const reason = data['reason'] ?? metadata['reason'];
+      if (typeof reason === 'string') entry.reason = reason;
+      if (typeof data['reviewType'] === 'string') entry.reviewType = data['reviewType'];
+
+      return entry;
+    });
+
+    return history.sort((a, b) => (a.timestamp ?? '').localeCompare(b.timestamp ?? ''));
   }
 
-  private async generateRecommendations(campaignData: Record<string, unknown>): Promise<string[]> {
+  private generateRecommendations(campaignData: Record<string, unknown>): string[] {
     // Generate recommendations based on campaign data
     const recommendations: string[] = [];
 
-    if (!campaignData.budget) {
+    if (!campaignData['budget']) {
       recommendations.push('Consider adding a budget to track campaign costs');
     }
 
-    if (!campaignData.tags || (campaignData.tags as string[]).length === 0) {
+    const tags = campaignData['tags'];
+    if (!Array.isArray(tags) || tags.length === 0) {
       recommendations.push('Add tags to improve campaign categorization and searchability');
     }
 
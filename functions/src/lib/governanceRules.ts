@@ -0,0 +1,530 @@
+import { z } from 'zod';
+import { ApprovalChain, ApprovalChainSchema } from './approvalChains';
+import { CadenceRule, CadenceRuleSchema } from './cadenceRules';
+import {
+  CalendarRules,
+  CalendarRulesSchema,
+  evaluateCalendarRules,
+  getCampaignDatedItems,
+} from './calendarRules';
+import {
+  ContentLintConfig,
+  ContentLintConfigSchema,
+  DEFAULT_CONTENT_LINT,
+  HASHTAGS_FIELD,
+  LintableContent,
+  SUBJECT_LINE_FIELD,
+  contentLintApplies,
+  lintContent,
+} from './contentLint';
+import { toDate } from './dateSafe';
+import { ReviewSlaPolicy, ReviewSlaPolicySchema } from './reviewSla';
+import { SeparationOfDutiesPolicy, SeparationOfDutiesPolicySchema } from './separationOfDuties';
+import { RetentionPolicy, RetentionPolicySchema } from './retention';
+import { WrikeSyncPolicy, WrikeSyncPolicySchema } from './wrikeConflicts';
+
+export type ValidationType = 'draft' | 'preview' | 'publish';
+
+export type RuleOperator =
+  | 'required'
+  | 'futureDate'
+  | 'maxLength'
+  | 'min'
+  | 'max'
+  | 'containsAny'
+  | 'minDaysFrom'
+  | 'maxDaysFrom';
+
+export type FindingSeverity = 'block' | 'warn' | 'info';
+
+export interface GovernanceRule {
+  id: string;
+  field: string | string[];
+  operator: RuleOperator;
+  threshold?: number | string[];
+  relativeTo?: string;
+  severity: FindingSeverity;
+  message: string;
+  remediation?: string;
+  enabled: boolean;
+  appliesTo: ValidationType[];
+}
+
+export interface GovernanceRulePack {
+  version: number;
+  rules: GovernanceRule[];
+  cadenceRules?: CadenceRule[];
+  contentLint?: ContentLintConfig;
+  calendarRules?: CalendarRules;
+  approvalChains?: ApprovalChain[];
+  reviewSla?: ReviewSlaPolicy;
+  separationOfDuties?: SeparationOfDutiesPolicy;
+  retention?: RetentionPolicy;
+  wrikeSync?: WrikeSyncPolicy;
+}
+
+export interface ValidationFinding {
+  ruleId: string;
+  field?: string;
+  severity: FindingSeverity;
+  message: string;
+  remediation?: string;
+  overrideId?: string;
+}
+
+export interface GovernanceOverride {
+  id: string;
+  ruleId: string;
+  justification: string;
+  expiresAt: string;
+  grantedBy: string;
+  grantedAt: string;
+  revokedAt?: string;
+  revokedBy?: string;
+}
+
+const ALL_VALIDATION_TYPES: ValidationType[] = ['draft', 'preview', 'publish'];
+
+export const GovernanceRuleSchema = z.object({
+  id: z.string().min(1),
+  field: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]),
+  operator: z.enum([
+    'required',
+    'futureDate',
+    'maxLength',
+    'min',
+    'max',
+    'containsAny',
+    'minDaysFrom',
+    'maxDaysFrom',
+  ]),
+  threshold: z.union([z.number(), z.array(z.string())]).optional(),
+  relativeTo: z.string().optional(),
+  // Packs published before findings were structured used error/warning
+  severity: z.preprocess(
+    value => (value === 'error' ? 'block' : value === 'warning' ? 'warn' : value),
+    z.enum(['block', 'warn', 'info'])
+  ),
+  message: z.string().min(1),
+  remediation: z.string().optional(),
+  enabled: z.boolean().default(true),
+  appliesTo: z.array(z.enum(['draft', 'preview', 'publish'])).default(ALL_VALIDATION_TYPES),
+});
+
+export const GovernanceRulePackSchema = z.object({
+  version: z.number().int().nonnegative(),
+  rules: z.array(GovernanceRuleSchema),
+  cadenceRules: z.array(CadenceRuleSchema).optional(),
+  contentLint: ContentLintConfigSchema.optional(),
+  calendarRules: CalendarRulesSchema.optional(),
+  approvalChains: z.array(ApprovalChainSchema).optional(),
+  reviewSla: ReviewSlaPolicySchema.optional(),
+  separationOfDuties: SeparationOfDutiesPolicySchema.optional(),
+  retention: RetentionPolicySchema.optional(),
+  wrikeSync: WrikeSyncPolicySchema.optional(),
+});
+
+// Version 0 is reserved for the rules compiled into the functions bundle; it is
+// used whenever no active pack has been published to the governanceRules collection.
+export const BUILTIN_RULE_PACK: GovernanceRulePack = {
+  version: 0,
+  rules: [
+    ...['title', 'description', 'assignedTo', 'dueDate'].map(
+      (field): GovernanceRule => ({
+        id: `required.${field}`,
+        field,
+        operator: 'required',
+        severity: 'block',
+        message: `${field} is required`,
+        remediation: `Fill in ${field} before saving the campaign`,
+        enabled: true,
+        appliesTo: ALL_VALIDATION_TYPES,
+      })
+    ),
+    {
+      id: 'dueDate.future',
+      field: 'dueDate',
+      operator: 'futureDate',
+      severity: 'block',
+      message: 'Due date must be in the future',
+      remediation: 'Pick a due date after today',
+      enabled: true,
+      appliesTo: ALL_VALIDATION_TYPES,
+    },
+    {
+      id: 'title.maxLength',
+      field: 'title',
+      operator: 'maxLength',
+      threshold: 100,
+      severity: 'block',
+      message: 'Title must be 100 characters or less',
+      remediation: 'Shorten the title to {threshold} characters or fewer',
+      enabled: true,
+      appliesTo: ALL_VALIDATION_TYPES,
+    },
+    {
+      id: 'description.maxLength',
+      field: 'description',
+      operator: 'maxLength',
+      threshold: 1000,
+      severity: 'warn',
+      message: 'Description is quite long, consider shortening for better engagement',
+      remediation: 'Trim the description to {threshold} characters or fewer',
+      enabled: true,
+      appliesTo: ALL_VALIDATION_TYPES,
+    },
+    {
+      id: 'budget.nonNegative',
+      field: 'budget',
+      operator: 'min',
+      threshold: 0,
+      severity: 'block',
+      message: 'Budget cannot be negative',
+      remediation: 'Enter a budget of 0 or more',
+      enabled: true,
+      appliesTo: ALL_VALIDATION_TYPES,
+    },
+    {
+      id: 'budget.recommendedMax',
+      field: 'budget',
+      operator: 'max',
+      threshold: 1000000,
+      severity: 'warn',
+      message: 'Budget exceeds recommended maximum for single campaign',
+      remediation: 'Split the spend across several campaigns or confirm with finance',
+      enabled: true,
+      appliesTo: ALL_VALIDATION_TYPES,
+    },
+    {
+      id: 'timeline.minDays',
+      field: 'dueDate',
+      operator: 'minDaysFrom',
+      relativeTo: 'createdAt',
+      threshold: 1,
+      severity: 'block',
+      message: 'Campaign timeline must be at least 1 day',
+      remediation: 'Move the due date at least {threshold} day after creation',
+      enabled: true,
+      appliesTo: ALL_VALIDATION_TYPES,
+    },
+    {
+      id: 'timeline.maxDays',
+      field: 'dueDate',
+      operator: 'maxDaysFrom',
+      relativeTo: 'createdAt',
+      threshold: 365,
+      severity: 'warn',
+      message: 'Campaign timeline exceeds 1 year, consider breaking into smaller campaigns',
+      remediation: 'Break the work into campaigns shorter than {threshold} days',
+      enabled: true,
+      appliesTo: ALL_VALIDATION_TYPES,
+    },
+  ],
+  cadenceRules: [
+    {
+      id: 'cadence.email.weekly',
+      scope: { channel: 'Email' },
+      per: ['programId'],
+      maxCount: 3,
+      windowDays: 7,
+      severity: 'warn',
+      message:
+        '{count} Email sends within {windowDays} days for this program exceeds the cap of {maxCount}',
+      remediation: 'Move one of the Email sends outside the {windowDays}-day window',
+      enabled: true,
+    },
+  ],
+  // Reviews that match no chain fall back to DEFAULT_APPROVAL_CHAIN
+  approvalChains: [
+    {
+      id: 'chain.highBudget',
+      name: 'High budget',
+      match: { minBudget: 250000 },
+      stages: [
+        { id: 'content', name: 'Content review', approverRoles: ['reviewer', 'admin'] },
+        { id: 'manager', name: 'Manager sign-off', approverRoles: ['manager', 'admin'] },
+      ],
+    },
+  ],
+};
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export function getFieldValue(data: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value && typeof value === 'object') {
+      return (value as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, data);
+}
+
+function interpolate(
+  template: string,
+  rule: GovernanceRule,
+  field: string,
+  match?: string
+): string {
+  return template
+    .replace(/\{field\}/g, field)
+    .replace(/\{threshold\}/g, String(rule.threshold ?? ''))
+    .replace(/\{match\}/g, match ?? '');
+}
+
+function isBlank(value: unknown): boolean {
+  return !value || (typeof value === 'string' && !value.trim());
+}
+
+export function evaluateRule(
+  rule: GovernanceRule,
+  campaignData: Record<string, unknown>,
+  now: Date = new Date()
+): ValidationFinding[] {
+  const finding = (field: string, match?: string): ValidationFinding => {
+    const result: ValidationFinding = {
+      ruleId: rule.id,
+      field,
+      severity: rule.severity,
+      message: interpolate(rule.message, rule, field, match),
+    };
+    if (rule.remediation) {
+      result.remediation = interpolate(rule.remediation, rule, field, match);
+    }
+    return result;
+  };
+
+  const fields = Array.isArray(rule.field) ? rule.field : [rule.field];
+
+  return fields.flatMap(field => {
+    const value = getFieldValue(campaignData, field);
+
+    switch (rule.operator) {
+      case 'required':
+        return isBlank(value) ? [finding(field)] : [];
+
+      case 'futureDate': {
+        if (isBlank(value)) return [];
+        const date = toDate(value);
+        return date && date <= now ? [finding(field)] : [];
+      }
+
+      case 'maxLength':
+        return typeof value === 'string' &&
+          typeof rule.threshold === 'number' &&
+          value.length > rule.threshold
+          ? [finding(field)]
+          : [];
+
+      case 'min':
+        return typeof value === 'number' &&
+          typeof rule.threshold === 'number' &&
+          value < rule.threshold
+          ? [finding(field)]
+          : [];
+
+      case 'max':
+        return typeof value === 'number' &&
+          typeof rule.threshold === 'number' &&
+          value > rule.threshold
+          ? [finding(field)]
+          : [];
+
+      case 'containsAny': {
+        if (!Array.isArray(rule.threshold) || typeof value !== 'string') return [];
+        const content = value.toLowerCase();
+        return rule.threshold
+          .filter(word => content.includes(word.toLowerCase()))
+          .map(word => finding(field, word));
+      }
+
+      case 'minDaysFrom':
+      case 'maxDaysFrom': {
+        if (typeof rule.threshold !== 'number') return [];
+        const date = toDate(value);
+        if (!date) return [];
+        const from =
+          (rule.relativeTo && toDate(getFieldValue(campaignData, rule.relativeTo))) || now;
+        const days = Math.ceil((date.getTime() - from.getTime()) / MS_PER_DAY);
+        const breached =
+          rule.operator === 'minDaysFrom' ? days < rule.threshold : days > rule.threshold;
+        return breached ? [finding(field)] : [];
+      }
+
+      default:
+        return [];
+    }
+  });
+}
+
+/**
+ * Rules judged against the current time rather than other campaign fields.
+ * They only make sense while a campaign is still being planned.
+ */
+export function isTimeRelativeRule(rule: GovernanceRule): boolean {
+  return (
+    rule.operator === 'futureDate' ||
+    ((rule.operator === 'minDaysFrom' || rule.operator === 'maxDaysFrom') && !rule.relativeTo)
+  );
+}
+
+export function evaluateRulePack(
+  pack: GovernanceRulePack,
+  campaignData: Record<string, unknown>,
+  validationType: ValidationType,
+  now: Date = new Date()
+): ValidationFinding[] {
+  const ruleFindings = pack.rules
+    .filter(rule => rule.enabled && rule.appliesTo.includes(validationType))
+    .flatMap(rule => evaluateRule(rule, campaignData, now));
+
+  // Content lint follows the pack's own scoping; a pack without a contentLint
+  // section gets the built-in policy, and `enabled: false` switches it off
+  const lint = pack.contentLint ?? DEFAULT_CONTENT_LINT;
+
+  return [
+    ...ruleFindings,
+    ...(contentLintApplies(lint, validationType)
+      ? lintContent(lint, getLintableContent(campaignData))
+      : []),
+    ...(pack.calendarRules
+      ? evaluateCalendarRules(pack.calendarRules, getCampaignDatedItems(campaignData))
+      : []),
+  ];
+}
+
+/**
+ * Pick the copy fields the content linter checks out of a campaign or activity
+ */
+export function getLintableContent(data: Record<string, unknown>): LintableContent {
+  const text = (path: string): string | undefined => {
+    const value = getFieldValue(data, path);
+    return typeof value === 'string' ? value : undefined;
+  };
+
+  const content: LintableContent = {
+    fields: {
+      title: text('title'),
+      description: text('description'),
+      [SUBJECT_LINE_FIELD]: text(SUBJECT_LINE_FIELD),
+    },
+  };
+
+  const channel = text('channel');
+  if (channel) content.channel = channel;
+
+  const hashtags = getFieldValue(data, HASHTAGS_FIELD);
+  if (Array.isArray(hashtags)) {
+    content.hashtags = hashtags.filter((tag): tag is string => typeof tag === 'string');
+  }
+
+  return content;
+}
+
+export function hasBlockingFindings(findings: ValidationFinding[]): boolean {
+  return findings.some(finding => finding.severity === 'block');
+}
+
+export function isOverrideLive(override: GovernanceOverride, now: Date = new Date()): boolean {
+  const expiresAt = toDate(override.expiresAt);
+  return !override.revokedAt && expiresAt !== null && expiresAt > now;
+}
+
+// Permission checks guard who may act, not what the campaign contains, so they
+// can never be waived by an override.
+export function isOverridableRule(ruleId: string): boolean {
+  return !ruleId.startsWith('permissions.');
+}
+
+/**
+ * Severity of the pack rule with this id, or null when the pack has none. Covers
+ * the rules evaluateRulePack reports: field rules, content lint phrases and
+ * claims, and calendar rules.
+ */
+export function findRuleSeverity(pack: GovernanceRulePack, ruleId: string): FindingSeverity | null {
+  const lint = pack.contentLint ?? DEFAULT_CONTENT_LINT;
+  const rules: Array<{ id: string; severity: FindingSeverity }> = [
+    ...pack.rules.filter(rule => rule.enabled),
+    ...lint.bannedPhrases,
+    ...lint.claimDisclaimers,
+    ...(pack.calendarRules?.blackouts ?? []).filter(rule => rule.enabled),
+    ...(pack.calendarRules?.launchWindows ?? []).filter(rule => rule.enabled),
+  ];
+  return rules.find(rule => rule.id === ruleId)?.severity ?? null;
+}
+
+export function applyOverrides(
+  findings: ValidationFinding[],
+  overrides: GovernanceOverride[],
+  now: Date = new Date()
+): ValidationFinding[] {
+  const live = overrides.filter(
+    override => isOverridableRule(override.ruleId) && isOverrideLive(override, now)
+  );
+
+  return findings.map(finding => {
+    const override = live.find(candidate => candidate.ruleId === finding.ruleId);
+    if (!override || finding.severity !== 'block') {
+      return finding;
+    }
+
+    return {
+      ...finding,
+      severity: 'warn',
+      message: `${finding.message} (overridden until ${override.expiresAt})`,
+      overrideId: override.id,
+    };
+  });
+}
+
+export function countBySeverity(findings: ValidationFinding[]): Record<FindingSeverity, number> {
+  return findings.reduce<Record<FindingSeverity, number>>(
+    (counts, finding) => {
+      counts[finding.severity] += 1;
+      return counts;
+    },
+    { block: 0, warn: 0, info: 0 }
+  );
+}
+
+export type ComplianceCategory = 'contentPolicy' | 'businessRules' | 'userPermissions';
+
+export type ComplianceStatus = 'compliant' | 'warnings' | 'non_compliant';
+
+export interface ComplianceSection {
+  status: ComplianceStatus;
+  issues: ValidationFinding[];
+}
+
+const CATEGORY_PREFIXES: Array<[string, ComplianceCategory]> = [
+  ['content.', 'contentPolicy'],
+  ['title.', 'contentPolicy'],
+  ['description.', 'contentPolicy'],
+  ['permissions.', 'userPermissions'],
+];
+
+// Rules authored in custom packs fall back to business rules unless their id
+// uses one of the well-known prefixes above.
+export function getComplianceCategory(ruleId: string): ComplianceCategory {
+  const match = CATEGORY_PREFIXES.find(([prefix]) => ruleId.startsWith(prefix));
+  return match ? match[1] : 'businessRules';
+}
+
+export function getComplianceStatus(findings: ValidationFinding[]): ComplianceStatus {
+  if (hasBlockingFindings(findings)) return 'non_compliant';
+  return findings.some(finding => finding.severity === 'warn') ? 'warnings' : 'compliant';
+}
+
+export function summarizeCompliance(
+  findings: ValidationFinding[]
+): Record<ComplianceCategory, ComplianceSection> {
+  const categories: ComplianceCategory[] = ['contentPolicy', 'businessRules', 'userPermissions'];
+
+  return categories.reduce(
+    (sections, category) => {
+      const issues = findings.filter(finding => getComplianceCategory(finding.ruleId) === category);
+      sections[category] = { status: getComplianceStatus(issues), issues };
+      return sections;
+    },
+    {} as Record<ComplianceCategory, ComplianceSection>
+  );
+}
@@ -0,0 +1,71 @@
+import * as admin from 'firebase-admin';
+import * as crypto from 'crypto';
+import { stableStringify } from './auditHash';
+
+// Stored results are kept long enough to cover client retries; a Firestore TTL
+// policy on expiresAt removes them afterwards
+export const IDEMPOTENCY_TTL_HOURS = 24;
+
+export class IdempotencyKeyReuseError extends Error {
+  constructor(readonly key: string) {
+    super(`Idempotency key ${key} was already used for a different request`);
+    this.name = 'IdempotencyKeyReuseError';
+  }
+}
+
+/**
+ * Fingerprint of a request payload, independent of key order, so a retried
+ * call can be told apart from a different call that reuses the same key.
+ */
+export function requestFingerprint(request: unknown): string {
+  return crypto.createHash('sha256').update(stableStringify(request)).digest('hex');
+}
+
+// Keys are scoped to the caller and the callable so clients cannot collide
+export function idempotencyDocId(callable: string, uid: string, key: string): string {
+  return crypto.createHash('sha256').update(`${callable}:${uid}:${key}`).digest('hex');
+}
+
+/**
+ * Run a state change in a Firestore transaction. With an idempotency key the
+ * first result is stored alongside the change, and retries of the same
+ * request return it without applying the change again.
+ */
+export async function runIdempotentTransaction<T>(
+  options: { callable: string; uid: string; key: string | undefined; request: unknown },
+  work: (transaction: admin.firestore.Transaction) => Promise<T>
+): Promise<T> {
+  const db = admin.firestore();
+  const { callable, uid, key, request } = options;
+
+  if (!key) {
+    return db.runTransaction(work);
+  }
+
+  const keyRef = db.collection('idempotencyKeys').doc(idempotencyDocId(callable, uid, key));
+  const fingerprint = requestFingerprint(request);
+
+  return db.runTransaction(async transaction => {
+    const keyDoc = await transaction.get(keyRef);
+    if (keyDoc.exists) {
+      const stored = keyDoc.data() ?? {};
+      if (stored['fingerprint'] !== fingerprint) {
+        throw new IdempotencyKeyReuseError(key);
+      }
+      return stored['result'] as T;
+    }
+
+    const result = await work(transaction);
+    transaction.set(keyRef, {
+      callable,
+      uid,
+      fingerprint,
+      result,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      expiresAt: admin.firestore.Timestamp.fromMillis(
+        Date.now() + IDEMPOTENCY_TTL_HOURS * 60 * 60 * 1000
+      ),
+    });
+    return result;
+  });
+}
@@ -0,0 +1,88 @@
+import { z } from 'zod';
+
+// Collections the retention job manages. Governance entries are archived, the
+// others are deleted once they age out.
+export const RETENTION_COLLECTIONS = [
+  'governance',
+  'telemetry',
+  'notifications',
+  'ingestionQueue',
+] as const;
+
+export type RetentionCollection = (typeof RETENTION_COLLECTIONS)[number];
+
+export interface RetentionPolicy {
+  // Days a record stays live, by collection; null keeps it live forever
+  days: Record<RetentionCollection, number | null>;
+}
+
+export type LegalHoldSubject = 'campaign' | 'user';
+
+// Set on a campaign or user doc while it is under hold; removed on release
+export interface LegalHold {
+  active: true;
+  reason: string;
+  placedBy: string;
+  placedAt: string;
+}
+
+// Ids of campaigns and users under legal hold
+export interface LegalHolds {
+  campaigns: Set<string>;
+  users: Set<string>;
+}
+
+const retentionDays = z.number().int().positive().nullable();
+
+export const RetentionPolicySchema = z.object({
+  days: z.object({
+    governance: retentionDays,
+    telemetry: retentionDays,
+    notifications: retentionDays,
+    ingestionQueue: retentionDays,
+  }),
+});
+
+export const DEFAULT_RETENTION: RetentionPolicy = {
+  days: {
+    governance: 365,
+    telemetry: 90,
+    notifications: 90,
+    // Completed and failed tasks only; pending work is never removed
+    ingestionQueue: 7,
+  },
+};
+
+// Fields that tie a record to a campaign or a user
+const CAMPAIGN_FIELDS = ['campaignId', 'resourceId'];
+const USER_FIELDS = ['userId', 'uid'];
+
+/**
+ * True when a record belongs to a campaign or user under legal hold, in which
+ * case the retention job must keep it. `resourceId` on governance entries may
+ * name a campaign or a user, so it is checked against both.
+ */
+export function isUnderLegalHold(record: Record<string, unknown>, holds: LegalHolds): boolean {
+  const matches = (fields: string[], ids: Set<string>) =>
+    fields.some(field => {
+      const value = record[field];
+      return typeof value === 'string' && ids.has(value);
+    });
+
+  return (
+    matches(CAMPAIGN_FIELDS, holds.campaigns) ||
+    matches(USER_FIELDS, holds.users) ||
+    matches(['resourceId'], holds.users)
+  );
+}
+
+/**
+ * Start of the oldest UTC day whose records are still live: anything older
+ * than this has aged out.
+ */
+export function retentionCutoff(now: Date, days: number): Date {
+  const cutoff = new Date(now);
+  cutoff.setUTCHours(0, 0, 0, 0);
+  cutoff.setUTCDate(cutoff.getUTCDate() - days);
+  return cutoff;
+}
@@ -0,0 +1,313 @@
+import { HttpsError } from 'firebase-functions/v2/https';
+import * as admin from 'firebase-admin';
+import { openAuditLedger } from './auditLedger';
+import {
+  ReviewStage,
+  applyStageDecision,
+  getReviewStages,
+  isStageApprover,
+} from './approvalChains';
+import { ReviewComment, getReviewComments, getReviewSubmissions } from './reviewThreads';
+import { ReviewPriority, ReviewSlaPolicy, startReviewSla } from './reviewSla';
+import {
+  DutyConflict,
+  SeparationOfDutiesPolicy,
+  checkSeparationOfDuties,
+  confirmDutyException,
+  getPendingException,
+  requestDutyException,
+} from './separationOfDuties';
+import { CAMPAIGN_TRANSITIONS, applyLifecycleEvent } from '../shared/campaignLifecycle';
+
+export type ReviewDecisionType = 'approve' | 'reject' | 'request_changes';
+
+export interface ReviewDecisionInput {
+  uid: string;
+  userRoles: Record<string, boolean>;
+  campaignId: string;
+  reviewId: string;
+  approvalType: ReviewDecisionType;
+  reason: string;
+  comments: Array<{ field?: string | undefined; message: string }>;
+  dutyPolicy: SeparationOfDutiesPolicy;
+  slaPolicy: ReviewSlaPolicy;
+  // Extra metadata merged into every audit record the decision writes
+  auditMetadata?: Record<string, unknown>;
+}
+
+export interface ReviewDecisionResult {
+  success: boolean;
+  newStatus: string;
+  commentIds: string[];
+  awaitingSecondSignOff?: boolean;
+  stage: { id: string; name: string; index: number; total: number };
+  nextStage?: { id: string; name: string };
+}
+
+/**
+ * Record one decision on the current stage of a review inside a transaction.
+ * Reads and writes share the transaction, so concurrent decisions cannot both
+ * see the review as pending. Used by approveCampaign and bulkReviewDecision.
+ */
+export async function decideReview(
+  transaction: admin.firestore.Transaction,
+  input: ReviewDecisionInput
+): Promise<ReviewDecisionResult> {
+  const {
+    uid,
+    userRoles,
+    campaignId,
+    reviewId,
+    approvalType,
+    reason,
+    comments,
+    dutyPolicy,
+    slaPolicy,
+    auditMetadata = {},
+  } = input;
+  const db = admin.firestore();
+  const reviewRef = db.collection('governance').doc(reviewId);
+  const campaignRef = db.collection('campaigns').doc(campaignId);
+
+  const reviewDoc = await transaction.get(reviewRef);
+  if (!reviewDoc.exists) {
+    throw new HttpsError('not-found', 'Review record not found');
+  }
+
+  const reviewData = reviewDoc.data() ?? {};
+
+  if (reviewData['campaignId'] && reviewData['campaignId'] !== campaignId) {
+    throw new HttpsError('failed-precondition', 'Review does not belong to this campaign');
+  }
+
+  // Check if review is still pending
+  if (reviewData['status'] !== 'pending') {
+    throw new HttpsError('failed-precondition', 'Review has already been processed');
+  }
+
+  const campaignDoc = await transaction.get(campaignRef);
+  if (!campaignDoc.exists) {
+    throw new HttpsError('not-found', 'Campaign not found');
+  }
+
+  const campaignData = campaignDoc.data() ?? {};
+  // Opened before the first write; it reads the audit chain head
+  const ledger = await openAuditLedger(transaction);
+  // Every decision needs the campaign in review; the status applies on the final one
+  const targetStatus = applyLifecycleEvent(campaignData, approvalType);
+
+  const stages = getReviewStages(reviewData);
+  const currentStage = (reviewData['currentStage'] as number | undefined) ?? 0;
+  const stage = stages[currentStage];
+  if (!stage) {
+    throw new HttpsError('failed-precondition', 'Review has no stage awaiting a decision');
+  }
+
+  if (!isStageApprover(stage, uid, userRoles)) {
+    throw new HttpsError(
+      'permission-denied',
+      `User is not in the approver pool for the ${stage.name} stage`
+    );
+  }
+
+  // Comments are anchored to the submission round they were left on
+  const submissions = getReviewSubmissions(reviewData);
+  const round = Math.max(submissions.length, 1);
+  const now = new Date().toISOString();
+  const newComments: ReviewComment[] = comments.map(comment => ({
+    id: db.collection('governance').doc().id,
+    round,
+    stageId: stage.id,
+    ...(comment.field ? { field: comment.field } : {}),
+    message: comment.message,
+    authorId: uid,
+    createdAt: now,
+  }));
+  const commentsUpdate =
+    newComments.length > 0 ? { comments: [...getReviewComments(reviewData), ...newComments] } : {};
+  const stageSummary = {
+    id: stage.id,
+    name: stage.name,
+    index: currentStage,
+    total: stages.length,
+  };
+
+  // Separation of duties constrains approvals only; any approver may reject or send back
+  let decidedStages = stages;
+  let dutyConflicts: DutyConflict[] = [];
+  if (approvalType === 'approve') {
+    const submitters = [
+      reviewData['submittedBy'] as string | undefined,
+      ...submissions.map(submission => submission.submittedBy),
+    ].filter((submitter): submitter is string => Boolean(submitter));
+    const createdBy = campaignData['createdBy'] ?? campaignData['owner_id'];
+
+    const duty = checkSeparationOfDuties(dutyPolicy, {
+      uid,
+      roles: userRoles,
+      submitters,
+      ...(typeof createdBy === 'string' ? { createdBy } : {}),
+      stages,
+      currentStage,
+    });
+
+    if (duty.kind === 'denied') {
+      throw new HttpsError('permission-denied', duty.message, {
+        conflicts: duty.conflicts,
+      });
+    }
+
+    dutyConflicts = duty.conflicts;
+    const replaceStage = (replacement: ReviewStage) =>
+      stages.map((candidate, index) => (index === currentStage ? replacement : candidate));
+
+    if (duty.kind === 'secondSignOffRequired') {
+      // The stage stays pending until an independent approver confirms
+      transaction.update(reviewRef, {
+        stages: replaceStage(requestDutyException(stage, uid, duty.conflicts, reason)),
+        ...commentsUpdate,
+      });
+
+      transaction.set(db.collection('telemetry').doc(), {
+        event: 'review_duty_exception_requested',
+        userId: uid,
+        campaignId,
+        reviewId,
+        stageId: stage.id,
+        conflicts: duty.conflicts,
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      ledger.append({
+        action: 'review_duty_exception_requested',
+        resourceId: campaignId,
+        userId: uid,
+        metadata: {
+          ...auditMetadata,
+          reviewId,
+          stageId: stage.id,
+          stageName: stage.name,
+          conflicts: duty.conflicts,
+          reason,
+        },
+      });
+
+      return {
+        success: true,
+        newStatus: 'in-review',
+        commentIds: newComments.map(comment => comment.id),
+        awaitingSecondSignOff: true,
+        stage: stageSummary,
+      };
+    }
+
+    if (duty.kind === 'exception') {
+      decidedStages = replaceStage(requestDutyException(stage, uid, duty.conflicts, reason));
+    } else if (getPendingException(stage)) {
+      decidedStages = replaceStage(confirmDutyException(stage, uid));
+    }
+  }
+
+  const decision = applyStageDecision(decidedStages, currentStage, approvalType, uid, reason);
+  const finalDecision = decision.outcome !== 'advanced';
+  const reviewStatus = decision.outcome === 'advanced' ? 'pending' : decision.outcome;
+  // Requested changes send the campaign back to the editor as a draft
+  const newStatus = finalDecision ? targetStatus : 'in-review';
+
+  // Each newly opened stage gets a fresh SLA clock; decided reviews stop being checked
+  const priority = (reviewData['priority'] as ReviewPriority | undefined) ?? 'medium';
+  const slaUpdate = finalDecision
+    ? { 'sla.nextCheckAt': null }
+    : { sla: startReviewSla(slaPolicy, priority) };
+
+  // Update review record; it only leaves 'pending' once the chain is decided
+  transaction.update(reviewRef, {
+    stages: decision.stages,
+    currentStage: decision.currentStage,
+    ...slaUpdate,
+    ...commentsUpdate,
+    ...(finalDecision
+      ? {
+          status: reviewStatus,
+          reviewedBy: uid,
+          reviewedAt: admin.firestore.FieldValue.serverTimestamp(),
+          reason,
+        }
+      : {}),
+  });
+
+  // Campaign status only changes on the final decision
+  if (finalDecision) {
+    transaction.update(campaignRef, {
+      status: newStatus,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      lastReviewDecision: admin.firestore.FieldValue.serverTimestamp(),
+      reviewDecision: approvalType,
+      reviewReason: reason,
+      reviewId,
+    });
+  }
+
+  const nextStage = finalDecision ? undefined : decision.stages[decision.currentStage];
+
+  // Log approval/rejection
+  transaction.set(db.collection('telemetry').doc(), {
+    event: finalDecision
+      ? CAMPAIGN_TRANSITIONS[approvalType].telemetryEvent
+      : 'review_stage_approve',
+    userId: uid,
+    campaignId,
+    reviewId,
+    stageId: stage.id,
+    stageIndex: currentStage,
+    round,
+    commentCount: newComments.length,
+    reason,
+    timestamp: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  // Every stage decision is its own audit record
+  ledger.append({
+    action: `review_stage_${approvalType}`,
+    resourceId: campaignId,
+    userId: uid,
+    metadata: {
+      ...auditMetadata,
+      reviewId,
+      chainId: reviewData['chainId'] ?? null,
+      stageId: stage.id,
+      stageName: stage.name,
+      stageIndex: currentStage,
+      stageCount: stages.length,
+      round,
+      reason,
+      outcome: decision.outcome,
+      dutyConflicts,
+      dutyException: decision.stages[currentStage]?.dutyException ?? null,
+      commentedFields: newComments.flatMap(comment => (comment.field ? [comment.field] : [])),
+    },
+  });
+
+  if (finalDecision) {
+    ledger.append({
+      action: CAMPAIGN_TRANSITIONS[approvalType].auditAction,
+      resourceId: campaignId,
+      userId: uid,
+      metadata: {
+        ...auditMetadata,
+        reviewId,
+        reason,
+        previousStatus: campaignData['status'] ?? 'draft',
+        newStatus,
+      },
+    });
+  }
+
+  return {
+    success: true,
+    newStatus,
+    commentIds: newComments.map(comment => comment.id),
+    stage: stageSummary,
+    ...(nextStage ? { nextStage: { id: nextStage.id, name: nextStage.name } } : {}),
+  };
+}
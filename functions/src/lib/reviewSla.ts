@@ -0,0 +1,149 @@
+import { z } from 'zod';
+import type { ReviewStage } from './approvalChains';
+
+export type ReviewPriority = 'low' | 'medium' | 'high';
+export type SlaState = 'on_track' | 'at_risk' | 'breached';
+
+export interface ReviewSlaPolicy {
+  // Hours each stage may wait for a decision, by review priority
+  targetHours: Record<ReviewPriority, number>;
+  // Share of the target after which a review shows as at risk
+  atRiskRatio: number;
+  // Backup approvers added to the waiting stage each time it is escalated
+  escalateTo: {
+    approverRoles: string[];
+    approverUids?: string[];
+  };
+  maxEscalations: number;
+}
+
+// SLA clock as tracked on a review record; it restarts whenever a new stage opens
+export interface ReviewSla {
+  priority: ReviewPriority;
+  targetHours: number;
+  startedAt: string;
+  dueAt: string;
+  // When the escalation job should next look at the review; null once there is nothing left to do
+  nextCheckAt: string | null;
+  escalationLevel: number;
+  breachedAt?: string;
+  escalatedAt?: string;
+}
+
+export interface SlaEscalationResult {
+  sla: ReviewSla;
+  stage: ReviewStage;
+  newlyBreached: boolean;
+  escalated: boolean;
+}
+
+export const ReviewSlaPolicySchema = z.object({
+  targetHours: z.object({
+    low: z.number().positive(),
+    medium: z.number().positive(),
+    high: z.number().positive(),
+  }),
+  atRiskRatio: z.number().min(0).max(1).default(0.75),
+  escalateTo: z.object({
+    approverRoles: z.array(z.string()).default([]),
+    approverUids: z.array(z.string()).optional(),
+  }),
+  maxEscalations: z.number().int().nonnegative().default(1),
+});
+
+export const DEFAULT_REVIEW_SLA: ReviewSlaPolicy = {
+  targetHours: { high: 8, medium: 24, low: 72 },
+  atRiskRatio: 0.75,
+  escalateTo: { approverRoles: ['manager', 'admin'] },
+  maxEscalations: 2,
+};
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+function addHours(date: Date, hours: number): Date {
+  return new Date(date.getTime() + hours * MS_PER_HOUR);
+}
+
+export function startReviewSla(
+  policy: ReviewSlaPolicy,
+  priority: ReviewPriority,
+  now: Date = new Date()
+): ReviewSla {
+  const targetHours = policy.targetHours[priority];
+  const dueAt = addHours(now, targetHours).toISOString();
+
+  return {
+    priority,
+    targetHours,
+    startedAt: now.toISOString(),
+    dueAt,
+    nextCheckAt: dueAt,
+    escalationLevel: 0,
+  };
+}
+
+export function getSlaState(
+  sla: ReviewSla,
+  atRiskRatio: number,
+  now: Date = new Date()
+): { state: SlaState; remainingMs: number } {
+  const started = new Date(sla.startedAt).getTime();
+  const due = new Date(sla.dueAt).getTime();
+  const remainingMs = due - now.getTime();
+
+  if (remainingMs <= 0) return { state: 'breached', remainingMs };
+  const elapsedRatio = (now.getTime() - started) / Math.max(due - started, 1);
+  return { state: elapsedRatio >= atRiskRatio ? 'at_risk' : 'on_track', remainingMs };
+}
+
+/**
+ * Handle an overdue review: record the breach and, while escalations remain,
+ * widen the waiting stage's approver pool with the policy's backup approvers.
+ * The stage gets another full target before the next escalation.
+ */
+export function escalateOverdueReview(
+  sla: ReviewSla,
+  stage: ReviewStage,
+  policy: ReviewSlaPolicy,
+  now: Date = new Date()
+): SlaEscalationResult {
+  const newlyBreached = !sla.breachedAt;
+  const breached: ReviewSla = { ...sla, breachedAt: sla.breachedAt ?? now.toISOString() };
+
+  if (sla.escalationLevel >= policy.maxEscalations) {
+    return { sla: { ...breached, nextCheckAt: null }, stage, newlyBreached, escalated: false };
+  }
+
+  const approverUids = [
+    ...new Set([...(stage.approverUids ?? []), ...(policy.escalateTo.approverUids ?? [])]),
+  ];
+  const escalatedStage: ReviewStage = {
+    ...stage,
+    approverRoles: [...new Set([...stage.approverRoles, ...policy.escalateTo.approverRoles])],
+    ...(approverUids.length > 0 ? { approverUids } : {}),
+  };
+
+  return {
+    sla: {
+      ...breached,
+      escalationLevel: sla.escalationLevel + 1,
+      escalatedAt: now.toISOString(),
+      nextCheckAt: addHours(now, sla.targetHours).toISOString(),
+    },
+    stage: escalatedStage,
+    newlyBreached,
+    escalated: true,
+  };
+}
+
+/**
+ * Hand the waiting stage to a named reviewer, e.g. when the usual reviewer is
+ * away. The delegate joins the approver pool so they can decide the stage.
+ */
+export function reassignStage(stage: ReviewStage, toUid: string): ReviewStage {
+  return {
+    ...stage,
+    assignee: toUid,
+    approverUids: [...new Set([...(stage.approverUids ?? []), toUid])],
+  };
+}
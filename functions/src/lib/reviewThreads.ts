@@ -0,0 +1,142 @@
+// Campaign fields written by the workflow itself rather than by the editor;
+// they change on every submission and would only add noise to a diff
+const SYSTEM_FIELDS = new Set([
+  'id',
+  'status',
+  'createdAt',
+  'createdBy',
+  'updatedAt',
+  'updatedBy',
+  'lastReviewSubmission',
+  'lastReviewDecision',
+  'reviewDecision',
+  'reviewReason',
+  'reviewId',
+  'wrikeId',
+  'wrikeSyncNeeded',
+  'lastWrikeSync',
+  'lastWrikeExport',
+  'wrikeBaseline',
+]);
+
+export interface ReviewComment {
+  id: string;
+  // Submission round the comment was left on, starting at 1
+  round: number;
+  stageId: string;
+  // Dotted campaign field the comment is anchored to; omitted for general remarks
+  field?: string;
+  message: string;
+  authorId: string;
+  createdAt: string;
+}
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ReviewSubmission {
+  round: number;
+  submittedBy: string;
+  submittedAt: string;
+  snapshot: Record<string, unknown>;
+  // Differences from the previous round; empty for the first submission
+  changes: FieldChange[];
+}
+
+function isTimestamp(value: object): value is { toDate: () => Date } {
+  return typeof (value as { toDate?: unknown }).toDate === 'function';
+}
+
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === 'object') {
+    if (isTimestamp(value)) return value.toDate().toISOString();
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      if (entry !== undefined) result[key] = normalize(entry);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * The editor-owned content of a campaign as it was submitted. Timestamps are
+ * stored as ISO strings so snapshots compare cleanly across rounds.
+ */
+export function snapshotCampaign(campaignData: Record<string, unknown>): Record<string, unknown> {
+  const snapshot: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(campaignData)) {
+    if (SYSTEM_FIELDS.has(key) || value === undefined) continue;
+    snapshot[key] = normalize(value);
+  }
+  return snapshot;
+}
+
+function flatten(value: unknown, prefix: string, into: Map<string, unknown>): void {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [key, entry] of Object.entries(value)) {
+      flatten(entry, prefix ? `${prefix}.${key}` : key, into);
+    }
+    return;
+  }
+  into.set(prefix, value);
+}
+
+/**
+ * Field-level differences between two snapshots, keyed by dotted path so
+ * they line up with the fields review comments are anchored to. Arrays are
+ * compared as whole values.
+ */
+export function diffSnapshots(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): FieldChange[] {
+  const previous = new Map<string, unknown>();
+  const next = new Map<string, unknown>();
+  flatten(before, '', previous);
+  flatten(after, '', next);
+
+  const fields = [...new Set([...previous.keys(), ...next.keys()])].sort();
+  return fields.flatMap(field => {
+    const was = previous.get(field);
+    const now = next.get(field);
+    if (JSON.stringify(was) === JSON.stringify(now)) return [];
+    return [{ field, before: was ?? null, after: now ?? null }];
+  });
+}
+
+/**
+ * Next submission on a review thread, diffed against the latest earlier one
+ */
+export function createSubmission(
+  previous: ReviewSubmission[],
+  campaignData: Record<string, unknown>,
+  submittedBy: string,
+  now: Date = new Date()
+): ReviewSubmission {
+  const snapshot = snapshotCampaign(campaignData);
+  const last = previous[previous.length - 1];
+
+  return {
+    round: (last?.round ?? 0) + 1,
+    submittedBy,
+    submittedAt: now.toISOString(),
+    snapshot,
+    changes: last ? diffSnapshots(last.snapshot, snapshot) : [],
+  };
+}
+
+export function getReviewSubmissions(reviewData: Record<string, unknown>): ReviewSubmission[] {
+  const submissions = reviewData['submissions'];
+  return Array.isArray(submissions) ? (submissions as ReviewSubmission[]) : [];
+}
+
+export function getReviewComments(reviewData: Record<string, unknown>): ReviewComment[] {
+  const comments = reviewData['comments'];
+  return Array.isArray(comments) ? (comments as ReviewComment[]) : [];
+}
@@ -0,0 +1,174 @@
+import { z } from 'zod';
+import type { ReviewStage } from './approvalChains';
+
+export type DutyConflict = 'submitter' | 'creator' | 'consecutiveStage';
+
+export interface SeparationOfDutiesPolicy {
+  blockSubmitter: boolean;
+  blockCreator: boolean;
+  // The approver of the previous stage cannot approve the next one
+  blockConsecutiveStages: boolean;
+  exceptions: {
+    enabled: boolean;
+    // Roles allowed to approve despite a conflict
+    roles: string[];
+    // An independent approver must confirm before the stage is approved
+    requireSecondSignOff: boolean;
+  };
+}
+
+// Exception recorded on a stage when a conflicted approver used it
+export interface DutyException {
+  requestedBy: string;
+  conflicts: DutyConflict[];
+  reason: string;
+  requestedAt: string;
+  confirmedBy?: string;
+  confirmedAt?: string;
+}
+
+export interface DutyContext {
+  uid: string;
+  roles: Record<string, boolean>;
+  // Everyone who submitted a round of this review
+  submitters: string[];
+  createdBy?: string;
+  stages: ReviewStage[];
+  currentStage: number;
+}
+
+export type DutyCheck =
+  | { kind: 'allowed'; conflicts: [] }
+  | { kind: 'denied'; conflicts: DutyConflict[]; message: string }
+  | { kind: 'exception'; conflicts: DutyConflict[] }
+  | { kind: 'secondSignOffRequired'; conflicts: DutyConflict[] };
+
+export const SeparationOfDutiesPolicySchema = z.object({
+  blockSubmitter: z.boolean().default(true),
+  blockCreator: z.boolean().default(true),
+  blockConsecutiveStages: z.boolean().default(true),
+  exceptions: z
+    .object({
+      enabled: z.boolean().default(true),
+      roles: z.array(z.string()).default(['admin']),
+      requireSecondSignOff: z.boolean().default(true),
+    })
+    .default({}),
+});
+
+export const DEFAULT_SEPARATION_OF_DUTIES: SeparationOfDutiesPolicy = {
+  blockSubmitter: true,
+  blockCreator: true,
+  blockConsecutiveStages: true,
+  exceptions: { enabled: true, roles: ['admin'], requireSecondSignOff: true },
+};
+
+const CONFLICT_MESSAGES: Record<DutyConflict, string> = {
+  submitter: 'submitted this review',
+  creator: 'created this campaign',
+  consecutiveStage: 'approved the previous stage',
+};
+
+export function findDutyConflicts(
+  policy: SeparationOfDutiesPolicy,
+  context: DutyContext
+): DutyConflict[] {
+  const { uid, submitters, createdBy, stages, currentStage } = context;
+  const previous = stages[currentStage - 1];
+  const conflicts: DutyConflict[] = [];
+
+  if (policy.blockSubmitter && submitters.includes(uid)) conflicts.push('submitter');
+  if (policy.blockCreator && createdBy === uid) conflicts.push('creator');
+  // An exception requester counts as an approver of the stage they raised it on
+  const previousApprovers = [previous?.decidedBy, previous?.dutyException?.requestedBy];
+  if (
+    policy.blockConsecutiveStages &&
+    previous?.status === 'approved' &&
+    previousApprovers.includes(uid)
+  ) {
+    conflicts.push('consecutiveStage');
+  }
+
+  return conflicts;
+}
+
+export function describeDutyConflicts(conflicts: DutyConflict[]): string {
+  return `Separation of duties: approver ${conflicts.map(c => CONFLICT_MESSAGES[c]).join(' and ')}`;
+}
+
+/**
+ * Decide whether an approval may go ahead. A conflicted approver is refused
+ * unless they hold an exception role; exceptions may then need an independent
+ * second sign-off. The person confirming an exception must be conflict-free
+ * and cannot be the one who raised it.
+ */
+export function checkSeparationOfDuties(
+  policy: SeparationOfDutiesPolicy,
+  context: DutyContext
+): DutyCheck {
+  const conflicts = findDutyConflicts(policy, context);
+  const pending = getPendingException(context.stages[context.currentStage]);
+
+  if (pending) {
+    if (pending.requestedBy === context.uid) {
+      return {
+        kind: 'denied',
+        conflicts,
+        message: 'A second approver must confirm this separation-of-duties exception',
+      };
+    }
+    if (conflicts.length > 0) {
+      return {
+        kind: 'denied',
+        conflicts,
+        message: `${describeDutyConflicts(conflicts)}; exceptions need an independent second sign-off`,
+      };
+    }
+    return { kind: 'allowed', conflicts: [] };
+  }
+
+  if (conflicts.length === 0) return { kind: 'allowed', conflicts: [] };
+
+  const { exceptions } = policy;
+  if (!exceptions.enabled || !exceptions.roles.some(role => context.roles[role])) {
+    return { kind: 'denied', conflicts, message: describeDutyConflicts(conflicts) };
+  }
+
+  return exceptions.requireSecondSignOff
+    ? { kind: 'secondSignOffRequired', conflicts }
+    : { kind: 'exception', conflicts };
+}
+
+export function getPendingException(stage: ReviewStage | undefined): DutyException | null {
+  const exception = stage?.dutyException;
+  return exception && !exception.confirmedBy ? exception : null;
+}
+
+/**
+ * Record a conflicted approval that is waiting for a second sign-off. The
+ * stage stays pending until an independent approver confirms it.
+ */
+export function requestDutyException(
+  stage: ReviewStage,
+  uid: string,
+  conflicts: DutyConflict[],
+  reason: string,
+  now: Date = new Date()
+): ReviewStage {
+  return {
+    ...stage,
+    dutyException: { requestedBy: uid, conflicts, reason, requestedAt: now.toISOString() },
+  };
+}
+
+export function confirmDutyException(
+  stage: ReviewStage,
+  uid: string,
+  now: Date = new Date()
+): ReviewStage {
+  if (!stage.dutyException) return stage;
+  return {
+    ...stage,
+    dutyException: { ...stage.dutyException, confirmedBy: uid, confirmedAt: now.toISOString() },
+  };
+}
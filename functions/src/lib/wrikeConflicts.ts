@@ -0,0 +1,170 @@
+import { z } from 'zod';
+
+// Fields kept in step with Wrike, named as they are on campaign and activity
+// docs. Campaign status follows the review lifecycle, so only activities sync it.
+export const WRIKE_SYNC_FIELDS = ['status', 'dueDate', 'assignedTo'] as const;
+
+export type WrikeSyncField = (typeof WRIKE_SYNC_FIELDS)[number];
+
+// Activity statuses mirror Wrike's task statuses
+export const ACTIVITY_STATUSES = ['active', 'completed', 'deferred', 'cancelled'] as const;
+
+export type ActivityStatus = (typeof ACTIVITY_STATUSES)[number];
+
+// What happens when a field changed in both Vizzy and Wrike since the last sync
+export type WrikeConflictPolicy = 'vizzy_wins' | 'wrike_wins' | 'manual';
+
+export interface WrikeSyncPolicy {
+  conflictPolicy: WrikeConflictPolicy;
+  // Per-field exceptions to conflictPolicy
+  fieldPolicies?: Partial<Record<WrikeSyncField, WrikeConflictPolicy>>;
+}
+
+// Field values as last agreed by both sides; null means the field was empty.
+// A field with no baseline has never been synced.
+export type WrikeSyncValues = Partial<Record<WrikeSyncField, string | null>>;
+
+export interface WrikeFieldConflict {
+  field: WrikeSyncField;
+  baseline: string | null;
+  vizzyValue: string | null;
+  wrikeValue: string | null;
+}
+
+export interface WrikeReconciliation {
+  // Wrike values to write onto the Vizzy doc
+  pull: WrikeSyncValues;
+  // Vizzy values to send to Wrike
+  push: WrikeSyncValues;
+  // Fields left untouched until someone picks a side
+  conflicts: WrikeFieldConflict[];
+  // Baseline to store once pull and push are applied
+  baseline: WrikeSyncValues;
+}
+
+export type WrikeConflictStatus = 'open' | 'resolved';
+
+export type WrikeConflictResolution = 'vizzy' | 'wrike';
+
+// A wrikeConflicts doc, one per record and field
+export interface WrikeConflict extends WrikeFieldConflict {
+  campaignId: string;
+  // Absent for conflicts on the campaign itself
+  activityId: string | null;
+  // Wrike folder id for campaigns, task id for activities
+  wrikeId: string;
+  status: WrikeConflictStatus;
+  detectedAt: string;
+  resolution?: WrikeConflictResolution;
+  resolvedBy?: string;
+  resolvedAt?: string;
+}
+
+const conflictPolicy = z.enum(['vizzy_wins', 'wrike_wins', 'manual']);
+
+export const WrikeSyncPolicySchema = z.object({
+  conflictPolicy,
+  fieldPolicies: z
+    .object({
+      status: conflictPolicy.optional(),
+      dueDate: conflictPolicy.optional(),
+      assignedTo: conflictPolicy.optional(),
+    })
+    .optional(),
+});
+
+export const DEFAULT_WRIKE_SYNC: WrikeSyncPolicy = {
+  conflictPolicy: 'manual',
+};
+
+export function policyForField(
+  policy: WrikeSyncPolicy,
+  field: WrikeSyncField
+): WrikeConflictPolicy {
+  return policy.fieldPolicies?.[field] ?? policy.conflictPolicy;
+}
+
+// Stable id so a conflict that is still open is updated rather than repeated
+export function wrikeConflictId(
+  campaignId: string,
+  activityId: string | null,
+  field: WrikeSyncField
+): string {
+  return `${campaignId}_${activityId ?? 'campaign'}_${field}`;
+}
+
+/**
+ * Three-way merge of one record against its last synced baseline. A field that
+ * changed on one side only is copied to the other; a field that changed on both
+ * sides to different values is settled by the policy or reported as a
+ * conflict. Only fields present in both `vizzy` and `wrike` are compared, so
+ * callers leave out values a side cannot express (e.g. a Wrike assignee with no
+ * Vizzy account).
+ */
+export function reconcileWrikeSync(
+  baseline: WrikeSyncValues,
+  vizzy: WrikeSyncValues,
+  wrike: WrikeSyncValues,
+  policy: WrikeSyncPolicy
+): WrikeReconciliation {
+  const result: WrikeReconciliation = { pull: {}, push: {}, conflicts: [], baseline: {} };
+
+  for (const field of WRIKE_SYNC_FIELDS) {
+    const vizzyValue = vizzy[field];
+    const wrikeValue = wrike[field];
+    if (vizzyValue === undefined || wrikeValue === undefined) continue;
+
+    const base = baseline[field];
+    if (vizzyValue === wrikeValue) {
+      result.baseline[field] = vizzyValue;
+      continue;
+    }
+
+    // Without a baseline neither side can be trusted to be the newer one
+    const vizzyChanged = base === undefined || vizzyValue !== base;
+    const wrikeChanged = base === undefined || wrikeValue !== base;
+
+    let winner: 'vizzy' | 'wrike' | null;
+    if (!wrikeChanged) {
+      winner = 'vizzy';
+    } else if (!vizzyChanged) {
+      winner = 'wrike';
+    } else {
+      const fieldPolicy = policyForField(policy, field);
+      winner =
+        fieldPolicy === 'vizzy_wins' ? 'vizzy' : fieldPolicy === 'wrike_wins' ? 'wrike' : null;
+    }
+
+    if (winner === 'vizzy') {
+      result.push[field] = vizzyValue;
+      result.baseline[field] = vizzyValue;
+    } else if (winner === 'wrike') {
+      result.pull[field] = wrikeValue;
+      result.baseline[field] = wrikeValue;
+    } else {
+      result.conflicts.push({ field, baseline: base ?? null, vizzyValue, wrikeValue });
+      if (base !== undefined) result.baseline[field] = base;
+    }
+  }
+
+  return result;
+}
+
+// Calendar day in UTC, the granularity Wrike keeps due dates at
+export function toWrikeDay(value: Date | null): string | null {
+  return value ? value.toISOString().slice(0, 10) : null;
+}
+
+// UTC midnight of a Wrike day; Vizzy docs keep due dates as that instant
+export function fromWrikeDay(day: string | null): Date | null {
+  if (!day) return null;
+  const date = new Date(`${day}T00:00:00.000Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function toActivityStatus(value: unknown): ActivityStatus | null {
+  const status = typeof value === 'string' ? value.toLowerCase() : '';
+  return (ACTIVITY_STATUSES as readonly string[]).includes(status)
+    ? (status as ActivityStatus)
+    : null;
+}
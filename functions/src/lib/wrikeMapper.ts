@@ -1,3 +1,6 @@
+import { CampaignStatus, normalizeCampaignStatus } from '../shared/campaignLifecycle';
+import { createWrikeIntegration } from '../integrations/wrike';
+
 export interface WrikeMappingOptions {
   campaign: Record<string, unknown>;
   exportType: 'campaign' | 'tasks' | 'timeline';
@@ -70,15 +73,17 @@ export class WrikeMapper {
   }
 
   private mapStatus(status: string): string {
-    const statusMap: Record<string, string> = {
+    const statusMap: Record<CampaignStatus, string> = {
       'draft': 'Draft',
       'in-review': 'In Progress',
       'approved': 'Approved',
+      'rejected': 'Cancelled',
       'active': 'Active',
       'completed': 'Completed',
     };
 
-    return statusMap[status] || 'Draft';
+    const normalized = normalizeCampaignStatus(status);
+    return normalized ? statusMap[normalized] : 'Draft';
   }
 
   private formatDate(dateString: string): string {
@@ -154,21 +159,27 @@ export class WrikeMapper {
     };
   }
 
+  // Current state of a Wrike project; runWrikeSync applies changes to campaigns
   async syncFromWrike(wrikeId: string): Promise<Record<string, unknown>> {
-    // TODO: Implement Wrike API integration to fetch updated data
-    // For now, return mock data
+    const integration = await createWrikeIntegration();
+    if (!integration) {
+      throw new Error('Wrike is not configured; set WRIKE_API_TOKEN and WRIKE_PROJECT_ID');
+    }
+
+    const project = await integration.getProject(wrikeId);
+    if (!project) {
+      throw new Error(`Wrike project ${wrikeId} not found`);
+    }
+
     return {
-      id: wrikeId,
-      title: 'Synced from Wrike',
-      status: 'active',
+      ...project,
       lastSync: new Date().toISOString(),
     };
   }
 
   async validateWrikeConnection(): Promise<boolean> {
-    // TODO: Implement actual Wrike API connection validation
-    // For now, return true for testing
-    return true;
+    const integration = await createWrikeIntegration();
+    return integration ? integration.testConnection() : false;
   }
 }
 
@@ -0,0 +1,96 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+
+// Task events that can change what two-way sync sees, plus comments
+export const WRIKE_WEBHOOK_EVENTS = [
+  'TaskStatusChanged',
+  'TaskDatesChanged',
+  'TaskResponsiblesAdded',
+  'TaskResponsiblesRemoved',
+  'CommentAdded',
+] as const;
+
+export type WrikeWebhookEventType = (typeof WRIKE_WEBHOOK_EVENTS)[number];
+
+// Last delivery the receiver accepted, for the health check
+export const WRIKE_WEBHOOK_STATUS_PATH = 'wrike/webhook';
+
+// Body of the request Wrike sends, with a random X-Hook-Secret, when a webhook
+// with a secret is created; the receiver proves it knows the secret by signing it
+export const WRIKE_HANDSHAKE_REQUEST = 'WebHook secret verification';
+
+// manageWrikeWebhook sets `pendingHandshakeUntil` on the status doc this far
+// ahead before it creates or resumes the webhook
+export const WRIKE_HANDSHAKE_WINDOW_MS = 2 * 60 * 1000;
+
+// The handshake signs a value the caller picks, so answering it at any other
+// time would hand out a valid signature for a forged body
+export function isHandshakeExpected(
+  pendingHandshakeUntil: Date | null,
+  now: Date = new Date()
+): boolean {
+  return pendingHandshakeUntil !== null && pendingHandshakeUntil > now;
+}
+
+export const WrikeWebhookEventSchema = z
+  .object({
+    webhookId: z.string(),
+    eventType: z.string(),
+    taskId: z.string().optional(),
+    commentId: z.string().optional(),
+    eventAuthorId: z.string().optional(),
+    lastUpdatedDate: z.string().optional(),
+  })
+  .passthrough();
+
+export type WrikeWebhookEvent = z.infer<typeof WrikeWebhookEventSchema> & {
+  eventType: WrikeWebhookEventType;
+  taskId: string;
+};
+
+// Hex HMAC-SHA256, the form Wrike uses in X-Hook-Secret
+export function signWrikeWebhook(secret: string, payload: string | Buffer): string {
+  return createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+export function verifyWrikeWebhookSignature(
+  secret: string,
+  rawBody: Buffer,
+  signature: string | undefined
+): boolean {
+  if (!signature) return false;
+  const expected = Buffer.from(signWrikeWebhook(secret, rawBody), 'utf8');
+  const actual = Buffer.from(signature.toLowerCase(), 'utf8');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Events we act on from a delivery. Wrike sends an array and may include event
+ * types the webhook was not registered for; those, and events without a task,
+ * are dropped.
+ */
+export function parseWrikeWebhookEvents(body: unknown): WrikeWebhookEvent[] {
+  const events = z.array(WrikeWebhookEventSchema).parse(body);
+  return events.filter(
+    (event): event is WrikeWebhookEvent =>
+      (WRIKE_WEBHOOK_EVENTS as readonly string[]).includes(event.eventType) &&
+      typeof event.taskId === 'string'
+  );
+}
+
+// Wrike events carry no id of their own and deliveries are retried, so a
+// redelivered event is recognised by what it says happened and when
+export function wrikeEventKey(event: WrikeWebhookEvent): string {
+  return createHash('sha256')
+    .update(
+      [
+        event.webhookId,
+        event.eventType,
+        event.taskId,
+        event.commentId ?? '',
+        event.lastUpdatedDate ?? '',
+      ].join('|')
+    )
+    .digest('hex')
+    .slice(0, 40);
+}
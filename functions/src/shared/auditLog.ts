@@ -0,0 +1,154 @@
+// Audit log shape and service shared by functions, the web app and the Spark
+// app (imported there as '@shared/auditLog'). Keep this module free of imports
+// so it compiles in every build.
+
+export const AUDIT_SOURCES = ['ui', 'chat', 'backend'] as const;
+
+export type AuditSource = (typeof AUDIT_SOURCES)[number];
+
+// Actions clients may write through `writeAuditLog`. The Spark app describes
+// each one in AUDIT_ACTION_CATALOGUE (src/lib/auditActions.ts).
+export const CLIENT_AUDIT_ACTIONS = [
+  'USER_CREATED',
+  'USER_UPDATED',
+  'USER_DELETED',
+  'STORE_IMPORTED_SUMMARY',
+  'PLANNER_ACTIVITY_EXPORTED',
+  'EXPORT_FAILURE',
+  'AI_SIMULATE_RUN',
+  'AI_SIMULATE_APPROVED',
+  'AI_SIMULATE_REJECTED',
+  'AI_RULE_SET',
+  'ACTIVITY_CREATED',
+  'ACTIVITY_UPDATED',
+  'STORE_IMPORTED',
+] as const;
+
+export type ClientAuditAction = (typeof CLIENT_AUDIT_ACTIONS)[number];
+
+// Client entries are stored in the ledger as `client.<action>`, so they can
+// never read as an entry a function wrote, such as a review decision
+export const CLIENT_AUDIT_ACTION_PREFIX = 'client.';
+
+export interface AuditDiff {
+  before: object;
+  after: object;
+}
+
+export interface AuditLog {
+  logId: string;
+  timestamp: string; // ISO 8601
+  userId: string; // actor uid
+  action: string; // e.g. USER_CREATED, review_stage_approve
+  targetId: string; // uid, store, activity or campaign id
+  // Further targets one entry covers, such as each store of an import
+  targetIds?: string[];
+  source: AuditSource;
+  diff: AuditDiff;
+}
+
+export interface AuditLogInput {
+  userId: string;
+  action: string;
+  targetId: string;
+  targetIds?: string[];
+  source: AuditSource;
+  before?: object;
+  after?: object;
+}
+
+export interface AuditLogQuery {
+  limit?: number;
+  cursor?: string | null;
+  // Narrow the log before paging; `listAuditLogs` applies these on the server
+  actor?: string; // uid
+  target?: string; // targetId, or one of targetIds
+  from?: string; // YYYY-MM-DD (UTC), inclusive
+  to?: string; // YYYY-MM-DD (UTC), inclusive
+}
+
+export interface AuditLogPage {
+  logs: AuditLog[]; // newest first
+  nextCursor: string | null; // null once the oldest entry has been returned
+}
+
+/**
+ * Where audit logs are kept. Backends store every entry they are given;
+ * callers page through them with `list` instead of relying on a cap.
+ */
+export interface AuditLogBackend {
+  append(input: AuditLogInput): Promise<AuditLog>;
+  list(query: AuditLogQuery): Promise<AuditLogPage>;
+}
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 50;
+export const MAX_AUDIT_PAGE_SIZE = 200;
+
+export function isAuditSource(value: unknown): value is AuditSource {
+  return typeof value === 'string' && (AUDIT_SOURCES as readonly string[]).includes(value);
+}
+
+// The actor, target and date filters of a query, for backends that filter in memory
+export function matchesAuditLogQuery(log: AuditLog, query: AuditLogQuery): boolean {
+  const day = log.timestamp.slice(0, 10);
+  if (query.actor && log.userId !== query.actor) return false;
+  if (query.target && log.targetId !== query.target && !log.targetIds?.includes(query.target)) {
+    return false;
+  }
+  if (query.from && day < query.from) return false;
+  if (query.to && day > query.to) return false;
+  return true;
+}
+
+export function toAuditDiff(input: Pick<AuditLogInput, 'before' | 'after'>): AuditDiff {
+  return { before: input.before ?? {}, after: input.after ?? {} };
+}
+
+// Matches the shape of Firebase `httpsCallable` functions, so either app can
+// pass its own callables without this module importing the SDK
+export interface AuditLogCallables {
+  writeAuditLog(input: Omit<AuditLogInput, 'userId'>): Promise<{ data: AuditLog }>;
+  listAuditLogs(query: AuditLogQuery): Promise<{ data: AuditLogPage }>;
+}
+
+/**
+ * Backend for production: entries go through the `writeAuditLog` callable
+ * into the hash-chained governance ledger. The server records the signed-in
+ * user as the actor.
+ */
+export function createCallableAuditBackend(callables: AuditLogCallables): AuditLogBackend {
+  return {
+    async append({ userId: _actor, ...input }) {
+      return (await callables.writeAuditLog(input)).data;
+    },
+    async list(query) {
+      return (await callables.listAuditLogs(query)).data;
+    },
+  };
+}
+
+export interface AuditLogService {
+  writeAuditLog(input: AuditLogInput): Promise<AuditLog>;
+  listAuditLogs(query?: AuditLogQuery): Promise<AuditLogPage>;
+  getRecentAuditLogs(count: number): Promise<AuditLog[]>;
+}
+
+export function createAuditLogService(backend: AuditLogBackend): AuditLogService {
+  return {
+    writeAuditLog: input => backend.append(input),
+    listAuditLogs: (query = {}) => backend.list(query),
+    async getRecentAuditLogs(count) {
+      const logs: AuditLog[] = [];
+      let cursor: string | null = null;
+      do {
+        const page = await backend.list({
+          limit: Math.min(count - logs.length, MAX_AUDIT_PAGE_SIZE),
+          cursor,
+        });
+        logs.push(...page.logs);
+        cursor = page.nextCursor;
+      } while (cursor && logs.length < count);
+      return logs.slice(0, count);
+    },
+  };
+}
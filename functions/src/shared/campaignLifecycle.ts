@@ -0,0 +1,180 @@
+// Campaign lifecycle shared by functions and the web app (imported there as
+// '@shared/campaignLifecycle'). Keep this module free of imports so it
+// compiles in both builds.
+
+export const CAMPAIGN_STATUSES = [
+  'draft',
+  'in-review',
+  'approved',
+  'rejected',
+  'active',
+  'completed',
+] as const;
+
+export type CampaignStatus = (typeof CAMPAIGN_STATUSES)[number];
+
+export const CAMPAIGN_STATUS_LABELS: Record<CampaignStatus, string> = {
+  draft: 'Draft',
+  'in-review': 'In Review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  active: 'Active',
+  completed: 'Completed',
+};
+
+// Spellings found in older campaign docs; the status migration rewrites them
+export const LEGACY_CAMPAIGN_STATUSES: Record<string, CampaignStatus> = {
+  in_review: 'in-review',
+  inReview: 'in-review',
+  'in review': 'in-review',
+};
+
+export type LifecycleEvent =
+  | 'submit'
+  | 'approve'
+  | 'reject'
+  | 'request_changes'
+  | 'activate'
+  | 'complete'
+  | 'reopen';
+
+export interface LifecycleTransition {
+  from: CampaignStatus[];
+  to: CampaignStatus;
+  // Callable that applies the event
+  via: 'submitForReview' | 'approveCampaign' | 'transitionCampaign';
+  // Roles that may trigger the event. Review decisions are instead limited to
+  // the approver pool of the review's current stage
+  roles: string[] | 'stageApprovers';
+  // Side effects written alongside the status change
+  telemetryEvent: string;
+  auditAction: string;
+}
+
+export const CAMPAIGN_TRANSITIONS: Record<LifecycleEvent, LifecycleTransition> = {
+  submit: {
+    from: ['draft'],
+    to: 'in-review',
+    via: 'submitForReview',
+    roles: ['editor', 'admin'],
+    telemetryEvent: 'campaign_submitted_for_review',
+    auditAction: 'submit_for_review',
+  },
+  approve: {
+    from: ['in-review'],
+    to: 'approved',
+    via: 'approveCampaign',
+    roles: 'stageApprovers',
+    telemetryEvent: 'campaign_approve',
+    auditAction: 'campaign_approve',
+  },
+  reject: {
+    from: ['in-review'],
+    to: 'rejected',
+    via: 'approveCampaign',
+    roles: 'stageApprovers',
+    telemetryEvent: 'campaign_reject',
+    auditAction: 'campaign_reject',
+  },
+  request_changes: {
+    from: ['in-review'],
+    to: 'draft',
+    via: 'approveCampaign',
+    roles: 'stageApprovers',
+    telemetryEvent: 'campaign_request_changes',
+    auditAction: 'campaign_request_changes',
+  },
+  activate: {
+    from: ['approved'],
+    to: 'active',
+    via: 'transitionCampaign',
+    roles: ['editor', 'admin'],
+    telemetryEvent: 'campaign_activate',
+    auditAction: 'campaign_status_changed',
+  },
+  complete: {
+    from: ['active'],
+    to: 'completed',
+    via: 'transitionCampaign',
+    roles: ['editor', 'admin'],
+    telemetryEvent: 'campaign_complete',
+    auditAction: 'campaign_status_changed',
+  },
+  reopen: {
+    from: ['rejected'],
+    to: 'draft',
+    via: 'transitionCampaign',
+    roles: ['editor', 'admin'],
+    telemetryEvent: 'campaign_reopen',
+    auditAction: 'campaign_status_changed',
+  },
+};
+
+export class LifecycleTransitionError extends Error {
+  constructor(
+    readonly event: LifecycleEvent,
+    readonly from: string
+  ) {
+    super(`Cannot ${event.replace('_', ' ')} a campaign that is ${from}`);
+    this.name = 'LifecycleTransitionError';
+  }
+}
+
+/**
+ * Canonical form of a stored status value: missing means draft, legacy
+ * spellings are mapped, and anything else unknown is null.
+ */
+export function normalizeCampaignStatus(status: unknown): CampaignStatus | null {
+  if (status === undefined || status === null) return 'draft';
+  if (typeof status !== 'string') return null;
+  const normalized = LEGACY_CAMPAIGN_STATUSES[status] ?? status;
+  return (CAMPAIGN_STATUSES as readonly string[]).includes(normalized)
+    ? (normalized as CampaignStatus)
+    : null;
+}
+
+export function getCampaignStatus(campaignData: Record<string, unknown>): CampaignStatus | null {
+  return normalizeCampaignStatus(campaignData['status']);
+}
+
+export function canTransition(from: CampaignStatus | null, event: LifecycleEvent): boolean {
+  return from !== null && CAMPAIGN_TRANSITIONS[event].from.includes(from);
+}
+
+/**
+ * Whether a user with these roles may trigger the event. Events decided by
+ * stage approvers always return false here; the approval chain checks those.
+ */
+export function canTriggerEvent(event: LifecycleEvent, roles: Record<string, boolean>): boolean {
+  const allowed = CAMPAIGN_TRANSITIONS[event].roles;
+  return allowed !== 'stageApprovers' && allowed.some(role => roles[role] === true);
+}
+
+/**
+ * Events a user may trigger directly on a campaign in the given status,
+ * e.g. to decide which lifecycle actions to offer in the UI.
+ */
+export function getAvailableEvents(
+  status: unknown,
+  roles: Record<string, boolean>
+): LifecycleEvent[] {
+  const from = normalizeCampaignStatus(status);
+  return (Object.keys(CAMPAIGN_TRANSITIONS) as LifecycleEvent[]).filter(
+    event => canTransition(from, event) && canTriggerEvent(event, roles)
+  );
+}
+
+/**
+ * Target status for an event, or a LifecycleTransitionError when the event is
+ * not allowed from the campaign's current status.
+ */
+export function applyLifecycleEvent(
+  campaignData: Record<string, unknown>,
+  event: LifecycleEvent
+): CampaignStatus {
+  const from = getCampaignStatus(campaignData);
+  if (!canTransition(from, event)) {
+    throw new LifecycleTransitionError(event, String(campaignData['status'] ?? 'draft'));
+  }
+  return CAMPAIGN_TRANSITIONS[event].to;
+}
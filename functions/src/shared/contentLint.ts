@@ -0,0 +1,421 @@
+// Content lint shared by functions and the Spark app (imported there as
+// '@shared/contentLint'), so the activity editor flags exactly what
+// validateCampaign does. Keep this module free of imports so it compiles in
+// both builds; the rule pack schema lives in functions/src/lib/contentLint.ts.
+
+export type FindingSeverity = 'block' | 'warn' | 'info';
+
+// Same shape as ValidationFinding in functions/src/lib/governanceRules.ts
+export interface LintFinding {
+  ruleId: string;
+  field?: string;
+  severity: FindingSeverity;
+  message: string;
+  remediation?: string;
+}
+
+export type LintValidationType = 'draft' | 'preview' | 'publish';
+
+export type PhraseMatch = 'word' | 'regex';
+
+export interface BannedPhrase {
+  id: string;
+  pattern: string;
+  match: PhraseMatch;
+  severity: FindingSeverity;
+  message: string;
+  remediation?: string;
+}
+
+export interface ClaimDisclaimer {
+  id: string;
+  claim: string;
+  match: PhraseMatch;
+  // Regex that any field of the same content must match once the claim appears
+  disclaimer: string;
+  severity: FindingSeverity;
+  message: string;
+  remediation?: string;
+}
+
+export interface HashtagRules {
+  maxCount: number;
+  // Applied to each tag without its leading '#'
+  pattern: string;
+  banned: string[];
+  severity: FindingSeverity;
+}
+
+export interface ContentLintConfig {
+  // A rule pack can switch lint off, or limit it to some validation types
+  enabled: boolean;
+  appliesTo: LintValidationType[];
+  bannedPhrases: BannedPhrase[];
+  claimDisclaimers: ClaimDisclaimer[];
+  hashtags: HashtagRules;
+  subjectLineMaxLength: Record<string, number>;
+  // Share of letters that are upper case, checked once a field has enough letters
+  maxCapsRatio: number;
+  minLettersForCapsCheck: number;
+  // Emoji per word
+  maxEmojiDensity: number;
+  styleSeverity: FindingSeverity;
+}
+
+export interface LintableContent {
+  channel?: string;
+  // Field path -> copy, e.g. { title, description, 'contentPacket.subjectLine' }
+  fields: Record<string, string | undefined>;
+  hashtags?: string[];
+}
+
+export const SUBJECT_LINE_FIELD = 'contentPacket.subjectLine';
+export const HASHTAGS_FIELD = 'contentPacket.hashtags';
+
+export const DEFAULT_CONTENT_LINT: ContentLintConfig = {
+  enabled: true,
+  appliesTo: ['draft', 'preview', 'publish'],
+  bannedPhrases: [
+    {
+      id: 'content.inappropriateWords',
+      pattern: '\\b(spam|scam|fake)\\b',
+      match: 'regex',
+      severity: 'warn',
+      message: 'Content may contain inappropriate language: "{match}"',
+      remediation: 'Reword the copy to remove "{match}"',
+    },
+  ],
+  claimDisclaimers: [
+    {
+      id: 'content.claims.free',
+      claim: 'free',
+      match: 'word',
+      disclaimer: '(terms|conditions|restrictions) apply|see terms|while supplies last',
+      severity: 'block',
+      message: '"{match}" offers must carry a terms disclaimer',
+      remediation: 'Add "Terms apply" or link the offer terms',
+    },
+    {
+      id: 'content.claims.percentOff',
+      claim: '\\d+\\s*% off',
+      match: 'regex',
+      disclaimer: '(exclusions|terms|restrictions) apply|see terms|select (items|styles)',
+      severity: 'block',
+      message: '"{match}" discounts must state exclusions',
+      remediation: 'Add "Exclusions apply" or name the qualifying items',
+    },
+    {
+      id: 'content.claims.guaranteed',
+      claim: 'guarantee(d)?',
+      match: 'regex',
+      disclaimer: '(guarantee )?terms apply|see (guarantee )?terms|money[- ]back',
+      severity: 'block',
+      message: '"{match}" claims must reference the guarantee terms',
+      remediation: 'Add "See guarantee terms" or remove the claim',
+    },
+  ],
+  hashtags: {
+    maxCount: 5,
+    pattern: '^[A-Za-z][A-Za-z0-9_]*$',
+    banned: [],
+    severity: 'warn',
+  },
+  subjectLineMaxLength: {
+    Email: 60,
+    Push: 40,
+    Banner: 40,
+    Social: 280,
+  },
+  maxCapsRatio: 0.5,
+  minLettersForCapsCheck: 10,
+  maxEmojiDensity: 0.2,
+  styleSeverity: 'warn',
+};
+
+type ContentLintSection = Partial<
+  Omit<ContentLintConfig, 'bannedPhrases' | 'claimDisclaimers' | 'hashtags'>
+> & {
+  bannedPhrases?: Array<Partial<BannedPhrase> & Pick<BannedPhrase, 'id' | 'pattern'>>;
+  claimDisclaimers?: Array<
+    Partial<ClaimDisclaimer> & Pick<ClaimDisclaimer, 'id' | 'claim' | 'disclaimer'>
+  >;
+  hashtags?: Partial<HashtagRules>;
+};
+
+/**
+ * The lint policy a rule pack's `contentLint` section stands for: the built-in
+ * policy when the section is absent, otherwise the section with the same
+ * defaults ContentLintConfigSchema fills in. For clients that read rule packs
+ * without the schema.
+ */
+export function resolveContentLint(section?: ContentLintSection | null): ContentLintConfig {
+  if (!section) return DEFAULT_CONTENT_LINT;
+
+  return {
+    enabled: section.enabled ?? true,
+    appliesTo: section.appliesTo ?? ['draft', 'preview', 'publish'],
+    bannedPhrases: (section.bannedPhrases ?? []).map(phrase => ({
+      ...phrase,
+      match: phrase.match ?? 'word',
+      severity: phrase.severity ?? 'warn',
+      message: phrase.message ?? 'Content contains banned phrase "{match}"',
+    })),
+    claimDisclaimers: (section.claimDisclaimers ?? []).map(claim => ({
+      ...claim,
+      match: claim.match ?? 'word',
+      severity: claim.severity ?? 'block',
+      message: claim.message ?? '"{match}" claims require a disclaimer',
+    })),
+    hashtags: {
+      maxCount: section.hashtags?.maxCount ?? 5,
+      pattern: section.hashtags?.pattern ?? '^[A-Za-z][A-Za-z0-9_]*$',
+      banned: section.hashtags?.banned ?? [],
+      severity: section.hashtags?.severity ?? 'warn',
+    },
+    subjectLineMaxLength: section.subjectLineMaxLength ?? {},
+    maxCapsRatio: section.maxCapsRatio ?? 0.5,
+    minLettersForCapsCheck: section.minLettersForCapsCheck ?? 10,
+    maxEmojiDensity: section.maxEmojiDensity ?? 0.2,
+    styleSeverity: section.styleSeverity ?? 'warn',
+  };
+}
+
+export function contentLintApplies(
+  config: ContentLintConfig,
+  validationType: LintValidationType
+): boolean {
+  return config.enabled && config.appliesTo.includes(validationType);
+}
+
+const WORD_CHAR = /^[\p{L}\p{N}]/u;
+
+/**
+ * Compile a phrase to a case-insensitive regex. Word matches only anchor on
+ * ends that start or finish with a letter/digit, so "% off" still matches.
+ */
+export function compilePhrase(pattern: string, match: PhraseMatch): RegExp {
+  if (match === 'regex') {
+    return new RegExp(pattern, 'iu');
+  }
+
+  const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const lead = WORD_CHAR.test(pattern) ? '(?<![\\p{L}\\p{N}])' : '';
+  const trail = WORD_CHAR.test(pattern.slice(-1)) ? '(?![\\p{L}\\p{N}])' : '';
+  return new RegExp(`${lead}${escaped}${trail}`, 'iu');
+}
+
+function interpolate(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    values[key] !== undefined ? String(values[key]) : placeholder
+  );
+}
+
+function lintFinding(
+  ruleId: string,
+  field: string,
+  severity: FindingSeverity,
+  message: string,
+  remediation: string | undefined,
+  values: Record<string, string | number>
+): LintFinding {
+  const finding: LintFinding = {
+    ruleId,
+    field,
+    severity,
+    message: interpolate(message, values),
+  };
+  if (remediation) {
+    finding.remediation = interpolate(remediation, values);
+  }
+  return finding;
+}
+
+// Invalid patterns in a published pack should not take validation down
+function safeCompile(pattern: string, match: PhraseMatch): RegExp | null {
+  try {
+    return compilePhrase(pattern, match);
+  } catch {
+    return null;
+  }
+}
+
+function lintCaps(config: ContentLintConfig, field: string, text: string): LintFinding[] {
+  const letters = text.match(/\p{L}/gu) ?? [];
+  if (letters.length < config.minLettersForCapsCheck) return [];
+
+  const upper = letters.filter(letter => letter !== letter.toLowerCase()).length;
+  const ratio = upper / letters.length;
+  if (ratio <= config.maxCapsRatio) return [];
+
+  return [
+    lintFinding(
+      'content.style.allCaps',
+      field,
+      config.styleSeverity,
+      '{field} is {percent}% capital letters',
+      'Use sentence case; reserve capitals for names and short emphasis',
+      { field, percent: Math.round(ratio * 100) }
+    ),
+  ];
+}
+
+function lintEmoji(config: ContentLintConfig, field: string, text: string): LintFinding[] {
+  const emoji = text.match(/\p{Extended_Pictographic}/gu) ?? [];
+  if (emoji.length === 0) return [];
+
+  const words = text.split(/\s+/).filter(Boolean).length;
+  const density = emoji.length / Math.max(words, 1);
+  if (density <= config.maxEmojiDensity) return [];
+
+  return [
+    lintFinding(
+      'content.style.emojiDensity',
+      field,
+      config.styleSeverity,
+      '{field} has {count} emoji in {words} words',
+      'Keep to about one emoji per {per} words',
+      { field, count: emoji.length, words, per: Math.round(1 / config.maxEmojiDensity) }
+    ),
+  ];
+}
+
+function lintHashtags(config: ContentLintConfig, hashtags: string[]): LintFinding[] {
+  const rules = config.hashtags;
+  const findings: LintFinding[] = [];
+  const tags = hashtags.map(tag => tag.replace(/^#/, ''));
+  const pattern = safeCompile(rules.pattern, 'regex');
+  const banned = new Set(rules.banned.map(tag => tag.replace(/^#/, '').toLowerCase()));
+  const seen = new Set<string>();
+
+  if (tags.length > rules.maxCount) {
+    findings.push(
+      lintFinding(
+        'content.hashtags.maxCount',
+        HASHTAGS_FIELD,
+        rules.severity,
+        '{count} hashtags exceeds the limit of {maxCount}',
+        'Keep the {maxCount} most relevant hashtags',
+        { count: tags.length, maxCount: rules.maxCount }
+      )
+    );
+  }
+
+  for (const tag of tags) {
+    const key = tag.toLowerCase();
+    if (banned.has(key)) {
+      findings.push(
+        lintFinding(
+          'content.hashtags.banned',
+          HASHTAGS_FIELD,
+          'block',
+          '#{tag} is not an approved hashtag',
+          'Remove #{tag}',
+          { tag }
+        )
+      );
+    } else if (pattern && !pattern.test(tag)) {
+      findings.push(
+        lintFinding(
+          'content.hashtags.format',
+          HASHTAGS_FIELD,
+          rules.severity,
+          '#{tag} is not a valid hashtag',
+          'Use letters, digits and underscores, starting with a letter',
+          { tag }
+        )
+      );
+    } else if (seen.has(key)) {
+      findings.push(
+        lintFinding(
+          'content.hashtags.duplicate',
+          HASHTAGS_FIELD,
+          'info',
+          '#{tag} is used more than once',
+          'Remove the duplicate #{tag}',
+          { tag }
+        )
+      );
+    }
+    seen.add(key);
+  }
+
+  return findings;
+}
+
+/**
+ * Lint marketing copy for banned phrases, undisclosed claims, hashtag hygiene,
+ * per-channel subject-line length and shouty styling. Pure, so the Spark
+ * activity editor runs the same checks as the user types.
+ */
+export function lintContent(config: ContentLintConfig, content: LintableContent): LintFinding[] {
+  const findings: LintFinding[] = [];
+  const fields = Object.entries(content.fields).filter(
+    (entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1].trim() !== ''
+  );
+  const allCopy = fields.map(([, text]) => text).join('\n');
+
+  for (const phrase of config.bannedPhrases) {
+    const regex = safeCompile(phrase.pattern, phrase.match);
+    if (!regex) continue;
+
+    for (const [field, text] of fields) {
+      const match = regex.exec(text);
+      if (match) {
+        findings.push(
+          lintFinding(phrase.id, field, phrase.severity, phrase.message, phrase.remediation, {
+            field,
+            match: match[0],
+          })
+        );
+      }
+    }
+  }
+
+  for (const claim of config.claimDisclaimers) {
+    const claimRegex = safeCompile(claim.claim, claim.match);
+    const disclaimerRegex = safeCompile(claim.disclaimer, 'regex');
+    if (!claimRegex || !disclaimerRegex || disclaimerRegex.test(allCopy)) continue;
+
+    for (const [field, text] of fields) {
+      const match = claimRegex.exec(text);
+      if (match) {
+        findings.push(
+          lintFinding(claim.id, field, claim.severity, claim.message, claim.remediation, {
+            field,
+            match: match[0],
+          })
+        );
+      }
+    }
+  }
+
+  const subjectLine = content.fields[SUBJECT_LINE_FIELD];
+  const maxLength = content.channel ? config.subjectLineMaxLength[content.channel] : undefined;
+  if (subjectLine && maxLength !== undefined && subjectLine.length > maxLength) {
+    findings.push(
+      lintFinding(
+        'content.subjectLine.maxLength',
+        SUBJECT_LINE_FIELD,
+        'warn',
+        '{channel} subject lines should be {maxLength} characters or fewer ({length})',
+        'Shorten the subject line by {over} characters',
+        {
+          channel: content.channel ?? '',
+          maxLength,
+          length: subjectLine.length,
+          over: subjectLine.length - maxLength,
+        }
+      )
+    );
+  }
+
+  if (content.hashtags && content.hashtags.length > 0) {
+    findings.push(...lintHashtags(config, content.hashtags));
+  }
+
+  for (const [field, text] of fields) {
+    findings.push(...lintCaps(config, field, text), ...lintEmoji(config, field, text));
+  }
+
+  return findings;
+}
@@ -0,0 +1,112 @@
+import { onRequest } from 'firebase-functions/v2/https';
+import { defineSecret } from 'firebase-functions/params';
+import * as admin from 'firebase-admin';
+import { z } from 'zod';
+import { toDate } from '../lib/dateSafe';
+import {
+  WRIKE_HANDSHAKE_REQUEST,
+  WRIKE_WEBHOOK_STATUS_PATH,
+  isHandshakeExpected,
+  parseWrikeWebhookEvents,
+  signWrikeWebhook,
+  verifyWrikeWebhookSignature,
+  wrikeEventKey,
+} from '../lib/wrikeWebhooks';
+
+const wrikeWebhookSecret = defineSecret('WRIKE_WEBHOOK_SECRET');
+
+// gRPC ALREADY_EXISTS, returned by create() when the doc is there
+const ALREADY_EXISTS = 6;
+
+/**
+ * Receives Wrike webhook deliveries and queues each task event as a
+ * `wrike_sync` ingestion task. The queue doc id is derived from the event, so
+ * redeliveries of an event are dropped. Anything but a 2xx makes Wrike retry,
+ * and enough failures suspend the webhook.
+ */
+export const wrikeWebhook = onRequest(
+  {
+    timeoutSeconds: 30,
+    memory: '256MiB',
+    secrets: [wrikeWebhookSecret],
+  },
+  async (req, res) => {
+    if (req.method !== 'POST') {
+      res.status(405).send('Method not allowed');
+      return;
+    }
+
+    const secret = wrikeWebhookSecret.value();
+    const signature = req.get('X-Hook-Secret');
+
+    try {
+      if (
+        (req.body as { requestType?: unknown } | undefined)?.requestType === WRIKE_HANDSHAKE_REQUEST
+      ) {
+        if (!signature) {
+          res.status(400).send('Missing X-Hook-Secret');
+          return;
+        }
+        const statusDoc = await admin.firestore().doc(WRIKE_WEBHOOK_STATUS_PATH).get();
+        if (!isHandshakeExpected(toDate(statusDoc.data()?.['pendingHandshakeUntil']))) {
+          res.status(403).send('No webhook registration in progress');
+          return;
+        }
+        res.set('X-Hook-Secret', signWrikeWebhook(secret, signature)).status(200).send();
+        return;
+      }
+
+      if (!verifyWrikeWebhookSignature(secret, req.rawBody, signature)) {
+        res.status(401).send('Invalid signature');
+        return;
+      }
+
+      const events = parseWrikeWebhookEvents(req.body);
+      const db = admin.firestore();
+      let queued = 0;
+      let duplicates = 0;
+
+      for (const event of events) {
+        try {
+          await db
+            .collection('ingestionQueue')
+            .doc(`wrike_${wrikeEventKey(event)}`)
+            .create({
+              type: 'wrike_sync',
+              source: 'wrike_webhook',
+              status: 'pending',
+              scheduledFor: admin.firestore.Timestamp.now(),
+              createdAt: admin.firestore.FieldValue.serverTimestamp(),
+              data: event,
+            });
+          queued++;
+        } catch (error) {
+          if ((error as { code?: unknown }).code !== ALREADY_EXISTS) throw error;
+          duplicates++;
+        }
+      }
+
+      const lastEvent = events[events.length - 1];
+      if (lastEvent) {
+        await db.doc(WRIKE_WEBHOOK_STATUS_PATH).set(
+          {
+            lastEventAt: admin.firestore.FieldValue.serverTimestamp(),
+            lastEventType: lastEvent.eventType,
+            eventsReceived: admin.firestore.FieldValue.increment(events.length),
+          },
+          { merge: true }
+        );
+      }
+
+      res.status(200).json({ queued, duplicates });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).send('Invalid webhook payload');
+        return;
+      }
+
+      console.error('Wrike webhook error:', error);
+      res.status(500).send('Internal error');
+    }
+  }
+);
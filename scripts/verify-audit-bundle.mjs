@@ -0,0 +1,179 @@
+#!/usr/bin/env node
+// Offline verifier for audit export bundles (see exportAuditBundle).
+//
+//   node scripts/verify-audit-bundle.mjs <bundle-dir> --public-key <ed25519-public.pem>
+//
+// Checks that every file matches the manifest digests, that the manifest
+// signature is valid for the given public key, that every entry hashes to its
+// stored hash and links to the one before it, and that every checkpoint's
+// Merkle root and head hash match the entries it covers. Without a public key
+// the other checks still run, but the bundle is not reported as intact.
+// Depends on Node only; the hashing mirrors functions/src/lib/auditHash.ts and
+// auditCheckpoints.ts.
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import url from 'node:url';
+
+const sha256 = content => crypto.createHash('sha256').update(content).digest('hex');
+
+function stableStringify(value) {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function entryHash(entry) {
+  return sha256(
+    stableStringify({
+      action: entry.action,
+      resourceId: entry.resourceId,
+      userId: entry.userId,
+      timestamp: entry.recordedAt,
+      metadata: entry.metadata || {},
+      sequence: entry.sequence,
+      previousHash: entry.previousHash,
+    })
+  );
+}
+
+function merkleRoot(hashes) {
+  if (hashes.length === 0) return sha256('');
+  let level = hashes;
+  while (level.length > 1) {
+    const next = [];
+    for (let index = 0; index < level.length; index += 2) {
+      next.push(sha256(level[index] + (level[index + 1] ?? level[index])));
+    }
+    level = next;
+  }
+  return level[0];
+}
+
+const readNdjson = content =>
+  content
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line));
+
+export function verifyBundle(dir, publicKeyPem) {
+  const problems = [];
+  const read = name => fs.readFileSync(path.join(dir, name));
+
+  const manifestBytes = read('manifest.json');
+  const manifest = JSON.parse(manifestBytes.toString('utf8'));
+
+  // 1. File digests
+  for (const file of manifest.files) {
+    const exists = fs.existsSync(path.join(dir, file.name));
+    const content = exists ? read(file.name) : null;
+    if (!content) problems.push(`${file.name}: missing`);
+    else if (sha256(content) !== file.sha256)
+      problems.push(`${file.name}: SHA-256 does not match the manifest`);
+    else if (content.length !== file.bytes)
+      problems.push(`${file.name}: size does not match the manifest`);
+  }
+
+  // 2. Manifest signature
+  let signatureChecked = false;
+  if (publicKeyPem) {
+    const signaturePath = path.join(dir, 'manifest.sig');
+    if (!fs.existsSync(signaturePath)) {
+      problems.push('manifest.sig: missing');
+    } else {
+      const signature = Buffer.from(fs.readFileSync(signaturePath, 'utf8').trim(), 'base64');
+      signatureChecked = crypto.verify(null, manifestBytes, publicKeyPem, signature);
+      if (!signatureChecked) problems.push('manifest.sig: signature does not match the public key');
+    }
+  }
+  if (problems.length) return { ok: false, problems, manifest, signatureChecked };
+
+  // 3. Hash chain
+  const entries = readNdjson(read('entries.ndjson').toString('utf8'));
+  let head = manifest.anchor;
+  for (const entry of entries) {
+    const where = `entry ${entry.sequence}${entry.id ? ` (${entry.id})` : ''}`;
+    if (entry.sequence !== head.sequence + 1)
+      problems.push(`${where}: expected sequence ${head.sequence + 1}`);
+    else if (entry.previousHash !== head.hash)
+      problems.push(`${where}: does not link to the entry before it`);
+    else if (entryHash(entry) !== entry.hash)
+      problems.push(`${where}: content does not match its hash`);
+    if (problems.length) break;
+    head = { sequence: entry.sequence, hash: entry.hash };
+  }
+  if (!problems.length) {
+    if (entries.length !== manifest.entryCount)
+      problems.push('entries.ndjson: entry count does not match the manifest');
+    if (entries[0]?.sequence !== manifest.fromSequence || head.sequence !== manifest.toSequence) {
+      problems.push('entries.ndjson: sequence range does not match the manifest');
+    }
+  }
+
+  // 4. Checkpoints
+  const checkpoints = readNdjson(read('checkpoints.ndjson').toString('utf8'));
+  const bySequence = new Map(entries.map(entry => [entry.sequence, entry]));
+  checkpoints.forEach((checkpoint, index) => {
+    const covered = [];
+    for (let sequence = checkpoint.fromSequence; sequence <= checkpoint.toSequence; sequence++) {
+      const entry = bySequence.get(sequence);
+      if (entry) covered.push(entry);
+    }
+    const where = `checkpoint ${checkpoint.id}`;
+    if (covered.length !== checkpoint.entryCount)
+      problems.push(`${where}: bundle lacks some of its entries`);
+    else if (merkleRoot(covered.map(entry => entry.hash)) !== checkpoint.rootHash)
+      problems.push(`${where}: Merkle root does not match`);
+    else if (covered[covered.length - 1]?.hash !== checkpoint.headHash)
+      problems.push(`${where}: head hash does not match`);
+    const previous = checkpoints[index - 1];
+    if (previous && checkpoint.previousCheckpoint !== previous.id)
+      problems.push(`${where}: does not follow ${previous.id}`);
+  });
+  if (checkpoints.length !== manifest.checkpointCount)
+    problems.push('checkpoints.ndjson: count does not match the manifest');
+
+  return { ok: problems.length === 0, problems, manifest, signatureChecked };
+}
+
+function main(argv) {
+  const dir = argv.find(
+    (arg, index) => !arg.startsWith('--') && argv[index - 1] !== '--public-key'
+  );
+  const keyIndex = argv.indexOf('--public-key');
+  const publicKeyPath = keyIndex >= 0 ? argv[keyIndex + 1] : undefined;
+  if (!dir) {
+    console.error('Usage: verify-audit-bundle.mjs <bundle-dir> --public-key <ed25519-public.pem>');
+    return 2;
+  }
+
+  const result = verifyBundle(
+    dir,
+    publicKeyPath ? fs.readFileSync(publicKeyPath, 'utf8') : undefined
+  );
+  const { manifest } = result;
+  console.log(`Bundle ${manifest.bundleId}: ${manifest.range.from} to ${manifest.range.to}`);
+  console.log(
+    `Entries ${manifest.fromSequence}-${manifest.toSequence} (${manifest.entryCount}), ${manifest.checkpointCount} checkpoints`
+  );
+
+  if (!result.ok) {
+    for (const problem of result.problems) console.error(`FAIL ${problem}`);
+    return 1;
+  }
+  if (!result.signatureChecked) {
+    console.error('FAIL manifest signature not checked; pass --public-key');
+    return 1;
+  }
+  console.log('OK bundle is intact');
+  return 0;
+}
+
+if (process.argv[1] && import.meta.url === url.pathToFileURL(process.argv[1]).href) {
+  process.exitCode = main(process.argv.slice(2));
+}
@@ -1,11 +1,11 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Users, Building2, Calendar as CalendarIcon, Settings, MessageCircle, Plus, Upload, CheckCircle, Clock, Send, AlertCircle, BarChart3, Activity as ActivityIcon, Shield, Palette } from 'lucide-react';
+import { Users, Building2, Calendar as CalendarIcon, Settings, MessageCircle, Plus, Upload, CheckCircle, Clock, Send, AlertCircle, BarChart3, Activity as ActivityIcon, Shield, Palette, History } from 'lucide-react';
 import type { User, Store, Role, Tier } from '@/models/core';
-import type { Activity } from '@/models/planner';
+import type { Activity, Blackout } from '@/models/planner';
 import { useInitialData } from '@/hooks/useInitialData';
 import { useCurrentUserPermissions } from '@/hooks/usePermissions';
 import { useAuditLog, AUDIT_ACTIONS } from '@/lib/audit';
@@ -14,21 +14,79 @@ import { CsvImportDialog } from '@/components/stores/CsvImportDialog';
 import { UserEditDialog } from '@/components/users/UserEditDialog';
 import ChatDrawer from '@/components/chat/ChatDrawer';
 import { Calendar } from '@/components/calendar/Calendar';
+import { ActivityEditorDialog } from '@/components/calendar/ActivityEditorDialog';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { StatusPanel } from '@/components/StatusPanel';
+import { AuditExplorer } from '@/components/audit/AuditExplorer';
+import { AuditHistoryButton } from '@/components/audit/AuditHistoryButton';
+import { auditHistoryHref, readAuditLink, type AuditLogFilters } from '@/lib/auditQuery';
+import { buildPlannerWeek, checkSchedule } from '@/lib/schedule';
+import { isFirebaseConfigured } from '@/lib/firebase';
 
-type View = 'dashboard' | 'planner' | 'settings-users' | 'settings-stores' | 'settings-theme' | 'settings-roles' | 'settings-status';
+type View = 'dashboard' | 'planner' | 'audit' | 'settings-users' | 'settings-stores' | 'settings-theme' | 'settings-roles' | 'settings-status';
 
 function App() {
-  const [currentView, setCurrentView] = useState<View>('dashboard');
+  const [auditLink, setAuditLink] = useState(() => ({ filters: readAuditLink(window.location.search), key: 0 }));
+  const [currentView, setCurrentView] = useState<View>(auditLink.filters ? 'audit' : 'dashboard');
   const [showChatDrawer, setShowChatDrawer] = useState(false);
-  const { users, stores, roles, tiers, activities, setUsers, setStores, setActivities } = useInitialData();
+  const { users, stores, roles, tiers, activities, programs, blackouts, setUsers, setStores, setActivities } = useInitialData();
   const { writeAuditLog } = useAuditLog();
   const isMobile = useIsMobile();
   
   // Mock current user - in production this would come from auth
   const currentUser = users?.[0] || null; // Use first user (Maggie, Admin) as current user
   const permissions = useCurrentUserPermissions(currentUser, roles || [], tiers || []);
+  const canReadAudit = permissions.hasPerm('audit:read');
+
+  // Audit deep links live in the URL (?view=audit&target=...) so they can be shared
+  useEffect(() => {
+    const handlePopState = () => {
+      const filters = readAuditLink(window.location.search);
+      if (filters) {
+        setAuditLink(current => ({ filters, key: current.key + 1 }));
+        setCurrentView('audit');
+      }
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const openAuditHistory = (targetId: string) => {
+    window.history.pushState(null, '', auditHistoryHref(targetId));
+    setAuditLink(current => ({ filters: { target: targetId }, key: current.key + 1 }));
+    setCurrentView('audit');
+  };
+  const onOpenAuditHistory = canReadAudit ? openAuditHistory : undefined;
+
+  const handleSaveActivity = async (activity: Activity) => {
+    const previous = activities?.find(a => a.activityId === activity.activityId);
+    setActivities(current => {
+      const list = current || [];
+      return list.some(a => a.activityId === activity.activityId)
+        ? list.map(a => a.activityId === activity.activityId ? activity : a)
+        : [...list, activity];
+    });
+
+    const actor = currentUser?.uid || 'u_1';
+    if (previous) {
+      await writeAuditLog({
+        userId: actor,
+        action: AUDIT_ACTIONS.ACTIVITY_UPDATED,
+        targetId: activity.activityId,
+        source: 'ui',
+        before: previous,
+        after: activity
+      });
+    } else {
+      await writeAuditLog({
+        userId: actor,
+        action: AUDIT_ACTIONS.ACTIVITY_CREATED,
+        targetId: activity.activityId,
+        source: 'ui',
+        after: activity
+      });
+    }
+  };
 
   const renderView = () => {
     switch (currentView) {
@@ -40,12 +98,18 @@ function App() {
             activities={activities || []} 
             users={users || []} 
             permissions={permissions}
+            blackouts={blackouts || []}
+            programId={programs?.find(p => p.status === 'active')?.programId}
+            onSaveActivity={handleSaveActivity}
+            onOpenAuditHistory={onOpenAuditHistory}
           />
         );
+      case 'audit':
+        return <AuditView users={users || []} canRead={canReadAudit} initialFilters={auditLink.filters ?? {}} onOpenAuditHistory={openAuditHistory} key={auditLink.key} />;
       case 'settings-users':
-        return <UsersView users={users || []} roles={roles || []} tiers={tiers || []} permissions={permissions} />;
+        return <UsersView users={users || []} roles={roles || []} tiers={tiers || []} permissions={permissions} onOpenAuditHistory={onOpenAuditHistory} />;
       case 'settings-stores':
-        return <StoresView stores={stores || []} permissions={permissions} />;
+        return <StoresView stores={stores || []} permissions={permissions} onOpenAuditHistory={onOpenAuditHistory} />;
       case 'settings-roles':
         return <RolesAndTiersView roles={roles || []} tiers={tiers || []} permissions={permissions} />;
       case 'settings-theme':
@@ -85,6 +149,16 @@ function App() {
                   <CalendarIcon className="h-4 w-4 mr-2" />
                   Planner
                 </Button>
+                {canReadAudit && (
+                  <Button 
+                    variant={currentView === 'audit' ? 'default' : 'ghost'}
+                    size="sm"
+                    onClick={() => setCurrentView('audit')}
+                  >
+                    <History className="h-4 w-4 mr-2" />
+                    Audit
+                  </Button>
+                )}
               </div>
             </div>
             <div className="flex items-center gap-2">
@@ -138,6 +212,16 @@ function App() {
             >
               Planner
             </Button>
+            {canReadAudit && (
+              <Button
+                variant={currentView === 'audit' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setCurrentView('audit')}
+                className="flex-shrink-0"
+              >
+                Audit
+              </Button>
+            )}
             <Button
               variant={currentView.startsWith('settings') ? 'default' : 'outline'}
               size="sm"
@@ -299,12 +383,17 @@ function DashboardView({ users, stores, activities }: {
   );
 }
 
-function PlannerView({ activities, users, permissions }: { 
+function PlannerView({ activities, users, permissions, blackouts, programId, onSaveActivity, onOpenAuditHistory }: { 
   activities: Activity[], 
   users: User[], 
-  permissions: ReturnType<typeof useCurrentUserPermissions>
+  permissions: ReturnType<typeof useCurrentUserPermissions>,
+  blackouts: Blackout[],
+  programId?: string | undefined, // program whose cadence caps apply to this week
+  onSaveActivity: (activity: Activity) => void,
+  onOpenAuditHistory?: ((targetId: string) => void) | undefined
 }) {
   const [exportErrors, setExportErrors] = useState<string[]>([]);
+  const [editingActivity, setEditingActivity] = useState<Activity | null>(null);
   const { writeAuditLog } = useAuditLog();
   
   // Create usersById lookup
@@ -315,27 +404,10 @@ function PlannerView({ activities, users, permissions }: {
     }, {} as Record<string, User>);
   }, [users]);
   
-  // Create mock days structure for the calendar
-  const days = useMemo(() => {
-    const dayNames = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
-    const currentDate = new Date();
-    
-    return dayNames.map((dayName, index) => {
-      const date = new Date(currentDate);
-      date.setDate(currentDate.getDate() - currentDate.getDay() + index + 1);
-      
-      // Distribute activities across the week for demo
-      const dayActivities = activities.filter((_, activityIndex) => 
-        activityIndex % 7 === index
-      );
-      
-      return {
-        dayName,
-        date: date.toISOString().split('T')[0],
-        activities: dayActivities
-      };
-    });
-  }, [activities]);
+  // This week's days, with each activity on the day it is scheduled
+  const days = useMemo(() => buildPlannerWeek(activities), [activities]);
+  const dayOf = (activityId: string) =>
+    days.find(day => day.activities.some(a => a.activityId === activityId))?.date;
   
   const handleExportToWrike = async (period: 'week') => {
     setExportErrors([]);
@@ -399,15 +471,47 @@ function PlannerView({ activities, users, permissions }: {
   };
   
   const handleAddActivity = (dayName?: string) => {
-    // Mock add activity functionality
-    console.log('Add activity clicked for day:', dayName);
+    const today = new Date().toISOString().split('T')[0];
+    const day = days.find(d => d.dayName === dayName) ?? days.find(d => d.date === today) ?? days[0];
+    setEditingActivity({
+      activityId: `a_${Date.now()}`,
+      channel: 'Email',
+      contentPacket: {},
+      ownerUid: users[0]?.uid || '',
+      status: 'draft',
+      ...(day ? { date: day.date } : {})
+    });
   };
   
   const handleOpenActivity = (activityId: string) => {
-    // Mock open activity functionality
-    console.log('Open activity:', activityId);
+    const activity = activities.find(a => a.activityId === activityId);
+    const date = activity?.date ?? dayOf(activityId);
+    setEditingActivity(activity ? { ...activity, ...(date ? { date } : {}) } : null);
   };
 
+  // Adding or moving an activity runs the cadence caps and blackouts for the week
+  const handleCheckSchedule = programId && isFirebaseConfigured()
+    ? (activity: Activity) => {
+        const scheduledOn = activities.some(a => a.activityId === activity.activityId)
+          ? dayOf(activity.activityId)
+          : undefined;
+        const change = scheduledOn === undefined ? 'added' : scheduledOn !== activity.date ? 'moved' : undefined;
+        return checkSchedule(programId, days, activity, change);
+      }
+    : undefined;
+
+  const activityEditor = editingActivity && (
+    <ActivityEditorDialog
+      open={!!editingActivity}
+      onOpenChange={(open) => { if (!open) setEditingActivity(null); }}
+      activity={editingActivity}
+      onSave={onSaveActivity}
+      days={days}
+      {...(handleCheckSchedule ? { onCheckSchedule: handleCheckSchedule } : {})}
+      {...(onOpenAuditHistory ? { onOpenAuditHistory } : {})}
+    />
+  );
+
   const handleDismissErrors = () => {
     setExportErrors([]);
   };
@@ -436,28 +540,35 @@ function PlannerView({ activities, users, permissions }: {
           onExportToWrike={handleExportToWrike}
           onAddActivity={handleAddActivity}
           onOpenActivity={handleOpenActivity}
+          blackouts={blackouts}
         />
+        {activityEditor}
       </div>
     );
   }
 
   return (
-    <Calendar
-      days={days}
-      usersById={usersById}
-      permissions={{ hasPerm: permissions.hasPerm }}
-      onExportToWrike={handleExportToWrike}
-      onAddActivity={handleAddActivity}
-      onOpenActivity={handleOpenActivity}
-    />
+    <>
+      <Calendar
+        days={days}
+        usersById={usersById}
+        permissions={{ hasPerm: permissions.hasPerm }}
+        onExportToWrike={handleExportToWrike}
+        onAddActivity={handleAddActivity}
+        onOpenActivity={handleOpenActivity}
+        blackouts={blackouts}
+      />
+      {activityEditor}
+    </>
   );
 }
 
-function UsersView({ users, roles, tiers, permissions }: { 
+function UsersView({ users, roles, tiers, permissions, onOpenAuditHistory }: { 
   users: User[], 
   roles: Role[], 
   tiers: Tier[], 
-  permissions: ReturnType<typeof useCurrentUserPermissions>
+  permissions: ReturnType<typeof useCurrentUserPermissions>,
+  onOpenAuditHistory?: ((targetId: string) => void) | undefined
 }) {
   const [showUserDialog, setShowUserDialog] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
@@ -499,6 +610,7 @@ function UsersView({ users, roles, tiers, permissions }: {
   };
 
   const handleDeleteUser = async (userId: string) => {
+    const deletedUser = users.find(user => user.uid === userId);
     setUsers((currentUsers) => 
       (currentUsers || []).filter(user => user.uid !== userId)
     );
@@ -507,7 +619,8 @@ function UsersView({ users, roles, tiers, permissions }: {
       userId: 'u_1', // Mock current user
       action: AUDIT_ACTIONS.USER_DELETED,
       targetId: userId,
-      source: 'ui'
+      source: 'ui',
+      ...(deletedUser ? { before: deletedUser } : {})
     });
   };
 
@@ -581,6 +694,9 @@ function UsersView({ users, roles, tiers, permissions }: {
                       {user.mfaEnabled && (
                         <Badge variant="outline" className="text-xs">MFA</Badge>
                       )}
+                      {onOpenAuditHistory && (
+                        <AuditHistoryButton targetId={user.uid} onOpen={onOpenAuditHistory} />
+                      )}
                     </div>
                   </div>
                 ))}
@@ -594,7 +710,7 @@ function UsersView({ users, roles, tiers, permissions }: {
         </TabsContent>
         
         <TabsContent value="stores">
-          <StoresView stores={[]} permissions={permissions} />
+          <StoresView stores={[]} permissions={permissions} onOpenAuditHistory={onOpenAuditHistory} />
         </TabsContent>
         
         <TabsContent value="theme">
@@ -619,9 +735,10 @@ function UsersView({ users, roles, tiers, permissions }: {
   );
 }
 
-function StoresView({ stores, permissions }: { 
+function StoresView({ stores, permissions, onOpenAuditHistory }: { 
   stores: Store[], 
-  permissions: ReturnType<typeof useCurrentUserPermissions>
+  permissions: ReturnType<typeof useCurrentUserPermissions>,
+  onOpenAuditHistory?: ((targetId: string) => void) | undefined
 }) {
   const actualStores = stores || [];
   const [showImportDialog, setShowImportDialog] = useState(false);
@@ -632,17 +749,19 @@ function StoresView({ stores, permissions }: {
     // Add imported stores to existing stores
     setStores((currentStores) => [...(currentStores || []), ...newStores]);
     
-    // Log the import action
-    await writeAuditLog({
-      userId: 'u_1', // Mock current user
-      action: AUDIT_ACTIONS.STORE_IMPORTED_SUMMARY,
-      targetId: 'bulk_import',
-      source: 'ui',
-      after: { 
-        importedCount: newStores.length,
-        timestamp: new Date().toISOString()
-      }
-    });
+    // One entry for the whole import; listing the store ids puts it in each store's history
+    try {
+      await writeAuditLog({
+        userId: 'u_1', // Mock current user
+        action: AUDIT_ACTIONS.STORE_IMPORTED,
+        targetId: 'stores',
+        targetIds: newStores.map(store => store.storeId),
+        source: 'ui',
+        after: { importedCount: newStores.length }
+      });
+    } catch (error) {
+      console.error('Failed to audit the store import:', error);
+    }
   };
 
   return (
@@ -695,6 +814,9 @@ function StoresView({ stores, permissions }: {
                   }>
                     {store.status}
                   </Badge>
+                  {onOpenAuditHistory && (
+                    <AuditHistoryButton targetId={store.storeId} onOpen={onOpenAuditHistory} />
+                  )}
                 </div>
               </div>
             ))}
@@ -711,6 +833,26 @@ function StoresView({ stores, permissions }: {
   );
 }
 
+function AuditView({ users, canRead, initialFilters, onOpenAuditHistory }: {
+  users: User[],
+  canRead: boolean,
+  initialFilters: AuditLogFilters,
+  onOpenAuditHistory: (targetId: string) => void
+}) {
+  if (!canRead) {
+    return (
+      <div className="space-y-4">
+        <div>
+          <h2 className="text-xl font-semibold">Audit Log</h2>
+          <p className="text-muted-foreground text-red-600">Access denied: requires audit:read</p>
+        </div>
+      </div>
+    );
+  }
+
+  return <AuditExplorer users={users} initialFilters={initialFilters} onOpenAuditHistory={onOpenAuditHistory} />;
+}
+
 function ThemeView({ permissions }: { 
   permissions: ReturnType<typeof useCurrentUserPermissions>
 }) {
@@ -3,7 +3,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Activity, Clock, User, RefreshCw } from 'lucide-react';
-import { useAuditLog } from '@/lib/audit';
+import { useAuditLog, describeAuditLog, type AuditLog } from '@/lib/audit';
 
 interface StatusPanelProps {
   className?: string;
@@ -23,7 +23,7 @@ interface SystemStatus {
 
 export function StatusPanel({ className }: StatusPanelProps) {
   const [status, setStatus] = useState<SystemStatus | null>(null);
-  const [recentAuditLogs, setRecentAuditLogs] = useState<any[]>([]);
+  const [recentAuditLogs, setRecentAuditLogs] = useState<AuditLog[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { getRecentAuditLogs } = useAuditLog();
@@ -48,8 +48,9 @@ export function StatusPanel({ className }: StatusPanelProps) {
         }
       };
       
-      // Fetch recent audit logs
-      const logs = await getRecentAuditLogs(10);
+      // Recent audit logs are best effort: signed in, only admins and auditors
+      // may list them, and everyone else sees the status without them
+      const logs = await getRecentAuditLogs(10).catch((): AuditLog[] => []);
       setRecentAuditLogs(logs);
       
       setStatus(mockStatus);
@@ -78,9 +79,10 @@ export function StatusPanel({ className }: StatusPanelProps) {
     return date.toLocaleString();
   };
 
-  const getActionIcon = (action: string) => {
-    if (action.includes('user')) return <User className="h-3 w-3" />;
-    if (action.includes('export')) return <Activity className="h-3 w-3" />;
+  const getActionIcon = (log: AuditLog) => {
+    const { targetKind } = describeAuditLog(log);
+    if (targetKind === 'user') return <User className="h-3 w-3" />;
+    if (targetKind === 'planner') return <Activity className="h-3 w-3" />;
     return <Clock className="h-3 w-3" />;
   };
 
@@ -176,13 +178,13 @@ export function StatusPanel({ className }: StatusPanelProps) {
             <div className="space-y-2">
               {recentAuditLogs.map((log) => (
                 <div 
-                  key={log.id} 
+                  key={log.logId} 
                   className="flex items-center justify-between p-2 hover:bg-muted/20 rounded text-sm"
                 >
                   <div className="flex items-center gap-2 flex-1 min-w-0">
-                    {getActionIcon(log.action)}
-                    <span className="font-medium truncate">
-                      {log.action.replace(/_/g, ' ').toLowerCase()}
+                    {getActionIcon(log)}
+                    <span className="font-medium truncate" title={describeAuditLog(log).summary}>
+                      {describeAuditLog(log).label}
                     </span>
                     <Badge variant="outline" className="text-xs">
                       {log.targetId.length > 15 ? `${log.targetId.substring(0, 15)}...` : log.targetId}
@@ -0,0 +1,55 @@
+import { useMemo } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { diffAuditValues, type AuditDiffChange } from '@/lib/auditQuery';
+import type { AuditLog } from '@/lib/audit';
+
+const CHANGE_STYLES: Record<AuditDiffChange, string> = {
+  added: 'bg-green-500/10',
+  removed: 'bg-red-500/10',
+  changed: 'bg-amber-500/10',
+  unchanged: '',
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value, null, 2);
+}
+
+export function AuditDiffView({ log, showUnchanged = false }: { log: AuditLog; showUnchanged?: boolean }) {
+  const rows = useMemo(
+    () => diffAuditValues(log.diff.before, log.diff.after).filter(row => showUnchanged || row.change !== 'unchanged'),
+    [log, showUnchanged]
+  );
+
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground">No changes recorded for this entry.</p>;
+  }
+
+  return (
+    <div className="border border-border rounded-lg overflow-hidden text-sm">
+      <div className="grid grid-cols-[minmax(8rem,1fr)_2fr_2fr] bg-muted/40 font-medium">
+        <div className="p-2">Field</div>
+        <div className="p-2 border-l border-border">Before</div>
+        <div className="p-2 border-l border-border">After</div>
+      </div>
+      {rows.map(row => (
+        <div
+          key={row.path}
+          className={`grid grid-cols-[minmax(8rem,1fr)_2fr_2fr] border-t border-border ${CHANGE_STYLES[row.change]}`}
+        >
+          <div className="p-2 font-mono text-xs break-all flex items-start gap-2">
+            {row.path}
+            {row.change !== 'unchanged' && (
+              <Badge variant="outline" className="text-[10px]">{row.change}</Badge>
+            )}
+          </div>
+          <pre className="p-2 border-l border-border whitespace-pre-wrap break-all text-xs">{formatValue(row.before)}</pre>
+          <pre className="p-2 border-l border-border whitespace-pre-wrap break-all text-xs">{formatValue(row.after)}</pre>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default AuditDiffView;
@@ -0,0 +1,266 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RefreshCw, Search, X } from 'lucide-react';
+import type { User } from '@/models/core';
+import { AUDIT_ACTIONS, auditActionLabel, describeAuditLog, useAuditLog, type AuditLog } from '@/lib/audit';
+import { matchesAuditFilters, serverAuditFilters, type AuditLogFilters } from '@/lib/auditQuery';
+import { AUDIT_SOURCES, type AuditSource } from '@shared/auditLog';
+import { AuditDiffView } from './AuditDiffView';
+import { AuditHistoryButton } from './AuditHistoryButton';
+
+const PAGE_SIZE = 100;
+const ANY = 'any';
+
+interface AuditExplorerProps {
+  users: User[];
+  // Read once on mount; remount with a new key to apply a deep link
+  initialFilters?: AuditLogFilters;
+  onOpenAuditHistory?: (targetId: string) => void;
+}
+
+/**
+ * Audit log explorer. Pages are loaded newest first, already narrowed by
+ * actor, target and date on the server; action, source and search filter the
+ * loaded pages, so load older pages to search further back.
+ */
+export function AuditExplorer({ users, initialFilters = {}, onOpenAuditHistory }: AuditExplorerProps) {
+  const { listAuditLogs } = useAuditLog();
+  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<AuditLogFilters>(initialFilters);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const latestRequest = useRef(0);
+
+  const { actor, target, from, to } = filters;
+  const serverFilters = useMemo(() => serverAuditFilters({ actor, target, from, to }), [actor, target, from, to]);
+
+  const loadPage = useCallback(async (after: string | null) => {
+    const request = ++latestRequest.current;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const page = await listAuditLogs({ limit: PAGE_SIZE, cursor: after, ...serverFilters });
+      // A filter change while this page loaded has started a newer request
+      if (request !== latestRequest.current) return;
+      setLogs(current => (after ? [...current, ...page.logs] : page.logs));
+      setCursor(page.nextCursor);
+    } catch (err) {
+      if (request === latestRequest.current) setError('Failed to load audit logs');
+    } finally {
+      if (request === latestRequest.current) setIsLoading(false);
+    }
+  }, [listAuditLogs, serverFilters]);
+
+  // Reload from the newest entry whenever a server-side filter changes, once typing settles
+  useEffect(() => {
+    const timer = setTimeout(() => loadPage(null), 300);
+    return () => clearTimeout(timer);
+  }, [loadPage]);
+
+  const usersById = useMemo(
+    () => Object.fromEntries(users.map(user => [user.uid, user])) as Record<string, User>,
+    [users]
+  );
+
+  // Catalogued actions plus any others seen, e.g. actions written by functions
+  const actionOptions = useMemo(
+    () => [...new Set([...Object.values(AUDIT_ACTIONS), ...logs.map(log => log.action)])].sort(),
+    [logs]
+  );
+
+  const filtered = useMemo(() => logs.filter(log => matchesAuditFilters(log, filters)), [logs, filters]);
+  const selected = filtered.find(log => log.logId === selectedId) ?? null;
+
+  const setFilter = <K extends keyof AuditLogFilters>(key: K, value: AuditLogFilters[K] | undefined) => {
+    setFilters(current => {
+      const next = { ...current };
+      if (value === undefined || value === '') delete next[key];
+      else next[key] = value;
+      return next;
+    });
+  };
+
+  const actorName = (uid: string) => usersById[uid]?.displayName ?? uid;
+  const hasFilters = Object.keys(filters).length > 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Audit Log</h1>
+          <p className="text-muted-foreground">Who changed what, when, and from where</p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => loadPage(null)} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 grid gap-4 md:grid-cols-3 lg:grid-cols-6">
+          <div className="space-y-1 md:col-span-3 lg:col-span-6">
+            <Label htmlFor="audit-search">Search</Label>
+            <div className="relative">
+              <Search className="h-4 w-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                id="audit-search"
+                className="pl-9"
+                placeholder="Search actions, targets and changed values"
+                value={filters.search ?? ''}
+                onChange={e => setFilter('search', e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Actor</Label>
+            <Select value={filters.actor ?? ANY} onValueChange={value => setFilter('actor', value === ANY ? undefined : value)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Anyone</SelectItem>
+                {users.map(user => (
+                  <SelectItem key={user.uid} value={user.uid}>{user.displayName}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Action</Label>
+            <Select value={filters.action ?? ANY} onValueChange={value => setFilter('action', value === ANY ? undefined : value)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any action</SelectItem>
+                {actionOptions.map(action => (
+                  <SelectItem key={action} value={action}>
+                    {auditActionLabel(action)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="audit-target">Target</Label>
+            <Input
+              id="audit-target"
+              placeholder="User, store, activity or campaign id"
+              value={filters.target ?? ''}
+              onChange={e => setFilter('target', e.target.value.trim())}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label>Source</Label>
+            <Select
+              value={filters.source ?? ANY}
+              onValueChange={value => setFilter('source', value === ANY ? undefined : (value as AuditSource))}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any source</SelectItem>
+                {AUDIT_SOURCES.map(source => (
+                  <SelectItem key={source} value={source}>{source}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="audit-from">From</Label>
+            <Input id="audit-from" type="date" value={filters.from ?? ''} onChange={e => setFilter('from', e.target.value)} />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="audit-to">To</Label>
+            <Input id="audit-to" type="date" value={filters.to ?? ''} onChange={e => setFilter('to', e.target.value)} />
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Entries</CardTitle>
+            <CardDescription className="flex items-center gap-2">
+              {filtered.length} of {logs.length} loaded entries
+              {hasFilters && (
+                <Button variant="ghost" size="sm" onClick={() => setFilters({})}>
+                  <X className="h-3 w-3 mr-1" />
+                  Clear filters
+                </Button>
+              )}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {filtered.length === 0 && !isLoading && (
+              <p className="text-sm text-muted-foreground text-center py-8">No audit entries match these filters</p>
+            )}
+            {filtered.map(log => {
+              const { label, summary } = describeAuditLog(log);
+              return (
+                <button
+                  key={log.logId}
+                  type="button"
+                  onClick={() => setSelectedId(log.logId)}
+                  className={`w-full text-left p-3 border rounded-lg transition-colors hover:bg-muted/20 ${
+                    log.logId === selectedId ? 'border-primary bg-muted/30' : 'border-border'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-sm">{label}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {log.timestamp ? new Date(log.timestamp).toLocaleString() : 'unknown time'}
+                    </span>
+                  </div>
+                  {summary && <p className="text-sm text-muted-foreground truncate">{summary}</p>}
+                  <div className="flex items-center gap-2 mt-1">
+                    <Badge variant="outline" className="text-xs">{actorName(log.userId)}</Badge>
+                    <Badge variant="outline" className="text-xs truncate max-w-[12rem]">{log.targetId}</Badge>
+                    <Badge variant="secondary" className="text-xs">{log.source}</Badge>
+                  </div>
+                </button>
+              );
+            })}
+            {cursor && (
+              <Button variant="outline" className="w-full" onClick={() => loadPage(cursor)} disabled={isLoading}>
+                Load older entries
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Changes</CardTitle>
+            <CardDescription>
+              {selected
+                ? `${describeAuditLog(selected).label} by ${actorName(selected.userId)} on ${selected.targetId}`
+                : 'Select an entry to compare before and after'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {selected && onOpenAuditHistory && selected.targetId !== filters.target && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <AuditHistoryButton targetId={selected.targetId} onOpen={onOpenAuditHistory} />
+                {describeAuditLog(selected).targetKind === 'campaign' ? 'Campaign history' : 'History of this target'}
+              </div>
+            )}
+            {selected && <AuditDiffView log={selected} />}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default AuditExplorer;
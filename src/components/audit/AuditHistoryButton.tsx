@@ -0,0 +1,26 @@
+import { History } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { auditHistoryHref } from '@/lib/auditQuery';
+
+// Deep link to a target's audit history; also works as a plain link in a new tab
+export function AuditHistoryButton({ targetId, onOpen }: { targetId: string; onOpen: (targetId: string) => void }) {
+  return (
+    <Button variant="ghost" size="sm" asChild>
+      <a
+        href={auditHistoryHref(targetId)}
+        title="View audit history"
+        onClick={(e) => {
+          e.stopPropagation();
+          if (e.metaKey || e.ctrlKey || e.shiftKey) return;
+          e.preventDefault();
+          onOpen(targetId);
+        }}
+      >
+        <History className="h-4 w-4" />
+        <span className="sr-only">Audit history</span>
+      </a>
+    </Button>
+  );
+}
+
+export default AuditHistoryButton;
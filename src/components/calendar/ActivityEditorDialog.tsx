@@ -0,0 +1,223 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, Info } from 'lucide-react';
+import type { Activity } from '@/models/planner';
+import { lintActivity, SUBJECT_LINE_FIELD, HASHTAGS_FIELD, type ValidationFinding } from '@/lib/contentLint';
+import { useActiveRulePack } from '@/lib/rulePack';
+
+const CHANNELS: Activity['channel'][] = ['Email', 'Social', 'Banner', 'Push'];
+
+interface ActivityEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  activity: Activity;
+  onSave: (activity: Activity) => void;
+  onOpenAuditHistory?: (activityId: string) => void; // set when the viewer has audit:read
+  days?: Array<{ dayName: string; date: string }>; // days the activity can be moved to
+  // Cadence and calendar rules for the edited week; null when they could not be checked
+  onCheckSchedule?: (activity: Activity) => Promise<ValidationFinding[] | null>;
+}
+
+interface FormData {
+  channel: Activity['channel'];
+  date: string;
+  subjectLine: string;
+  hashtags: string;
+}
+
+const SCHEDULE_UNCHECKED: ValidationFinding = {
+  ruleId: 'schedule.unchecked',
+  severity: 'info',
+  message: 'Cadence and blackout rules could not be checked',
+  remediation: 'Save anyway, or try again once you are back online',
+};
+
+function parseHashtags(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map(tag => tag.trim().replace(/^#/, ''))
+    .filter(Boolean);
+}
+
+function FindingList({ id, findings }: { id: string; findings: ValidationFinding[] }) {
+  if (findings.length === 0) return null;
+  return (
+    <ul id={id} className="space-y-1" role="alert">
+      {findings.map((finding, idx) => (
+        <li
+          key={`${finding.ruleId}-${idx}`}
+          className={`text-sm flex items-start gap-1 ${finding.severity === 'block' ? 'text-red-500' : 'text-muted-foreground'}`}
+        >
+          {finding.severity === 'block'
+            ? <AlertCircle className="h-3 w-3 mt-1 shrink-0" />
+            : <Info className="h-3 w-3 mt-1 shrink-0" />}
+          <span>
+            {finding.message}
+            {finding.remediation && <span className="block text-xs">{finding.remediation}</span>}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function ActivityEditorDialog({ open, onOpenChange, activity, onSave, onOpenAuditHistory, days = [], onCheckSchedule }: ActivityEditorDialogProps) {
+  const [formData, setFormData] = useState<FormData>({ channel: 'Email', date: '', subjectLine: '', hashtags: '' });
+  // Schedule findings and the channel/day they were checked for
+  const [schedule, setSchedule] = useState<{ key: string; findings: ValidationFinding[] } | null>(null);
+  const [checkingSchedule, setCheckingSchedule] = useState(false);
+  const rulePack = useActiveRulePack();
+
+  useEffect(() => {
+    setFormData({
+      channel: activity.channel,
+      date: activity.date || days[0]?.date || '',
+      subjectLine: activity.contentPacket.subjectLine || '',
+      hashtags: (activity.contentPacket.hashtags || []).join(' ')
+    });
+    setSchedule(null);
+  }, [activity, open]);
+
+  const contentPacket = useMemo(() => ({
+    ...activity.contentPacket,
+    subjectLine: formData.subjectLine,
+    hashtags: parseHashtags(formData.hashtags)
+  }), [activity.contentPacket, formData.subjectLine, formData.hashtags]);
+
+  // Same checks and published policy validateCampaign uses, re-run on every keystroke
+  const findings = useMemo(
+    () => lintActivity({ channel: formData.channel, contentPacket }, rulePack?.contentLint),
+    [formData.channel, contentPacket, rulePack]
+  );
+
+  const subjectFindings = findings.filter(f => f.field === SUBJECT_LINE_FIELD);
+  const hashtagFindings = findings.filter(f => f.field === HASHTAGS_FIELD);
+
+  // Findings for another channel or day are stale and checked again on save
+  const scheduleKey = `${formData.channel}|${formData.date}`;
+  const scheduleFindings = schedule?.key === scheduleKey ? schedule.findings : [];
+  const hasBlocking = [...findings, ...scheduleFindings].some(f => f.severity === 'block');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (hasBlocking) return;
+
+    const updated: Activity = {
+      ...activity,
+      channel: formData.channel,
+      contentPacket,
+      ...(formData.date ? { date: formData.date } : {}),
+    };
+
+    // Adding or moving an activity is checked against the week's cadence caps
+    // and blackouts; warnings are shown once before saving
+    if (onCheckSchedule && schedule?.key !== scheduleKey) {
+      setCheckingSchedule(true);
+      const checked = await onCheckSchedule(updated);
+      setCheckingSchedule(false);
+      const scheduled = checked ?? [SCHEDULE_UNCHECKED];
+      setSchedule({ key: scheduleKey, findings: scheduled });
+      if (scheduled.length > 0) return;
+    }
+
+    onSave(updated);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit Activity</DialogTitle>
+          <DialogDescription>
+            Content is checked against brand and claims policy as you type
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="channel">Channel</Label>
+            <Select
+              value={formData.channel}
+              onValueChange={(value) => setFormData(prev => ({ ...prev, channel: value as Activity['channel'] }))}
+            >
+              <SelectTrigger id="channel">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CHANNELS.map(channel => (
+                  <SelectItem key={channel} value={channel}>{channel}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {days.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="day">Day</Label>
+              <Select
+                value={formData.date}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, date: value }))}
+              >
+                <SelectTrigger id="day" aria-describedby={scheduleFindings.length > 0 ? 'schedule-findings' : undefined}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {days.map(day => (
+                    <SelectItem key={day.date} value={day.date}>{day.dayName} {day.date}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FindingList id="schedule-findings" findings={scheduleFindings} />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="subjectLine">Subject Line</Label>
+            <Input
+              id="subjectLine"
+              value={formData.subjectLine}
+              onChange={(e) => setFormData(prev => ({ ...prev, subjectLine: e.target.value }))}
+              aria-describedby={subjectFindings.length > 0 ? 'subjectLine-findings' : undefined}
+              aria-invalid={subjectFindings.some(f => f.severity === 'block')}
+            />
+            <FindingList id="subjectLine-findings" findings={subjectFindings} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="hashtags">Hashtags</Label>
+            <Input
+              id="hashtags"
+              value={formData.hashtags}
+              placeholder="FallLaunch NewArrivals"
+              onChange={(e) => setFormData(prev => ({ ...prev, hashtags: e.target.value }))}
+              aria-describedby={hashtagFindings.length > 0 ? 'hashtags-findings' : undefined}
+              aria-invalid={hashtagFindings.some(f => f.severity === 'block')}
+            />
+            <FindingList id="hashtags-findings" findings={hashtagFindings} />
+          </div>
+
+          <DialogFooter>
+            {onOpenAuditHistory && (
+              <Button type="button" variant="ghost" className="mr-auto" onClick={() => onOpenAuditHistory(activity.activityId)}>
+                Audit history
+              </Button>
+            )}
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={hasBlocking || checkingSchedule}>
+              {checkingSchedule ? 'Checking…' : scheduleFindings.length > 0 ? 'Save anyway' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ActivityEditorDialog;
@@ -2,6 +2,7 @@ import { useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import type { Blackout } from '@/models/planner';
 
 type Channel = 'Email' | 'Social' | 'Banner' | 'Push';
 type ActivityStatus = 'draft' | 'approved' | 'exported';
@@ -42,6 +43,29 @@ interface CalendarProps {
   onExportToWrike?: (period: 'week') => void;
   onAddActivity?: (dayName?: string) => void;
   onOpenActivity?: (activityId: string) => void;
+  blackouts?: Blackout[];                         // shaded on days whose ISO date they cover
+}
+
+function getDayBlackouts(blackouts: Blackout[], date: string): Blackout[] {
+  const day = date.slice(0, 10);
+  return blackouts.filter(b => b.start <= day && day <= b.end);
+}
+
+function isBlackedOut(dayBlackouts: Blackout[], channel: Channel): boolean {
+  return dayBlackouts.some(b => b.channels.length === 0 || b.channels.includes(channel));
+}
+
+function BlackoutNotice({ blackouts }: { blackouts: Blackout[] }) {
+  if (blackouts.length === 0) return null;
+  return (
+    <div className="mb-2 space-y-1">
+      {blackouts.map(b => (
+        <p key={b.id} className="text-xs font-medium text-destructive">
+          Blackout: {b.name}{b.channels.length > 0 ? ` (${b.channels.join(', ')})` : ''}
+        </p>
+      ))}
+    </div>
+  );
 }
 
 function ChannelBadge({ channel }: { channel: Channel }) {
@@ -59,10 +83,12 @@ function ActivityCard({
   activity,
   owner,
   onOpen,
+  blackedOut = false,
 }: {
   activity: Activity;
   owner?: User;
   onOpen?: (id: string) => void;
+  blackedOut?: boolean;
 }) {
   return (
     <Card
@@ -70,8 +96,8 @@ function ActivityCard({
       tabIndex={0}
       onClick={() => onOpen?.(activity.activityId)}
       onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') onOpen?.(activity.activityId); }}
-      className="p-3 hover:bg-accent focus:outline-none focus:ring-2 focus:ring-ring transition"
-      aria-label={`${activity.channel} ${activity.contentPacket.subjectLine ?? ''}`.trim()}
+      className={`p-3 hover:bg-accent focus:outline-none focus:ring-2 focus:ring-ring transition ${blackedOut ? 'border-destructive' : ''}`}
+      aria-label={`${activity.channel} ${activity.contentPacket.subjectLine ?? ''}${blackedOut ? ' (blacked out)' : ''}`.trim()}
     >
       <div className="flex items-center justify-between gap-2">
         <div className="flex items-center gap-2">
@@ -134,6 +160,7 @@ export function Calendar({
   onExportToWrike,
   onAddActivity,
   onOpenActivity,
+  blackouts = [],
 }: CalendarProps) {
   // Roving focus among day columns
   const dayRefs = useRef<HTMLDivElement[]>([]);
@@ -195,60 +222,73 @@ export function Calendar({
         <CardContent className="p-4">
           {/* Desktop grid */}
           <div className="hidden md:grid grid-cols-7 gap-3">
-            {days.map((day, dayIdx) => (
-              <div key={day.dayName} className="min-h-[220px]">
-                <div className="flex items-baseline justify-between mb-2">
-                  <p className="font-medium">{day.dayName}</p>
-                  <span className="text-xs text-muted-foreground">{day.date}</span>
-                </div>
-                <div className="space-y-2">
-                  {day.activities.length === 0 && (
-                    <p className="text-xs text-muted-foreground">No activities</p>
-                  )}
-                  {day.activities.map((a) => (
-                    <ActivityCard
-                      key={a.activityId}
-                      activity={a}
-                      owner={usersById[a.ownerUid]}
-                      onOpen={onOpenActivity}
-                    />
-                  ))}
+            {days.map((day, dayIdx) => {
+              const dayBlackouts = getDayBlackouts(blackouts, day.date);
+              return (
+                <div
+                  key={day.dayName}
+                  className={`min-h-[220px] rounded-md ${dayBlackouts.length > 0 ? 'bg-destructive/5 p-1' : ''}`}
+                >
+                  <div className="flex items-baseline justify-between mb-2">
+                    <p className="font-medium">{day.dayName}</p>
+                    <span className="text-xs text-muted-foreground">{day.date}</span>
+                  </div>
+                  <BlackoutNotice blackouts={dayBlackouts} />
+                  <div className="space-y-2">
+                    {day.activities.length === 0 && (
+                      <p className="text-xs text-muted-foreground">No activities</p>
+                    )}
+                    {day.activities.map((a) => (
+                      <ActivityCard
+                        key={a.activityId}
+                        activity={a}
+                        owner={usersById[a.ownerUid]}
+                        onOpen={onOpenActivity}
+                        blackedOut={isBlackedOut(dayBlackouts, a.channel)}
+                      />
+                    ))}
+                  </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
 
           {/* Mobile horizontal list */}
           <div className="md:hidden flex gap-3 overflow-x-auto">
-            {days.map((day, dayIdx) => (
-              <div
-                key={day.dayName}
-                ref={(el) => setRef(el, dayIdx)}
-                tabIndex={dayIdx === focusedIndex ? 0 : -1}
-                role="region"
-                aria-label={`${day.dayName} ${day.date}`}
-                onKeyDown={(e) => handleKeyNav(e, dayIdx)}
-                className="min-w-[260px] outline-none focus:ring-2 focus:ring-ring rounded-lg border p-3"
-              >
-                <div className="flex items-baseline justify-between mb-2">
-                  <p className="font-medium">{day.dayName}</p>
-                  <span className="text-xs text-muted-foreground">{day.date}</span>
-                </div>
-                <div className="space-y-2">
-                  {day.activities.length === 0 && (
-                    <p className="text-xs text-muted-foreground">No activities</p>
-                  )}
-                  {day.activities.map((a) => (
-                    <ActivityCard
-                      key={a.activityId}
-                      activity={a}
-                      owner={usersById[a.ownerUid]}
-                      onOpen={onOpenActivity}
-                    />
-                  ))}
+            {days.map((day, dayIdx) => {
+              const dayBlackouts = getDayBlackouts(blackouts, day.date);
+              return (
+                <div
+                  key={day.dayName}
+                  ref={(el) => setRef(el, dayIdx)}
+                  tabIndex={dayIdx === focusedIndex ? 0 : -1}
+                  role="region"
+                  aria-label={`${day.dayName} ${day.date}${dayBlackouts.length > 0 ? ' (blackout)' : ''}`}
+                  onKeyDown={(e) => handleKeyNav(e, dayIdx)}
+                  className={`min-w-[260px] outline-none focus:ring-2 focus:ring-ring rounded-lg border p-3 ${dayBlackouts.length > 0 ? 'bg-destructive/5' : ''}`}
+                >
+                  <div className="flex items-baseline justify-between mb-2">
+                    <p className="font-medium">{day.dayName}</p>
+                    <span className="text-xs text-muted-foreground">{day.date}</span>
+                  </div>
+                  <BlackoutNotice blackouts={dayBlackouts} />
+                  <div className="space-y-2">
+                    {day.activities.length === 0 && (
+                      <p className="text-xs text-muted-foreground">No activities</p>
+                    )}
+                    {day.activities.map((a) => (
+                      <ActivityCard
+                        key={a.activityId}
+                        activity={a}
+                        owner={usersById[a.ownerUid]}
+                        onOpen={onOpenActivity}
+                        blackedOut={isBlackedOut(dayBlackouts, a.channel)}
+                      />
+                    ))}
+                  </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         </CardContent>
       </Card>
@@ -25,7 +25,7 @@ import { Bot, User, AlertTriangle, CheckCircle, X, Send } from "lucide-react";
 
 // Data & helpers
 import type { User as CoreUser } from "@/models/core";
-import { writeAuditLog } from "@/lib/audit"; // must exist per SPS
+import { writeAuditLog, AUDIT_ACTIONS } from "@/lib/audit"; // must exist per SPS
 
 // Optional: callable stubs (replace with real imports if you have them)
 // import { httpsCallable } from "firebase/functions";
@@ -102,7 +102,7 @@ export default function ChatDrawer({ open, onOpenChange, currentUser, hasPerm }:
       // Emit audit: AI_SIMULATE_RUN
       await writeAuditLog({
         userId: currentUser?.uid || "unknown",
-        action: "AI_SIMULATE_RUN",
+        action: AUDIT_ACTIONS.AI_SIMULATE_RUN,
         targetId: "simulation",
         source: "chat",
         before: {},
@@ -137,7 +137,7 @@ export default function ChatDrawer({ open, onOpenChange, currentUser, hasPerm }:
       // Emit audit: AI_SIMULATE_APPROVED
       await writeAuditLog({
         userId: currentUser?.uid || "unknown",
-        action: "AI_SIMULATE_APPROVED",
+        action: AUDIT_ACTIONS.AI_SIMULATE_APPROVED,
         targetId: "simulation",
         source: "chat",
         before: pending.diff.before,
@@ -159,7 +159,7 @@ export default function ChatDrawer({ open, onOpenChange, currentUser, hasPerm }:
     try {
       await writeAuditLog({
         userId: currentUser?.uid || "unknown",
-        action: "AI_SIMULATE_APPROVED", // optional: could use AI_SIMULATE_REJECTED if you add it
+        action: AUDIT_ACTIONS.AI_SIMULATE_REJECTED,
         targetId: "simulation",
         source: "chat",
         before: pending.diff.before,
@@ -190,7 +190,7 @@ export default function ChatDrawer({ open, onOpenChange, currentUser, hasPerm }:
       // const res = await setRuleFn({ rule: "cadence", target: "Sneakerheads", value: "max 5 per week" });
       await writeAuditLog({
         userId: currentUser?.uid || "unknown",
-        action: "AI_RULE_SET",
+        action: AUDIT_ACTIONS.AI_RULE_SET,
         targetId: "governance",
         source: "chat",
         before: {},
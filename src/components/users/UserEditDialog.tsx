@@ -188,14 +188,24 @@ export function UserEditDialog({
       }
 
       // Write audit log before saving
-      await writeAuditLog({
-        userId: 'u_1', // In real app, get current user ID from auth
-        action: isEditMode ? AUDIT_ACTIONS.USER_UPDATED : AUDIT_ACTIONS.USER_CREATED,
-        targetId: userData.uid!,
-        source: 'ui',
-        before: isEditMode ? user : {},
-        after: userData
-      });
+      if (user) {
+        await writeAuditLog({
+          userId: 'u_1', // In real app, get current user ID from auth
+          action: AUDIT_ACTIONS.USER_UPDATED,
+          targetId: userData.uid!,
+          source: 'ui',
+          before: user,
+          after: userData
+        });
+      } else {
+        await writeAuditLog({
+          userId: 'u_1', // In real app, get current user ID from auth
+          action: AUDIT_ACTIONS.USER_CREATED,
+          targetId: userData.uid!,
+          source: 'ui',
+          after: userData
+        });
+      }
 
       onSave(userData);
       onOpenChange(false);
@@ -1,8 +1,9 @@
 import { useEffect } from 'react';
 import { useKV } from '@github/spark/hooks';
 import type { User, Store, Role, Tier, AuditLog } from '@/models/core';
-import type { Activity, Program } from '@/models/planner';
+import type { Activity, Blackout, Program } from '@/models/planner';
 import { SEED_ROLES, SEED_TIERS } from '@/data/seed';
+import { useActiveRulePack } from '@/lib/rulePack';
 
 export function useInitialData() {
   const [users, setUsers] = useKV<User[]>('users', []);
@@ -12,6 +13,16 @@ export function useInitialData() {
   const [activities, setActivities] = useKV<Activity[]>('activities', []);
   const [programs, setPrograms] = useKV<Program[]>('programs', []);
   const [auditLogs, setAuditLogs] = useKV<AuditLog[]>('audit_logs', []);
+  const [blackouts, setBlackouts] = useKV<Blackout[]>('blackouts', []);
+  const rulePack = useActiveRulePack();
+
+  // Blackouts come from the published rule pack's calendarRules; KV keeps the
+  // last copy so the planner still shades them offline
+  useEffect(() => {
+    if (rulePack) {
+      setBlackouts(rulePack.blackouts);
+    }
+  }, [rulePack, setBlackouts]);
 
   useEffect(() => {
     // Initialize roles if empty
@@ -227,12 +238,14 @@ export function useInitialData() {
     activities,
     programs,
     auditLogs,
+    blackouts,
     setUsers,
     setStores,
     setRoles,
     setTiers,
     setActivities,
     setPrograms,
-    setAuditLogs
+    setAuditLogs,
+    setBlackouts
   };
 }
\ No newline at end of file
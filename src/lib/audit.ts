@@ -1,40 +1,121 @@
 // src/lib/audit.ts
+import { onAuthStateChanged } from 'firebase/auth';
+import { httpsCallable } from 'firebase/functions';
+import {
+  createAuditLogService,
+  createCallableAuditBackend,
+  isAuditSource,
+  matchesAuditLogQuery,
+  type AuditLog,
+  type AuditLogBackend,
+  type AuditLogInput,
+  type AuditLogPage,
+  type AuditLogQuery,
+} from '@shared/auditLog';
+import { firebase } from '@/lib/firebase';
+import type { AuditAction, AuditLogEntry } from './auditActions';
+export {
+  AUDIT_ACTIONS,
+  AUDIT_ACTION_CATALOGUE,
+  auditActionLabel,
+  describeAuditLog,
+  type AuditAction,
+  type AuditLogEntry,
+} from './auditActions';
 
-export const AUDIT_ACTIONS = {
-  STORE_IMPORTED_SUMMARY: 'STORE_IMPORTED_SUMMARY',
-  AI_SIMULATE_RUN: 'AI_SIMULATE_RUN',
-  USER_UPDATED: 'USER_UPDATED',
-} as const;
-
-export interface AuditEntry {
-  userId: string;
-  action: string;
-  targetId: string;
-  id: string;
-}
-
-export async function addAuditLog(entry: Omit<AuditEntry, 'id'>) {
-  const existingLogs: AuditEntry[] = await window.spark.kv.get('audit_logs') || [];
-  
-  // Add new entry
-  const newEntry: AuditEntry = {
-    ...entry,
-    id: crypto.randomUUID()
+export type { AuditLog, AuditLogInput } from '@shared/auditLog';
+
+const AUDIT_LOGS_KEY = 'audit_logs';
+
+// Entries written before the shared AuditLog shape: { id, userId, action, targetId, ...input }
+function normalizeStoredLog(stored: any): AuditLog {
+  return {
+    logId: stored.logId ?? stored.id,
+    timestamp: stored.timestamp ?? '',
+    userId: stored.userId,
+    action: stored.action,
+    targetId: stored.targetId,
+    ...(Array.isArray(stored.targetIds) ? { targetIds: stored.targetIds } : {}),
+    source: isAuditSource(stored.source) ? stored.source : 'ui',
+    diff: stored.diff ?? { before: stored.before ?? {}, after: stored.after ?? {} },
+  };
+}
+
+/**
+ * Offline backend on the Spark KV store. Keeps every entry; the UI pages
+ * through them with `listAuditLogs`.
+ */
+export function createKvAuditBackend(key = AUDIT_LOGS_KEY): AuditLogBackend {
+  const readAll = async (): Promise<AuditLog[]> =>
+    ((await window.spark.kv.get(key)) || []).map(normalizeStoredLog);
+
+  return {
+    async append(input) {
+      const log: AuditLog = {
+        logId: crypto.randomUUID(),
+        timestamp: new Date().toISOString(),
+        userId: input.userId,
+        action: input.action,
+        targetId: input.targetId,
+        ...(input.targetIds?.length ? { targetIds: input.targetIds } : {}),
+        source: input.source,
+        diff: { before: input.before ?? {}, after: input.after ?? {} },
+      };
+      await window.spark.kv.set(key, [log, ...(await readAll())]);
+      return log;
+    },
+    async list({ limit = 50, cursor, ...filters }) {
+      const logs = (await readAll()).filter(log => matchesAuditLogQuery(log, filters));
+      const start = cursor ? logs.findIndex(log => log.logId === cursor) + 1 : 0;
+      const page = logs.slice(start, start + limit);
+      const last = page[page.length - 1];
+      return {
+        logs: page,
+        nextCursor: last && start + page.length < logs.length ? last.logId : null,
+      };
+    },
   };
-  
-  const allLogs = [newEntry, ...existingLogs];
-  
-  // Keep only last 100 entries
-  const trimmedLogs = allLogs.slice(0, 100);
-  
-  await window.spark.kv.set('audit_logs', trimmedLogs);
 }
 
-// Export writeAuditLog as an alias for compatibility
-export const writeAuditLog = addAuditLog;
+let auditLogService = createAuditLogService(createKvAuditBackend());
+
+export function setAuditLogBackend(backend: AuditLogBackend) {
+  auditLogService = createAuditLogService(backend);
+}
+
+// With Firebase configured, a signed-in user's audit logs go to the governance
+// ledger through the callables; KV is used while signed out or offline
+if (firebase) {
+  const { auth, functions } = firebase;
+  const callableBackend = createCallableAuditBackend({
+    writeAuditLog: httpsCallable<Omit<AuditLogInput, 'userId'>, AuditLog>(functions, 'writeAuditLog'),
+    listAuditLogs: httpsCallable<AuditLogQuery, AuditLogPage>(functions, 'listAuditLogs'),
+  });
+  onAuthStateChanged(auth, user => {
+    setAuditLogBackend(user ? callableBackend : createKvAuditBackend());
+  });
+}
+
+// Each action is checked against the payload it declares in AUDIT_ACTION_CATALOGUE
+export function writeAuditLog<A extends AuditAction>(entry: AuditLogEntry<A>): Promise<AuditLog> {
+  return auditLogService.writeAuditLog(entry);
+}
+
+// Export addAuditLog as an alias for compatibility
+export const addAuditLog = writeAuditLog;
+
+export function listAuditLogs(query?: AuditLogQuery) {
+  return auditLogService.listAuditLogs(query);
+}
+
+export function getRecentAuditLogs(count: number): Promise<AuditLog[]> {
+  return auditLogService.getRecentAuditLogs(count);
+}
 
 export function useAuditLog() {
   return {
-    writeAuditLog: addAuditLog
+    writeAuditLog,
+    listAuditLogs,
+    getRecentAuditLogs,
   };
 }
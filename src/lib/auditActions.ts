@@ -0,0 +1,214 @@
+// src/lib/auditActions.ts
+import type { AuditLog, AuditLogInput, ClientAuditAction } from '@shared/auditLog';
+import { CAMPAIGN_TRANSITIONS } from '@shared/campaignLifecycle';
+import type { Store, User } from '@/models/core';
+import type { Activity } from '@/models/planner';
+
+export const AUDIT_ACTIONS = {
+  USER_CREATED: 'USER_CREATED',
+  USER_UPDATED: 'USER_UPDATED',
+  USER_DELETED: 'USER_DELETED',
+  STORE_IMPORTED_SUMMARY: 'STORE_IMPORTED_SUMMARY',
+  PLANNER_ACTIVITY_EXPORTED: 'PLANNER_ACTIVITY_EXPORTED',
+  EXPORT_FAILURE: 'EXPORT_FAILURE',
+  AI_SIMULATE_RUN: 'AI_SIMULATE_RUN',
+  AI_SIMULATE_APPROVED: 'AI_SIMULATE_APPROVED',
+  AI_SIMULATE_REJECTED: 'AI_SIMULATE_REJECTED',
+  AI_RULE_SET: 'AI_RULE_SET',
+  ACTIVITY_CREATED: 'ACTIVITY_CREATED',
+  ACTIVITY_UPDATED: 'ACTIVITY_UPDATED',
+  STORE_IMPORTED: 'STORE_IMPORTED',
+} as const satisfies { [A in ClientAuditAction]: A }; // writeAuditLog accepts only these
+
+export type AuditAction = keyof typeof AUDIT_ACTIONS;
+
+type SimulationState = Record<string, any>;
+
+// The before/after payload each action must be logged with
+export interface AuditActionPayloads {
+  USER_CREATED: { after: Partial<User> };
+  USER_UPDATED: { before: Partial<User>; after: Partial<User> };
+  USER_DELETED: { before?: Partial<User> };
+  STORE_IMPORTED_SUMMARY: {
+    after: { importedCount: number; storeIds?: Array<Store['storeId']>; timestamp: string };
+  };
+  PLANNER_ACTIVITY_EXPORTED: {
+    after: { exportedCount: number; fileName: string; timestamp: string };
+  };
+  EXPORT_FAILURE: {
+    after: {
+      errors?: string[] | undefined;
+      invalidUsers?: string[] | undefined;
+      offenderUIDs: string[];
+      totalActivities: number;
+      timestamp: string;
+    };
+  };
+  AI_SIMULATE_RUN: {
+    before: Record<string, never>;
+    after: { simulationPrompt: string; diff: { before: SimulationState; after: SimulationState } };
+  };
+  AI_SIMULATE_APPROVED: { before: SimulationState; after: SimulationState & { approvedBy: string } };
+  AI_SIMULATE_REJECTED: { before: SimulationState; after: { rejected: true; rejectedAt: string } };
+  AI_RULE_SET: { before: Record<string, never>; after: { raw: string } };
+  ACTIVITY_CREATED: { after: Partial<Activity> };
+  ACTIVITY_UPDATED: { before: Partial<Activity>; after: Partial<Activity> };
+  STORE_IMPORTED: { targetIds: Array<Store['storeId']>; after: { importedCount: number } };
+}
+
+export type AuditLogEntry<A extends AuditAction> = Omit<
+  AuditLogInput,
+  'action' | 'before' | 'after'
+> & { action: A } & AuditActionPayloads[A];
+
+export type AuditTargetKind = 'user' | 'store' | 'activity' | 'campaign' | 'planner' | 'simulation' | 'governance';
+
+interface AuditActionDefinition<A extends AuditAction> {
+  label: string;
+  targetKind: AuditTargetKind;
+  // One-line description for the audit viewer; payloads of older entries may be partial
+  summarize(payload: Partial<AuditActionPayloads[A]>): string;
+}
+
+const userName = (user?: Partial<User>) =>
+  user?.displayName || [user?.firstName, user?.lastName].filter(Boolean).join(' ') || user?.uid || 'user';
+
+const activityName = (activity?: Partial<Activity>) =>
+  activity?.contentPacket?.subjectLine || `${activity?.channel ?? 'planner'} activity`;
+
+const changedFields = (before?: object, after?: object) =>
+  Object.keys(after ?? {}).filter(
+    key => JSON.stringify((before as any)?.[key]) !== JSON.stringify((after as any)?.[key])
+  );
+
+export const AUDIT_ACTION_CATALOGUE: { [A in AuditAction]: AuditActionDefinition<A> } = {
+  USER_CREATED: {
+    label: 'User created',
+    targetKind: 'user',
+    summarize: ({ after }) => `Created ${userName(after)}`,
+  },
+  USER_UPDATED: {
+    label: 'User updated',
+    targetKind: 'user',
+    summarize: ({ before, after }) => {
+      const changed = changedFields(before, after);
+      return changed.length
+        ? `Updated ${userName(after)}: ${changed.join(', ')}`
+        : `Saved ${userName(after)} without changes`;
+    },
+  },
+  USER_DELETED: {
+    label: 'User deleted',
+    targetKind: 'user',
+    summarize: ({ before }) => `Deleted ${before ? userName(before) : 'user'}`,
+  },
+  STORE_IMPORTED_SUMMARY: {
+    label: 'Stores imported',
+    targetKind: 'store',
+    summarize: ({ after }) => `Imported ${after?.importedCount ?? 0} stores`,
+  },
+  PLANNER_ACTIVITY_EXPORTED: {
+    label: 'Planner exported',
+    targetKind: 'planner',
+    summarize: ({ after }) =>
+      `Exported ${after?.exportedCount ?? 0} activities to ${after?.fileName ?? 'Wrike'}`,
+  },
+  EXPORT_FAILURE: {
+    label: 'Export failed',
+    targetKind: 'planner',
+    summarize: ({ after }) => {
+      const problems = (after?.errors?.length ?? 0) + (after?.invalidUsers?.length ?? 0);
+      return `Export blocked by ${problems} problem${problems === 1 ? '' : 's'}`;
+    },
+  },
+  AI_SIMULATE_RUN: {
+    label: 'Simulation run',
+    targetKind: 'simulation',
+    summarize: ({ after }) => `Simulated "${after?.simulationPrompt ?? ''}"`,
+  },
+  AI_SIMULATE_APPROVED: {
+    label: 'Simulation approved',
+    targetKind: 'simulation',
+    summarize: ({ after }) => `Approved by ${after?.approvedBy ?? 'unknown'}`,
+  },
+  AI_SIMULATE_REJECTED: {
+    label: 'Simulation rejected',
+    targetKind: 'simulation',
+    summarize: () => 'Simulation rejected',
+  },
+  AI_RULE_SET: {
+    label: 'Rule set',
+    targetKind: 'governance',
+    summarize: ({ after }) => `Set rule: ${after?.raw ?? ''}`,
+  },
+  ACTIVITY_CREATED: {
+    label: 'Activity created',
+    targetKind: 'activity',
+    summarize: ({ after }) => `Created "${activityName(after)}"${after?.date ? ` on ${after.date}` : ''}`,
+  },
+  ACTIVITY_UPDATED: {
+    label: 'Activity updated',
+    targetKind: 'activity',
+    summarize: ({ before, after }) => {
+      const changed = changedFields(before, after);
+      return changed.length
+        ? `Updated "${activityName(after)}": ${changed.join(', ')}`
+        : `Saved "${activityName(after)}" without changes`;
+    },
+  },
+  STORE_IMPORTED: {
+    label: 'Stores imported',
+    targetKind: 'store',
+    summarize: ({ after }) => {
+      const count = after?.importedCount ?? 0;
+      return `Imported ${count} store${count === 1 ? '' : 's'}`;
+    },
+  },
+};
+
+export function isAuditAction(action: string): action is AuditAction {
+  return Object.prototype.hasOwnProperty.call(AUDIT_ACTION_CATALOGUE, action);
+}
+
+export function auditActionLabel(action: string): string {
+  if (isAuditAction(action)) return AUDIT_ACTION_CATALOGUE[action].label;
+  const label = action.replace(/_/g, ' ').toLowerCase();
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+const CAMPAIGN_AUDIT_ACTIONS = new Set(Object.values(CAMPAIGN_TRANSITIONS).map(t => t.auditAction));
+
+// Functions audit campaign lifecycle and review decisions against the campaign id
+function isCampaignEntry(log: AuditLog): boolean {
+  return (
+    log.source === 'backend' &&
+    (CAMPAIGN_AUDIT_ACTIONS.has(log.action) ||
+      /^(campaign|review)_/.test(log.action) ||
+      typeof (log.diff.after as Record<string, unknown>)['reviewId'] === 'string')
+  );
+}
+
+/**
+ * Label and summary for any audit log, including actions written by functions
+ * (e.g. `campaign_approve`), which are outside this catalogue.
+ */
+export function describeAuditLog(log: AuditLog): {
+  label: string;
+  targetKind: AuditTargetKind | null;
+  summary: string;
+} {
+  if (!isAuditAction(log.action)) {
+    return {
+      label: auditActionLabel(log.action),
+      targetKind: isCampaignEntry(log) ? 'campaign' : null,
+      summary: '',
+    };
+  }
+
+  const definition = AUDIT_ACTION_CATALOGUE[log.action] as AuditActionDefinition<AuditAction>;
+  return {
+    label: definition.label,
+    targetKind: definition.targetKind,
+    summary: definition.summarize(log.diff as Partial<AuditActionPayloads[AuditAction]>),
+  };
+}
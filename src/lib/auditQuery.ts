@@ -0,0 +1,111 @@
+// src/lib/auditQuery.ts
+import {
+  matchesAuditLogQuery,
+  type AuditLog,
+  type AuditLogQuery,
+  type AuditSource,
+} from '@shared/auditLog';
+import { describeAuditLog } from './auditActions';
+
+export interface AuditLogFilters {
+  actor?: string; // uid
+  action?: string;
+  target?: string; // targetId
+  source?: AuditSource;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  search?: string; // full text over action, summary, ids and the diff
+}
+
+function searchableText(log: AuditLog): string {
+  const { label, summary } = describeAuditLog(log);
+  return [log.action, label, summary, log.userId, log.targetId, log.source, JSON.stringify(log.diff)]
+    .join(' ')
+    .toLowerCase();
+}
+
+// Filters `listAuditLogs` applies before paging; the rest are applied to loaded pages
+export function serverAuditFilters({ actor, target, from, to }: {
+  [K in 'actor' | 'target' | 'from' | 'to']?: string | undefined;
+}): AuditLogQuery {
+  return {
+    ...(actor ? { actor } : {}),
+    ...(target ? { target } : {}),
+    ...(from ? { from } : {}),
+    ...(to ? { to } : {}),
+  };
+}
+
+export function matchesAuditFilters(log: AuditLog, filters: AuditLogFilters): boolean {
+  if (!matchesAuditLogQuery(log, serverAuditFilters(filters))) return false;
+  if (filters.action && log.action !== filters.action) return false;
+  if (filters.source && log.source !== filters.source) return false;
+
+  const terms = (filters.search ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length) {
+    const text = searchableText(log);
+    return terms.every(term => text.includes(term));
+  }
+  return true;
+}
+
+export type AuditDiffChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface AuditDiffRow {
+  path: string; // e.g. "activity.day"
+  before: unknown;
+  after: unknown;
+  change: AuditDiffChange;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+function flatten(value: unknown, prefix: string, into: Map<string, unknown>) {
+  if (isPlainObject(value) && Object.keys(value).length > 0) {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, prefix ? `${prefix}.${key}` : key, into);
+    }
+  } else if (prefix) {
+    into.set(prefix, value);
+  }
+}
+
+/**
+ * Side-by-side rows for a before/after diff. Nested objects are flattened to
+ * dotted paths; arrays are compared whole.
+ */
+export function diffAuditValues(before: object, after: object): AuditDiffRow[] {
+  const beforeFields = new Map<string, unknown>();
+  const afterFields = new Map<string, unknown>();
+  flatten(before, '', beforeFields);
+  flatten(after, '', afterFields);
+
+  const paths = [...new Set([...beforeFields.keys(), ...afterFields.keys()])].sort();
+  return paths.map(path => {
+    const inBefore = beforeFields.has(path);
+    const inAfter = afterFields.has(path);
+    const previous = beforeFields.get(path);
+    const next = afterFields.get(path);
+    const change: AuditDiffChange = !inBefore
+      ? 'added'
+      : !inAfter
+        ? 'removed'
+        : JSON.stringify(previous) === JSON.stringify(next)
+          ? 'unchanged'
+          : 'changed';
+    return { path, before: previous, after: next, change };
+  });
+}
+
+// Deep links: ?view=audit&target=<id> opens the explorer filtered to one target
+export function auditHistoryHref(targetId: string): string {
+  return `?view=audit&target=${encodeURIComponent(targetId)}`;
+}
+
+export function readAuditLink(search: string): AuditLogFilters | null {
+  const params = new URLSearchParams(search);
+  if (params.get('view') !== 'audit') return null;
+  const target = params.get('target');
+  return target ? { target } : {};
+}
@@ -0,0 +1,33 @@
+import type { Activity } from '@/models/planner';
+import {
+  DEFAULT_CONTENT_LINT,
+  SUBJECT_LINE_FIELD,
+  contentLintApplies,
+  lintContent,
+  type ContentLintConfig,
+  type LintFinding,
+} from '@shared/contentLint';
+
+// The lint rules themselves are shared with validateCampaign
+export * from '@shared/contentLint';
+export type { LintFinding as ValidationFinding } from '@shared/contentLint';
+
+/**
+ * Lint a planner activity's content packet
+ * @param activity - Activity being edited (partial while the form is incomplete)
+ * @param config - Lint policy of the published rule pack, defaults to the built-in policy
+ * @returns Findings anchored to contentPacket.* field paths; none when the pack
+ *   switches lint off for drafts
+ */
+export function lintActivity(
+  activity: Pick<Activity, 'channel' | 'contentPacket'>,
+  config: ContentLintConfig = DEFAULT_CONTENT_LINT
+): LintFinding[] {
+  if (!contentLintApplies(config, 'draft')) return [];
+
+  return lintContent(config, {
+    channel: activity.channel,
+    fields: { [SUBJECT_LINE_FIELD]: activity.contentPacket.subjectLine },
+    hashtags: activity.contentPacket.hashtags ?? [],
+  });
+}
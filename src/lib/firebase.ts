@@ -0,0 +1,36 @@
+import { initializeApp, getApps, type FirebaseApp } from 'firebase/app';
+import { getAuth } from 'firebase/auth';
+import { getFirestore } from 'firebase/firestore';
+import { getFunctions } from 'firebase/functions';
+
+// The Spark app runs on KV alone. Given the same VITE_FIREBASE_* settings as
+// apps/web it also reaches the governance callables and rule packs; callers
+// fall back to their offline behaviour while `firebase` is null.
+const env = (import.meta as any).env || {};
+
+function createFirebase() {
+  if (!env.VITE_FIREBASE_PROJECT_ID) return null;
+
+  const cfg = {
+    apiKey: env.VITE_FIREBASE_API_KEY,
+    authDomain: env.VITE_FIREBASE_AUTH_DOMAIN,
+    projectId: env.VITE_FIREBASE_PROJECT_ID,
+    storageBucket: env.VITE_FIREBASE_STORAGE_BUCKET,
+    messagingSenderId: env.VITE_FIREBASE_MESSAGING_SENDER_ID,
+    appId: env.VITE_FIREBASE_APP_ID,
+  } as const;
+
+  const existing = getApps()[0] as FirebaseApp | undefined;
+  const app: FirebaseApp = existing ?? initializeApp(cfg);
+
+  return {
+    app,
+    auth: getAuth(app),
+    db: getFirestore(app),
+    functions: getFunctions(app),
+  } as const;
+}
+
+export const firebase = createFirebase();
+
+export const isFirebaseConfigured = () => firebase !== null;
@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { collection, getDocs, limit, orderBy, query, where } from 'firebase/firestore';
+import { resolveContentLint, type ContentLintConfig } from '@shared/contentLint';
+import { firebase } from '@/lib/firebase';
+import type { Blackout } from '@/models/planner';
+
+// The parts of the active governance rule pack the Spark app applies itself
+export interface ClientRulePack {
+  version: number;
+  contentLint: ContentLintConfig;
+  blackouts: Blackout[]; // enabled calendarRules.blackouts, shaded in the planner
+}
+
+function toBlackouts(calendarRules: any): Blackout[] {
+  const rules: any[] = Array.isArray(calendarRules?.blackouts) ? calendarRules.blackouts : [];
+  return rules
+    .filter(rule => rule.enabled !== false)
+    .map(rule => ({
+      id: String(rule.id),
+      name: String(rule.name),
+      start: String(rule.start),
+      end: String(rule.end),
+      channels: Array.isArray(rule.channels) ? rule.channels : [],
+    }));
+}
+
+let activeRulePack: Promise<ClientRulePack | null> | null = null;
+
+/**
+ * Read the rule pack validateCampaign enforces: the highest-versioned active
+ * `governanceRules` doc. Resolves to null offline, so callers keep their
+ * built-in defaults. Loaded once per session; published packs are immutable.
+ */
+export function loadActiveRulePack(): Promise<ClientRulePack | null> {
+  if (!firebase) return Promise.resolve(null);
+
+  activeRulePack ??= getDocs(
+    query(
+      collection(firebase.db, 'governanceRules'),
+      where('active', '==', true),
+      orderBy('version', 'desc'),
+      limit(1)
+    )
+  )
+    .then(snapshot => {
+      const data = snapshot.docs[0]?.data();
+      if (!data) return null;
+      return {
+        version: Number(data['version'] ?? 0),
+        contentLint: resolveContentLint(data['contentLint']),
+        blackouts: toBlackouts(data['calendarRules']),
+      };
+    })
+    .catch(error => {
+      console.error('Failed to load the governance rule pack:', error);
+      activeRulePack = null;
+      return null;
+    });
+
+  return activeRulePack;
+}
+
+export function useActiveRulePack(): ClientRulePack | null {
+  const [rulePack, setRulePack] = useState<ClientRulePack | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadActiveRulePack().then(pack => {
+      if (!cancelled) setRulePack(pack);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return rulePack;
+}
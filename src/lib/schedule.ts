@@ -0,0 +1,98 @@
+import { httpsCallable } from 'firebase/functions';
+import type { Activity, Week } from '@/models/planner';
+import type { ValidationFinding } from '@/lib/contentLint';
+import { firebase } from '@/lib/firebase';
+
+const DAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+export interface PlannerDay {
+  dayName: string;
+  date: string; // YYYY-MM-DD
+  activities: Activity[];
+}
+
+export type ScheduleChange = 'added' | 'moved';
+
+interface ValidateScheduleRequest {
+  weeks: Array<Pick<Week, 'weekId' | 'programId' | 'dayCards'>>;
+  changedActivityId?: string;
+  change?: ScheduleChange;
+}
+
+interface ValidateScheduleResult {
+  success: boolean;
+  findings: ValidationFinding[];
+  rulePackVersion: number;
+}
+
+const toIsoDay = (date: Date) => date.toISOString().split('T')[0] ?? '';
+
+// ISO 8601 week id in the Week model's "2025-w42" form
+function toWeekId(isoDay: string): string {
+  const date = new Date(`${isoDay}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 3 - ((date.getUTCDay() + 6) % 7));
+  const year = date.getUTCFullYear();
+  const week = Math.ceil(((date.getTime() - Date.UTC(year, 0, 1)) / 86400000 + 1) / 7);
+  return `${year}-w${week}`;
+}
+
+/**
+ * The Monday-to-Sunday week containing `today`. Activities sit on the day
+ * their `date` names; undated ones are still spread across the week.
+ */
+export function buildPlannerWeek(activities: Activity[], today = new Date()): PlannerDay[] {
+  return DAY_NAMES.map((dayName, index) => {
+    const date = new Date(today);
+    date.setDate(today.getDate() - today.getDay() + index + 1);
+    const isoDate = toIsoDay(date);
+
+    return {
+      dayName,
+      date: isoDate,
+      activities: activities.filter((activity, activityIndex) =>
+        activity.date ? activity.date === isoDate : activityIndex % 7 === index
+      ),
+    };
+  });
+}
+
+/**
+ * Run the cadence and calendar rules for the week after `activity` is added
+ * or moved. Resolves to null when the governance callables are unreachable,
+ * so callers can tell "no findings" from "not checked".
+ */
+export async function checkSchedule(
+  programId: string,
+  days: PlannerDay[],
+  activity: Activity,
+  change?: ScheduleChange
+): Promise<ValidationFinding[] | null> {
+  if (!firebase) return null;
+
+  const dayCards: Week['dayCards'] = {};
+  for (const day of days) {
+    const others = day.activities.filter(a => a.activityId !== activity.activityId);
+    const placed = (activity.date ?? '') === day.date;
+    dayCards[day.date] = {
+      date: day.date,
+      activities: placed ? [...others, activity] : others,
+    };
+  }
+
+  const validateSchedule = httpsCallable<ValidateScheduleRequest, ValidateScheduleResult>(
+    firebase.functions,
+    'validateSchedule'
+  );
+
+  try {
+    const result = await validateSchedule({
+      weeks: [{ weekId: toWeekId(days[0]?.date ?? toIsoDay(new Date())), programId, dayCards }],
+      changedActivityId: activity.activityId,
+      ...(change ? { change } : {}),
+    });
+    return result.data.findings;
+  } catch (error) {
+    console.error('Schedule validation failed:', error);
+    return null;
+  }
+}
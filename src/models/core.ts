@@ -55,15 +55,5 @@ export interface Tier {
   description?: string;
 }
 
-export interface AuditLog {
-  logId: string;
-  timestamp: any;
-  userId: string; // actor uid
-  action: string; // e.g., CREATE_USER, UPDATE_STORE, EXPORT_WRIKE
-  targetId: string; // uid or store/activity id
-  source: 'ui' | 'chat' | 'backend';
-  diff: {
-    before: object;
-    after: object;
-  };
-}
\ No newline at end of file
+// One shape for client and function audit entries (functions/src/shared/auditLog.ts)
+export type { AuditLog, AuditSource } from '@shared/auditLog';
@@ -3,11 +3,21 @@ export interface Program {
   name: string;
   seasonTag?: string;
   status: 'active' | 'archived';
+  budgetEnvelope?: {
+    amount: number; // cap on budget committed by approved/active campaigns
+    currency?: string; // default USD
+    onExceed?: 'block' | 'warn'; // default block
+    warnAtRatio?: number; // default 0.9
+    byStore?: Record<string, number>; // storeId -> allocation
+    byRegion?: Record<string, number>; // region -> allocation
+  };
 }
 
 export interface Activity {
   activityId: string;
   channel: 'Email' | 'Social' | 'Banner' | 'Push';
+  audience?: string; // segment used by cadence caps
+  date?: string; // YYYY-MM-DD of the DayCard it is scheduled on
   contentPacket: {
     subjectLine?: string;
     hashtags?: string[];
@@ -17,6 +27,15 @@ export interface Activity {
   status: 'draft' | 'approved' | 'exported';
 }
 
+// Mirrors BlackoutRule in the governance rule pack (calendarRules.blackouts)
+export interface Blackout {
+  id: string;
+  name: string; // e.g. "Product recall", "Christmas Day"
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, inclusive
+  channels: Activity['channel'][]; // empty = all channels
+}
+
 export interface DayCard {
   date: any; // Firestore Timestamp (local day)
   activities: Activity[]; // UI-local; canonical activities stored as subcollection docs
@@ -19,7 +19,9 @@ export default defineConfig({
   ],
   resolve: {
     alias: {
-      '@': resolve(projectRoot, 'src')
+      '@': resolve(projectRoot, 'src'),
+      // Dependency-free modules shared with functions, e.g. the audit log shape
+      '@shared': resolve(projectRoot, 'functions/src/shared')
     }
   },
 });